@@ -12,9 +12,14 @@ import { AddBackupPlan } from "@/pages/AddBackupPlan"
 import { BackupPlansList } from "@/pages/BackupPlansList"
 import { EditBackupPlan } from "@/pages/EditBackupPlan"
 import { BackupLogs } from "@/pages/BackupLogs"
+import { ExecutionComparison } from "@/pages/ExecutionComparison"
+import { RestoreWizard } from "@/pages/RestoreWizard"
+import { SnapshotTimeline } from "@/pages/SnapshotTimeline"
 import { AllLogs } from "@/pages/AllLogs"
+import { FileHistory } from "@/pages/FileHistory"
 import { About } from "@/pages/About"
 import { Users } from "@/pages/Users"
+import { TerminalSessions } from "@/pages/TerminalSessions"
 
 function App() {
   return (
@@ -34,10 +39,15 @@ function App() {
           <Route path="/backup-plans/:planId/edit" element={<EditBackupPlan />} />
           <Route path="/backup-plans/:planId/logs" element={<BackupLogs />} />
           <Route path="/backup-plans/:planId/logs/:executionId" element={<BackupLogs />} />
+          <Route path="/backup-plans/:planId/compare" element={<ExecutionComparison />} />
+          <Route path="/backup-plans/:planId/restore" element={<RestoreWizard />} />
+          <Route path="/backup-plans/:planId/snapshots" element={<SnapshotTimeline />} />
           <Route path="/logs" element={<AllLogs />} />
+          <Route path="/logs/history" element={<FileHistory />} />
           <Route path="/logs/:executionId" element={<AllLogs />} />
           <Route path="/profile" element={<Profile />} />
           <Route path="/users" element={<Users />} />
+          <Route path="/terminal-sessions" element={<TerminalSessions />} />
           <Route path="/settings" element={<Settings />} />
           <Route path="/about" element={<About />} />
         </Route>
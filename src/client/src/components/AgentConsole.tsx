@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react"
+import { Link } from "react-router-dom"
+import { Plus, RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Terminal } from "@/components/Terminal"
+import { apiGet } from "@/lib/api"
+import { describeSessionResult, type TerminalSession } from "@/lib/terminalSessions"
+
+// Sessions are separate SSH connections, a few tabs are plenty
+const MAX_TABS = 8
+
+interface ConsoleTab {
+  key: number
+  title: string
+  exitCode: number | null
+}
+
+interface AgentConsoleProps {
+  agentId: string
+}
+
+/**
+ * Web console of an agent: SSH sessions in tabs, and the sessions opened on it so far.
+ */
+export function AgentConsole({ agentId }: AgentConsoleProps) {
+  const [tabs, setTabs] = useState<ConsoleTab[]>([{ key: 1, title: "Session 1", exitCode: null }])
+  const [activeKey, setActiveKey] = useState(1)
+  const [nextKey, setNextKey] = useState(2)
+  const [sessions, setSessions] = useState<TerminalSession[]>([])
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false)
+  const [sessionsError, setSessionsError] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async () => {
+    setIsLoadingSessions(true)
+    setSessionsError(null)
+    try {
+      setSessions(await apiGet<TerminalSession[]>(`/api/terminal-sessions?agentId=${agentId}&limit=50`))
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to load the console sessions")
+    } finally {
+      setIsLoadingSessions(false)
+    }
+  }, [agentId])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const openTab = () => {
+    setTabs([...tabs, { key: nextKey, title: `Session ${nextKey}`, exitCode: null }])
+    setActiveKey(nextKey)
+    setNextKey(nextKey + 1)
+  }
+
+  const closeTab = (key: number) => {
+    const index = tabs.findIndex((tab) => tab.key === key)
+    const remaining = tabs.filter((tab) => tab.key !== key)
+    setTabs(remaining)
+    if (key === activeKey && remaining.length > 0) {
+      setActiveKey(remaining[Math.min(index, remaining.length - 1)].key)
+    }
+    // The session ends when its terminal unmounts, the history shows it once the server recorded it
+    setTimeout(fetchSessions, 1000)
+  }
+
+  const handleClosed = (key: number, exitCode: number) => {
+    setTabs((current) => current.map((tab) => (tab.key === key ? { ...tab, exitCode } : tab)))
+    fetchSessions()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Console</h2>
+          <p className="text-sm text-muted-foreground">
+            Shell on the agent over SSH with its stored key. Every tab is a separate session, and every session is recorded.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1 border-b">
+          {tabs.map((tab) => (
+            <div
+              key={tab.key}
+              className={`flex items-center gap-1 rounded-t-md border border-b-0 px-3 py-1.5 text-sm ${
+                tab.key === activeKey ? "bg-background font-medium" : "bg-muted text-muted-foreground"
+              }`}
+            >
+              <button type="button" onClick={() => setActiveKey(tab.key)}>
+                {tab.title}
+                {tab.exitCode !== null && " (closed)"}
+              </button>
+              <button
+                type="button"
+                onClick={() => closeTab(tab.key)}
+                className="rounded-sm p-0.5 hover:bg-accent"
+                title="Close session"
+                aria-label={`Close ${tab.title}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          <Button type="button" variant="ghost" size="sm" onClick={openTab} disabled={tabs.length >= MAX_TABS}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Session
+          </Button>
+        </div>
+
+        {tabs.length === 0 ? (
+          <p className="text-sm text-muted-foreground rounded-md border border-dashed p-3">
+            No open sessions, open one with New Session
+          </p>
+        ) : (
+          // Inactive tabs stay mounted so their sessions keep running
+          tabs.map((tab) => (
+            <Terminal
+              key={tab.key}
+              agentId={agentId}
+              className={tab.key === activeKey ? "" : "hidden"}
+              onClosed={(exitCode) => handleClosed(tab.key, exitCode)}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">Session History</h2>
+            <p className="text-sm text-muted-foreground">Who opened a console on this agent, and when</p>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={fetchSessions} disabled={isLoadingSessions}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoadingSessions ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {sessionsError && (
+          <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{sessionsError}</div>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No console sessions yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Opened</th>
+                  <th className="py-2 pr-4 font-medium">User</th>
+                  <th className="py-2 pr-4 font-medium">From</th>
+                  <th className="py-2 pr-4 font-medium">Closed</th>
+                  <th className="py-2 pr-4 font-medium">Result</th>
+                  <th className="py-2 font-medium">Recording</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((session) => (
+                  <tr key={session.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(session.startedAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4">{session.userName}</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{session.clientAddress ?? "-"}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {session.endedAt ? new Date(session.endedAt).toLocaleString() : "Open"}
+                    </td>
+                    <td className={`py-2 pr-4 ${session.error ? "text-destructive" : ""}`}>
+                      {describeSessionResult(session)}
+                    </td>
+                    <td className="py-2">
+                      <Link
+                        to={`/terminal-sessions?session=${session.id}`}
+                        className="text-sm text-primary underline-offset-4 hover:underline"
+                      >
+                        Replay
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { formatTimeAgo, type AgentHealth, type AgentHealthStatus } from "@/lib/agentHealth"
+
+const STATUS_STYLES: Record<AgentHealthStatus, { label: string; className: string; dot: string }> = {
+  Online: {
+    label: "Online",
+    className: "bg-green-500/20 text-green-600 dark:text-green-400",
+    dot: "bg-green-500",
+  },
+  Degraded: {
+    label: "Degraded",
+    className: "bg-yellow-500/20 text-yellow-700 dark:text-yellow-400",
+    dot: "bg-yellow-500",
+  },
+  Offline: {
+    label: "Offline",
+    className: "bg-red-500/20 text-red-600 dark:text-red-400",
+    dot: "bg-red-500",
+  },
+  Unknown: {
+    label: "Not checked",
+    className: "bg-muted text-muted-foreground",
+    dot: "bg-gray-400",
+  },
+}
+
+export function AgentHealthBadge({ health }: { health: AgentHealth | undefined }) {
+  const style = STATUS_STYLES[health?.status ?? "Unknown"]
+  const details = [
+    health?.latencyMs != null ? `Latency: ${health.latencyMs} ms` : null,
+    `Last check: ${formatTimeAgo(health?.lastCheckAt ?? null)}`,
+    `Last seen: ${formatTimeAgo(health?.lastSeenAt ?? null)}`,
+    health?.error ? `Error: ${health.error}` : null,
+  ].filter(Boolean)
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium ${style.className}`}
+      title={details.join("\n")}
+    >
+      <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+      {style.label}
+    </span>
+  )
+}
+
+function bucketColor(ratio: number | null): string {
+  if (ratio === null) return "fill-muted"
+  if (ratio >= 1) return "fill-green-500"
+  if (ratio > 0) return "fill-yellow-500"
+  return "fill-red-500"
+}
+
+/**
+ * One bar per hour, its height is the share of successful checks in that hour.
+ */
+export function UptimeSparkline({ health }: { health: AgentHealth | undefined }) {
+  const buckets = health?.buckets ?? []
+  if (buckets.length === 0) {
+    return <span className="text-xs text-muted-foreground">No data</span>
+  }
+
+  const barWidth = 4
+  const gap = 1
+  const height = 20
+
+  return (
+    <div className="flex items-center gap-2">
+      <svg
+        width={buckets.length * (barWidth + gap)}
+        height={height}
+        role="img"
+        aria-label={`Uptime ${health?.uptimePercent ?? 0}%`}
+      >
+        {buckets.map((ratio, index) => {
+          // Hours without checks show as a short grey stub
+          const barHeight = ratio === null ? 3 : Math.max(3, Math.round(ratio * height))
+          return (
+            <rect
+              key={index}
+              x={index * (barWidth + gap)}
+              y={height - barHeight}
+              width={barWidth}
+              height={barHeight}
+              rx={1}
+              className={bucketColor(ratio)}
+            >
+              <title>
+                {buckets.length - index}h ago: {ratio === null ? "no checks" : `${Math.round(ratio * 100)}% reachable`}
+              </title>
+            </rect>
+          )
+        })}
+      </svg>
+      {health?.uptimePercent != null && (
+        <span className="text-xs text-muted-foreground">{health.uptimePercent}%</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { apiGet, apiPost } from "@/lib/api"
+import { formatTimeAgo } from "@/lib/agentHealth"
+import { formatBytes, type AgentInventory, type AgentMount } from "@/lib/agentInventory"
+
+function usageColor(ratio: number): string {
+  if (ratio >= 0.9) return "bg-red-500"
+  if (ratio >= 0.75) return "bg-yellow-500"
+  return "bg-green-500"
+}
+
+/**
+ * Used share of the mount over the collected history, one point per collection.
+ */
+function UsageHistory({ mount }: { mount: AgentMount }) {
+  const points = mount.history.filter((point) => point.sizeBytes > 0)
+  if (points.length < 2) {
+    return <span className="text-xs text-muted-foreground">Not enough data</span>
+  }
+
+  const width = 120
+  const height = 24
+  const path = points
+    .map((point, index) => {
+      const x = (index / (points.length - 1)) * width
+      const y = height - (point.usedBytes / point.sizeBytes) * height
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(" ")
+  const first = points[0]
+  const last = points[points.length - 1]
+
+  return (
+    <svg width={width} height={height} role="img" aria-label={`Usage history of ${mount.mountPoint}`}>
+      <title>
+        {new Date(first.collectedAt).toLocaleDateString()}: {formatBytes(first.usedBytes)} used{"\n"}
+        {new Date(last.collectedAt).toLocaleDateString()}: {formatBytes(last.usedBytes)} used
+      </title>
+      <path d={path} fill="none" strokeWidth={1.5} className="stroke-primary" />
+    </svg>
+  )
+}
+
+export function AgentInventoryPanel({ agentId }: { agentId: string }) {
+  const [inventory, setInventory] = useState<AgentInventory | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchInventory = async () => {
+      setIsLoading(true)
+      try {
+        setInventory(await apiGet<AgentInventory>(`/api/agent/${agentId}/inventory`))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load the inventory")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchInventory()
+  }, [agentId])
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    setError(null)
+    try {
+      setInventory(await apiPost<AgentInventory>(`/api/agent/${agentId}/inventory/refresh`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to collect the inventory")
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  const details: { label: string; value: string }[] = inventory?.collectedAt
+    ? [
+        { label: "Operating System", value: inventory.distribution ?? "Unknown" },
+        { label: "Kernel", value: inventory.kernel ?? "Unknown" },
+        {
+          label: "rsync",
+          value: inventory.rsyncVersion
+            ? `${inventory.rsyncVersion}${inventory.rsyncProtocol ? ` (protocol ${inventory.rsyncProtocol})` : ""}`
+            : "Not installed",
+        },
+        {
+          label: "CPU",
+          value: [inventory.cpuCount ? `${inventory.cpuCount} cores` : null, inventory.cpuModel]
+            .filter(Boolean)
+            .join(", ") || "Unknown",
+        },
+        {
+          label: "Memory",
+          value: inventory.memoryTotalBytes
+            ? `${formatBytes(inventory.memoryTotalBytes)} total${
+                inventory.memoryAvailableBytes != null ? `, ${formatBytes(inventory.memoryAvailableBytes)} available` : ""
+              }`
+            : "Unknown",
+        },
+      ]
+    : []
+
+  return (
+    <div className="rounded-lg border bg-card p-6 shadow-sm max-w-3xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Inventory</h2>
+          <p className="text-sm text-muted-foreground">
+            {inventory?.collectedAt
+              ? `Collected ${formatTimeAgo(inventory.collectedAt)}`
+              : "System information collected from the agent over SSH"}
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing || isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
+          {isRefreshing ? "Collecting..." : "Refresh"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading inventory...</p>
+      ) : !inventory?.collectedAt ? (
+        <p className="text-sm text-muted-foreground">
+          No inventory collected yet. Click Refresh to collect it now.
+        </p>
+      ) : (
+        <>
+          <dl className="grid gap-x-6 gap-y-2 sm:grid-cols-2 text-sm">
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <dt className="text-muted-foreground">{detail.label}</dt>
+                <dd className="font-medium break-words">{detail.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Disk Usage</h3>
+            {inventory.mounts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No filesystems reported</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Mount</th>
+                      <th className="py-2 pr-4 font-medium">Usage</th>
+                      <th className="py-2 pr-4 font-medium">Free</th>
+                      <th className="py-2 font-medium">History</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {inventory.mounts.map((mount) => {
+                      const ratio = mount.sizeBytes > 0 ? mount.usedBytes / mount.sizeBytes : 0
+                      return (
+                        <tr key={mount.mountPoint} className="border-b last:border-0">
+                          <td className="py-2 pr-4">
+                            <div className="font-mono text-xs">{mount.mountPoint}</div>
+                            <div className="text-xs text-muted-foreground">{mount.filesystem}</div>
+                          </td>
+                          <td className="py-2 pr-4 min-w-[160px]">
+                            <div className="h-2 w-full rounded-full bg-muted">
+                              <div
+                                className={`h-2 rounded-full ${usageColor(ratio)}`}
+                                style={{ width: `${Math.min(100, Math.round(ratio * 100))}%` }}
+                              />
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {formatBytes(mount.usedBytes)} of {formatBytes(mount.sizeBytes)} ({Math.round(ratio * 100)}%)
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap">{formatBytes(mount.availableBytes)}</td>
+                          <td className="py-2">
+                            <UsageHistory mount={mount} />
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Terminal as XTerm } from "@xterm/xterm"
+import { Pause, Play, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatDuration, parseResize, type Asciicast } from "@/lib/terminalSessions"
+import "@xterm/xterm/css/xterm.css"
+
+const SPEEDS = [0.5, 1, 2, 4, 8]
+
+interface AsciicastPlayerProps {
+  cast: Asciicast
+}
+
+/**
+ * Replays an asciicast recording in a read-only xterm, with play/pause, seeking and speed. Mount it
+ * with a key per recording, the playback state belongs to one recording.
+ */
+export function AsciicastPlayer({ cast }: AsciicastPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const xtermRef = useRef<XTerm | null>(null)
+  // Index of the next event to write, and the time the terminal shows
+  const nextEventRef = useRef(0)
+  const positionRef = useRef(0)
+  const [position, setPosition] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const terminal = new XTerm({
+      cols: cast.header.width,
+      rows: cast.header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      fontSize: 14,
+      fontFamily: 'Consolas, "Courier New", monospace',
+      theme: {
+        background: "#1e1e1e",
+        foreground: "#d4d4d4",
+        cursor: "#aeafad",
+      },
+    })
+    terminal.open(containerRef.current)
+    xtermRef.current = terminal
+
+    return () => {
+      xtermRef.current = null
+      terminal.dispose()
+    }
+  }, [cast])
+
+  /**
+   * Brings the terminal to the given time. Going back replays the recording from the start, xterm
+   * cannot undo output.
+   */
+  const renderTo = useCallback(
+    (time: number) => {
+      const terminal = xtermRef.current
+      if (!terminal) return
+
+      if (time < positionRef.current) {
+        terminal.reset()
+        terminal.resize(cast.header.width, cast.header.height)
+        nextEventRef.current = 0
+      }
+
+      let output = ""
+      let index = nextEventRef.current
+      while (index < cast.events.length && cast.events[index].time <= time) {
+        const event = cast.events[index]
+        if (event.type === "o") {
+          output += event.data
+        } else if (event.type === "r") {
+          const size = parseResize(event.data)
+          if (size) {
+            // Output before the size change is written at the old size
+            terminal.write(output)
+            output = ""
+            terminal.resize(size.cols, size.rows)
+          }
+        }
+        index++
+      }
+      if (output) {
+        terminal.write(output)
+      }
+
+      nextEventRef.current = index
+      positionRef.current = time
+      setPosition(time)
+    },
+    [cast]
+  )
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    let frame = 0
+    let last = performance.now()
+    const tick = (now: number) => {
+      const next = Math.min(cast.duration, positionRef.current + ((now - last) / 1000) * speed)
+      last = now
+      renderTo(next)
+      if (next >= cast.duration) {
+        setIsPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, speed, cast, renderTo])
+
+  const togglePlaying = () => {
+    if (!isPlaying && positionRef.current >= cast.duration) {
+      renderTo(0)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-auto rounded-md border bg-[#1e1e1e] p-2">
+        <div ref={containerRef} className="inline-block" />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="button" variant="outline" size="sm" onClick={togglePlaying} disabled={cast.events.length === 0}>
+          {isPlaying ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+          {isPlaying ? "Pause" : "Play"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => renderTo(0)}
+          disabled={position === 0}
+          title="Back to the start"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={cast.duration}
+          step={0.1}
+          value={position}
+          onChange={(e) => renderTo(Number(e.target.value))}
+          aria-label="Position"
+          className="flex-1 min-w-[12rem]"
+        />
+        <span className="text-sm tabular-nums text-muted-foreground">
+          {formatDuration(position)} / {formatDuration(cast.duration)}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          aria-label="Playback speed"
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
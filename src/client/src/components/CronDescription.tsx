@@ -4,9 +4,11 @@ import CronExpressionParser from "cron-parser"
 
 interface CronDescriptionProps {
   cronExpression: string
+  // IANA timezone the plan's schedule is evaluated in
+  timezone?: string
 }
 
-export function CronDescription({ cronExpression }: CronDescriptionProps) {
+export function CronDescription({ cronExpression, timezone = "UTC" }: CronDescriptionProps) {
   const { description, nextExecution, isValid } = useMemo(() => {
     if (!cronExpression || cronExpression.trim() === "") {
       return { description: null, nextExecution: null, isValid: true }
@@ -39,14 +41,14 @@ export function CronDescription({ cronExpression }: CronDescriptionProps) {
       
       const isValidCron = result !== "Invalid cron expression"
       
-      // Calculate next execution time in UTC
+      // Calculate next execution time in the plan's timezone
       let nextExec: Date | null = null
       if (isValidCron) {
         try {
           // cron-parser uses parse as a static method on CronExpressionParser
-          // Use UTC timezone to match server timezone
+          // The server evaluates the schedule in the same timezone
           const interval = CronExpressionParser.parse(cronForParsing, {
-            tz: 'UTC'
+            tz: timezone
           })
           nextExec = interval.next().toDate()
         } catch (parseError) {
@@ -67,7 +69,7 @@ export function CronDescription({ cronExpression }: CronDescriptionProps) {
         isValid: false 
       }
     }
-  }, [cronExpression])
+  }, [cronExpression, timezone])
 
   if (!description) {
     return null
@@ -82,19 +84,19 @@ export function CronDescription({ cronExpression }: CronDescriptionProps) {
     const diffHours = Math.floor(diffMs / 3600000)
     const diffDays = Math.floor(diffMs / 86400000)
     
-    // Format date and time in 24-hour format in UTC
+    // Format date and time in 24-hour format in the plan's timezone
     const dateStr = date.toLocaleDateString('en-US', { 
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
-      timeZone: 'UTC'
+      timeZone: timezone
     })
     const timeStr = date.toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit',
       hour12: false,
-      timeZone: 'UTC'
+      timeZone: timezone
     })
     
     let relativeTime: string
@@ -107,7 +109,7 @@ export function CronDescription({ cronExpression }: CronDescriptionProps) {
     } else if (diffDays < 7) {
       relativeTime = `in ${diffDays} day${diffDays !== 1 ? 's' : ''}`
     } else {
-      relativeTime = `on ${dateStr} at ${timeStr} UTC`
+      relativeTime = `on ${dateStr} at ${timeStr} ${timezone}`
     }
     
     return relativeTime
@@ -116,22 +118,22 @@ export function CronDescription({ cronExpression }: CronDescriptionProps) {
   const formatFullDateTime = (date: Date | null) => {
     if (!date) return null
     
-    // Format date and time in 24-hour format in UTC
+    // Format date and time in 24-hour format in the plan's timezone
     const dateStr = date.toLocaleDateString('en-US', { 
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
-      timeZone: 'UTC'
+      timeZone: timezone
     })
     const timeStr = date.toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit',
       hour12: false,
-      timeZone: 'UTC'
+      timeZone: timezone
     })
     
-    return `${dateStr} ${timeStr} UTC`
+    return `${dateStr} ${timeStr} ${timezone}`
   }
 
   return (
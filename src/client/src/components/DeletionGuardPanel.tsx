@@ -0,0 +1,67 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { DeletionGuardOptions } from "@/lib/deletionGuard"
+
+interface DeletionGuardPanelProps {
+  options: DeletionGuardOptions
+  onChange: (options: DeletionGuardOptions) => void
+  // Set when the plan never deletes in the destination, the thresholds are then not checked
+  inactiveReason?: string | null
+  disabled?: boolean
+}
+
+export function DeletionGuardPanel({ options, onChange, inactiveReason, disabled }: DeletionGuardPanelProps) {
+  const update = (changes: Partial<DeletionGuardOptions>) => {
+    onChange({ ...options, ...changes })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="deletion-guard-files">Max. Deleted Files</Label>
+          <Input
+            id="deletion-guard-files"
+            type="number"
+            min={0}
+            placeholder="No limit"
+            value={options.maxFiles ?? ""}
+            onChange={(e) =>
+              update({ maxFiles: e.target.value === "" ? null : Math.max(0, parseInt(e.target.value, 10) || 0) })
+            }
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deletion-guard-percent">Max. Deleted Files (%)</Label>
+          <Input
+            id="deletion-guard-percent"
+            type="number"
+            min={1}
+            max={100}
+            step="any"
+            placeholder="No limit"
+            value={options.maxPercent ?? ""}
+            onChange={(e) =>
+              update({
+                maxPercent: e.target.value === "" ? null : Math.min(100, Math.max(0.1, parseFloat(e.target.value) || 0.1)),
+              })
+            }
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Runs whose dry-run would delete more files from the destination are blocked before anything is
+        deleted, e.g. when a disk on the agent is not mounted. Blocked runs send a high-priority
+        notification and can be reviewed and approved from the execution log.
+      </p>
+
+      {inactiveReason && (options.maxFiles !== null || options.maxPercent !== null) && (
+        <p className="text-sm text-yellow-600 dark:text-yellow-400">{inactiveReason}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { ChevronDown, ChevronRight, File, Folder } from "lucide-react"
+import { VirtualList } from "@/components/VirtualList"
+import { layoutTreemap, type DirectoryLevel, type DirectoryNode } from "@/lib/directoryTree"
+
+interface DirectoryTreeProps {
+  // Loads one directory, "" for the transfer root. Give the tree a new key when it changes.
+  loadLevel: (path: string) => Promise<DirectoryLevel>
+  height?: number
+}
+
+type TreeRow =
+  | { kind: "node"; node: DirectoryNode; depth: number }
+  | { kind: "more"; path: string; hidden: number; depth: number }
+  | { kind: "loading"; path: string; depth: number }
+
+const TREE_GRID_COLUMNS = "minmax(240px, 3fr) repeat(4, minmax(70px, 1fr)) minmax(100px, 1fr)"
+const TREE_ROW_HEIGHT = 36
+
+// Drawing area of the treemap; the cells are positioned in percent of it
+const TREEMAP_WIDTH = 300
+const TREEMAP_HEIGHT = 100
+
+const TREEMAP_COLORS = [
+  "bg-blue-500/70",
+  "bg-green-500/70",
+  "bg-amber-500/70",
+  "bg-purple-500/70",
+  "bg-pink-500/70",
+  "bg-teal-500/70",
+  "bg-orange-500/70",
+  "bg-indigo-500/70",
+]
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 B"
+
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
+}
+
+function parentPath(path: string): string {
+  const segments = path.split("/").filter(Boolean)
+  return segments.slice(0, -1).map((segment) => `${segment}/`).join("")
+}
+
+/**
+ * Changes of an execution or simulation summed up per directory: an expandable tree with the
+ * files copied, deleted and errored and the bytes copied below each folder, and a treemap of where
+ * the bytes of the directory last expanded went. Directories are loaded as they are expanded.
+ */
+export function DirectoryTree({ loadLevel, height = 480 }: DirectoryTreeProps) {
+  const [levels, setLevels] = useState<Record<string, DirectoryLevel>>({})
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [focus, setFocus] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  // Directories asked for, so expanding one twice does not load it twice
+  const requested = useRef(new Set<string>())
+
+  const load = useCallback(
+    async (path: string) => {
+      if (requested.current.has(path)) return
+      requested.current.add(path)
+
+      try {
+        const level = await loadLevel(path)
+        setLevels((prev) => ({ ...prev, [path]: level }))
+      } catch (err) {
+        requested.current.delete(path)
+        setError(err instanceof Error ? err.message : "Failed to load the directory")
+      }
+    },
+    [loadLevel]
+  )
+
+  useEffect(() => {
+    load("")
+  }, [load])
+
+  const toggle = (node: DirectoryNode) => {
+    if (!node.isDirectory) return
+
+    if (expanded.has(node.path)) {
+      setExpanded((prev) => {
+        const next = new Set(prev)
+        for (const path of prev) {
+          if (path.startsWith(node.path)) next.delete(path)
+        }
+        return next
+      })
+      if (focus.startsWith(node.path)) setFocus(parentPath(node.path))
+    } else {
+      setExpanded((prev) => new Set(prev).add(node.path))
+      setFocus(node.path)
+      setError(null)
+      load(node.path)
+    }
+  }
+
+  // Opens a directory and its parents, for a treemap cell or breadcrumb
+  const focusOn = (path: string) => {
+    setFocus(path)
+    setError(null)
+    const segments = path.split("/").filter(Boolean)
+    const paths = segments.map((_, i) => segments.slice(0, i + 1).map((segment) => `${segment}/`).join(""))
+    setExpanded((prev) => new Set([...prev, ...paths]))
+    paths.forEach((p) => load(p))
+  }
+
+  const rows = useMemo(() => {
+    const result: TreeRow[] = []
+    const addLevel = (path: string, depth: number) => {
+      const level = levels[path]
+      if (!level) {
+        result.push({ kind: "loading", path, depth })
+        return
+      }
+      for (const node of level.children) {
+        result.push({ kind: "node", node, depth })
+        if (node.isDirectory && expanded.has(node.path)) {
+          addLevel(node.path, depth + 1)
+        }
+      }
+      if (level.childCount > level.children.length) {
+        result.push({ kind: "more", path, hidden: level.childCount - level.children.length, depth })
+      }
+    }
+    if (levels[""]) addLevel("", 0)
+    return result
+  }, [levels, expanded])
+
+  const root = levels[""]
+  const focused = levels[focus] ?? root
+
+  // Simulations have no sizes, their treemap shows the files changed instead
+  const bySize = (focused?.totals.copiedBytes ?? 0) > 0
+  const cells = useMemo(
+    () =>
+      focused
+        ? layoutTreemap(
+            focused.children,
+            (node) => (bySize ? node.copiedBytes : node.files),
+            TREEMAP_WIDTH,
+            TREEMAP_HEIGHT
+          )
+        : [],
+    [focused, bySize]
+  )
+
+  if (!root) {
+    return error ? (
+      <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{error}</div>
+    ) : (
+      <p className="text-sm text-muted-foreground">Loading directories...</p>
+    )
+  }
+
+  if (root.children.length === 0) {
+    return <p className="text-sm text-muted-foreground">No file changes to summarize</p>
+  }
+
+  const breadcrumbs = focused.path.split("/").filter(Boolean)
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <div className="flex items-center gap-1 min-w-0 truncate">
+            <button type="button" className="hover:underline" onClick={() => setFocus("")}>
+              All
+            </button>
+            {breadcrumbs.map((segment, i) => {
+              const path = breadcrumbs.slice(0, i + 1).map((s) => `${s}/`).join("")
+              return (
+                <span key={path} className="flex items-center gap-1">
+                  <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                  <button type="button" className="hover:underline" onClick={() => focusOn(path)}>
+                    {segment}
+                  </button>
+                </span>
+              )
+            })}
+          </div>
+          <p className="text-muted-foreground whitespace-nowrap">
+            {bySize
+              ? `${formatFileSize(focused.totals.copiedBytes)} copied`
+              : `${focused.totals.files.toLocaleString()} files changed`}
+          </p>
+        </div>
+        {cells.length === 0 ? (
+          <p className="rounded-md border p-6 text-center text-sm text-muted-foreground">
+            Nothing was copied in this directory
+          </p>
+        ) : (
+          <div
+            className="relative w-full overflow-hidden rounded-md border"
+            style={{ aspectRatio: `${TREEMAP_WIDTH} / ${TREEMAP_HEIGHT}` }}
+          >
+            {cells.map((cell, i) => {
+              const share = (cell.width * cell.height) / (TREEMAP_WIDTH * TREEMAP_HEIGHT)
+              const label = `${cell.item.path} · ${
+                bySize ? formatFileSize(cell.item.copiedBytes) : `${cell.item.files} files`
+              } (${(share * 100).toFixed(1)}%)`
+              return (
+                <button
+                  key={cell.item.path}
+                  type="button"
+                  title={label}
+                  disabled={!cell.item.isDirectory}
+                  onClick={() => focusOn(cell.item.path)}
+                  className={`absolute overflow-hidden border border-background p-1 text-left text-xs text-white ${
+                    TREEMAP_COLORS[i % TREEMAP_COLORS.length]
+                  } ${cell.item.isDirectory ? "hover:brightness-110 cursor-pointer" : "cursor-default"}`}
+                  style={{
+                    left: `${(cell.x / TREEMAP_WIDTH) * 100}%`,
+                    top: `${(cell.y / TREEMAP_HEIGHT) * 100}%`,
+                    width: `${(cell.width / TREEMAP_WIDTH) * 100}%`,
+                    height: `${(cell.height / TREEMAP_HEIGHT) * 100}%`,
+                  }}
+                >
+                  {share >= 0.02 && (
+                    <>
+                      <span className="block truncate font-medium">{cell.item.name}</span>
+                      <span className="block truncate opacity-80">
+                        {bySize ? formatFileSize(cell.item.copiedBytes) : `${cell.item.files} files`}
+                      </span>
+                    </>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border overflow-hidden">
+        <div className="overflow-x-auto">
+          <div className="min-w-[720px]">
+            <div className="grid bg-muted" style={{ gridTemplateColumns: TREE_GRID_COLUMNS }}>
+              <div className="text-left p-3 text-sm font-medium">Path</div>
+              <div className="text-left p-3 text-sm font-medium">Files</div>
+              <div className="text-left p-3 text-sm font-medium">Copied</div>
+              <div className="text-left p-3 text-sm font-medium">Deleted</div>
+              <div className="text-left p-3 text-sm font-medium">Errors</div>
+              <div className="text-left p-3 text-sm font-medium">Bytes Copied</div>
+            </div>
+            <VirtualList
+              items={rows}
+              rowHeight={TREE_ROW_HEIGHT}
+              height={Math.min(height, (rows.length + 1) * TREE_ROW_HEIGHT)}
+              getKey={(row) => (row.kind === "node" ? row.node.path : `${row.kind}:${row.path}`)}
+              renderRow={(row) =>
+                row.kind === "node" ? (
+                  <div
+                    className={`grid h-full items-center border-t hover:bg-muted/50 ${
+                      row.node.path === focused.path ? "bg-primary/10" : ""
+                    }`}
+                    style={{ gridTemplateColumns: TREE_GRID_COLUMNS }}
+                  >
+                    <div className="flex items-center gap-1 px-3 text-sm min-w-0" style={{ paddingLeft: 12 + row.depth * 16 }}>
+                      {row.node.isDirectory ? (
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 min-w-0 hover:underline"
+                          onClick={() => toggle(row.node)}
+                          aria-expanded={expanded.has(row.node.path)}
+                        >
+                          {expanded.has(row.node.path) ? (
+                            <ChevronDown className="h-4 w-4 shrink-0" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4 shrink-0" />
+                          )}
+                          <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate" title={row.node.path}>{row.node.name}</span>
+                        </button>
+                      ) : (
+                        <>
+                          <span className="w-4 shrink-0" />
+                          <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate" title={row.node.path}>{row.node.name}</span>
+                        </>
+                      )}
+                    </div>
+                    <div className="px-3 text-sm text-muted-foreground">{row.node.files.toLocaleString()}</div>
+                    <div className="px-3 text-sm text-green-600 dark:text-green-400">
+                      {row.node.copied > 0 ? row.node.copied.toLocaleString() : "-"}
+                    </div>
+                    <div className="px-3 text-sm text-red-600 dark:text-red-400">
+                      {row.node.deleted > 0 ? row.node.deleted.toLocaleString() : "-"}
+                    </div>
+                    <div className="px-3 text-sm text-orange-600 dark:text-orange-400">
+                      {row.node.errored > 0 ? row.node.errored.toLocaleString() : "-"}
+                    </div>
+                    <div className="px-3 text-sm text-muted-foreground">{formatFileSize(row.node.copiedBytes)}</div>
+                  </div>
+                ) : (
+                  <div
+                    className="flex h-full items-center border-t px-3 text-xs text-muted-foreground"
+                    style={{ paddingLeft: 32 + row.depth * 16 }}
+                  >
+                    {row.kind === "loading"
+                      ? "Loading..."
+                      : `${row.hidden.toLocaleString()} smaller entries not shown`}
+                  </div>
+                )
+              }
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { apiDownload } from "@/lib/api"
+import { appendLogFilters, LOG_EXPORT_FORMATS, type LogExportFormat, type LogFilters } from "@/lib/logExport"
+
+interface ExportLogsButtonProps {
+  // Export endpoint without query, e.g. /api/logs/export
+  endpoint: string
+  executionId?: string
+  filters: LogFilters
+  sortBy: string
+  sortOrder: "asc" | "desc"
+}
+
+/**
+ * Downloads the whole filtered result set of a log table, not only the page shown. The server
+ * streams the file and puts the execution and its statistics at the top.
+ */
+export function ExportLogsButton({ endpoint, executionId, filters, sortBy, sortOrder }: ExportLogsButtonProps) {
+  const [format, setFormat] = useState<LogExportFormat>("csv")
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ format, sortBy, sortOrder })
+      if (executionId) {
+        params.append("executionId", executionId)
+      }
+      appendLogFilters(params, filters)
+      await apiDownload(`${endpoint}?${params.toString()}`, `logs.${format}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export logs")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as LogExportFormat)}
+          disabled={isExporting}
+          aria-label="Export format"
+          className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          {LOG_EXPORT_FORMATS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -1,19 +1,19 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { apiGet } from "@/lib/api"
-import { Folder, File, ArrowLeft, X } from "lucide-react"
-
-interface FileSystemItem {
-  name: string
-  pathName: string  // Full path including filename
-  path: string      // Directory path without filename
-  type: "file" | "directory"
-  size?: number | null
-  lastModified: string
-  permissions?: string | null
-  md5?: string | null
-}
+import { formatBytes } from "@/lib/agentInventory"
+import {
+  breadcrumbs,
+  normalizePath,
+  parentPath,
+  sortItems,
+  type DiskUsage,
+  type FileSystemItem,
+  type SortColumn,
+  type SortOrder,
+} from "@/lib/fileBrowser"
+import { Folder, File, ArrowLeft, ArrowUp, ArrowDown, ChevronRight, Calculator, Loader2, X } from "lucide-react"
 
 interface FileBrowserProps {
   agentId: string
@@ -21,56 +21,113 @@ interface FileBrowserProps {
   onClose: () => void
   onSelect: (path: string) => void
   initialPath?: string
+  // Turns on multi-select: paths are checked across directories and handed over together
+  onSelectMany?: (paths: string[]) => void
 }
 
-export function FileBrowser({ agentId, open, onClose, onSelect, initialPath }: FileBrowserProps) {
+const COLUMNS: { column: SortColumn; label: string; className: string }[] = [
+  { column: "name", label: "Name", className: "flex-1 min-w-0" },
+  { column: "size", label: "Size", className: "w-28 text-right" },
+  { column: "lastModified", label: "Modified", className: "w-40 hidden sm:block" },
+  { column: "permissions", label: "Permissions", className: "w-28 hidden md:block" },
+]
+
+export function FileBrowser({ agentId, open, onClose, onSelect, initialPath, onSelectMany }: FileBrowserProps) {
   const [currentPath, setCurrentPath] = useState("/")
   const [items, setItems] = useState<FileSystemItem[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [pathHistory, setPathHistory] = useState<string[]>(["/"])
+  const [pathInput, setPathInput] = useState("/")
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [filter, setFilter] = useState("")
+  const [showHidden, setShowHidden] = useState(false)
+  const [sortOrder, setSortOrder] = useState<SortOrder>({ column: "name", descending: false })
+  const [directorySizes, setDirectorySizes] = useState<Record<string, DiskUsage | undefined>>({})
+  const [sizing, setSizing] = useState<string[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  // Listings already read, the path bar suggests their directories
+  const listingsRef = useRef(new Map<string, FileSystemItem[]>())
+
+  const multiSelect = !!onSelectMany
+
+  const loadDirectory = useCallback(
+    async (path: string) => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const data: FileSystemItem[] = await apiGet<FileSystemItem[]>(
+          `/api/agent/${agentId}/browse?dir=${encodeURIComponent(path)}`
+        )
+        listingsRef.current.set(path, data)
+        setItems(data)
+        setCurrentPath(path)
+        setPathInput(path)
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load directory")
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [agentId]
+  )
 
   useEffect(() => {
     if (open) {
       // Use initialPath if provided, otherwise default to "/"
-      // Use the path as-is - if it's a directory, it will work; if it's a file, the API will handle it
-      let startPath = "/"
-      if (initialPath) {
-        const normalizedPath = initialPath.trim()
-        if (normalizedPath) {
-          // Remove trailing slashes to normalize, but keep the path as-is
-          startPath = normalizedPath.replace(/[/\\]+$/, "") || "/"
-        }
-      }
-      setCurrentPath(startPath)
+      const startPath = initialPath?.trim() ? normalizePath(initialPath) : "/"
+      listingsRef.current.clear()
       setPathHistory([startPath])
+      setFilter("")
+      setDirectorySizes({})
+      setSelected([])
       loadDirectory(startPath)
     }
-  }, [open, agentId, initialPath])
+  }, [open, initialPath, loadDirectory])
 
-  const loadDirectory = async (path: string) => {
-    setIsLoading(true)
-    setError(null)
+  // Suggest the directories of the typed path's parent, read once the typing pauses
+  useEffect(() => {
+    if (!open || !pathInput.startsWith("/") || pathInput === currentPath) return
 
-    try {
-      const data: FileSystemItem[] = await apiGet<FileSystemItem[]>(
-        `/api/agent/${agentId}/browse?dir=${encodeURIComponent(path)}`
+    const directory = pathInput.endsWith("/") ? normalizePath(pathInput) : parentPath(pathInput)
+    const timer = setTimeout(async () => {
+      let listing = listingsRef.current.get(directory)
+      if (!listing) {
+        try {
+          listing = await apiGet<FileSystemItem[]>(`/api/agent/${agentId}/browse?dir=${encodeURIComponent(directory)}`)
+          listingsRef.current.set(directory, listing)
+        } catch {
+          return
+        }
+      }
+      setSuggestions(
+        listing
+          .filter((item) => item.type === "directory" && item.pathName.startsWith(pathInput))
+          .map((item) => item.pathName)
+          .slice(0, 50)
       )
-      setItems(data)
-      setCurrentPath(path)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load directory")
-    } finally {
-      setIsLoading(false)
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [open, pathInput, currentPath, agentId])
+
+  const navigateTo = async (path: string) => {
+    const target = normalizePath(path)
+    if (await loadDirectory(target)) {
+      setPathHistory((history) => [...history, target])
+      setFilter("")
     }
   }
 
   const handleItemClick = (item: FileSystemItem) => {
     if (item.type === "directory") {
       // For directories, use pathName (full path) to navigate into it
-      const newPath = item.pathName
-      setPathHistory([...pathHistory, newPath])
-      loadDirectory(newPath)
+      navigateTo(item.pathName)
+    } else if (multiSelect) {
+      toggleSelected(item.pathName)
     } else {
       // For files, use pathName (full path including filename)
       onSelect(item.pathName)
@@ -92,6 +149,53 @@ export function FileBrowser({ agentId, open, onClose, onSelect, initialPath }: F
     onClose()
   }
 
+  const handleSelectMany = () => {
+    onSelectMany?.(selected)
+    onClose()
+  }
+
+  const toggleSelected = (path: string) => {
+    setSelected((current) => (current.includes(path) ? current.filter((p) => p !== path) : [...current, path]))
+  }
+
+  const toggleSort = (column: SortColumn) => {
+    setSortOrder((order) => ({
+      column,
+      descending: order.column === column ? !order.descending : column !== "name",
+    }))
+  }
+
+  const calculateSize = async (path: string) => {
+    setSizing((current) => [...current, path])
+    try {
+      const usage = await apiGet<DiskUsage>(`/api/agent/${agentId}/disk-usage?path=${encodeURIComponent(path)}`)
+      setDirectorySizes((sizes) => ({ ...sizes, [path]: usage }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to calculate the size of ${path}`)
+    } finally {
+      setSizing((current) => current.filter((p) => p !== path))
+    }
+  }
+
+  // One du after the other, a dozen at once would load the agent for nothing
+  const calculateAllSizes = async () => {
+    for (const item of visibleItems) {
+      if (item.type === "directory" && !directorySizes[item.pathName]) {
+        await calculateSize(item.pathName)
+      }
+    }
+  }
+
+  const visibleItems = useMemo(() => {
+    const needle = filter.trim().toLowerCase()
+    const shown = items.filter(
+      (item) => (showHidden || !item.name.startsWith(".")) && (!needle || item.name.toLowerCase().includes(needle))
+    )
+    return sortItems(shown, sortOrder, directorySizes)
+  }, [items, filter, showHidden, sortOrder, directorySizes])
+
+  const hiddenCount = items.filter((item) => item.name.startsWith(".")).length
+
   if (!open) return null
 
   return (
@@ -100,7 +204,7 @@ export function FileBrowser({ agentId, open, onClose, onSelect, initialPath }: F
         className="fixed inset-0 bg-black/80"
         onClick={onClose}
       />
-      <div className="relative z-50 w-full max-w-2xl max-h-[80vh] bg-background border rounded-lg shadow-lg flex flex-col">
+      <div className="relative z-50 w-full max-w-4xl max-h-[85vh] bg-background border rounded-lg shadow-lg flex flex-col">
         <div className="flex items-center justify-between p-4 border-b">
           <h2 className="text-xl font-semibold">Browse File System</h2>
           <Button variant="ghost" size="sm" onClick={onClose}>
@@ -108,29 +212,93 @@ export function FileBrowser({ agentId, open, onClose, onSelect, initialPath }: F
           </Button>
         </div>
 
-        <div className="flex items-center gap-2 p-4 border-b">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleGoBack}
-            disabled={pathHistory.length <= 1 || isLoading}
-          >
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back
-          </Button>
-          <Input
-            value={currentPath}
-            readOnly
-            className="flex-1 font-mono text-sm"
-          />
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => loadDirectory(currentPath)}
-            disabled={isLoading}
-          >
-            Refresh
-          </Button>
+        <div className="space-y-3 p-4 border-b">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleGoBack}
+              disabled={pathHistory.length <= 1 || isLoading}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <form
+              className="flex-1"
+              onSubmit={(e) => {
+                e.preventDefault()
+                navigateTo(pathInput)
+              }}
+            >
+              <Input
+                value={pathInput}
+                onChange={(e) => setPathInput(e.target.value)}
+                list="file-browser-paths"
+                spellCheck={false}
+                aria-label="Path"
+                className="font-mono text-sm"
+              />
+              <datalist id="file-browser-paths">
+                {suggestions.map((suggestion) => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            </form>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => loadDirectory(currentPath)}
+              disabled={isLoading}
+            >
+              Refresh
+            </Button>
+          </div>
+
+          <nav className="flex flex-wrap items-center gap-0.5 text-sm" aria-label="Breadcrumbs">
+            {breadcrumbs(currentPath).map((crumb, index, all) => (
+              <span key={crumb.path} className="flex items-center gap-0.5">
+                {index > 1 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                <button
+                  type="button"
+                  onClick={() => navigateTo(crumb.path)}
+                  disabled={isLoading || index === all.length - 1}
+                  className="rounded px-1 font-mono hover:bg-accent disabled:hover:bg-transparent disabled:font-semibold"
+                >
+                  {crumb.name}
+                </button>
+              </span>
+            ))}
+          </nav>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by name"
+              aria-label="Filter by name"
+              className="h-9 max-w-xs"
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={showHidden}
+                onChange={(e) => setShowHidden(e.target.checked)}
+                className="h-4 w-4"
+              />
+              Show hidden files{hiddenCount > 0 && ` (${hiddenCount})`}
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={calculateAllSizes}
+              disabled={isLoading || sizing.length > 0 || !visibleItems.some((item) => item.type === "directory")}
+              title="Calculate the size of every directory shown (du)"
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              Directory Sizes
+            </Button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-auto p-4">
@@ -144,47 +312,133 @@ export function FileBrowser({ agentId, open, onClose, onSelect, initialPath }: F
             <div className="text-center py-8 text-muted-foreground">
               Loading...
             </div>
-          ) : items.length === 0 ? (
+          ) : visibleItems.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              This directory is empty
+              {items.length === 0 ? "This directory is empty" : "No items match the filter"}
             </div>
           ) : (
             <div className="space-y-1">
-              {items.map((item) => (
-                <button
-                  key={item.pathName}
-                  onClick={() => handleItemClick(item)}
-                  className="w-full flex items-center gap-3 p-2 rounded hover:bg-accent text-left transition-colors"
-                >
-                  {item.type === "directory" ? (
-                    <Folder className="h-5 w-5 text-blue-500 flex-shrink-0" />
-                  ) : (
-                    <File className="h-5 w-5 text-muted-foreground flex-shrink-0" />
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium truncate">{item.name}</div>
-                    {item.type === "file" && item.size != null && (
-                      <div className="text-xs text-muted-foreground">
-                        {((item.size ?? 0) / 1024).toFixed(2)} KB
-                      </div>
+              <div className="flex items-center gap-3 px-2 pb-1 text-xs font-medium text-muted-foreground">
+                {multiSelect && <span className="w-4" />}
+                <span className="w-5" />
+                {COLUMNS.map(({ column, label, className }) => (
+                  <button
+                    key={column}
+                    type="button"
+                    onClick={() => toggleSort(column)}
+                    className={`flex items-center gap-1 hover:text-foreground ${className} ${
+                      column === "size" ? "justify-end" : ""
+                    }`}
+                  >
+                    {label}
+                    {sortOrder.column === column &&
+                      (sortOrder.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+                  </button>
+                ))}
+              </div>
+
+              {visibleItems.map((item) => {
+                const usage = directorySizes[item.pathName]
+                const isSizing = sizing.includes(item.pathName)
+                return (
+                  <div
+                    key={item.pathName}
+                    className={`flex items-center gap-3 p-2 rounded hover:bg-accent transition-colors ${
+                      selected.includes(item.pathName) ? "bg-accent/60" : ""
+                    }`}
+                  >
+                    {multiSelect && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(item.pathName)}
+                        onChange={() => toggleSelected(item.pathName)}
+                        aria-label={`Select ${item.name}`}
+                        className="h-4 w-4 flex-shrink-0"
+                      />
                     )}
+                    <button
+                      type="button"
+                      onClick={() => handleItemClick(item)}
+                      className="flex flex-1 min-w-0 items-center gap-3 text-left"
+                    >
+                      {item.type === "directory" ? (
+                        <Folder className="h-5 w-5 text-blue-500 flex-shrink-0" />
+                      ) : (
+                        <File className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span className="flex-1 min-w-0 font-medium truncate">{item.name}</span>
+                    </button>
+                    <span className="w-28 text-right text-xs text-muted-foreground tabular-nums">
+                      {item.type === "file" ? (
+                        item.size != null ? formatBytes(item.size) : ""
+                      ) : isSizing ? (
+                        <Loader2 className="ml-auto h-3 w-3 animate-spin" />
+                      ) : usage ? (
+                        <span title={usage.complete ? undefined : "Some subdirectories could not be read"}>
+                          {formatBytes(usage.sizeBytes)}
+                          {!usage.complete && "*"}
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => calculateSize(item.pathName)}
+                          className="hover:text-foreground hover:underline"
+                        >
+                          Calculate
+                        </button>
+                      )}
+                    </span>
+                    <span className="w-40 hidden sm:block text-xs text-muted-foreground">
+                      {new Date(item.lastModified).toLocaleString()}
+                    </span>
+                    <span className="w-28 hidden md:block font-mono text-xs text-muted-foreground">
+                      {item.permissions ?? ""}
+                    </span>
                   </div>
-                </button>
-              ))}
+                )
+              })}
             </div>
           )}
         </div>
 
+        {multiSelect && selected.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 px-4 pt-3 border-t">
+            <span className="text-sm text-muted-foreground">{selected.length} selected:</span>
+            {selected.map((path) => (
+              <span key={path} className="flex items-center gap-1 rounded-md bg-muted px-2 py-0.5 font-mono text-xs">
+                {path}
+                <button type="button" onClick={() => toggleSelected(path)} aria-label={`Unselect ${path}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center justify-end gap-2 p-4 border-t">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleSelectCurrentPath}>
-            Select Current Path
-          </Button>
+          {multiSelect && (
+            <Button
+              variant="outline"
+              onClick={() => toggleSelected(currentPath)}
+              disabled={isLoading}
+            >
+              {selected.includes(currentPath) ? "Unselect Current Path" : "Add Current Path"}
+            </Button>
+          )}
+          {multiSelect ? (
+            <Button onClick={handleSelectMany} disabled={selected.length === 0}>
+              Use {selected.length} Selected
+            </Button>
+          ) : (
+            <Button onClick={handleSelectCurrentPath}>
+              Select Current Path
+            </Button>
+          )}
         </div>
       </div>
     </div>
   )
 }
-
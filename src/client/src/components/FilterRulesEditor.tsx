@@ -0,0 +1,181 @@
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FilterRulesTester } from "@/components/FilterRulesTester"
+import { toRsyncFilterRules, type FilterRule, type FilterRuleType } from "@/lib/rsyncFilters"
+import { ArrowUp, ArrowDown, Trash2, Plus, FlaskConical } from "lucide-react"
+
+const COMMON_EXCLUDES = ["node_modules/", ".cache/", "*.tmp", ".Trash*/"]
+
+const PLACEHOLDERS: Record<FilterRuleType, string> = {
+  exclude: "node_modules/",
+  include: "*.conf",
+  filter: "dir-merge .rsync-filter",
+}
+
+interface FilterRulesEditorProps {
+  rules: FilterRule[]
+  onChange: (rules: FilterRule[]) => void
+  agentId?: string
+  source: string
+  // Set for plans with several sources, which keep the full source paths
+  relativePaths?: boolean
+  disabled?: boolean
+}
+
+export function FilterRulesEditor({ rules, onChange, agentId, source, relativePaths, disabled }: FilterRulesEditorProps) {
+  const [showTester, setShowTester] = useState(false)
+  const rsyncRules = useMemo(() => toRsyncFilterRules(rules), [rules])
+
+  const updateRule = (index: number, changes: Partial<FilterRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= rules.length) return
+    const next = [...rules]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index))
+  }
+
+  const addRule = (rule: FilterRule) => {
+    onChange([...rules, rule])
+  }
+
+  const missingCommonExcludes = COMMON_EXCLUDES.filter(
+    (pattern) => !rules.some((rule) => rule.type === "exclude" && rule.pattern.trim() === pattern)
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Filter Rules</Label>
+        {agentId && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setShowTester(true)}
+            disabled={disabled || !source.trim()}
+            title={source.trim() ? "Preview the rules against the source directory" : "Set a source path first"}
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Test Rules
+          </Button>
+        )}
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground rounded-md border border-dashed p-3">
+          No filter rules, everything under the source path is backed up
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-right text-sm text-muted-foreground">{index + 1}.</span>
+              <select
+                value={rule.type}
+                onChange={(e) => updateRule(index, { type: e.target.value as FilterRuleType })}
+                disabled={disabled}
+                aria-label={`Rule ${index + 1} type`}
+                className="h-10 w-28 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                <option value="exclude">Exclude</option>
+                <option value="include">Include</option>
+                <option value="filter">Filter</option>
+              </select>
+              <Input
+                type="text"
+                placeholder={PLACEHOLDERS[rule.type]}
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                disabled={disabled}
+                aria-label={`Rule ${index + 1} pattern`}
+                className="flex-1 font-mono"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveRule(index, -1)}
+                disabled={disabled || index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveRule(index, 1)}
+                disabled={disabled || index === rules.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRule(index)}
+                disabled={disabled}
+                title="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => addRule({ type: "exclude", pattern: "" })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        {missingCommonExcludes.map((pattern) => (
+          <Button
+            key={pattern}
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => addRule({ type: "exclude", pattern })}
+            disabled={disabled}
+            className="font-mono text-xs"
+          >
+            - {pattern}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Rules are applied in order and the first match wins. A trailing "/" matches directories only,
+        a leading "/" anchors the pattern to the source path. "Filter" takes a complete rsync filter rule.
+      </p>
+
+      {agentId && (
+        <FilterRulesTester
+          agentId={agentId}
+          open={showTester}
+          onClose={() => setShowTester(false)}
+          source={source}
+          relativePaths={relativePaths}
+          rules={rsyncRules}
+        />
+      )}
+    </div>
+  )
+}
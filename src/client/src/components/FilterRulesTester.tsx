@@ -0,0 +1,217 @@
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { apiGet } from "@/lib/api"
+import { createFilterMatcher, getUnsupportedRules } from "@/lib/rsyncFilters"
+import { Folder, File, ArrowLeft, X } from "lucide-react"
+
+interface FileSystemItem {
+  name: string
+  pathName: string  // Full path including filename
+  path: string      // Directory path without filename
+  type: "file" | "directory"
+  size?: number | null
+  lastModified: string
+  permissions?: string | null
+  md5?: string | null
+}
+
+interface FilterRulesTesterProps {
+  agentId: string
+  open: boolean
+  onClose: () => void
+  source: string
+  // The plan keeps full source paths (several sources), anchored rules start at "/"
+  relativePaths?: boolean
+  rules: string[]
+}
+
+export function FilterRulesTester({ agentId, open, onClose, source, relativePaths = false, rules }: FilterRulesTesterProps) {
+  const [currentPath, setCurrentPath] = useState("/")
+  const [items, setItems] = useState<FileSystemItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pathHistory, setPathHistory] = useState<string[]>(["/"])
+
+  const matcher = useMemo(
+    () => createFilterMatcher(rules, source, relativePaths),
+    [rules, source, relativePaths]
+  )
+  const unsupportedRules = useMemo(() => getUnsupportedRules(rules), [rules])
+
+  const loadDirectory = useCallback(async (path: string) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const data: FileSystemItem[] = await apiGet<FileSystemItem[]>(
+        `/api/agent/${agentId}/browse?dir=${encodeURIComponent(path)}`
+      )
+      setItems(data)
+      setCurrentPath(path)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load directory")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [agentId])
+
+  useEffect(() => {
+    if (open) {
+      const startPath = source.trim().replace(/[/\\]+$/, "") || "/"
+      setCurrentPath(startPath)
+      setPathHistory([startPath])
+      loadDirectory(startPath)
+    }
+  }, [open, source, loadDirectory])
+
+  const handleItemClick = (item: FileSystemItem) => {
+    if (item.type === "directory") {
+      setPathHistory([...pathHistory, item.pathName])
+      loadDirectory(item.pathName)
+    }
+  }
+
+  const handleGoBack = () => {
+    if (pathHistory.length > 1) {
+      const newHistory = pathHistory.slice(0, -1)
+      const previousPath = newHistory[newHistory.length - 1]
+      setPathHistory(newHistory)
+      loadDirectory(previousPath)
+    }
+  }
+
+  const results = items.map((item) => ({
+    item,
+    match: matcher(item.pathName, item.type === "directory"),
+  }))
+  const skippedCount = results.filter((r) => r.match.skipped).length
+
+  const describeMatch = (match: ReturnType<typeof matcher>) => {
+    if (match.ruleIndex === null) {
+      return null
+    }
+    const rule = `#${match.ruleIndex + 1} ${rules[match.ruleIndex]}`
+    if (match.excludedParent) {
+      return `Inside ${match.excludedParent}, excluded by rule ${rule}`
+    }
+    return match.skipped ? `Skipped by rule ${rule}` : `Included by rule ${rule}`
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div
+        className="fixed inset-0 bg-black/80"
+        onClick={onClose}
+      />
+      <div className="relative z-50 w-full max-w-3xl max-h-[80vh] bg-background border rounded-lg shadow-lg flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Test Filter Rules</h2>
+            <p className="text-sm text-muted-foreground">
+              Entries rsync would skip are struck through
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2 p-4 border-b">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleGoBack}
+            disabled={pathHistory.length <= 1 || isLoading}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <Input
+            value={currentPath}
+            readOnly
+            className="flex-1 font-mono text-sm"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => loadDirectory(currentPath)}
+            disabled={isLoading}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {error && (
+            <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive mb-4">
+              {error}
+            </div>
+          )}
+
+          {unsupportedRules.length > 0 && (
+            <div className="rounded-md bg-yellow-500/15 p-3 text-sm text-yellow-700 dark:text-yellow-400 mb-4">
+              Not evaluated in test mode:{" "}
+              {unsupportedRules.map((index) => `#${index + 1} ${rules[index]}`).join(", ")}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading...
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              This directory is empty
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground mb-3">
+                {skippedCount} of {items.length} entries would be skipped
+              </p>
+              <div className="space-y-1">
+                {results.map(({ item, match }) => {
+                  const description = describeMatch(match)
+                  return (
+                    <button
+                      key={item.pathName}
+                      onClick={() => handleItemClick(item)}
+                      disabled={item.type !== "directory"}
+                      className={`w-full flex items-center gap-3 p-2 rounded text-left transition-colors ${
+                        item.type === "directory" ? "hover:bg-accent" : "cursor-default"
+                      } ${match.skipped ? "bg-destructive/10" : ""}`}
+                    >
+                      {item.type === "directory" ? (
+                        <Folder className={`h-5 w-5 flex-shrink-0 ${match.skipped ? "text-muted-foreground" : "text-blue-500"}`} />
+                      ) : (
+                        <File className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className={`font-medium truncate ${match.skipped ? "line-through text-muted-foreground" : ""}`}>
+                          {item.name}
+                        </div>
+                        {description && (
+                          <div className={`text-xs truncate font-mono ${match.skipped ? "text-destructive" : "text-green-600 dark:text-green-400"}`}>
+                            {description}
+                          </div>
+                        )}
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { HookOptions } from "@/lib/hookOptions"
+
+const HOOKS: {
+  phase: "pre" | "post"
+  label: string
+  placeholder: string
+  help: string
+}[] = [
+  {
+    phase: "pre",
+    label: "Pre-execution Hook",
+    placeholder: "pg_dump -U postgres mydb > /var/backups/mydb.sql",
+    help: "Runs on the agent before rsync, e.g. to dump a database or stop a container",
+  },
+  {
+    phase: "post",
+    label: "Post-execution Hook",
+    placeholder: "rm -f /var/backups/mydb.sql",
+    help: "Runs on the agent after rsync, also when the backup failed or was stopped",
+  },
+]
+
+interface HooksPanelProps {
+  options: HookOptions
+  onChange: (options: HookOptions) => void
+  disabled?: boolean
+}
+
+export function HooksPanel({ options, onChange, disabled }: HooksPanelProps) {
+  const update = (changes: Partial<HookOptions>) => {
+    onChange({ ...options, ...changes })
+  }
+
+  return (
+    <div className="space-y-4">
+      {HOOKS.map((hook) => {
+        const command = options[`${hook.phase}Command`]
+        return (
+          <div key={hook.phase} className="space-y-2">
+            <Label htmlFor={`hook-${hook.phase}-command`}>{hook.label}</Label>
+            <textarea
+              id={`hook-${hook.phase}-command`}
+              placeholder={hook.placeholder}
+              value={command}
+              onChange={(e) => update({ [`${hook.phase}Command`]: e.target.value })}
+              disabled={disabled}
+              rows={2}
+              className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono text-xs"
+            />
+            <p className="text-sm text-muted-foreground">{hook.help}</p>
+
+            {command.trim() !== "" && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor={`hook-${hook.phase}-timeout`} className="text-xs text-muted-foreground">
+                    Timeout (seconds)
+                  </Label>
+                  <Input
+                    id={`hook-${hook.phase}-timeout`}
+                    type="number"
+                    min={1}
+                    value={options[`${hook.phase}TimeoutSeconds`]}
+                    onChange={(e) =>
+                      update({ [`${hook.phase}TimeoutSeconds`]: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                    }
+                    disabled={disabled}
+                  />
+                </div>
+                <div className="flex items-center gap-2 sm:pt-5">
+                  <input
+                    id={`hook-${hook.phase}-abort`}
+                    type="checkbox"
+                    checked={options[`${hook.phase}AbortOnFailure`]}
+                    onChange={(e) => update({ [`${hook.phase}AbortOnFailure`]: e.target.checked })}
+                    disabled={disabled}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <Label htmlFor={`hook-${hook.phase}-abort`} className="cursor-pointer">
+                    {hook.phase === "pre" ? "Abort backup on failure" : "Mark backup as failed on failure"}
+                  </Label>
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+      <p className="text-sm text-muted-foreground">
+        Hooks connect with the agent's rsync user, port and SSH key. Simulations do not run them.
+        Their output appears as System entries in the execution log.
+      </p>
+    </div>
+  )
+}
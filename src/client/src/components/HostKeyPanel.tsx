@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from "react"
+import { RefreshCw, ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { apiGet, apiPost } from "@/lib/api"
+import type { HostKeyStatus } from "@/lib/hostKeys"
+
+interface HostKeyPanelProps {
+  agentId: string
+  hostname: string
+  // Changing it reads the host key again, e.g. after a connection test
+  refreshToken?: number
+  disabled?: boolean
+}
+
+export function HostKeyPanel({ agentId, hostname, refreshToken, disabled }: HostKeyPanelProps) {
+  const [status, setStatus] = useState<HostKeyStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAccepting, setIsAccepting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setStatus(await apiGet<HostKeyStatus>(`/api/agent/${agentId}/host-key`))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the host key")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [agentId])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus, refreshToken])
+
+  const handleAccept = async () => {
+    if (!status?.presentedFingerprint) return
+
+    setIsAccepting(true)
+    setError(null)
+    try {
+      setStatus(
+        await apiPost<HostKeyStatus>(`/api/agent/${agentId}/host-key/accept`, {
+          fingerprint: status.presentedFingerprint,
+        })
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept the host key")
+    } finally {
+      setIsAccepting(false)
+    }
+  }
+
+  const isPinned = !!status?.pinnedFingerprint
+  const presentedDiffers =
+    isPinned && !!status?.presentedFingerprint && status.presentedFingerprint !== status.pinnedFingerprint
+  const isChanged = presentedDiffers || (isPinned && !!status?.changedFingerprint && !status?.presentedFingerprint)
+  const canAccept = !!status?.presentedFingerprint && (!isPinned || presentedDiffers)
+
+  return (
+    <div className="rounded-lg border bg-card p-6 shadow-sm max-w-3xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Host Key</h2>
+          <p className="text-sm text-muted-foreground">
+            Connections are refused when the agent presents another key than the pinned one
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={fetchStatus} disabled={isLoading || isAccepting}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Check Again
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">{error}</div>
+      )}
+
+      {status && (
+        <div className="space-y-3 text-sm">
+          {isChanged ? (
+            <div className="rounded-md bg-destructive/15 p-3 text-destructive space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldAlert className="h-4 w-4" />
+                The host key changed, backups of this agent are refused
+              </div>
+              <div>
+                Pinned: <span className="font-mono text-xs break-all">{status.pinnedFingerprint}</span>
+              </div>
+              <div>
+                Presented:{" "}
+                <span className="font-mono text-xs break-all">
+                  {status.presentedFingerprint ?? status.changedFingerprint}
+                </span>
+              </div>
+              <p>
+                Only accept the new key if the host was reinstalled or its SSH keys were regenerated on purpose.
+              </p>
+            </div>
+          ) : isPinned ? (
+            <div className="flex items-start gap-2">
+              <ShieldCheck className="h-4 w-4 mt-0.5 text-green-600 dark:text-green-400" />
+              <div>
+                <div className="font-mono text-xs break-all">{status.pinnedFingerprint}</div>
+                <div className="text-muted-foreground">
+                  Pinned {status.pinnedAt ? new Date(status.pinnedAt).toLocaleString() : ""}
+                  {status.pinnedBy ? ` by ${status.pinnedBy}` : ""}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-md bg-yellow-500/15 p-3 text-yellow-700 dark:text-yellow-400 space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldQuestion className="h-4 w-4" />
+                No host key pinned, any key is accepted
+              </div>
+              {status.presentedFingerprint && (
+                <div>
+                  Presented ({status.presentedKeyType}):{" "}
+                  <span className="font-mono text-xs break-all">{status.presentedFingerprint}</span>
+                </div>
+              )}
+              <p>
+                Compare it with the output of <code>ssh-keygen -lf /etc/ssh/ssh_host_*_key.pub</code> on the agent
+                before pinning it.
+              </p>
+            </div>
+          )}
+
+          {status.scanError && <p className="text-muted-foreground">{status.scanError}</p>}
+
+          {canAccept && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant={isChanged ? "destructive" : "outline"}
+                  size="sm"
+                  disabled={disabled || isAccepting}
+                >
+                  {isAccepting ? "Saving..." : isChanged ? "Accept New Host Key" : "Pin Host Key"}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{isChanged ? "Accept the new host key?" : "Pin this host key?"}</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    From now on, connections to <strong>{hostname}</strong> only accept the key{" "}
+                    <span className="font-mono break-all">{status.presentedFingerprint}</span>. Make sure it matches
+                    the key on the agent.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleAccept}>{isChanged ? "Accept" : "Pin"}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { apiGet } from "@/lib/api"
+import { MAX_JUMP_HOSTS, newJumpHostDraft, type JumpHostDraft } from "@/lib/jumpHosts"
+import { maskFingerprint } from "@/lib/sshKeys"
+
+interface AgentOption {
+  id: string
+  name: string
+  hostname: string
+}
+
+interface JumpHostsEditorProps {
+  hops: JumpHostDraft[]
+  onChange: (hops: JumpHostDraft[]) => void
+  // The agent being edited, it cannot be its own jump host
+  agentId?: string
+  disabled?: boolean
+}
+
+/**
+ * Ordered chain of jump hosts (ProxyJump) of an agent, each another agent or an inline host.
+ */
+export function JumpHostsEditor({ hops, onChange, agentId, disabled }: JumpHostsEditorProps) {
+  const [agents, setAgents] = useState<AgentOption[]>([])
+
+  useEffect(() => {
+    apiGet<AgentOption[]>("/api/agent")
+      .then((data) => setAgents(data.filter((agent) => agent.id !== agentId)))
+      .catch((err) => console.error("Failed to load agents for the jump hosts:", err))
+  }, [agentId])
+
+  const updateHop = (index: number, changes: Partial<JumpHostDraft>) => {
+    onChange(hops.map((hop, i) => (i === index ? { ...hop, ...changes } : hop)))
+  }
+
+  const moveHop = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= hops.length) return
+    const next = [...hops]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeHop = (index: number) => {
+    onChange(hops.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Jump Hosts</Label>
+
+      {hops.length === 0 ? (
+        <p className="text-sm text-muted-foreground rounded-md border border-dashed p-3">
+          No jump hosts, the server connects to the agent directly
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {hops.map((hop, index) => (
+            <div key={hop.id ?? `new-${index}`} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="w-6 text-right text-sm text-muted-foreground">{index + 1}.</span>
+                <select
+                  value={hop.viaAgentId ?? ""}
+                  onChange={(e) => updateHop(index, { viaAgentId: e.target.value || null })}
+                  disabled={disabled}
+                  aria-label={`Jump host ${index + 1}`}
+                  className="h-10 flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="">Other host</option>
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>
+                      Agent: {agent.name} ({agent.hostname})
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveHop(index, -1)}
+                  disabled={disabled || index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveHop(index, 1)}
+                  disabled={disabled || index === hops.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeHop(index)}
+                  disabled={disabled}
+                  title="Remove jump host"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {!hop.viaAgentId && (
+                <div className="space-y-3 pl-8">
+                  <div className="grid gap-2 sm:grid-cols-[1fr_8rem_6rem]">
+                    <Input
+                      type="text"
+                      placeholder="bastion.example.com"
+                      value={hop.hostname}
+                      onChange={(e) => updateHop(index, { hostname: e.target.value })}
+                      disabled={disabled}
+                      aria-label={`Jump host ${index + 1} hostname`}
+                    />
+                    <Input
+                      type="text"
+                      placeholder="user"
+                      value={hop.user}
+                      onChange={(e) => updateHop(index, { user: e.target.value })}
+                      disabled={disabled}
+                      aria-label={`Jump host ${index + 1} user`}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="22"
+                      min="1"
+                      max="65535"
+                      value={hop.port}
+                      onChange={(e) => updateHop(index, { port: e.target.value })}
+                      disabled={disabled}
+                      aria-label={`Jump host ${index + 1} port`}
+                    />
+                  </div>
+
+                  {hop.storedKeyFingerprint && !hop.sshKey && (
+                    <p className="text-sm text-muted-foreground">
+                      Key <span className="font-mono text-xs">{maskFingerprint(hop.storedKeyFingerprint)}</span>, paste
+                      another one to replace it
+                    </p>
+                  )}
+                  <textarea
+                    placeholder={
+                      hop.storedKeyFingerprint
+                        ? "Replace the private key of this jump host"
+                        : "Private key of this jump host (optional, the agent key is used without one)"
+                    }
+                    value={hop.sshKey}
+                    onChange={(e) => updateHop(index, { sshKey: e.target.value })}
+                    disabled={disabled}
+                    autoComplete="off"
+                    spellCheck={false}
+                    rows={3}
+                    aria-label={`Jump host ${index + 1} private key`}
+                    className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono text-xs"
+                  />
+                  {hop.sshKey.trim() && (
+                    <Input
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="Key passphrase, only for passphrase protected keys"
+                      value={hop.sshKeyPassphrase}
+                      onChange={(e) => updateHop(index, { sshKeyPassphrase: e.target.value })}
+                      disabled={disabled}
+                      aria-label={`Jump host ${index + 1} key passphrase`}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...hops, newJumpHostDraft()])}
+        disabled={disabled || hops.length >= MAX_JUMP_HOSTS}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Jump Host
+      </Button>
+
+      <p className="text-sm text-muted-foreground">
+        Connections go through the jump hosts in order, the first one is reached directly from the server. An agent
+        used as jump host brings its own key and pinned host key, other hosts accept any host key.
+      </p>
+    </div>
+  )
+}
@@ -4,12 +4,14 @@ import { Bell, X, CheckCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { apiGet, apiPost, apiDelete } from "@/lib/api"
 import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+import { useExecutionEvents } from "@/hooks/useExecutionEvents"
 
 interface Notification {
   id: string
   type: string
   title: string
   message: string
+  priority: "Normal" | "High"
   backupPlanId: string | null
   executionId: string | null
   isRead: boolean
@@ -110,7 +112,8 @@ export function Notifications() {
           icon: "/icon.png",
           badge: "/icon.png",
           tag: latestNotification.id, // Prevent duplicate notifications
-          requireInteraction: false,
+          // High priority notifications need an operator decision, keep them on screen
+          requireInteraction: latestNotification.priority === "High",
         })
 
         browserNotification.onclick = () => {
@@ -132,13 +135,19 @@ export function Notifications() {
 
   useEffect(() => {
     fetchNotifications()
-
-    // Poll for new notifications every 5 seconds
-    const interval = setInterval(fetchNotifications, 5000)
-
-    return () => clearInterval(interval)
   }, [])
 
+  // New notifications are pushed by the server
+  useExecutionEvents({
+    onNotificationCreated: (notification) => {
+      setNotifications((prev) => [notification, ...prev.filter((n) => n.id !== notification.id)].slice(0, 20))
+      if (!notification.isRead) {
+        setUnreadCount((count) => count + 1)
+      }
+    },
+    onReconnected: fetchNotifications,
+  })
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -192,11 +201,54 @@ export function Notifications() {
         return "bg-green-500/20 text-green-600 dark:text-green-400"
       case "SimulationCompleted":
         return "bg-blue-500/20 text-blue-600 dark:text-blue-400"
+      case "BackupFailed":
+        return "bg-red-500/20 text-red-600 dark:text-red-400"
+      case "BackupStopped":
+        return "bg-orange-500/20 text-orange-600 dark:text-orange-400"
+      case "RestoreCompleted":
+        return "bg-purple-500/20 text-purple-600 dark:text-purple-400"
+      case "RestoreFailed":
+        return "bg-red-500/20 text-red-600 dark:text-red-400"
+      case "DeletionGuardTriggered":
+        return "bg-red-500/20 text-red-600 dark:text-red-400"
+      case "AgentOffline":
+        return "bg-red-500/20 text-red-600 dark:text-red-400"
+      case "AgentOnline":
+        return "bg-green-500/20 text-green-600 dark:text-green-400"
+      case "HostKeyChanged":
+        return "bg-red-500/20 text-red-600 dark:text-red-400"
       default:
         return "bg-muted text-muted-foreground"
     }
   }
 
+  const getNotificationLabel = (type: string) => {
+    switch (type) {
+      case "BackupCompleted":
+        return "Backup"
+      case "SimulationCompleted":
+        return "Simulation"
+      case "BackupFailed":
+        return "Failed"
+      case "BackupStopped":
+        return "Stopped"
+      case "RestoreCompleted":
+        return "Restore"
+      case "RestoreFailed":
+        return "Restore Failed"
+      case "DeletionGuardTriggered":
+        return "Blocked"
+      case "AgentOffline":
+        return "Agent Offline"
+      case "AgentOnline":
+        return "Agent Online"
+      case "HostKeyChanged":
+        return "Host Key Changed"
+      default:
+        return type
+    }
+  }
+
   const handleEnableNotifications = async () => {
     if ("Notification" in window) {
       const permission = await Notification.requestPermission()
@@ -273,15 +325,18 @@ export function Notifications() {
                     key={notification.id}
                     className={`p-4 hover:bg-muted/50 cursor-pointer transition-colors ${
                       !notification.isRead ? "bg-blue-50/50 dark:bg-blue-950/20" : ""
-                    }`}
+                    } ${notification.priority === "High" ? "border-l-4 border-l-red-500" : ""}`}
                     onClick={() => handleNotificationClick(notification)}
                   >
                     <div className="flex items-start justify-between gap-2">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-1">
                           <span className={`px-2 py-0.5 rounded text-xs font-medium ${getNotificationColor(notification.type)}`}>
-                            {notification.type === "BackupCompleted" ? "Backup" : "Simulation"}
+                            {getNotificationLabel(notification.type)}
                           </span>
+                          {notification.priority === "High" && (
+                            <span className="text-xs font-medium text-red-600 dark:text-red-400">High priority</span>
+                          )}
                           {!notification.isRead && (
                             <span className="h-2 w-2 rounded-full bg-blue-500"></span>
                           )}
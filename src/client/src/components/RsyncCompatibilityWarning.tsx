@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { apiGet } from "@/lib/api"
+import { getRsyncWarnings, type AgentInventory } from "@/lib/agentInventory"
+import type { RsyncOptions } from "@/lib/rsyncOptions"
+
+interface RsyncCompatibilityWarningProps {
+  agentId: string | undefined
+  options: RsyncOptions
+}
+
+/**
+ * Warns when the rsync of the agent, as of its last inventory, does not support the selected options.
+ */
+export function RsyncCompatibilityWarning({ agentId, options }: RsyncCompatibilityWarningProps) {
+  const [inventory, setInventory] = useState<AgentInventory | null>(null)
+
+  useEffect(() => {
+    if (!agentId) return
+
+    // Without an inventory there is nothing to compare against, the form works as before
+    apiGet<AgentInventory>(`/api/agent/${agentId}/inventory?days=1`)
+      .then(setInventory)
+      .catch(() => setInventory(null))
+  }, [agentId])
+
+  const warnings = inventory ? getRsyncWarnings(inventory, options) : []
+  if (warnings.length === 0) return null
+
+  return (
+    <div className="rounded-md bg-yellow-500/15 p-3 text-sm text-yellow-700 dark:text-yellow-400 space-y-1">
+      <div className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="h-4 w-4" />
+        The rsync installed on the agent may not run this plan
+      </div>
+      <ul className="list-disc pl-6">
+        {warnings.map((warning) => (
+          <li key={warning}>{warning}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { buildRsyncArguments, type DeleteMode, type RsyncOptions } from "@/lib/rsyncOptions"
+
+type BooleanOption = Exclude<keyof RsyncOptions, "bandwidthLimit" | "deleteMode">
+
+const FLAG_OPTIONS: { key: BooleanOption; label: string; flag: string; help: string }[] = [
+  { key: "compress", label: "Compression", flag: "-z", help: "Compress data in transit (costs CPU on both ends)" },
+  { key: "checksum", label: "Checksum", flag: "--checksum", help: "Compare files by checksum instead of size and time" },
+  { key: "hardLinks", label: "Hard links", flag: "-H", help: "Preserve hard links" },
+  { key: "acls", label: "ACLs", flag: "-A", help: "Preserve access control lists" },
+  { key: "xattrs", label: "Extended attributes", flag: "-X", help: "Preserve extended attributes" },
+  { key: "numericIds", label: "Numeric IDs", flag: "--numeric-ids", help: "Keep uid/gid numbers instead of mapping by name" },
+  { key: "sparse", label: "Sparse files", flag: "--sparse", help: "Store runs of zeros as holes" },
+  { key: "partial", label: "Keep partial files", flag: "--partial", help: "Resume interrupted transfers of large files" },
+]
+
+const DELETE_MODES: { value: DeleteMode; label: string }[] = [
+  { value: "none", label: "Keep deleted files" },
+  { value: "delete", label: "--delete (during transfer)" },
+  { value: "delete-after", label: "--delete-after (after transfer)" },
+  { value: "delete-delay", label: "--delete-delay (find during, delete after)" },
+]
+
+interface RsyncOptionsPanelProps {
+  options: RsyncOptions
+  onChange: (options: RsyncOptions) => void
+  disabled?: boolean
+}
+
+export function RsyncOptionsPanel({ options, onChange, disabled }: RsyncOptionsPanelProps) {
+  const update = (changes: Partial<RsyncOptions>) => {
+    onChange({ ...options, ...changes })
+  }
+
+  return (
+    <div className="space-y-4">
+      <Label>Transfer Options</Label>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {FLAG_OPTIONS.map((option) => (
+          <div key={option.key} className="flex items-start gap-2">
+            <input
+              id={`rsync-${option.key}`}
+              type="checkbox"
+              checked={options[option.key]}
+              onChange={(e) => update({ [option.key]: e.target.checked })}
+              disabled={disabled}
+              className="mt-1 h-4 w-4 rounded border-gray-300"
+            />
+            <div>
+              <Label htmlFor={`rsync-${option.key}`} className="cursor-pointer">
+                {option.label} <span className="font-mono text-xs text-muted-foreground">{option.flag}</span>
+              </Label>
+              <p className="text-xs text-muted-foreground">{option.help}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="rsync-delete-mode">Delete Mode</Label>
+          <select
+            id="rsync-delete-mode"
+            value={options.deleteMode}
+            onChange={(e) => update({ deleteMode: e.target.value as DeleteMode })}
+            disabled={disabled}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {DELETE_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-muted-foreground">
+            What happens to destination files that no longer exist on the source
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rsync-bwlimit">Bandwidth Limit (KiB/s)</Label>
+          <Input
+            id="rsync-bwlimit"
+            type="number"
+            min={0}
+            placeholder="Unlimited"
+            value={options.bandwidthLimit ?? ""}
+            onChange={(e) =>
+              update({ bandwidthLimit: e.target.value === "" ? null : Math.max(0, parseInt(e.target.value, 10) || 0) })
+            }
+            disabled={disabled}
+          />
+          <p className="text-sm text-muted-foreground">
+            Leave empty or 0 for no limit
+          </p>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        rsync flags: <code className="font-mono text-xs">{buildRsyncArguments(options)}</code>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+import { useMemo, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CronDescription } from "@/components/CronDescription"
+import {
+  buildCron,
+  getNextRunTimes,
+  parseSchedule,
+  WEEKDAYS,
+  type ScheduleMode,
+  type ScheduleSpec,
+} from "@/lib/cronSchedule"
+import { ALL_TIMEZONES } from "@/lib/timezones"
+
+const MODES: { value: ScheduleMode; label: string }[] = [
+  { value: "hourly", label: "Hourly" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "advanced", label: "Advanced (cron)" },
+]
+
+const SELECT_CLASS_NAME =
+  "w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0")
+}
+
+function formatRunTime(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone: timezone,
+  }).format(date)
+}
+
+interface ScheduleBuilderProps {
+  schedule: string
+  onScheduleChange: (schedule: string) => void
+  timezone: string
+  onTimezoneChange: (timezone: string) => void
+  disabled?: boolean
+}
+
+export function ScheduleBuilder({ schedule, onScheduleChange, timezone, onTimezoneChange, disabled }: ScheduleBuilderProps) {
+  // Preset expressions can still be edited as raw cron once the user switches to advanced
+  const [forceAdvanced, setForceAdvanced] = useState(false)
+  const spec = parseSchedule(schedule)
+  const mode: ScheduleMode = forceAdvanced ? "advanced" : spec.mode
+
+  const nextRuns = useMemo(() => {
+    try {
+      return getNextRunTimes(schedule, timezone)
+    } catch {
+      return []
+    }
+  }, [schedule, timezone])
+
+  const update = (changes: Partial<ScheduleSpec>) => {
+    onScheduleChange(buildCron({ ...spec, ...changes }))
+  }
+
+  const handleModeChange = (newMode: ScheduleMode) => {
+    setForceAdvanced(newMode === "advanced")
+    if (newMode !== "advanced") {
+      update({ mode: newMode })
+    }
+  }
+
+  const handleTimeChange = (value: string) => {
+    const [hour, minute] = value.split(":").map((part) => parseInt(part, 10))
+    if (!isNaN(hour) && !isNaN(minute)) {
+      update({ hour, minute })
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = spec.weekdays.includes(day)
+      ? spec.weekdays.filter((d) => d !== day)
+      : [...spec.weekdays, day]
+    // At least one day has to stay selected
+    if (weekdays.length > 0) {
+      update({ weekdays })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-mode">Schedule *</Label>
+          <select
+            id="schedule-mode"
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as ScheduleMode)}
+            disabled={disabled}
+            className={SELECT_CLASS_NAME}
+          >
+            {MODES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="schedule-timezone">Timezone</Label>
+          <select
+            id="schedule-timezone"
+            value={timezone}
+            onChange={(e) => onTimezoneChange(e.target.value)}
+            disabled={disabled}
+            className={SELECT_CLASS_NAME}
+          >
+            {ALL_TIMEZONES.map((tz) => (
+              <option key={tz} value={tz}>
+                {tz}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {mode === "hourly" && (
+        <div className="space-y-2">
+          <Label htmlFor="schedule-minute">At minute</Label>
+          <Input
+            id="schedule-minute"
+            type="number"
+            min={0}
+            max={59}
+            value={spec.minute}
+            onChange={(e) => update({ minute: Math.min(59, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            disabled={disabled}
+            className="max-w-[120px]"
+          />
+        </div>
+      )}
+
+      {(mode === "daily" || mode === "weekly" || mode === "monthly") && (
+        <div className="flex flex-wrap items-end gap-4">
+          {mode === "monthly" && (
+            <div className="space-y-2">
+              <Label htmlFor="schedule-day">On day</Label>
+              <Input
+                id="schedule-day"
+                type="number"
+                min={1}
+                max={31}
+                value={spec.dayOfMonth}
+                onChange={(e) => update({ dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                disabled={disabled}
+                className="max-w-[120px]"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="schedule-time">At</Label>
+            <Input
+              id="schedule-time"
+              type="time"
+              value={`${pad(spec.hour)}:${pad(spec.minute)}`}
+              onChange={(e) => handleTimeChange(e.target.value)}
+              disabled={disabled}
+              className="max-w-[140px]"
+            />
+          </div>
+        </div>
+      )}
+
+      {mode === "weekly" && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((day) => (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleWeekday(day.value)}
+                disabled={disabled}
+                className={`rounded-md border px-3 py-1 text-sm ${
+                  spec.weekdays.includes(day.value)
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-background hover:bg-muted"
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mode === "monthly" && spec.dayOfMonth > 28 && (
+        <p className="text-sm text-muted-foreground">
+          Months without day {spec.dayOfMonth} are skipped
+        </p>
+      )}
+
+      {mode === "advanced" && (
+        <div className="space-y-2">
+          <Input
+            id="schedule"
+            type="text"
+            placeholder="0 0 * * *"
+            value={schedule}
+            onChange={(e) => onScheduleChange(e.target.value)}
+            required
+            disabled={disabled}
+            className="font-mono"
+          />
+          <p className="text-sm text-muted-foreground">
+            Cron expression (e.g., "0 0 * * *" for daily at midnight)
+          </p>
+        </div>
+      )}
+
+      <CronDescription cronExpression={schedule} timezone={timezone} />
+
+      {nextRuns.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Next {nextRuns.length} runs ({timezone})</Label>
+          <ul className="grid gap-1 text-xs font-mono text-muted-foreground sm:grid-cols-2">
+            {nextRuns.map((run) => (
+              <li key={run.getTime()}>{formatRunTime(run, timezone)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
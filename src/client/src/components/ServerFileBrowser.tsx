@@ -2,7 +2,8 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { apiGet } from "@/lib/api"
-import { Folder, File, ArrowLeft, X } from "lucide-react"
+import { getSnapshotChange, SNAPSHOT_CHANGE_STYLES, type ZfsSnapshotsResponse } from "@/lib/zfsSnapshots"
+import { Folder, File, ArrowLeft, X, Camera } from "lucide-react"
 
 interface FileSystemItem {
   name: string
@@ -13,6 +14,11 @@ interface FileSystemItem {
   lastModified: string
   permissions?: string | null
   md5?: string | null
+  // Set when browsing inside a ZFS snapshot
+  snapshot?: string | null
+  liveExists?: boolean | null
+  liveSize?: number | null
+  liveLastModified?: string | null
 }
 
 interface ServerFileBrowserProps {
@@ -28,6 +34,7 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [pathHistory, setPathHistory] = useState<string[]>([])
+  const [snapshots, setSnapshots] = useState<ZfsSnapshotsResponse | null>(null)
 
   useEffect(() => {
     if (open) {
@@ -61,6 +68,15 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
       // Set the current path to what we requested (or default to "/")
       const displayPath = path || "/"
       setCurrentPath(displayPath)
+
+      // Snapshots are optional, a failure here must not hide the listing
+      try {
+        setSnapshots(await apiGet<ZfsSnapshotsResponse>(
+          `/api/filesystem/snapshots?dir=${encodeURIComponent(displayPath)}`
+        ))
+      } catch {
+        setSnapshots(null)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load directory")
     } finally {
@@ -90,6 +106,14 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
     }
   }
 
+  const handleSnapshotChange = (snapshotName: string) => {
+    if (!snapshots) return
+    const snapshot = snapshots.snapshots.find((s) => s.name === snapshotName)
+    const newPath = snapshot ? snapshot.path : snapshots.livePath
+    setPathHistory([...pathHistory, newPath])
+    loadDirectory(newPath)
+  }
+
   const handleSelectCurrentPath = () => {
     const pathToSelect = currentPath || "/"
     onSelect(pathToSelect)
@@ -106,7 +130,14 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
       />
       <div className="relative z-50 w-full max-w-2xl max-h-[80vh] bg-background border rounded-lg shadow-lg flex flex-col">
         <div className="flex items-center justify-between p-4 border-b">
-          <h2 className="text-xl font-semibold">Browse Server File System</h2>
+          <div>
+            <h2 className="text-xl font-semibold">Browse Server File System</h2>
+            {snapshots?.currentSnapshot && (
+              <p className="text-sm text-muted-foreground">
+                Read-only snapshot <span className="font-mono">{snapshots.currentSnapshot}</span>, compared with the live files
+              </p>
+            )}
+          </div>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-4 w-4" />
           </Button>
@@ -137,6 +168,25 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
           </Button>
         </div>
 
+        {snapshots?.datasetRoot && snapshots.snapshots.length > 0 && (
+          <div className="flex items-center gap-2 px-4 py-2 border-b">
+            <Camera className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            <select
+              value={snapshots.currentSnapshot ?? ""}
+              onChange={(e) => handleSnapshotChange(e.target.value)}
+              disabled={isLoading}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="">Live files</option>
+              {snapshots.snapshots.map((snapshot) => (
+                <option key={snapshot.name} value={snapshot.name} disabled={!snapshot.exists}>
+                  {snapshot.name} ({new Date(snapshot.createdAt).toLocaleString()}){snapshot.exists ? "" : " - not present"}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="flex-1 overflow-auto p-4">
           {error && (
             <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive mb-4">
@@ -170,9 +220,28 @@ export function ServerFileBrowser({ open, onClose, onSelect, initialPath }: Serv
                     {item.type === "file" && item.size != null && (
                       <div className="text-xs text-muted-foreground">
                         {((item.size ?? 0) / 1024).toFixed(2)} KB
+                        {item.snapshot && item.liveExists && item.liveSize !== item.size && (
+                          <> (live: {((item.liveSize ?? 0) / 1024).toFixed(2)} KB)</>
+                        )}
                       </div>
                     )}
                   </div>
+                  {item.snapshot && (() => {
+                    const change = getSnapshotChange(item, {
+                      exists: !!item.liveExists,
+                      size: item.type === "file" ? item.liveSize : null,
+                      lastModified: item.type === "file" ? item.liveLastModified : item.lastModified,
+                    })
+                    const style = SNAPSHOT_CHANGE_STYLES[change]
+                    return (
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium flex-shrink-0 ${style.className}`}
+                        title={item.liveLastModified ? `Live copy modified ${new Date(item.liveLastModified).toLocaleString()}` : undefined}
+                      >
+                        {style.label}
+                      </span>
+                    )
+                  })()}
                 </button>
               ))}
             </div>
@@ -1,6 +1,6 @@
 import { Link, useLocation } from "react-router-dom"
 import { cn } from "@/lib/utils"
-import { Settings, User, LayoutDashboard, Server, Database, Info, Users, FileText } from "lucide-react"
+import { Settings, User, LayoutDashboard, Server, Database, Info, Users, FileText, SquareTerminal, History } from "lucide-react"
 import { useEffect, useState } from "react"
 import { apiGet } from "@/lib/api"
 
@@ -13,6 +13,7 @@ const navigation = [
   { name: "Agents", href: "/agents", icon: Server },
   { name: "Backup Plans", href: "/backup-plans", icon: Database },
   { name: "Logs", href: "/logs", icon: FileText },
+  { name: "File History", href: "/logs/history", icon: History },
   { name: "Profile", href: "/profile", icon: User },
   { name: "Settings", href: "/settings", icon: Settings },
   { name: "About", href: "/about", icon: Info },
@@ -20,6 +21,7 @@ const navigation = [
 
 const adminNavigation = [
   { name: "Users", href: "/users", icon: Users },
+  { name: "Console Sessions", href: "/terminal-sessions", icon: SquareTerminal },
 ]
 
 export function Sidebar() {
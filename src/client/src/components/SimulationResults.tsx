@@ -5,7 +5,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import { useCallback, useMemo, useState } from "react"
+import { List, ListTree } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { DirectoryTree } from "@/components/DirectoryTree"
+import { summarizeDirectories } from "@/lib/directoryTree"
 
 interface SimulationItem {
   fileName: string
@@ -15,7 +19,7 @@ interface SimulationItem {
   reason: string
 }
 
-interface SimulationResult {
+export interface SimulationResult {
   items: SimulationItem[]
   totalItems: number
   itemsToCopy: number
@@ -27,6 +31,14 @@ interface SimulationResultsProps {
   onClose: () => void
   result: SimulationResult | null
   isLoading: boolean
+  title?: string
+  description?: string
+  // Shown above the summary, e.g. why a run was blocked
+  notice?: string | null
+  // Adds a confirm button next to Close, used to approve a blocked run
+  onApprove?: () => void
+  approveLabel?: string
+  isApproving?: boolean
 }
 
 function formatFileSize(bytes: number | null): string {
@@ -40,14 +52,30 @@ function formatFileSize(bytes: number | null): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
 }
 
-export function SimulationResults({ open, onClose, result, isLoading }: SimulationResultsProps) {
+export function SimulationResults({
+  open,
+  onClose,
+  result,
+  isLoading,
+  title = "Backup Simulation Results",
+  description = "Preview of what will happen when this backup plan runs",
+  notice,
+  onApprove,
+  approveLabel = "Approve",
+  isApproving = false,
+}: SimulationResultsProps) {
+  const [view, setView] = useState<"list" | "tree">("list")
+
+  const summarize = useMemo(() => summarizeDirectories(result?.items ?? []), [result])
+  const loadLevel = useCallback(async (path: string) => summarize(path), [summarize])
+
   return (
     <AlertDialog open={open} onOpenChange={onClose}>
       <AlertDialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
         <AlertDialogHeader>
-          <AlertDialogTitle>Backup Simulation Results</AlertDialogTitle>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
           <AlertDialogDescription>
-            Preview of what will happen when this backup plan runs
+            {description}
           </AlertDialogDescription>
         </AlertDialogHeader>
         
@@ -57,6 +85,11 @@ export function SimulationResults({ open, onClose, result, isLoading }: Simulati
           </div>
         ) : result ? (
           <div className="flex-1 overflow-hidden flex flex-col space-y-4">
+            {notice && (
+              <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+                {notice}
+              </div>
+            )}
             <div className="grid grid-cols-3 gap-4">
               <div className="rounded-lg border bg-card p-4">
                 <p className="text-sm text-muted-foreground">Total Items</p>
@@ -72,10 +105,35 @@ export function SimulationResults({ open, onClose, result, isLoading }: Simulati
               </div>
             </div>
 
+            {result.items.length > 0 && (
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant={view === "list" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setView("list")}
+                >
+                  <List className="h-4 w-4 mr-2" />
+                  List
+                </Button>
+                <Button
+                  variant={view === "tree" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setView("tree")}
+                >
+                  <ListTree className="h-4 w-4 mr-2" />
+                  Tree
+                </Button>
+              </div>
+            )}
+
             {result.items.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-muted-foreground">No changes detected. Source and destination are in sync.</p>
               </div>
+            ) : view === "tree" ? (
+              <div className="flex-1 overflow-auto">
+                <DirectoryTree loadLevel={loadLevel} height={320} />
+              </div>
             ) : (
               <div className="flex-1 overflow-auto border rounded-lg">
                 <table className="w-full">
@@ -124,8 +182,13 @@ export function SimulationResults({ open, onClose, result, isLoading }: Simulati
           </div>
         ) : null}
 
-        <div className="flex justify-end pt-4">
-          <Button onClick={onClose}>Close</Button>
+        <div className="flex justify-end gap-2 pt-4">
+          {onApprove && (
+            <Button variant="destructive" onClick={onApprove} disabled={isLoading || isApproving}>
+              {isApproving ? "Approving..." : approveLabel}
+            </Button>
+          )}
+          <Button variant={onApprove ? "outline" : "default"} onClick={onClose}>Close</Button>
         </div>
       </AlertDialogContent>
     </AlertDialog>
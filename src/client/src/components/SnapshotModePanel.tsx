@@ -0,0 +1,71 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { SnapshotMode, SnapshotOptions } from "@/lib/snapshotOptions"
+
+const RETENTION_FIELDS: { key: "keepDaily" | "keepWeekly" | "keepMonthly"; label: string }[] = [
+  { key: "keepDaily", label: "Daily" },
+  { key: "keepWeekly", label: "Weekly" },
+  { key: "keepMonthly", label: "Monthly" },
+]
+
+interface SnapshotModePanelProps {
+  options: SnapshotOptions
+  onChange: (options: SnapshotOptions) => void
+  disabled?: boolean
+}
+
+export function SnapshotModePanel({ options, onChange, disabled }: SnapshotModePanelProps) {
+  const update = (changes: Partial<SnapshotOptions>) => {
+    onChange({ ...options, ...changes })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="snapshot-mode">Snapshot Mode</Label>
+        <select
+          id="snapshot-mode"
+          value={options.mode}
+          onChange={(e) => update({ mode: e.target.value as SnapshotMode })}
+          disabled={disabled}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value="none">Mirror (versions handled by ZFS or the storage)</option>
+          <option value="hardlink">Hardlink snapshots (--link-dest)</option>
+        </select>
+        <p className="text-sm text-muted-foreground">
+          {options.mode === "hardlink"
+            ? "Every run is written to a timestamped directory under the destination. Unchanged files are hard links to the previous run and take no extra space."
+            : "The destination is kept as an exact copy of the source"}
+        </p>
+      </div>
+
+      {options.mode === "hardlink" && (
+        <div className="space-y-2">
+          <Label>Retention</Label>
+          <div className="grid gap-4 sm:grid-cols-3">
+            {RETENTION_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`retention-${field.key}`} className="text-xs text-muted-foreground">
+                  {field.label}
+                </Label>
+                <Input
+                  id={`retention-${field.key}`}
+                  type="number"
+                  min={0}
+                  value={options[field.key]}
+                  onChange={(e) => update({ [field.key]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Keeps the newest snapshot of each of the last {options.keepDaily} days, {options.keepWeekly} weeks
+            and {options.keepMonthly} months. The newest snapshot is always kept, expired ones are pruned hourly.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
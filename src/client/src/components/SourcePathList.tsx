@@ -0,0 +1,31 @@
+import { sourcePaths, type BackupPlanSource } from "@/lib/backupSources"
+
+// Longer lists are cut, the title shows every path
+const MAX_VISIBLE = 3
+
+interface SourcePathListProps {
+  sources: BackupPlanSource[] | undefined
+}
+
+/**
+ * Compact list of a plan's source paths for the plan cards.
+ */
+export function SourcePathList({ sources }: SourcePathListProps) {
+  const paths = sourcePaths(sources)
+  if (paths.length === 0) {
+    return <p className="text-sm text-muted-foreground">No sources</p>
+  }
+
+  const hidden = paths.length - MAX_VISIBLE
+
+  return (
+    <ul className="text-sm space-y-0.5" title={paths.join("\n")}>
+      {paths.slice(0, MAX_VISIBLE).map((path) => (
+        <li key={path} className="truncate font-mono text-xs">
+          {path}
+        </li>
+      ))}
+      {hidden > 0 && <li className="text-xs text-muted-foreground">and {hidden} more</li>}
+    </ul>
+  )
+}
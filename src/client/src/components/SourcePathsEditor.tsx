@@ -0,0 +1,190 @@
+import { useState } from "react"
+import { ArrowDown, ArrowUp, FolderOpen, FolderPlus, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FileBrowser } from "@/components/FileBrowser"
+import { MAX_SOURCES, newBackupSourceDraft, type BackupSourceDraft } from "@/lib/backupSources"
+
+interface SourcePathsEditorProps {
+  sources: BackupSourceDraft[]
+  onChange: (sources: BackupSourceDraft[]) => void
+  agentId?: string
+  disabled?: boolean
+}
+
+/**
+ * Ordered source paths of a backup plan on its agent, each with its own excludes. Paths are typed,
+ * browsed one at a time or picked together from the agent's file system.
+ */
+export function SourcePathsEditor({ sources, onChange, agentId, disabled }: SourcePathsEditorProps) {
+  // Row the single-select browser fills, null while it is closed
+  const [browsingIndex, setBrowsingIndex] = useState<number | null>(null)
+  const [showMultiBrowser, setShowMultiBrowser] = useState(false)
+
+  const updateSource = (index: number, changes: Partial<BackupSourceDraft>) => {
+    onChange(sources.map((source, i) => (i === index ? { ...source, ...changes } : source)))
+  }
+
+  const moveSource = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= sources.length) return
+    const next = [...sources]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeSource = (index: number) => {
+    const remaining = sources.filter((_, i) => i !== index)
+    onChange(remaining.length > 0 ? remaining : [newBackupSourceDraft()])
+  }
+
+  // Picked paths fill the empty rows first, paths already listed are skipped
+  const addPaths = (paths: string[]) => {
+    const listed = new Set(sources.map((source) => source.path.trim()).filter(Boolean))
+    const next = sources.filter((source) => source.path.trim())
+    for (const path of paths) {
+      if (!listed.has(path) && next.length < MAX_SOURCES) {
+        listed.add(path)
+        next.push(newBackupSourceDraft(path))
+      }
+    }
+    onChange(next.length > 0 ? next : [newBackupSourceDraft()])
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Source Paths (Agent)</Label>
+
+      <div className="space-y-3">
+        {sources.map((source, index) => (
+          <div key={index} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="w-6 text-right text-sm text-muted-foreground">{index + 1}.</span>
+              <Input
+                type="text"
+                placeholder="/path/to/source"
+                value={source.path}
+                onChange={(e) => updateSource(index, { path: e.target.value })}
+                required={index === 0}
+                disabled={disabled}
+                aria-label={`Source ${index + 1} path`}
+                className="flex-1"
+              />
+              {agentId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setBrowsingIndex(index)}
+                  disabled={disabled}
+                  title="Browse file system on agent"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveSource(index, -1)}
+                disabled={disabled || index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveSource(index, 1)}
+                disabled={disabled || index === sources.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeSource(index)}
+                disabled={disabled || (sources.length === 1 && !source.path)}
+                title="Remove source"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="pl-8">
+              <textarea
+                placeholder={"Excludes of this source, one per line (cache/, *.tmp)"}
+                value={source.excludes}
+                onChange={(e) => updateSource(index, { excludes: e.target.value })}
+                disabled={disabled}
+                rows={2}
+                aria-label={`Source ${index + 1} excludes`}
+                className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 font-mono text-xs"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...sources, newBackupSourceDraft()])}
+          disabled={disabled || sources.length >= MAX_SOURCES}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Source
+        </Button>
+        {agentId && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setShowMultiBrowser(true)}
+            disabled={disabled || sources.length >= MAX_SOURCES}
+          >
+            <FolderPlus className="h-4 w-4 mr-2" />
+            Pick Several
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        All sources are backed up in one run. With more than one source their full paths are kept under the
+        destination. Excludes apply below their source only, a leading "/" anchors them to the source path.
+      </p>
+
+      {agentId && (
+        <>
+          <FileBrowser
+            agentId={agentId}
+            open={browsingIndex !== null}
+            onClose={() => setBrowsingIndex(null)}
+            onSelect={(path) => {
+              if (browsingIndex !== null) updateSource(browsingIndex, { path })
+              setBrowsingIndex(null)
+            }}
+            initialPath={browsingIndex !== null ? sources[browsingIndex]?.path : undefined}
+          />
+          <FileBrowser
+            agentId={agentId}
+            open={showMultiBrowser}
+            onClose={() => setShowMultiBrowser(false)}
+            onSelect={(path) => {
+              addPaths([path])
+              setShowMultiBrowser(false)
+            }}
+            onSelectMany={(paths) => {
+              addPaths(paths)
+              setShowMultiBrowser(false)
+            }}
+          />
+        </>
+      )}
+    </div>
+  )
+}
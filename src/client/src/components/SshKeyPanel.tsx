@@ -0,0 +1,146 @@
+import { useState } from "react"
+import { Check, Copy, KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { apiPost } from "@/lib/api"
+import { toJumpHostRequest } from "@/lib/jumpHosts"
+import type { SshConnection, SshKeyInfo } from "@/lib/sshKeys"
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false)
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className="shrink-0"
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(text)
+          setCopied(true)
+          setTimeout(() => setCopied(false), 2000)
+        } catch (err) {
+          console.error("Failed to copy:", err)
+        }
+      }}
+    >
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+    </Button>
+  )
+}
+
+interface SshKeyPanelProps {
+  // Set for saved agents, the installation then checks their pinned host key
+  agentId?: string
+  keyInfo: SshKeyInfo
+  connection: SshConnection
+  disabled?: boolean
+}
+
+/**
+ * Public half of an agent key with the ways to install it: by hand, or with a one-time password login.
+ */
+export function SshKeyPanel({ agentId, keyInfo, connection, disabled }: SshKeyPanelProps) {
+  const [password, setPassword] = useState("")
+  const [isInstalling, setIsInstalling] = useState(false)
+  const [installMessage, setInstallMessage] = useState<string | null>(null)
+  const [installError, setInstallError] = useState<string | null>(null)
+
+  const handleInstall = async () => {
+    if (!connection.hostname.trim()) {
+      setInstallError("Hostname is required to install the key")
+      return
+    }
+
+    setIsInstalling(true)
+    setInstallMessage(null)
+    setInstallError(null)
+    try {
+      const result = await apiPost<{ message: string }>("/api/agent/ssh-key/install", {
+        hostname: connection.hostname.trim(),
+        rsyncUser: connection.rsyncUser.trim() || null,
+        rsyncPort: connection.rsyncPort ? parseInt(connection.rsyncPort, 10) : 22,
+        password,
+        publicKey: keyInfo.publicKey,
+        agentId: agentId ?? null,
+        jumpHosts: (connection.jumpHosts ?? []).map(toJumpHostRequest),
+      })
+      setInstallMessage(`✓ ${result.message}`)
+    } catch (err) {
+      setInstallError(err instanceof Error ? err.message : "Failed to install the key")
+    } finally {
+      // The password is only needed for this one request
+      setPassword("")
+      setIsInstalling(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center gap-2 text-sm">
+        <KeyRound className="h-4 w-4 text-muted-foreground" />
+        <span className="font-mono text-xs break-all">{keyInfo.fingerprint}</span>
+        {keyInfo.shared && (
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-blue-500/20 text-blue-600 dark:text-blue-400">
+            Shared key
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>authorized_keys Line</Label>
+        <div className="flex items-start gap-2 rounded-md border bg-muted p-3">
+          <code className="flex-1 text-xs font-mono break-all">{keyInfo.publicKey}</code>
+          <CopyButton text={keyInfo.publicKey} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Install Command</Label>
+        <div className="flex items-start gap-2 rounded-md border bg-muted p-3">
+          <code className="flex-1 text-xs font-mono break-all">{keyInfo.installCommand}</code>
+          <CopyButton text={keyInfo.installCommand} />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Run it on the agent as the SSH user to authorize the key by hand.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ssh-install-password">Install with Password</Label>
+        <div className="flex gap-2">
+          <Input
+            id="ssh-install-password"
+            type="password"
+            autoComplete="off"
+            placeholder="Password of the SSH user"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={disabled || isInstalling}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleInstall}
+            disabled={disabled || isInstalling || !password}
+          >
+            {isInstalling ? "Installing..." : "Install Key"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Logs in once with the password and adds the key, like ssh-copy-id. The password is not stored.
+        </p>
+        {installMessage && (
+          <div className="rounded-md bg-green-500/15 p-3 text-sm text-green-600 dark:text-green-400">
+            {installMessage}
+          </div>
+        )}
+        {installError && (
+          <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{installError}</div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,16 +5,30 @@ import { HubConnection, HubConnectionBuilder } from "@microsoft/signalr"
 import "@xterm/xterm/css/xterm.css"
 
 interface TerminalProps {
+  // Agent the SSH session is opened on
+  agentId: string
   className?: string
+  // Called when the remote shell exits, with the exit code of ssh
+  onClosed?: (exitCode: number) => void
 }
 
-export function Terminal({ className }: TerminalProps) {
+/**
+ * Interactive SSH session on an agent, over the terminal hub. Every instance has its own hub
+ * connection and so its own session.
+ */
+export function Terminal({ agentId, className, onClosed }: TerminalProps) {
   const terminalRef = useRef<HTMLDivElement>(null)
   const xtermRef = useRef<XTerm | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
   const connectionRef = useRef<HubConnection | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [isClosed, setIsClosed] = useState(false)
+  const onClosedRef = useRef(onClosed)
+
+  useEffect(() => {
+    onClosedRef.current = onClosed
+  }, [onClosed])
 
   useEffect(() => {
     if (!terminalRef.current) return
@@ -35,7 +49,14 @@ export function Terminal({ className }: TerminalProps) {
     terminal.loadAddon(fitAddon)
 
     terminal.open(terminalRef.current)
-    fitAddon.fit()
+    const container = terminalRef.current
+    // A hidden tab has no size, fitting it would shrink the terminal to nothing
+    const fit = () => {
+      if (container.clientWidth > 0 && container.clientHeight > 0) {
+        fitAddon.fit()
+      }
+    }
+    fit()
 
     xtermRef.current = terminal
     fitAddonRef.current = fitAddon
@@ -112,10 +133,22 @@ export function Terminal({ className }: TerminalProps) {
       terminal.writeln(`\r\n\x1b[31mError: ${errorMessage}\x1b[0m`)
     })
 
+    // The remote shell exited, the tab stays open with its output until it is closed
+    connection.on("TerminalClosed", (exitCode: number) => {
+      setIsClosed(true)
+      terminal.writeln(`\r\n\x1b[33mSession closed (exit code ${exitCode})\x1b[0m`)
+      onClosedRef.current?.(exitCode)
+      connection.stop().catch((err) => {
+        console.error("Error stopping connection:", err)
+      })
+    })
+
+    const startSession = () =>
+      connection.invoke("StartTerminal", agentId, terminal.cols || 80, terminal.rows || 24)
+
     // Handle connection events
     connection.onclose(() => {
       setIsConnected(false)
-      terminal.writeln("\r\n\x1b[33mConnection closed. Reconnecting...\x1b[0m")
     })
 
     connection.onreconnecting(() => {
@@ -125,8 +158,9 @@ export function Terminal({ className }: TerminalProps) {
 
     connection.onreconnected(() => {
       setIsConnected(true)
-      terminal.writeln("\r\n\x1b[32mReconnected. Starting terminal...\x1b[0m")
-      connection.invoke("StartTerminal").catch((err) => {
+      // The session ends with the connection, a new one is opened on the agent
+      terminal.writeln("\r\n\x1b[32mReconnected. Opening a new session...\x1b[0m")
+      startSession().catch((err) => {
         console.error("Error starting terminal:", err)
       })
     })
@@ -137,8 +171,8 @@ export function Terminal({ className }: TerminalProps) {
       .then(() => {
         setIsConnected(true)
         setError(null)
-        terminal.writeln("\x1b[32mConnected to terminal. Starting bash...\x1b[0m\r\n")
-        return connection.invoke("StartTerminal")
+        terminal.writeln("\x1b[32mConnected. Opening an SSH session on the agent...\x1b[0m\r\n")
+        return startSession()
       })
       .catch((err) => {
         console.error("Error starting connection:", err)
@@ -164,31 +198,33 @@ export function Terminal({ className }: TerminalProps) {
         terminal.writeln(`\r\n\x1b[31mError: ${errorMessage}\x1b[0m`)
       })
 
-    // Handle window resize
-    const handleResize = () => {
-      if (fitAddonRef.current && xtermRef.current) {
-        fitAddonRef.current.fit()
-        if (connectionRef.current?.state === "Connected" && xtermRef.current) {
-          const cols = xtermRef.current.cols || 80
-          const rows = xtermRef.current.rows || 24
+    // Follow the size of the element (window resizes, a tab becoming visible), the size of the remote
+    // PTY follows once resizing settles
+    let resizeTimer: ReturnType<typeof setTimeout> | undefined
+    terminal.onResize(({ cols, rows }) => {
+      clearTimeout(resizeTimer)
+      resizeTimer = setTimeout(() => {
+        if (connectionRef.current?.state === "Connected") {
           connectionRef.current.invoke("ResizeTerminal", cols, rows).catch((err) => {
             console.error("Error resizing terminal:", err)
           })
         }
-      }
-    }
+      }, 250)
+    })
 
-    window.addEventListener("resize", handleResize)
+    const resizeObserver = new ResizeObserver(() => fit())
+    resizeObserver.observe(container)
 
     // Cleanup
     return () => {
-      window.removeEventListener("resize", handleResize)
+      resizeObserver.disconnect()
+      clearTimeout(resizeTimer)
       connection.stop().catch((err) => {
         console.error("Error stopping connection:", err)
       })
       terminal.dispose()
     }
-  }, [])
+  }, [agentId])
 
   return (
     <div className={className}>
@@ -202,9 +238,9 @@ export function Terminal({ className }: TerminalProps) {
         className="w-full rounded-md border bg-[#1e1e1e] p-2"
         style={{ minHeight: "400px" }}
       />
-      {isConnected && (
+      {isConnected && !isClosed && (
         <div className="mt-2 text-xs text-muted-foreground">
-          Terminal connected. Type commands to interact with bash.
+          Connected to the agent over SSH with its stored key.
           <br />
           <span className="text-yellow-600 dark:text-yellow-400">
             Note: When entering passwords (e.g., for sudo), characters won't be displayed for security. Just type your password and press Enter.
@@ -0,0 +1,61 @@
+import { useEffect, useState, type ReactNode } from "react"
+
+interface VirtualListProps<T> {
+  items: T[]
+  rowHeight: number
+  height: number
+  renderRow: (item: T, index: number) => ReactNode
+  getKey: (item: T) => string
+  // Called when the last rows come into view, to load the next page
+  onEndReached?: () => void
+  footer?: ReactNode
+}
+
+// Rows rendered above and below the visible ones, so fast scrolling does not show blank rows
+const OVERSCAN = 10
+
+/**
+ * Scrolling list of fixed height rows that only renders the rows in view, for lists of any length.
+ * Give it a new key to start again at the top.
+ */
+export function VirtualList<T>({
+  items,
+  rowHeight,
+  height,
+  renderRow,
+  getKey,
+  onEndReached,
+  footer,
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN)
+  const last = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + OVERSCAN)
+
+  useEffect(() => {
+    if (onEndReached && last >= items.length - OVERSCAN) {
+      onEndReached()
+    }
+  }, [last, items.length, onEndReached])
+
+  return (
+    <div
+      className="overflow-y-auto"
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(first, last).map((item, offset) => (
+          <div
+            key={getKey(item)}
+            className="absolute left-0 right-0"
+            style={{ top: (first + offset) * rowHeight, height: rowHeight }}
+          >
+            {renderRow(item, first + offset)}
+          </div>
+        ))}
+      </div>
+      {footer}
+    </div>
+  )
+}
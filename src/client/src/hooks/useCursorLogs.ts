@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { apiGet } from "@/lib/api"
+
+interface CursorLogsResponse<T> {
+  logs: T[]
+  totalCount: number | null
+  nextCursor: string | null
+}
+
+/**
+ * GET {endpoint}/locate, the first row of a path in the sorted logs.
+ */
+interface LogLocation {
+  id: string
+  filePath: string
+  index: number
+  cursor: string | null
+}
+
+const PAGE_SIZE = 200
+
+/**
+ * Logs of a log table, loaded page by page with the keyset cursor of the logs API as the list is
+ * scrolled. The query holds the filters and sort; a new query starts over from the first row.
+ * Jumping to a path reloads the list from the first row of that path. keep hides rows from the
+ * list and, being part of the query, has to be a stable function.
+ */
+export function useCursorLogs<T extends { id: string }>(
+  endpoint: string | null,
+  query: string,
+  keep?: (row: T) => boolean
+) {
+  const [rows, setRows] = useState<T[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // Position of the first loaded row in the sorted logs, above 0 after a jump
+  const [startIndex, setStartIndex] = useState(0)
+  const [jumpedToId, setJumpedToId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Responses of a query that changed since they were requested are dropped
+  const generation = useRef(0)
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams(query)
+      params.set("pageSize", PAGE_SIZE.toString())
+      if (cursor) {
+        params.set("cursor", cursor)
+      }
+      const data = await apiGet<CursorLogsResponse<T>>(`${endpoint}?${params.toString()}`)
+      return { ...data, logs: keep ? data.logs.filter(keep) : data.logs }
+    },
+    [endpoint, query, keep]
+  )
+
+  const reload = useCallback(async () => {
+    if (!endpoint) return
+
+    const current = ++generation.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const data = await fetchPage(null)
+      if (current !== generation.current) return
+      setRows(data.logs)
+      setTotalCount(data.totalCount ?? data.logs.length)
+      setNextCursor(data.nextCursor)
+      setStartIndex(0)
+      setJumpedToId(null)
+    } catch (err) {
+      if (current !== generation.current) return
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while fetching logs")
+      }
+    } finally {
+      if (current === generation.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [endpoint, fetchPage])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const loadMore = useCallback(async () => {
+    // After a failed page the list stays as it is until it is reloaded
+    if (!nextCursor || isLoading || isLoadingMore || error) return
+
+    const current = generation.current
+    setIsLoadingMore(true)
+
+    try {
+      const data = await fetchPage(nextCursor)
+      if (current !== generation.current) return
+      setRows((prev) => [...prev, ...data.logs])
+      setNextCursor(data.nextCursor)
+    } catch (err) {
+      if (current !== generation.current) return
+      setError(err instanceof Error ? err.message : "An error occurred while fetching logs")
+    } finally {
+      if (current === generation.current) {
+        setIsLoadingMore(false)
+      }
+    }
+  }, [nextCursor, isLoading, isLoadingMore, error, fetchPage])
+
+  const jumpTo = useCallback(
+    async (path: string) => {
+      if (!endpoint || !path.trim()) return
+
+      const current = ++generation.current
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams(query)
+        params.set("path", path.trim())
+        const location = await apiGet<LogLocation>(`${endpoint}/locate?${params.toString()}`)
+        const data = await fetchPage(location.cursor)
+        if (current !== generation.current) return
+        setRows(data.logs)
+        setNextCursor(data.nextCursor)
+        setStartIndex(location.index)
+        setJumpedToId(location.id)
+      } catch (err) {
+        if (current !== generation.current) return
+        setError(err instanceof Error ? err.message : "Failed to find the path in the logs")
+      } finally {
+        if (current === generation.current) {
+          setIsLoading(false)
+        }
+      }
+    },
+    [endpoint, query, fetchPage]
+  )
+
+  return {
+    rows,
+    totalCount,
+    startIndex,
+    jumpedToId,
+    hasMore: nextCursor !== null,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    jumpTo,
+    reload,
+  }
+}
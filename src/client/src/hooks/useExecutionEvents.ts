@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from "react"
+import { HubConnection, HubConnectionBuilder, HubConnectionState } from "@microsoft/signalr"
+import { API_URL } from "@/lib/api"
+
+export type ExecutionStatus =
+  | "Starting"
+  | "Analyzing"
+  | "Copying"
+  | "Finalizing"
+  | "Completed"
+  | "Interrupted"
+
+export type ExecutionType = "Backup" | "Restore"
+
+export interface ExecutionEvent {
+  executionId: string
+  backupPlanId: string
+  name: string
+  status: ExecutionStatus
+  startDateTime: string
+  endDateTime: string | null
+  currentFileName: string | null
+  currentFilePath: string | null
+  currentFileIndex: number
+  totalFilesToProcess: number | null
+  isAutomatic: boolean
+  isSimulation: boolean
+  executionType: ExecutionType
+  stoppedBy: string | null
+}
+
+export interface NotificationEvent {
+  id: string
+  type: string
+  title: string
+  message: string
+  priority: "Normal" | "High"
+  backupPlanId: string | null
+  executionId: string | null
+  isRead: boolean
+  createdAt: string
+}
+
+interface ExecutionEventHandlers {
+  onExecutionUpdated?: (event: ExecutionEvent) => void
+  onNotificationCreated?: (notification: NotificationEvent) => void
+  // Ids of the agents whose health was just checked
+  onAgentHealthUpdated?: (agentIds: string[]) => void
+  // Called after an automatic reconnect, so pages can refetch whatever they missed
+  onReconnected?: () => void
+}
+
+// One connection per browser tab, shared by every component using the hook
+let sharedConnection: HubConnection | null = null
+let subscriberCount = 0
+const connectionListeners = new Set<(isConnected: boolean) => void>()
+const reconnectListeners = new Set<() => void>()
+const RESTART_DELAY_MS = 30000
+
+function getHubUrl(): string {
+  // Use the API origin when configured, otherwise the page's own origin
+  if (API_URL) {
+    return `${API_URL.replace(/\/$/, "")}/hubs/executions`
+  }
+  const protocol = window.location.protocol === "https:" ? "https:" : "http:"
+  return `${protocol}//${window.location.host}/hubs/executions`
+}
+
+function notifyConnectionListeners(isConnected: boolean) {
+  connectionListeners.forEach((listener) => listener(isConnected))
+}
+
+function acquireConnection(): HubConnection | null {
+  subscriberCount++
+  if (sharedConnection) {
+    return sharedConnection
+  }
+
+  const token = sessionStorage.getItem("token")
+  if (!token) {
+    return null
+  }
+
+  const connection = new HubConnectionBuilder()
+    .withUrl(getHubUrl(), {
+      accessTokenFactory: () => sessionStorage.getItem("token") || "",
+    })
+    .withAutomaticReconnect({
+      nextRetryDelayInMilliseconds: (retryContext) => {
+        // Same backoff as the terminal: 0s, 2s, 10s, then 30s intervals
+        if (retryContext.previousRetryCount === 0) return 0
+        if (retryContext.previousRetryCount === 1) return 2000
+        if (retryContext.previousRetryCount === 2) return 10000
+        return 30000
+      },
+    })
+    .build()
+
+  connection.onreconnecting(() => notifyConnectionListeners(false))
+  connection.onreconnected(() => {
+    notifyConnectionListeners(true)
+    reconnectListeners.forEach((listener) => listener())
+  })
+  connection.onclose(() => {
+    notifyConnectionListeners(false)
+    scheduleRestart(connection)
+  })
+
+  sharedConnection = connection
+  startConnection(connection, false)
+  return connection
+}
+
+function startConnection(connection: HubConnection, isRestart: boolean) {
+  connection
+    .start()
+    .then(() => {
+      notifyConnectionListeners(true)
+      if (isRestart) {
+        reconnectListeners.forEach((listener) => listener())
+      }
+    })
+    .catch((err) => {
+      console.error("Error connecting to execution events hub:", err)
+      scheduleRestart(connection)
+    })
+}
+
+// Automatic reconnect only kicks in once a connection was established, so a
+// failed first start (server down at page load) is retried here instead
+function scheduleRestart(connection: HubConnection) {
+  setTimeout(() => {
+    if (sharedConnection === connection && connection.state === HubConnectionState.Disconnected) {
+      startConnection(connection, true)
+    }
+  }, RESTART_DELAY_MS)
+}
+
+function releaseConnection() {
+  subscriberCount = Math.max(0, subscriberCount - 1)
+  if (subscriberCount === 0 && sharedConnection) {
+    const connection = sharedConnection
+    sharedConnection = null
+    connection.stop().catch(() => {
+      // Stopping while the connection is still negotiating rejects; nothing to clean up
+    })
+  }
+}
+
+/**
+ * Subscribes to server-pushed execution progress, notifications and agent health checks.
+ * Handlers may change on every render; the latest ones are always used.
+ */
+export function useExecutionEvents(handlers: ExecutionEventHandlers) {
+  const handlersRef = useRef(handlers)
+  const [isConnected, setIsConnected] = useState(
+    sharedConnection?.state === HubConnectionState.Connected
+  )
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    const connection = acquireConnection()
+    if (!connection) {
+      releaseConnection()
+      return
+    }
+
+    const handleExecutionUpdated = (event: ExecutionEvent) => {
+      handlersRef.current.onExecutionUpdated?.(event)
+    }
+    const handleNotificationCreated = (notification: NotificationEvent) => {
+      handlersRef.current.onNotificationCreated?.(notification)
+    }
+    const handleAgentHealthUpdated = (agentIds: string[]) => {
+      handlersRef.current.onAgentHealthUpdated?.(agentIds)
+    }
+    const handleReconnected = () => {
+      handlersRef.current.onReconnected?.()
+    }
+
+    connection.on("ExecutionUpdated", handleExecutionUpdated)
+    connection.on("NotificationCreated", handleNotificationCreated)
+    connection.on("AgentHealthUpdated", handleAgentHealthUpdated)
+    connectionListeners.add(setIsConnected)
+    reconnectListeners.add(handleReconnected)
+    setIsConnected(connection.state === HubConnectionState.Connected)
+
+    return () => {
+      connection.off("ExecutionUpdated", handleExecutionUpdated)
+      connection.off("NotificationCreated", handleNotificationCreated)
+      connection.off("AgentHealthUpdated", handleAgentHealthUpdated)
+      connectionListeners.delete(setIsConnected)
+      reconnectListeners.delete(handleReconnected)
+      releaseConnection()
+    }
+  }, [])
+
+  return { isConnected }
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from "react"
+import { apiGet } from "@/lib/api"
+import { useExecutionEvents } from "@/hooks/useExecutionEvents"
+
+export interface RunningExecution {
+  executionId: string
+  backupPlanId: string
+  startDateTime: string
+  isSimulation: boolean
+  stoppedBy: string | null
+}
+
+/**
+ * Executions currently running on the server, kept up to date from the execution events hub.
+ */
+export function useRunningExecutions() {
+  const [runningExecutions, setRunningExecutions] = useState<RunningExecution[]>([])
+
+  const fetchRunningExecutions = useCallback(async () => {
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) return
+
+      const data = await apiGet<RunningExecution[]>("/api/executions/running")
+      setRunningExecutions(data)
+    } catch (err) {
+      console.error("Error fetching running executions:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRunningExecutions()
+  }, [fetchRunningExecutions])
+
+  useExecutionEvents({
+    onExecutionUpdated: (event) => {
+      setRunningExecutions((prev) => {
+        const others = prev.filter((e) => e.executionId !== event.executionId)
+        if (event.status === "Completed" || event.status === "Interrupted") {
+          return others
+        }
+        return [
+          ...others,
+          {
+            executionId: event.executionId,
+            backupPlanId: event.backupPlanId,
+            startDateTime: event.startDateTime,
+            isSimulation: event.isSimulation,
+            stoppedBy: event.stoppedBy,
+          },
+        ]
+      })
+    },
+    onReconnected: fetchRunningExecutions,
+  })
+
+  const isPlanRunning = useCallback(
+    (planId: string) => runningExecutions.some((e) => e.backupPlanId === planId),
+    [runningExecutions]
+  )
+
+  return { runningExecutions, isPlanRunning, refresh: fetchRunningExecutions }
+}
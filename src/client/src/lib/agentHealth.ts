@@ -0,0 +1,27 @@
+export type AgentHealthStatus = "Unknown" | "Online" | "Degraded" | "Offline"
+
+/**
+ * Health of one agent as returned by GET /api/agent/health.
+ */
+export interface AgentHealth {
+  agentId: string
+  status: AgentHealthStatus
+  lastCheckAt: string | null
+  lastSeenAt: string | null
+  latencyMs: number | null
+  error: string | null
+  uptimePercent: number | null
+  // Share of successful checks per hour, oldest first, null for hours without checks
+  buckets: (number | null)[]
+}
+
+export function formatTimeAgo(dateTime: string | null): string {
+  if (!dateTime) return "never"
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(dateTime).getTime()) / 1000))
+  if (seconds < 60) return "just now"
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `${hours} h ago`
+  return `${Math.round(hours / 24)} days ago`
+}
@@ -0,0 +1,92 @@
+import type { RsyncOptions } from "@/lib/rsyncOptions"
+
+export interface DiskUsagePoint {
+  collectedAt: string
+  sizeBytes: number
+  usedBytes: number
+}
+
+export interface AgentMount {
+  filesystem: string
+  mountPoint: string
+  sizeBytes: number
+  usedBytes: number
+  availableBytes: number
+  // Usage of the same mount point in earlier collections, oldest first
+  history: DiskUsagePoint[]
+}
+
+/**
+ * Latest inventory of an agent as returned by GET /api/agent/{id}/inventory.
+ * collectedAt is null when the inventory has never been collected.
+ */
+export interface AgentInventory {
+  collectedAt: string | null
+  kernel: string | null
+  distribution: string | null
+  // null when rsync is not installed on the agent
+  rsyncVersion: string | null
+  rsyncProtocol: number | null
+  cpuCount: number | null
+  cpuModel: string | null
+  memoryTotalBytes: number | null
+  memoryAvailableBytes: number | null
+  mounts: AgentMount[]
+}
+
+interface RsyncRequirement {
+  label: string
+  minVersion: string
+  isUsed: (options: RsyncOptions) => boolean
+}
+
+// Options of the plan form that older rsync versions reject with "unknown option"
+const RSYNC_REQUIREMENTS: RsyncRequirement[] = [
+  { label: "ACLs (-A)", minVersion: "3.0.0", isUsed: (options) => options.acls },
+  { label: "Extended attributes (-X)", minVersion: "3.0.0", isUsed: (options) => options.xattrs },
+  { label: "--delete-delay", minVersion: "3.0.0", isUsed: (options) => options.deleteMode === "delete-delay" },
+]
+
+/**
+ * Compares dotted versions numerically, suffixes like "pre1" are ignored. Returns a negative
+ * number when a is older than b.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => version.split(".").map((part) => parseInt(part, 10) || 0)
+  const partsA = parse(a)
+  const partsB = parse(b)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * Problems the selected transfer options will run into with the rsync installed on the agent.
+ */
+export function getRsyncWarnings(inventory: AgentInventory, options: RsyncOptions): string[] {
+  if (!inventory.collectedAt) return []
+
+  if (!inventory.rsyncVersion) {
+    return ["rsync was not found on the agent, backups of this plan will fail until it is installed."]
+  }
+
+  const rsyncVersion = inventory.rsyncVersion
+  return RSYNC_REQUIREMENTS
+    .filter((requirement) => requirement.isUsed(options) && compareVersions(rsyncVersion, requirement.minVersion) < 0)
+    .map(
+      (requirement) =>
+        `${requirement.label} requires rsync ${requirement.minVersion} or newer, the agent has ${rsyncVersion}.`
+    )
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) return "0 B"
+
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB", "PB"]
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)))
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`
+}
@@ -37,22 +37,46 @@ function getDefaultHeaders(): HeadersInit {
 }
 
 /**
- * Make an authenticated API request
+ * Resolve an endpoint against the API URL
  */
-export async function apiRequest<T = any>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
+function resolveUrl(endpoint: string): string {
   // If endpoint is already a full URL, use it as-is
   // If API_URL is set, prepend it to the endpoint
   // Otherwise, use the endpoint as a relative path (same origin)
-  const url = endpoint.startsWith("http") 
+  return endpoint.startsWith("http") 
     ? endpoint 
     : API_URL 
       ? `${API_URL}${endpoint}` 
       : endpoint
-  
-  const response = await fetch(url, {
+}
+
+/**
+ * Throw the error of a failed response
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  // Handle 401 Unauthorized - redirect to login
+  if (response.status === 401) {
+    sessionStorage.removeItem("token")
+    sessionStorage.removeItem("email")
+    sessionStorage.removeItem("expiresAt")
+    window.location.href = "/login"
+    throw new Error("Unauthorized - please log in again")
+  }
+
+  const errorData = await response.json().catch(() => ({ 
+    message: `HTTP error! status: ${response.status}` 
+  }))
+  throw new Error(errorData.message || `Request failed with status ${response.status}`)
+}
+
+/**
+ * Make an authenticated API request
+ */
+export async function apiRequest<T = any>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(resolveUrl(endpoint), {
     ...options,
     headers: {
       ...getDefaultHeaders(),
@@ -61,19 +85,7 @@ export async function apiRequest<T = any>(
   })
 
   if (!response.ok) {
-    // Handle 401 Unauthorized - redirect to login
-    if (response.status === 401) {
-      sessionStorage.removeItem("token")
-      sessionStorage.removeItem("email")
-      sessionStorage.removeItem("expiresAt")
-      window.location.href = "/login"
-      throw new Error("Unauthorized - please log in again")
-    }
-
-    const errorData = await response.json().catch(() => ({ 
-      message: `HTTP error! status: ${response.status}` 
-    }))
-    throw new Error(errorData.message || `Request failed with status ${response.status}`)
+    await throwResponseError(response)
   }
 
   // Handle empty responses
@@ -119,3 +131,30 @@ export async function apiDelete<T = any>(endpoint: string): Promise<T> {
   return apiRequest<T>(endpoint, { method: "DELETE" })
 }
 
+/**
+ * Download a file from an authenticated endpoint. The file name comes from the
+ * Content-Disposition header of the response, or the fallback when there is none.
+ */
+export async function apiDownload(endpoint: string, fallbackFileName: string): Promise<void> {
+  const response = await fetch(resolveUrl(endpoint), {
+    method: "GET",
+    headers: getDefaultHeaders(),
+  })
+
+  if (!response.ok) {
+    await throwResponseError(response)
+  }
+
+  const disposition = response.headers.get("content-disposition") ?? ""
+  const match = /filename\*=UTF-8''([^;]+)|filename="?([^";]+)"?/i.exec(disposition)
+  const fileName = match ? decodeURIComponent(match[1] ?? match[2]) : fallbackFileName
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
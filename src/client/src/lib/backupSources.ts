@@ -0,0 +1,70 @@
+import { getTransferRoot } from "@/lib/rsyncFilters"
+
+/**
+ * Source of a backup plan as returned with the plan, in transfer order.
+ */
+export interface BackupPlanSource {
+  id: string
+  position: number
+  path: string
+  // Relative to the source, a leading "/" anchors the pattern to the source path
+  excludes: string[]
+}
+
+/**
+ * A source as edited in the plan forms, excludes one per line.
+ */
+export interface BackupSourceDraft {
+  path: string
+  excludes: string
+}
+
+export const MAX_SOURCES = 20
+
+export function newBackupSourceDraft(path = ""): BackupSourceDraft {
+  return { path, excludes: "" }
+}
+
+export function toBackupSourceDrafts(sources: BackupPlanSource[]): BackupSourceDraft[] {
+  return [...sources]
+    .sort((a, b) => a.position - b.position)
+    .map((source) => ({ path: source.path, excludes: source.excludes.join("\n") }))
+}
+
+/**
+ * Request body of the sources, as sent with the plan. Rows without a path are left out.
+ */
+export function toBackupSourceRequests(drafts: BackupSourceDraft[]) {
+  return drafts
+    .filter((draft) => draft.path.trim())
+    .map((draft) => ({
+      path: draft.path.trim(),
+      excludes: draft.excludes
+        .split("\n")
+        .map((pattern) => pattern.trim())
+        .filter(Boolean),
+    }))
+}
+
+/**
+ * Paths of a plan's sources, in transfer order.
+ */
+export function sourcePaths(sources: BackupPlanSource[] | undefined): string[] {
+  return [...(sources ?? [])].sort((a, b) => a.position - b.position).map((source) => source.path)
+}
+
+/**
+ * Whether backups keep the full source paths below the destination (rsync --relative). Like on the
+ * server, only plans with several sources do; rows without a path are not sent.
+ */
+export function usesRelativePaths(sources: { path: string }[] | undefined): boolean {
+  return (sources ?? []).filter((source) => source.path.trim()).length > 1
+}
+
+/**
+ * Directory the destination content of a plan maps back to on the agent. Plans with several sources
+ * keep the full source paths under the destination, so theirs is "/".
+ */
+export function getOriginalLocation(sources: BackupPlanSource[] | undefined): string {
+  return sources?.length && !usesRelativePaths(sources) ? getTransferRoot(sources[0].path) : "/"
+}
@@ -0,0 +1,96 @@
+import CronExpressionParser from "cron-parser"
+
+export type ScheduleMode = "hourly" | "daily" | "weekly" | "monthly" | "advanced"
+
+/**
+ * A schedule as edited by the builder. Only the fields of the selected mode are used.
+ */
+export interface ScheduleSpec {
+  mode: ScheduleMode
+  minute: number
+  hour: number
+  // 0 is Sunday, as in cron
+  weekdays: number[]
+  dayOfMonth: number
+}
+
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+]
+
+const DEFAULT_SPEC: ScheduleSpec = {
+  mode: "daily",
+  minute: 0,
+  hour: 0,
+  weekdays: [1],
+  dayOfMonth: 1,
+}
+
+const NUMBER = /^\d+$/
+
+/**
+ * Recognizes the expressions buildCron produces. Anything else, including 6-field expressions
+ * and ranges or steps, is returned as "advanced" and has to be edited as raw cron.
+ */
+export function parseSchedule(cron: string): ScheduleSpec {
+  const parts = cron.trim().split(/\s+/)
+  const advanced = { ...DEFAULT_SPEC, mode: "advanced" as const }
+  if (parts.length !== 5) return advanced
+
+  const [minute, hour, dayOfMonth, month, weekday] = parts
+  if (!NUMBER.test(minute) || month !== "*") return advanced
+  const base = { ...DEFAULT_SPEC, minute: Number(minute) }
+
+  if (hour === "*" && dayOfMonth === "*" && weekday === "*") {
+    return { ...base, mode: "hourly" }
+  }
+  if (!NUMBER.test(hour)) return advanced
+  const withHour = { ...base, hour: Number(hour) }
+
+  if (dayOfMonth === "*" && weekday === "*") {
+    return { ...withHour, mode: "daily" }
+  }
+  if (dayOfMonth === "*" && /^\d(,\d)*$/.test(weekday)) {
+    const weekdays = weekday.split(",").map(Number).map((day) => day % 7)
+    return { ...withHour, mode: "weekly", weekdays: Array.from(new Set(weekdays)) }
+  }
+  if (NUMBER.test(dayOfMonth) && weekday === "*") {
+    return { ...withHour, mode: "monthly", dayOfMonth: Number(dayOfMonth) }
+  }
+  return advanced
+}
+
+/**
+ * Builds a 5-field cron expression for a preset mode. Advanced schedules are kept as typed.
+ */
+export function buildCron(spec: ScheduleSpec): string {
+  switch (spec.mode) {
+    case "hourly":
+      return `${spec.minute} * * * *`
+    case "daily":
+      return `${spec.minute} ${spec.hour} * * *`
+    case "weekly": {
+      const weekdays = spec.weekdays.length > 0 ? [...spec.weekdays].sort((a, b) => a - b) : [1]
+      return `${spec.minute} ${spec.hour} * * ${weekdays.join(",")}`
+    }
+    case "monthly":
+      return `${spec.minute} ${spec.hour} ${spec.dayOfMonth} * *`
+    default:
+      throw new Error("Advanced schedules are edited as raw cron")
+  }
+}
+
+/**
+ * The next run times of a cron expression evaluated in the given IANA timezone, the way the
+ * server schedules them. Throws when the expression is invalid.
+ */
+export function getNextRunTimes(cron: string, timezone: string, count = 10): Date[] {
+  const interval = CronExpressionParser.parse(cron.trim(), { tz: timezone })
+  return interval.take(count).map((date) => date.toDate())
+}
@@ -0,0 +1,25 @@
+export interface DeletionGuardOptions {
+  // null disables the corresponding threshold
+  maxFiles: number | null
+  maxPercent: number | null
+}
+
+export const DEFAULT_DELETION_GUARD_OPTIONS: DeletionGuardOptions = {
+  maxFiles: null,
+  maxPercent: null,
+}
+
+/**
+ * Deletion threshold columns as returned by GET /api/backupplan/{id}.
+ */
+export interface BackupPlanDeletionGuardFields {
+  deleteThresholdFiles?: number | null
+  deleteThresholdPercent?: number | null
+}
+
+export function deletionGuardFromPlan(plan: BackupPlanDeletionGuardFields): DeletionGuardOptions {
+  return {
+    maxFiles: plan.deleteThresholdFiles ?? DEFAULT_DELETION_GUARD_OPTIONS.maxFiles,
+    maxPercent: plan.deleteThresholdPercent ?? DEFAULT_DELETION_GUARD_OPTIONS.maxPercent,
+  }
+}
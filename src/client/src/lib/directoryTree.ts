@@ -0,0 +1,193 @@
+/**
+ * Changes of an execution or simulation below one entry of the transfer.
+ */
+export interface DirectoryNode {
+  name: string
+  // Relative to the transfer root, directories end with "/"
+  path: string
+  isDirectory: boolean
+  files: number
+  copied: number
+  deleted: number
+  errored: number
+  copiedBytes: number
+}
+
+/**
+ * GET /api/backupplan/{id}/executions/{executionId}/tree, one directory and its children.
+ */
+export interface DirectoryLevel {
+  path: string
+  totals: DirectoryNode
+  // Most bytes copied first; childCount also counts the children left out
+  children: DirectoryNode[]
+  childCount: number
+}
+
+interface ChangedItem {
+  filePath: string
+  size: number | null
+  action: string
+}
+
+export function normalizeDirectoryPath(path: string): string {
+  const trimmed = path.trim().replace(/^\/+|\/+$/g, "")
+  return trimmed ? `${trimmed}/` : ""
+}
+
+export function compareDirectoryNodes(a: DirectoryNode, b: DirectoryNode): number {
+  return b.copiedBytes - a.copiedBytes || b.files - a.files || a.name.localeCompare(b.name)
+}
+
+function emptyNode(name: string, path: string, isDirectory: boolean): DirectoryNode {
+  return { name, path, isDirectory, files: 0, copied: 0, deleted: 0, errored: 0, copiedBytes: 0 }
+}
+
+function addChange(node: DirectoryNode, item: ChangedItem, isFile: boolean) {
+  if (isFile) {
+    node.files++
+    if (item.action === "Copy") node.copied++
+    if (item.action === "Delete") node.deleted++
+  }
+  if (item.action === "Copy") node.copiedBytes += item.size ?? 0
+  if (item.action === "CopyError" || item.action === "DeleteError") node.errored++
+}
+
+/**
+ * Directory levels of changes that are all on the client, such as the items of a simulation,
+ * counted the way the execution tree endpoint counts logs: files for the copied, deleted and
+ * file counts, every copy for the bytes.
+ */
+export function summarizeDirectories(items: ChangedItem[]): (path: string) => DirectoryLevel {
+  const levels = new Map<string, Map<string, DirectoryNode>>()
+
+  for (const item of items) {
+    if (item.action === "System" || item.action === "Milestone") continue
+
+    const path = item.filePath.replace(/^\/+/, "")
+    const segments = path.split("/").filter(Boolean)
+    const isFile = !path.endsWith("/")
+
+    segments.forEach((name, depth) => {
+      const parent = segments.slice(0, depth).map((segment) => `${segment}/`).join("")
+      const isDirectory = depth < segments.length - 1 || !isFile
+
+      let children = levels.get(parent)
+      if (!children) {
+        children = new Map()
+        levels.set(parent, children)
+      }
+
+      let node = children.get(name)
+      if (!node) {
+        node = emptyNode(name, parent + name + (isDirectory ? "/" : ""), isDirectory)
+        children.set(name, node)
+      } else if (isDirectory && !node.isDirectory) {
+        node.isDirectory = true
+        node.path = `${parent}${name}/`
+      }
+
+      addChange(node, item, isFile)
+    })
+  }
+
+  return (path) => {
+    const prefix = normalizeDirectoryPath(path)
+    const children = [...(levels.get(prefix)?.values() ?? [])].sort(compareDirectoryNodes)
+    const totals = emptyNode(prefix.split("/").at(-2) ?? "", prefix, true)
+
+    for (const child of children) {
+      totals.files += child.files
+      totals.copied += child.copied
+      totals.deleted += child.deleted
+      totals.errored += child.errored
+      totals.copiedBytes += child.copiedBytes
+    }
+
+    return { path: prefix, totals, children, childCount: children.length }
+  }
+}
+
+export interface TreemapRect<T> {
+  item: T
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Squarified treemap of the items in a width x height area: each item gets a rectangle with an
+ * area in proportion to its value, kept as close to square as the order allows. Items without a
+ * value are left out.
+ */
+export function layoutTreemap<T>(
+  items: T[],
+  value: (item: T) => number,
+  width: number,
+  height: number
+): TreemapRect<T>[] {
+  const weighted = items
+    .map((item) => ({ item, value: value(item) }))
+    .filter((entry) => entry.value > 0)
+    .sort((a, b) => b.value - a.value)
+  const total = weighted.reduce((sum, entry) => sum + entry.value, 0)
+  if (total === 0) return []
+
+  const scale = (width * height) / total
+  const rects: TreemapRect<T>[] = []
+  let x = 0
+  let y = 0
+  let w = width
+  let h = height
+
+  // Worst aspect ratio of a row of areas laid along a side
+  const worst = (row: number[], side: number) => {
+    const sum = row.reduce((a, b) => a + b, 0)
+    return Math.max((side * side * Math.max(...row)) / (sum * sum), (sum * sum) / (side * side * Math.min(...row)))
+  }
+
+  // Fills a strip along the shorter side of the space left, then shrinks the space
+  const placeRow = (row: { item: T; area: number }[]) => {
+    const sum = row.reduce((a, entry) => a + entry.area, 0)
+    if (w >= h) {
+      const stripWidth = sum / h
+      let offset = y
+      for (const entry of row) {
+        const cellHeight = entry.area / stripWidth
+        rects.push({ item: entry.item, x, y: offset, width: stripWidth, height: cellHeight })
+        offset += cellHeight
+      }
+      x += stripWidth
+      w -= stripWidth
+    } else {
+      const stripHeight = sum / w
+      let offset = x
+      for (const entry of row) {
+        const cellWidth = entry.area / stripHeight
+        rects.push({ item: entry.item, x: offset, y, width: cellWidth, height: stripHeight })
+        offset += cellWidth
+      }
+      y += stripHeight
+      h -= stripHeight
+    }
+  }
+
+  let row: { item: T; area: number }[] = []
+  for (const entry of weighted) {
+    const next = [...row, { item: entry.item, area: entry.value * scale }]
+    const side = Math.min(w, h)
+    if (
+      row.length === 0 ||
+      worst(next.map((cell) => cell.area), side) <= worst(row.map((cell) => cell.area), side)
+    ) {
+      row = next
+    } else {
+      placeRow(row)
+      row = [{ item: entry.item, area: entry.value * scale }]
+    }
+  }
+  if (row.length > 0) placeRow(row)
+
+  return rects
+}
@@ -0,0 +1,137 @@
+import type { ExecutionType } from "@/hooks/useExecutionEvents"
+
+export interface ComparedExecution {
+  execution: {
+    id: string
+    name: string
+    startDateTime: string
+    endDateTime: string | null
+    isAutomatic: boolean
+    isSimulation: boolean
+    executionType: ExecutionType
+    stoppedBy: string | null
+  }
+  stats: {
+    status: string
+    totalFiles: number
+    createdFiles: number
+    deletedFiles: number
+    transferredFiles: number
+    totalFileSize: number
+    totalTransferredSize: number
+    literalData: number
+    matchedData: number
+    totalBytesSent: number
+    transferSpeedBytesPerSecond: number
+    speedup: number
+    durationSeconds: number
+  }
+  // Copy entries in the execution log
+  copiedFiles: number
+  copiedSize: number
+}
+
+export interface ComparedFile {
+  filePath: string
+  fileName: string
+  size: number | null
+  reason: string
+  dateTime: string
+  executionId: string
+}
+
+export interface ComparedFileList {
+  totalCount: number
+  totalSize: number
+  // Largest first, at most the requested limit
+  files: ComparedFile[]
+}
+
+export interface FileSizeChange {
+  filePath: string
+  fileName: string
+  baseSize: number
+  targetSize: number
+  delta: number
+}
+
+/**
+ * GET /api/backupplan/{id}/executions/compare
+ */
+export interface ExecutionComparison {
+  base: ComparedExecution
+  target: ComparedExecution
+  onlyInBase: ComparedFileList
+  onlyInTarget: ComparedFileList
+  // Deleted by the runs after the earlier execution, up to and including the later one
+  deletedBetween: ComparedFileList
+  sizeChanges: {
+    totalCount: number
+    totalDelta: number
+    files: FileSizeChange[]
+  }
+}
+
+export type ComparedValueFormat = "count" | "bytes" | "speed" | "duration" | "ratio"
+
+/**
+ * Rows of the side-by-side statistics, each with the value of both executions.
+ */
+export const COMPARED_STATS: { label: string; format: ComparedValueFormat; value: (side: ComparedExecution) => number }[] = [
+  { label: "Copied files (log)", format: "count", value: (side) => side.copiedFiles },
+  { label: "Copied size (log)", format: "bytes", value: (side) => side.copiedSize },
+  { label: "Transferred files", format: "count", value: (side) => side.stats.transferredFiles },
+  { label: "Transferred size", format: "bytes", value: (side) => side.stats.totalTransferredSize },
+  { label: "Literal data", format: "bytes", value: (side) => side.stats.literalData },
+  { label: "Matched data", format: "bytes", value: (side) => side.stats.matchedData },
+  { label: "Bytes sent", format: "bytes", value: (side) => side.stats.totalBytesSent },
+  { label: "Created files", format: "count", value: (side) => side.stats.createdFiles },
+  { label: "Deleted files", format: "count", value: (side) => side.stats.deletedFiles },
+  { label: "Total files", format: "count", value: (side) => side.stats.totalFiles },
+  { label: "Total size", format: "bytes", value: (side) => side.stats.totalFileSize },
+  { label: "Speed", format: "speed", value: (side) => side.stats.transferSpeedBytesPerSecond },
+  { label: "Speedup", format: "ratio", value: (side) => side.stats.speedup },
+  { label: "Duration", format: "duration", value: (side) => side.stats.durationSeconds },
+]
+
+export function formatFileSize(bytes: number | null): string {
+  if (bytes === null || bytes === undefined) return "N/A"
+  if (bytes === 0) return "0 B"
+
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(Math.abs(bytes)) / Math.log(k)))
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
+}
+
+export function formatComparedValue(value: number, format: ComparedValueFormat): string {
+  switch (format) {
+    case "bytes":
+      return formatFileSize(value)
+    case "speed":
+      return `${formatFileSize(value)}/s`
+    case "duration": {
+      const seconds = Math.round(Math.abs(value))
+      const text = seconds >= 3600
+        ? `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+        : seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+      return value < 0 ? `-${text}` : text
+    }
+    case "ratio":
+      return value.toFixed(2)
+    default:
+      return value.toLocaleString()
+  }
+}
+
+/**
+ * Difference of the target to the base, signed, with the factor when the base is not zero.
+ */
+export function formatComparedDelta(base: number, target: number, format: ComparedValueFormat): string {
+  const delta = target - base
+  if (delta === 0) return "="
+
+  const text = `${delta > 0 ? "+" : ""}${formatComparedValue(delta, format)}`
+  return base > 0 && format !== "ratio" ? `${text} (x${(target / base).toFixed(1)})` : text
+}
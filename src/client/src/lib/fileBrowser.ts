@@ -0,0 +1,86 @@
+/**
+ * Item of GET /api/agent/{id}/browse, one line of ls -la on the agent.
+ */
+export interface FileSystemItem {
+  name: string
+  pathName: string // Full path including filename
+  path: string // Directory path without filename
+  type: "file" | "directory"
+  size?: number | null
+  lastModified: string
+  permissions?: string | null
+  md5?: string | null
+}
+
+export interface DiskUsage {
+  path: string
+  sizeBytes: number
+  // False when some subdirectories could not be read
+  complete: boolean
+}
+
+export type SortColumn = "name" | "size" | "lastModified" | "permissions"
+
+export interface SortOrder {
+  column: SortColumn
+  descending: boolean
+}
+
+/**
+ * Absolute path without trailing slashes, "/" for the root.
+ */
+export function normalizePath(path: string): string {
+  const trimmed = path.trim().replace(/\/+$/, "")
+  return trimmed.startsWith("/") ? trimmed || "/" : `/${trimmed}`
+}
+
+export function parentPath(path: string): string {
+  const normalized = normalizePath(path)
+  const index = normalized.lastIndexOf("/")
+  return index <= 0 ? "/" : normalized.slice(0, index)
+}
+
+/**
+ * The directories of a path from the root, for the breadcrumbs.
+ */
+export function breadcrumbs(path: string): { name: string; path: string }[] {
+  const crumbs = [{ name: "/", path: "/" }]
+  let current = ""
+  for (const part of normalizePath(path).split("/").filter(Boolean)) {
+    current = `${current}/${part}`
+    crumbs.push({ name: part, path: current })
+  }
+  return crumbs
+}
+
+/**
+ * Sorts a listing, directories before files. Directory sizes are the ones calculated with du, a
+ * directory without one sorts as empty.
+ */
+export function sortItems(
+  items: FileSystemItem[],
+  order: SortOrder,
+  directorySizes: Record<string, DiskUsage | undefined>
+): FileSystemItem[] {
+  const sizeOf = (item: FileSystemItem) =>
+    item.type === "directory" ? directorySizes[item.pathName]?.sizeBytes ?? -1 : item.size ?? -1
+
+  const compare = (a: FileSystemItem, b: FileSystemItem) => {
+    switch (order.column) {
+      case "size":
+        return sizeOf(a) - sizeOf(b)
+      case "lastModified":
+        return new Date(a.lastModified).getTime() - new Date(b.lastModified).getTime()
+      case "permissions":
+        return (a.permissions ?? "").localeCompare(b.permissions ?? "")
+      default:
+        return 0
+    }
+  }
+
+  return [...items].sort((a, b) => {
+    if (a.type !== b.type) return a.type === "directory" ? -1 : 1
+    const result = compare(a, b) || a.name.localeCompare(b.name, undefined, { numeric: true })
+    return order.descending ? -result : result
+  })
+}
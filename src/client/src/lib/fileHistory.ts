@@ -0,0 +1,55 @@
+/**
+ * Log entry of a file, as listed by GET /api/logs/history.
+ */
+export interface FileHistoryEntry {
+  id: string
+  dateTime: string
+  fileName: string
+  filePath: string
+  size: number | null
+  action: string
+  reason: string
+  backupPlanId: string
+  backupPlanName: string
+  executionId: string
+  executionStartDateTime: string | null
+  executionType: string
+  isSimulation: boolean
+}
+
+export interface FileHistoryFile {
+  filePath: string
+  entryCount: number
+  firstSeen: string
+  lastSeen: string
+  lastAction: string
+  lastSize: number | null
+}
+
+export interface FileHistoryResponse {
+  entries: FileHistoryEntry[]
+  // Matched paths, last seen first, at most 50
+  files: FileHistoryFile[]
+  fileCount: number
+  totalCount: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+/**
+ * Whether the search is a glob, matched at any depth, rather than a path.
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern)
+}
+
+/**
+ * Sizes of the entries that have one, oldest first, for the size over time chart.
+ */
+export function sizeTimeline(entries: FileHistoryEntry[]): { dateTime: string; size: number; action: string }[] {
+  return entries
+    .filter((entry) => entry.size !== null)
+    .map((entry) => ({ dateTime: entry.dateTime, size: entry.size as number, action: entry.action }))
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
+}
@@ -0,0 +1,41 @@
+export interface HookOptions {
+  preCommand: string
+  preTimeoutSeconds: number
+  preAbortOnFailure: boolean
+  postCommand: string
+  postTimeoutSeconds: number
+  postAbortOnFailure: boolean
+}
+
+export const DEFAULT_HOOK_OPTIONS: HookOptions = {
+  preCommand: "",
+  preTimeoutSeconds: 300,
+  preAbortOnFailure: true,
+  postCommand: "",
+  postTimeoutSeconds: 300,
+  postAbortOnFailure: false,
+}
+
+/**
+ * Hook columns as returned by GET /api/backupplan/{id}.
+ */
+export interface BackupPlanHookFields {
+  preHookCommand?: string | null
+  preHookTimeoutSeconds?: number
+  preHookAbortOnFailure?: boolean
+  postHookCommand?: string | null
+  postHookTimeoutSeconds?: number
+  postHookAbortOnFailure?: boolean
+}
+
+export function hookOptionsFromPlan(plan: BackupPlanHookFields): HookOptions {
+  return {
+    preCommand: plan.preHookCommand ?? DEFAULT_HOOK_OPTIONS.preCommand,
+    preTimeoutSeconds: plan.preHookTimeoutSeconds ?? DEFAULT_HOOK_OPTIONS.preTimeoutSeconds,
+    preAbortOnFailure: plan.preHookAbortOnFailure ?? DEFAULT_HOOK_OPTIONS.preAbortOnFailure,
+    postCommand: plan.postHookCommand ?? DEFAULT_HOOK_OPTIONS.postCommand,
+    postTimeoutSeconds: plan.postHookTimeoutSeconds ?? DEFAULT_HOOK_OPTIONS.postTimeoutSeconds,
+    postAbortOnFailure: plan.postHookAbortOnFailure ?? DEFAULT_HOOK_OPTIONS.postAbortOnFailure,
+  }
+}
+
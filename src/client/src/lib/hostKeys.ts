@@ -0,0 +1,22 @@
+/**
+ * Host key state of an agent as returned by GET /api/agent/{id}/host-key.
+ */
+export interface HostKeyStatus {
+  pinnedFingerprint: string | null
+  pinnedAt: string | null
+  pinnedBy: string | null
+  // Set when a connection saw another key than the pinned one
+  changedFingerprint: string | null
+  // Key the agent presents right now, null when it could not be read
+  presentedFingerprint: string | null
+  presentedKeyType: string | null
+  scanError: string | null
+}
+
+/**
+ * Host key returned by the connection test, shown for confirmation before it is pinned.
+ */
+export interface ValidatedHostKey {
+  hostKey: string
+  hostKeyFingerprint: string
+}
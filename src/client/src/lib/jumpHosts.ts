@@ -0,0 +1,76 @@
+/**
+ * Jump host of an agent as returned by GET /api/agent/{id}/jump-hosts. Keys never leave the server.
+ */
+export interface JumpHost {
+  id: string
+  position: number
+  // Set when the hop is another agent, whose address and key are used
+  viaAgentId: string | null
+  hostname: string | null
+  user: string | null
+  port: number
+  hasSshKey: boolean
+  sshKeyFingerprint: string | null
+  sshKeyHasPassphrase: boolean
+}
+
+/**
+ * A hop as edited in the agent forms. A saved hop keeps its id, so the server keeps its stored key
+ * while sshKey is empty.
+ */
+export interface JumpHostDraft {
+  id: string | null
+  viaAgentId: string | null
+  hostname: string
+  user: string
+  port: string
+  sshKey: string
+  sshKeyPassphrase: string
+  storedKeyFingerprint: string | null
+}
+
+export const MAX_JUMP_HOSTS = 5
+
+export function newJumpHostDraft(): JumpHostDraft {
+  return {
+    id: null,
+    viaAgentId: null,
+    hostname: "",
+    user: "",
+    port: "22",
+    sshKey: "",
+    sshKeyPassphrase: "",
+    storedKeyFingerprint: null,
+  }
+}
+
+export function toJumpHostDraft(hop: JumpHost): JumpHostDraft {
+  return {
+    id: hop.id,
+    viaAgentId: hop.viaAgentId,
+    hostname: hop.hostname ?? "",
+    user: hop.user ?? "",
+    port: String(hop.port || 22),
+    sshKey: "",
+    sshKeyPassphrase: "",
+    storedKeyFingerprint: hop.hasSshKey ? hop.sshKeyFingerprint : null,
+  }
+}
+
+/**
+ * Request body of a hop, as sent with the agent (jumpHosts) and to the connection test.
+ */
+export function toJumpHostRequest(draft: JumpHostDraft) {
+  if (draft.viaAgentId) {
+    return { id: draft.id, viaAgentId: draft.viaAgentId }
+  }
+
+  return {
+    id: draft.id,
+    hostname: draft.hostname.trim(),
+    user: draft.user.trim() || null,
+    port: draft.port ? parseInt(draft.port, 10) : 22,
+    sshKey: draft.sshKey.trim() || null,
+    sshKeyPassphrase: draft.sshKey.trim() ? draft.sshKeyPassphrase || null : null,
+  }
+}
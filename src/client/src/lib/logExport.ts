@@ -0,0 +1,47 @@
+/**
+ * Filters of the log tables, as typed into the filter bar.
+ */
+export interface LogFilters {
+  action: string
+  fileName: string
+  minSize: string
+  maxSize: string
+  fromDate: string
+  toDate: string
+}
+
+export type LogExportFormat = "csv" | "json" | "ndjson"
+
+export const LOG_EXPORT_FORMATS: { value: LogExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "NDJSON" },
+]
+
+/**
+ * Adds the set filters to the query of GET /api/logs and /api/backupplan/{id}/logs, and of their
+ * exports. The "to" date covers the whole day.
+ */
+export function appendLogFilters(params: URLSearchParams, filters: LogFilters) {
+  if (filters.action && filters.action !== "All") {
+    params.append("action", filters.action)
+  }
+  if (filters.fileName) {
+    params.append("fileName", filters.fileName)
+  }
+  if (filters.minSize) {
+    params.append("minSize", filters.minSize)
+  }
+  if (filters.maxSize) {
+    params.append("maxSize", filters.maxSize)
+  }
+  if (filters.fromDate) {
+    params.append("fromDate", new Date(filters.fromDate).toISOString())
+  }
+  if (filters.toDate) {
+    const toDate = new Date(filters.toDate)
+    toDate.setHours(23, 59, 59, 999)
+    params.append("toDate", toDate.toISOString())
+  }
+  return params
+}
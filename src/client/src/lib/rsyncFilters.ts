@@ -0,0 +1,266 @@
+/**
+ * Rsync filter rules as stored on a backup plan, plus a client-side matcher used by the
+ * "test rules" mode. The matcher follows rsync's sender-side semantics closely enough to
+ * preview include/exclude rules; merge files and receiver-only rules are not evaluated.
+ */
+
+export type FilterRuleType = "exclude" | "include" | "filter"
+
+export interface FilterRule {
+  type: FilterRuleType
+  // Pattern for include/exclude rules, the complete rsync rule for "filter"
+  pattern: string
+}
+
+export interface FilterMatch {
+  skipped: boolean
+  // Index of the rule that decided, null when no rule matched (entry is included)
+  ruleIndex: number | null
+  // Set when the entry is skipped because one of its parent directories is excluded
+  excludedParent: string | null
+}
+
+interface CompiledRule {
+  index: number
+  action: "exclude" | "include"
+  negate: boolean
+  dirOnly: boolean
+  absolute: boolean
+  regex: RegExp
+}
+
+const SHORT_RULES: Record<string, string> = {
+  "-": "exclude",
+  "+": "include",
+  H: "hide",
+  S: "show",
+  P: "protect",
+  R: "risk",
+  ".": "merge",
+  ":": "dir-merge",
+  "!": "clear",
+}
+
+export function parseFilterRule(rule: string): FilterRule {
+  const trimmed = rule.trim()
+  if (trimmed.startsWith("- ")) {
+    return { type: "exclude", pattern: trimmed.slice(2) }
+  }
+  if (trimmed.startsWith("+ ")) {
+    return { type: "include", pattern: trimmed.slice(2) }
+  }
+  return { type: "filter", pattern: trimmed }
+}
+
+export function formatFilterRule(rule: FilterRule): string {
+  const pattern = rule.pattern.trim()
+  if (!pattern) return ""
+  switch (rule.type) {
+    case "exclude":
+      return `- ${pattern}`
+    case "include":
+      return `+ ${pattern}`
+    default:
+      return pattern
+  }
+}
+
+/**
+ * Converts the editor rows into the list sent to the API, dropping empty rows.
+ */
+export function toRsyncFilterRules(rules: FilterRule[]): string[] {
+  return rules.map(formatFilterRule).filter((rule) => rule !== "")
+}
+
+/**
+ * Splits a rule into its name, modifiers and pattern, e.g. "- *.tmp" or "exclude,/ /tmp".
+ */
+function splitRule(rule: string): { name: string; modifiers: string; pattern: string } | null {
+  const trimmed = rule.trim()
+  const shortMatch = /^([-+HSPR.:!])([!/Cnrpsx]*)(?:[ _](.*))?$/.exec(trimmed)
+  if (shortMatch) {
+    return {
+      name: SHORT_RULES[shortMatch[1]],
+      modifiers: shortMatch[2],
+      pattern: shortMatch[3] ?? "",
+    }
+  }
+
+  const longMatch = /^(exclude|include|hide|show|protect|risk|merge|dir-merge|clear)(?:,([!/Cnrpsx]*))?(?:\s+(.*))?$/.exec(trimmed)
+  if (longMatch) {
+    return { name: longMatch[1], modifiers: longMatch[2] ?? "", pattern: longMatch[3] ?? "" }
+  }
+
+  return null
+}
+
+function globToRegexSource(glob: string): string {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegex(glob[++i])
+    } else if (char === "*") {
+      if (glob[i + 1] === "*") {
+        source += ".*"
+        i++
+        // A third star ("dir/***") is folded into the same ".*"
+        if (glob[i + 1] === "*") i++
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        let set = glob.slice(i + 1, end)
+        if (set.startsWith("!")) set = "^" + set.slice(1)
+        source += `[${set.replace(/\\/g, "\\\\")}]`
+        i = end
+      }
+    } else {
+      source += escapeRegex(char)
+    }
+  }
+  return source
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
+
+function compileRule(rule: string, index: number): CompiledRule | null {
+  const parts = splitRule(rule)
+  if (!parts) return null
+
+  let action: "exclude" | "include"
+  if (parts.name === "exclude" || parts.name === "hide") {
+    action = "exclude"
+  } else if (parts.name === "include" || parts.name === "show") {
+    action = "include"
+  } else {
+    return null
+  }
+
+  // Receiver-only rules never affect what the sender transfers
+  if (parts.modifiers.includes("r")) return null
+
+  let pattern = parts.pattern
+  if (!pattern) return null
+
+  const dirOnly = pattern.endsWith("/")
+  if (dirOnly) pattern = pattern.replace(/\/+$/, "")
+
+  // "dir/***" matches the directory itself as well as everything inside it
+  let suffix = ""
+  if (pattern.endsWith("/***")) {
+    pattern = pattern.slice(0, -4)
+    suffix = "(?:/.*)?"
+  }
+
+  const anchored = pattern.startsWith("/")
+  if (anchored) pattern = pattern.slice(1)
+
+  // Unanchored patterns may match at any directory boundary; a pattern without a slash
+  // can only match the last path component since wildcards never cross "/"
+  const body = globToRegexSource(pattern) + suffix
+  const source = anchored ? `^${body}$` : `(?:^|/)${body}$`
+
+  return {
+    index,
+    action,
+    negate: parts.modifiers.includes("!"),
+    dirOnly,
+    absolute: parts.modifiers.includes("/"),
+    regex: new RegExp(source),
+  }
+}
+
+/**
+ * Rules the tester cannot evaluate (merge files, protect/risk, receiver-only rules, typos).
+ */
+export function getUnsupportedRules(rules: string[]): number[] {
+  return rules
+    .map((rule, index) => (compileRule(rule, index) === null ? index : -1))
+    .filter((index) => index !== -1)
+}
+
+/**
+ * Directory rsync treats as the transfer root: "/data/" transfers the contents of /data,
+ * "/data" transfers the directory itself, so paths are relative to "/". With relativePaths
+ * (rsync --relative, plans with several sources) every source keeps its full path and anchored
+ * rules start at "/".
+ */
+export function getTransferRoot(source: string, relativePaths = false): string {
+  if (relativePaths) return "/"
+  const trimmed = source.trim()
+  if (trimmed.endsWith("/")) {
+    return trimmed.replace(/\/+$/, "") || "/"
+  }
+  const lastSlash = trimmed.lastIndexOf("/")
+  return lastSlash <= 0 ? "/" : trimmed.slice(0, lastSlash)
+}
+
+function relativeTo(root: string, path: string): string | null {
+  const normalizedRoot = root === "/" ? "" : root.replace(/\/+$/, "")
+  const normalizedPath = path.replace(/\/+$/, "")
+  if (normalizedPath === normalizedRoot) return ""
+  if (!normalizedPath.startsWith(normalizedRoot + "/")) return null
+  return normalizedPath.slice(normalizedRoot.length + 1)
+}
+
+function firstMatch(
+  compiled: CompiledRule[],
+  relativePath: string,
+  absolutePath: string,
+  isDirectory: boolean
+): CompiledRule | null {
+  for (const rule of compiled) {
+    if (rule.dirOnly && !isDirectory) continue
+    const target = rule.absolute ? absolutePath.replace(/^\/+/, "") : relativePath
+    const matched = rule.regex.test(target)
+    if (matched !== rule.negate) {
+      return rule
+    }
+  }
+  return null
+}
+
+/**
+ * Creates a matcher for entries below the given source. Parent directories between the
+ * transfer root and the entry are checked too, since rsync never descends into an
+ * excluded directory.
+ */
+export function createFilterMatcher(rules: string[], source: string, relativePaths = false) {
+  const compiled = rules
+    .map((rule, index) => compileRule(rule, index))
+    .filter((rule): rule is CompiledRule => rule !== null)
+  const root = getTransferRoot(source, relativePaths)
+
+  return (absolutePath: string, isDirectory: boolean): FilterMatch => {
+    const relativePath = relativeTo(root, absolutePath)
+    if (relativePath === null || relativePath === "") {
+      return { skipped: false, ruleIndex: null, excludedParent: null }
+    }
+
+    const segments = relativePath.split("/")
+    for (let i = 1; i < segments.length; i++) {
+      const parentRelative = segments.slice(0, i).join("/")
+      const parentAbsolute = `${root === "/" ? "" : root}/${parentRelative}`
+      const parentRule = firstMatch(compiled, parentRelative, parentAbsolute, true)
+      if (parentRule?.action === "exclude") {
+        return { skipped: true, ruleIndex: parentRule.index, excludedParent: parentAbsolute }
+      }
+    }
+
+    const rule = firstMatch(compiled, relativePath, absolutePath, isDirectory)
+    return {
+      skipped: rule?.action === "exclude",
+      ruleIndex: rule?.index ?? null,
+      excludedParent: null,
+    }
+  }
+}
@@ -0,0 +1,82 @@
+export type DeleteMode = "none" | "delete" | "delete-after" | "delete-delay"
+
+export interface RsyncOptions {
+  compress: boolean
+  checksum: boolean
+  hardLinks: boolean
+  acls: boolean
+  xattrs: boolean
+  numericIds: boolean
+  sparse: boolean
+  partial: boolean
+  // KiB/s, null for unlimited
+  bandwidthLimit: number | null
+  deleteMode: DeleteMode
+}
+
+// Matches the arguments plans used before the options existed: -avz --delete
+export const DEFAULT_RSYNC_OPTIONS: RsyncOptions = {
+  compress: true,
+  checksum: false,
+  hardLinks: false,
+  acls: false,
+  xattrs: false,
+  numericIds: false,
+  sparse: false,
+  partial: false,
+  bandwidthLimit: null,
+  deleteMode: "delete",
+}
+
+/**
+ * Transfer option columns as returned by GET /api/backupplan/{id}.
+ */
+export interface BackupPlanRsyncFields {
+  rsyncCompress?: boolean
+  rsyncChecksum?: boolean
+  rsyncHardLinks?: boolean
+  rsyncAcls?: boolean
+  rsyncXattrs?: boolean
+  rsyncNumericIds?: boolean
+  rsyncSparse?: boolean
+  rsyncPartial?: boolean
+  rsyncBandwidthLimit?: number | null
+  rsyncDeleteMode?: DeleteMode
+}
+
+export function rsyncOptionsFromPlan(plan: BackupPlanRsyncFields): RsyncOptions {
+  return {
+    compress: plan.rsyncCompress ?? DEFAULT_RSYNC_OPTIONS.compress,
+    checksum: plan.rsyncChecksum ?? DEFAULT_RSYNC_OPTIONS.checksum,
+    hardLinks: plan.rsyncHardLinks ?? DEFAULT_RSYNC_OPTIONS.hardLinks,
+    acls: plan.rsyncAcls ?? DEFAULT_RSYNC_OPTIONS.acls,
+    xattrs: plan.rsyncXattrs ?? DEFAULT_RSYNC_OPTIONS.xattrs,
+    numericIds: plan.rsyncNumericIds ?? DEFAULT_RSYNC_OPTIONS.numericIds,
+    sparse: plan.rsyncSparse ?? DEFAULT_RSYNC_OPTIONS.sparse,
+    partial: plan.rsyncPartial ?? DEFAULT_RSYNC_OPTIONS.partial,
+    bandwidthLimit: plan.rsyncBandwidthLimit ?? null,
+    deleteMode: plan.rsyncDeleteMode ?? DEFAULT_RSYNC_OPTIONS.deleteMode,
+  }
+}
+
+/**
+ * Same flags as RsyncTransferOptions.BuildArguments on the server, for the preview in the form.
+ */
+export function buildRsyncArguments(options: RsyncOptions): string {
+  let flags = "-av"
+  if (options.compress) flags += "z"
+  if (options.hardLinks) flags += "H"
+  if (options.acls) flags += "A"
+  if (options.xattrs) flags += "X"
+
+  const args = [flags]
+  if (options.deleteMode !== "none") args.push(`--${options.deleteMode}`)
+  if (options.checksum) args.push("--checksum")
+  if (options.numericIds) args.push("--numeric-ids")
+  if (options.sparse) args.push("--sparse")
+  if (options.partial) args.push("--partial")
+  if (options.bandwidthLimit && options.bandwidthLimit > 0) {
+    args.push(`--bwlimit=${options.bandwidthLimit}`)
+  }
+  return args.join(" ")
+}
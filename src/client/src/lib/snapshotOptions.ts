@@ -0,0 +1,46 @@
+export type SnapshotMode = "none" | "hardlink"
+
+export interface SnapshotOptions {
+  mode: SnapshotMode
+  keepDaily: number
+  keepWeekly: number
+  keepMonthly: number
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = {
+  mode: "none",
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 12,
+}
+
+/**
+ * Snapshot columns as returned by GET /api/backupplan/{id}.
+ */
+export interface BackupPlanSnapshotFields {
+  snapshotMode?: SnapshotMode
+  retentionDaily?: number
+  retentionWeekly?: number
+  retentionMonthly?: number
+}
+
+export function snapshotOptionsFromPlan(plan: BackupPlanSnapshotFields): SnapshotOptions {
+  return {
+    mode: plan.snapshotMode ?? DEFAULT_SNAPSHOT_OPTIONS.mode,
+    keepDaily: plan.retentionDaily ?? DEFAULT_SNAPSHOT_OPTIONS.keepDaily,
+    keepWeekly: plan.retentionWeekly ?? DEFAULT_SNAPSHOT_OPTIONS.keepWeekly,
+    keepMonthly: plan.retentionMonthly ?? DEFAULT_SNAPSHOT_OPTIONS.keepMonthly,
+  }
+}
+
+/**
+ * A hardlink snapshot as returned by GET /api/backupplan/{id}/snapshots.
+ */
+export interface HardlinkSnapshot {
+  name: string
+  path: string
+  createdAt: string
+  // "latest", "daily", "weekly", "monthly"; empty when the snapshot expired and waits for pruning
+  keptBy: string[]
+  executionId: string | null
+}
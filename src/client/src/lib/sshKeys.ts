@@ -0,0 +1,44 @@
+import type { JumpHostDraft } from "@/lib/jumpHosts"
+
+/**
+ * Key pair as returned by POST /api/agent/ssh-key/generate and GET /api/agent/{id}/ssh-key/public.
+ */
+export interface SshKeyInfo {
+  // The generated private key encrypted by the server, only set right after generating. The browser
+  // cannot read it, it is sent back as rsyncSshKeyToken when the agent is created
+  keyToken: string | null
+  // The line to add to ~/.ssh/authorized_keys
+  publicKey: string
+  fingerprint: string
+  // Shell command that adds the key to authorized_keys on the agent
+  installCommand: string
+  shared: boolean
+}
+
+export interface RotateSshKeyResult {
+  key: SshKeyInfo
+  oldKeyFingerprint: string
+  oldKeyRemoved: boolean
+  message: string
+}
+
+/**
+ * Connection details the password-based key installation logs in with.
+ */
+export interface SshConnection {
+  hostname: string
+  rsyncUser: string
+  rsyncPort: string
+  jumpHosts?: JumpHostDraft[]
+}
+
+/**
+ * Fingerprint with the middle of the hash hidden, enough to tell keys apart at a glance.
+ */
+export function maskFingerprint(fingerprint: string): string {
+  const [algorithm, hash] = fingerprint.includes(":") ? fingerprint.split(":", 2) : ["", fingerprint]
+  if (hash.length <= 12) return fingerprint
+
+  const masked = `${hash.slice(0, 6)}••••••${hash.slice(-5)}`
+  return algorithm ? `${algorithm}:${masked}` : masked
+}
@@ -0,0 +1,97 @@
+/**
+ * Audit record of a console session as returned by GET /api/terminal-sessions.
+ */
+export interface TerminalSession {
+  id: string
+  agentId: string
+  agentName: string
+  hostname: string
+  // User of the web interface who opened the session
+  userName: string
+  clientAddress: string | null
+  startedAt: string
+  endedAt: string | null
+  // Null while the session is open or when it was closed from the browser
+  exitCode: number | null
+  error: string | null
+  // Size of the asciicast recording, known once the session is closed
+  recordingSize: number
+  recordingTruncated: boolean
+}
+
+export interface AsciicastHeader {
+  version: number
+  width: number
+  height: number
+  timestamp?: number
+  title?: string
+}
+
+export interface AsciicastEvent {
+  // Seconds since the start of the recording
+  time: number
+  // "o" for output, "r" for a size change ("120x40"), other types are ignored by the player
+  type: string
+  data: string
+}
+
+export interface Asciicast {
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+  duration: number
+}
+
+/**
+ * Parses an asciicast v2 file: a header line, then one [time, type, data] array per line. Throws when
+ * the header cannot be read, broken event lines (the tail of a recording cut off by a crash) are skipped.
+ */
+export function parseAsciicast(text: string): Asciicast {
+  const lines = text.split("\n").filter((line) => line.trim())
+  if (lines.length === 0) {
+    throw new Error("The recording is empty")
+  }
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader
+  if (header.version !== 2 || !header.width || !header.height) {
+    throw new Error("The recording is not in asciicast v2 format")
+  }
+
+  const events: AsciicastEvent[] = []
+  for (const line of lines.slice(1)) {
+    try {
+      const [time, type, data] = JSON.parse(line) as [number, string, string]
+      if (typeof time === "number" && typeof type === "string" && typeof data === "string") {
+        events.push({ time, type, data })
+      }
+    } catch {
+      // Skip the line
+    }
+  }
+
+  return { header, events, duration: events.length > 0 ? events[events.length - 1].time : 0 }
+}
+
+/**
+ * Parses the size of a resize event, null when it is malformed.
+ */
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data)
+  return match ? { cols: Number(match[1]), rows: Number(match[2]) } : null
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = String(total % 60).padStart(2, "0")
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`
+}
+
+/**
+ * How a session ended, for the session lists.
+ */
+export function describeSessionResult(session: TerminalSession): string {
+  if (session.error) return session.error
+  if (session.exitCode !== null) return `Exit code ${session.exitCode}`
+  return session.endedAt ? "Closed in the browser" : "Open"
+}
@@ -0,0 +1,69 @@
+export interface ZfsSnapshot {
+  name: string
+  createdAt: string
+  // The requested path as it exists inside the snapshot
+  path: string
+  exists: boolean
+}
+
+/**
+ * Response of GET /api/filesystem/snapshots. datasetRoot is null when the path is not on ZFS.
+ */
+export interface ZfsSnapshotsResponse {
+  datasetRoot: string | null
+  livePath: string
+  currentSnapshot: string | null
+  snapshots: ZfsSnapshot[]
+}
+
+export interface FileVersion {
+  snapshot: string
+  snapshotCreatedAt: string
+  path: string
+  size: number
+  lastModified: string
+}
+
+/**
+ * Response of GET /api/filesystem/versions.
+ */
+export interface FileVersionsResponse {
+  livePath: string
+  liveExists: boolean
+  liveSize: number | null
+  liveLastModified: string | null
+  versions: FileVersion[]
+}
+
+export type SnapshotChange = "unchanged" | "changed" | "deleted"
+
+const SNAPSHOT_PATH = /^(.*?)\/\.zfs\/snapshot\/([^/]+)(\/.*)?$/
+
+/**
+ * Splits "/tank/backups/.zfs/snapshot/daily-1/host/etc" into snapshot "daily-1" and live path
+ * "/tank/backups/host/etc". Returns null for live paths.
+ */
+export function parseSnapshotPath(path: string): { snapshot: string; livePath: string } | null {
+  const match = SNAPSHOT_PATH.exec(path.replace(/\/+$/, ""))
+  if (!match) return null
+  return { snapshot: match[2], livePath: `${match[1]}${match[3] ?? ""}` || "/" }
+}
+
+/**
+ * How the live copy differs from a snapshot copy, compared by size and modification time.
+ */
+export function getSnapshotChange(
+  snapshot: { size?: number | null; lastModified: string },
+  live: { exists: boolean; size?: number | null; lastModified?: string | null }
+): SnapshotChange {
+  if (!live.exists) return "deleted"
+  const sameSize = (snapshot.size ?? null) === (live.size ?? null)
+  const sameTime = !!live.lastModified && new Date(snapshot.lastModified).getTime() === new Date(live.lastModified).getTime()
+  return sameSize && sameTime ? "unchanged" : "changed"
+}
+
+export const SNAPSHOT_CHANGE_STYLES: Record<SnapshotChange, { label: string; className: string }> = {
+  unchanged: { label: "Unchanged", className: "bg-muted text-muted-foreground" },
+  changed: { label: "Changed", className: "bg-yellow-500/20 text-yellow-700 dark:text-yellow-400" },
+  deleted: { label: "Deleted", className: "bg-red-500/20 text-red-600 dark:text-red-400" },
+}
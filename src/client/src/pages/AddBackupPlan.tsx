@@ -5,9 +5,21 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ArrowLeft, FolderOpen } from "lucide-react"
 import { apiGet, apiPost } from "@/lib/api"
-import { FileBrowser } from "@/components/FileBrowser"
+import { toRsyncFilterRules, type FilterRule } from "@/lib/rsyncFilters"
+import { newBackupSourceDraft, toBackupSourceRequests, usesRelativePaths, type BackupSourceDraft } from "@/lib/backupSources"
+import { DEFAULT_RSYNC_OPTIONS, type RsyncOptions } from "@/lib/rsyncOptions"
+import { DEFAULT_SNAPSHOT_OPTIONS, type SnapshotOptions } from "@/lib/snapshotOptions"
+import { DEFAULT_HOOK_OPTIONS, type HookOptions } from "@/lib/hookOptions"
+import { DEFAULT_DELETION_GUARD_OPTIONS, type DeletionGuardOptions } from "@/lib/deletionGuard"
+import { SourcePathsEditor } from "@/components/SourcePathsEditor"
 import { ServerFileBrowser } from "@/components/ServerFileBrowser"
-import { CronDescription } from "@/components/CronDescription"
+import { ScheduleBuilder } from "@/components/ScheduleBuilder"
+import { FilterRulesEditor } from "@/components/FilterRulesEditor"
+import { RsyncOptionsPanel } from "@/components/RsyncOptionsPanel"
+import { RsyncCompatibilityWarning } from "@/components/RsyncCompatibilityWarning"
+import { SnapshotModePanel } from "@/components/SnapshotModePanel"
+import { HooksPanel } from "@/components/HooksPanel"
+import { DeletionGuardPanel } from "@/components/DeletionGuardPanel"
 
 interface Agent {
   id: string
@@ -22,13 +34,19 @@ export function AddBackupPlan() {
   const [name, setName] = useState("")
   const [description, setDescription] = useState("")
   const [schedule, setSchedule] = useState("0 0 * * *")
-  const [source, setSource] = useState("")
+  // New plans default to the timezone picked in the navbar
+  const [timezone, setTimezone] = useState(() => sessionStorage.getItem("selectedTimezone") || "UTC")
+  const [sources, setSources] = useState<BackupSourceDraft[]>([newBackupSourceDraft()])
   const [destination, setDestination] = useState("")
+  const [filterRules, setFilterRules] = useState<FilterRule[]>([])
+  const [rsyncOptions, setRsyncOptions] = useState<RsyncOptions>(DEFAULT_RSYNC_OPTIONS)
+  const [deletionGuard, setDeletionGuard] = useState<DeletionGuardOptions>(DEFAULT_DELETION_GUARD_OPTIONS)
+  const [snapshotOptions, setSnapshotOptions] = useState<SnapshotOptions>(DEFAULT_SNAPSHOT_OPTIONS)
+  const [hookOptions, setHookOptions] = useState<HookOptions>(DEFAULT_HOOK_OPTIONS)
   const [active, setActive] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingAgent, setIsLoadingAgent] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [showFileBrowser, setShowFileBrowser] = useState(false)
   const [showServerFileBrowser, setShowServerFileBrowser] = useState(false)
 
   useEffect(() => {
@@ -80,8 +98,14 @@ export function AddBackupPlan() {
         name: name.trim(),
         description: description.trim(),
         schedule: schedule.trim() || "0 0 * * *",
-        source: source.trim(),
+        timezone: timezone,
+        sources: toBackupSourceRequests(sources),
         destination: destination.trim(),
+        filterRules: toRsyncFilterRules(filterRules),
+        rsyncOptions: rsyncOptions,
+        deletionGuard: deletionGuard,
+        snapshotOptions: snapshotOptions,
+        hooks: hookOptions,
         agentId: agentId,
         active: active,
       })
@@ -167,52 +191,20 @@ export function AddBackupPlan() {
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="schedule">Schedule (Cron) *</Label>
-            <Input
-              id="schedule"
-              type="text"
-              placeholder="0 0 * * *"
-              value={schedule}
-              onChange={(e) => setSchedule(e.target.value)}
-              required
-              disabled={isLoading}
-            />
-            <p className="text-sm text-muted-foreground">
-              Cron expression (e.g., "0 0 * * *" for daily at midnight)
-            </p>
-            <CronDescription cronExpression={schedule} />
-          </div>
+          <ScheduleBuilder
+            schedule={schedule}
+            onScheduleChange={setSchedule}
+            timezone={timezone}
+            onTimezoneChange={setTimezone}
+            disabled={isLoading}
+          />
 
-          <div className="space-y-2">
-            <Label htmlFor="source">Source Path (Agent)</Label>
-            <div className="flex gap-2">
-              <Input
-                id="source"
-                type="text"
-                placeholder="/path/to/source"
-                value={source}
-                onChange={(e) => setSource(e.target.value)}
-                required
-                disabled={isLoading}
-                className="flex-1"
-              />
-              {agentId && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setShowFileBrowser(true)}
-                  disabled={isLoading}
-                  title="Browse file system on agent"
-                >
-                  <FolderOpen className="h-4 w-4" />
-                </Button>
-              )}
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Path to the files/directories to backup
-            </p>
-          </div>
+          <SourcePathsEditor
+            sources={sources}
+            onChange={setSources}
+            agentId={agentId}
+            disabled={isLoading}
+          />
 
           <div className="space-y-2">
             <Label htmlFor="destination">Destination Path (Server)</Label>
@@ -242,6 +234,48 @@ export function AddBackupPlan() {
             </p>
           </div>
 
+          <FilterRulesEditor
+            rules={filterRules}
+            onChange={setFilterRules}
+            agentId={agentId}
+            source={sources[0]?.path ?? ""}
+            relativePaths={usesRelativePaths(sources)}
+            disabled={isLoading}
+          />
+
+          <RsyncOptionsPanel
+            options={rsyncOptions}
+            onChange={setRsyncOptions}
+            disabled={isLoading}
+          />
+
+          <RsyncCompatibilityWarning agentId={agentId} options={rsyncOptions} />
+
+          <DeletionGuardPanel
+            options={deletionGuard}
+            onChange={setDeletionGuard}
+            inactiveReason={
+              rsyncOptions.deleteMode === "none"
+                ? "Not checked while deleted files are kept"
+                : snapshotOptions.mode === "hardlink"
+                  ? "Not checked in hardlink snapshot mode, snapshots never delete files"
+                  : null
+            }
+            disabled={isLoading}
+          />
+
+          <SnapshotModePanel
+            options={snapshotOptions}
+            onChange={setSnapshotOptions}
+            disabled={isLoading}
+          />
+
+          <HooksPanel
+            options={hookOptions}
+            onChange={setHookOptions}
+            disabled={isLoading}
+          />
+
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <input
@@ -277,19 +311,6 @@ export function AddBackupPlan() {
         </form>
       </div>
 
-      {agentId && (
-        <FileBrowser
-          agentId={agentId}
-          open={showFileBrowser}
-          onClose={() => setShowFileBrowser(false)}
-          onSelect={(path) => {
-            setSource(path)
-            setShowFileBrowser(false)
-          }}
-          initialPath={source}
-        />
-      )}
-
       <ServerFileBrowser
         open={showServerFileBrowser}
         onClose={() => setShowServerFileBrowser(false)}
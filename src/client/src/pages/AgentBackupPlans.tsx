@@ -1,10 +1,11 @@
 import { useEffect, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Plus, Pencil, Trash2, FileText, Play, Zap } from "lucide-react"
+import { ArrowLeft, Plus, Pencil, Trash2, FileText, Play, Zap, Square } from "lucide-react"
 import { apiGet, apiDelete, apiPost } from "@/lib/api"
 import { CronDescription } from "@/components/CronDescription"
 import { SimulationResults } from "@/components/SimulationResults"
+import { useRunningExecutions } from "@/hooks/useRunningExecutions"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,13 +17,16 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
+import { SourcePathList } from "@/components/SourcePathList"
+import type { BackupPlanSource } from "@/lib/backupSources"
 
 interface BackupPlan {
   id: string
   name: string
   description: string
   schedule: string
-  source: string
+  timezone?: string
+  sources?: BackupPlanSource[]
   destination: string
   active?: boolean
 }
@@ -45,6 +49,8 @@ export function AgentBackupPlans() {
   const [showSimulation, setShowSimulation] = useState(false)
   const [simulationResult, setSimulationResult] = useState<any>(null)
   const [executionMessages, setExecutionMessages] = useState<Record<string, string>>({})
+  const [stoppingPlanId, setStoppingPlanId] = useState<string | null>(null)
+  const { isPlanRunning } = useRunningExecutions()
 
   useEffect(() => {
     const fetchData = async () => {
@@ -132,6 +138,29 @@ export function AgentBackupPlans() {
     }
   }
 
+  const handleStop = async (planId: string) => {
+    setStoppingPlanId(planId)
+    setError(null)
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      await apiPost(`/api/backupplan/${planId}/stop`, {})
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while stopping the backup plan")
+      }
+    } finally {
+      setStoppingPlanId(null)
+    }
+  }
+
   const handleExecute = async (planId: string) => {
     setExecutingPlanId(planId)
     setError(null)
@@ -256,6 +285,11 @@ export function AgentBackupPlans() {
                       }`}>
                         {plan.active !== false ? "Active" : "Inactive"}
                       </span>
+                      {isPlanRunning(plan.id) && (
+                        <span className="px-2 py-1 text-xs font-medium rounded bg-orange-500/20 text-orange-600 dark:text-orange-400">
+                          Running
+                        </span>
+                      )}
                     </div>
                     {plan.description && (
                       <p className="text-muted-foreground">{plan.description}</p>
@@ -264,12 +298,12 @@ export function AgentBackupPlans() {
                       <div>
                         <p className="text-sm font-medium text-muted-foreground">Schedule</p>
                         <p className="text-sm font-mono mb-2">{plan.schedule}</p>
-                        <CronDescription cronExpression={plan.schedule} />
+                        <CronDescription cronExpression={plan.schedule} timezone={plan.timezone} />
                       </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                          <p className="text-sm font-medium text-muted-foreground">Source</p>
-                          <p className="text-sm truncate" title={plan.source}>{plan.source}</p>
+                          <p className="text-sm font-medium text-muted-foreground">{plan.sources?.length === 1 ? "Source" : "Sources"}</p>
+                          <SourcePathList sources={plan.sources} />
                         </div>
                         <div>
                           <p className="text-sm font-medium text-muted-foreground">Destination</p>
@@ -353,7 +387,7 @@ export function AgentBackupPlans() {
                         variant="outline"
                         size="sm"
                         onClick={(e) => e.stopPropagation()}
-                        disabled={simulatingPlanId === plan.id || executingPlanId === plan.id}
+                        disabled={simulatingPlanId === plan.id || executingPlanId === plan.id || isPlanRunning(plan.id)}
                       >
                         <Zap className="h-4 w-4 mr-2" />
                         Execute Now
@@ -378,6 +412,43 @@ export function AgentBackupPlans() {
                       </AlertDialogFooter>
                     </AlertDialogContent>
                   </AlertDialog>
+                  {isPlanRunning(plan.id) && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={stoppingPlanId === plan.id}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Square className="h-4 w-4 mr-2" />
+                          {stoppingPlanId === plan.id ? "Stopping..." : "Stop"}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Stop Backup Plan</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to stop the running execution of <strong>{plan.name}</strong>?
+                            The rsync process will be killed and the execution marked as interrupted.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleStop(plan.id)
+                            }}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Stop
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
                 </div>
               </div>
             </div>
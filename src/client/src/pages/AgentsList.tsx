@@ -3,6 +3,9 @@ import { useNavigate } from "react-router-dom"
 import { Button } from "@/components/ui/button"
 import { Plus, Pencil, Trash2 } from "lucide-react"
 import { apiGet, apiDelete } from "@/lib/api"
+import type { AgentHealth } from "@/lib/agentHealth"
+import { AgentHealthBadge, UptimeSparkline } from "@/components/AgentHealthIndicators"
+import { useExecutionEvents } from "@/hooks/useExecutionEvents"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,6 +27,7 @@ interface Agent {
 export function AgentsList() {
   const navigate = useNavigate()
   const [agents, setAgents] = useState<Agent[]>([])
+  const [health, setHealth] = useState<Record<string, AgentHealth>>({})
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -51,6 +55,15 @@ export function AgentsList() {
     }
   }
 
+  const fetchHealth = async () => {
+    try {
+      const data = await apiGet<AgentHealth[]>("/api/agent/health?hours=24")
+      setHealth(Object.fromEntries(data.map((h) => [h.agentId, h])))
+    } catch {
+      // Health is informational, the list works without it
+    }
+  }
+
   const handleDelete = async (agentId: string, _name: string) => {
     try {
       const token = sessionStorage.getItem("token")
@@ -75,6 +88,16 @@ export function AgentsList() {
     fetchAgents()
   }, [navigate])
 
+  useEffect(() => {
+    fetchHealth()
+  }, [])
+
+  // Agents are checked in the background every few minutes, the server pushes each round
+  useExecutionEvents({
+    onAgentHealthUpdated: fetchHealth,
+    onReconnected: fetchHealth,
+  })
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -143,6 +166,12 @@ export function AgentsList() {
                   <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
                     Name
                   </th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                    Status
+                  </th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
+                    Uptime (24h)
+                  </th>
                   <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">
                     Hostname
                   </th>
@@ -166,6 +195,12 @@ export function AgentsList() {
                     >
                       {agent.name}
                     </td>
+                    <td className="p-4 align-middle">
+                      <AgentHealthBadge health={health[agent.id]} />
+                    </td>
+                    <td className="p-4 align-middle">
+                      <UptimeSparkline health={health[agent.id]} />
+                    </td>
                     <td 
                       className="p-4 align-middle text-sm text-muted-foreground cursor-pointer"
                       onClick={() => navigate(`/agents/${agent.id}/backup-plans`)}
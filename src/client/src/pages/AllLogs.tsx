@@ -1,11 +1,15 @@
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { ArrowLeft, ChevronLeft, ChevronRight, X, ArrowUpDown, ArrowUp, ArrowDown, Clock, CheckCircle2 } from "lucide-react"
+import { ArrowLeft, X, ArrowUpDown, ArrowUp, ArrowDown, Clock, CheckCircle2 } from "lucide-react"
 import { apiGet } from "@/lib/api"
 import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+import { ExportLogsButton } from "@/components/ExportLogsButton"
+import { VirtualList } from "@/components/VirtualList"
+import { useCursorLogs } from "@/hooks/useCursorLogs"
+import { appendLogFilters, type LogFilters } from "@/lib/logExport"
 
 interface LogEntry {
   id: string
@@ -19,14 +23,6 @@ interface LogEntry {
   backupPlanName: string
 }
 
-interface LogsResponse {
-  logs: LogEntry[]
-  totalCount: number
-  page: number
-  pageSize: number
-  totalPages: number
-}
-
 interface BackupExecution {
   id: string
   backupPlanId: string
@@ -36,6 +32,9 @@ interface BackupExecution {
   endDateTime: string | null
 }
 
+const LOG_ROW_HEIGHT = 44
+const LOG_GRID_COLUMNS = "minmax(180px, 1fr) minmax(140px, 1fr) minmax(200px, 2fr) 110px 120px minmax(200px, 2fr)"
+
 function formatFileSize(bytes: number | null): string {
   if (bytes === null || bytes === undefined) return "N/A"
   if (bytes === 0) return "0 B"
@@ -59,16 +58,11 @@ export function AllLogs() {
   const navigate = useNavigate()
   const { executionId } = useParams<{ executionId?: string }>()
   const [executions, setExecutions] = useState<BackupExecution[]>([])
-  const [logs, setLogs] = useState<LogEntry[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [page, setPage] = useState(1)
-  const [pageSize] = useState(100)
-  const [totalPages, setTotalPages] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
 
   // Filters
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<LogFilters>({
     action: "All",
     fileName: "",
     minSize: "",
@@ -84,6 +78,20 @@ export function AllLogs() {
   const [sortBy, setSortBy] = useState("datetime")
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
 
+  // Path typed to jump to its first row
+  const [jumpPath, setJumpPath] = useState("")
+
+  const logQuery = useMemo(() => {
+    const params = new URLSearchParams({
+      executionId: executionId ?? "",
+      sortBy: sortBy,
+      sortOrder: sortOrder,
+    })
+    return appendLogFilters(params, filters).toString()
+  }, [executionId, filters, sortBy, sortOrder])
+
+  const logList = useCursorLogs<LogEntry>(executionId ? "/api/logs" : null, logQuery)
+
   // Timezone from navbar selector
   const [timezone, setTimezone] = useState<string>("UTC")
 
@@ -140,80 +148,10 @@ export function AllLogs() {
     }
   }, [executionId, navigate])
 
-  // Fetch logs for specific execution
-  useEffect(() => {
-    const fetchLogs = async () => {
-      if (!executionId) {
-        return
-      }
-
-      setIsLoading(true)
-      setError(null)
-
-      try {
-        const token = sessionStorage.getItem("token")
-        if (!token) {
-          navigate("/login")
-          return
-        }
-
-        // Build query parameters
-        const params = new URLSearchParams({
-          executionId: executionId,
-          page: page.toString(),
-          pageSize: pageSize.toString(),
-          sortBy: sortBy,
-          sortOrder: sortOrder,
-        })
-
-        if (filters.action && filters.action !== "All") {
-          params.append("action", filters.action)
-        }
-        if (filters.fileName) {
-          params.append("fileName", filters.fileName)
-        }
-        if (filters.minSize) {
-          params.append("minSize", filters.minSize)
-        }
-        if (filters.maxSize) {
-          params.append("maxSize", filters.maxSize)
-        }
-        if (filters.fromDate) {
-          params.append("fromDate", new Date(filters.fromDate).toISOString())
-        }
-        if (filters.toDate) {
-          // Add time to end of day
-          const toDate = new Date(filters.toDate)
-          toDate.setHours(23, 59, 59, 999)
-          params.append("toDate", toDate.toISOString())
-        }
-
-        // Fetch logs
-        const logsData: LogsResponse = await apiGet<LogsResponse>(
-          `/api/logs?${params.toString()}`
-        )
-        setLogs(logsData.logs)
-        setTotalPages(logsData.totalPages)
-        setTotalCount(logsData.totalCount)
-      } catch (err) {
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          setError("Unable to connect to the server. Please make sure the backend is running.")
-        } else {
-          setError(err instanceof Error ? err.message : "An error occurred while fetching logs")
-        }
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchLogs()
-  }, [executionId, page, filters, sortBy, sortOrder, pageSize, navigate])
-
   // Debounce filename filter - wait 500ms after user stops typing
   useEffect(() => {
     const timer = setTimeout(() => {
-      setFilters(prev => ({ ...prev, fileName: fileNameInput }))
-      setPage(1)
+      setFilters(prev => prev.fileName === fileNameInput ? prev : { ...prev, fileName: fileNameInput })
     }, 500)
 
     return () => clearTimeout(timer)
@@ -221,7 +159,6 @@ export function AllLogs() {
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
-    setPage(1) // Reset to first page when filter changes
   }
 
   const clearFilters = () => {
@@ -234,7 +171,6 @@ export function AllLogs() {
       fromDate: "",
       toDate: "",
     })
-    setPage(1)
   }
 
   const handleSort = (column: string) => {
@@ -244,7 +180,6 @@ export function AllLogs() {
       setSortBy(column)
       setSortOrder("asc")
     }
-    setPage(1)
   }
 
   const getSortIcon = (column: string) => {
@@ -273,6 +208,8 @@ export function AllLogs() {
         return "bg-gray-500/20 text-gray-600 dark:text-gray-400"
       case "Milestone":
         return "bg-blue-500/20 text-blue-600 dark:text-blue-400"
+      case "System":
+        return "bg-purple-500/20 text-purple-600 dark:text-purple-400"
       default:
         return "bg-muted text-muted-foreground"
     }
@@ -398,23 +335,7 @@ export function AllLogs() {
     )
   }
 
-  // Show logs for specific execution
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
-        <div className="flex items-center gap-4">
-          <Button variant="outline" onClick={handleBackToExecutions}>
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Executions
-          </Button>
-        </div>
-        <div className="rounded-lg border bg-card p-6 shadow-sm">
-          <p className="text-muted-foreground">Loading logs...</p>
-        </div>
-      </div>
-    )
-  }
-
+  // Show logs for specific execution, loaded as they are scrolled
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -430,6 +351,13 @@ export function AllLogs() {
             </p>
           </div>
         </div>
+        <ExportLogsButton
+          endpoint="/api/logs/export"
+          executionId={executionId}
+          filters={filters}
+          sortBy={sortBy}
+          sortOrder={sortOrder}
+        />
       </div>
 
       {error && (
@@ -472,6 +400,7 @@ export function AllLogs() {
                     <option value="Delete">Delete</option>
                     <option value="Ignored">Ignored</option>
                     <option value="Milestone">Milestone</option>
+                    <option value="System">System</option>
                   </select>
                 </div>
 
@@ -546,10 +475,7 @@ export function AllLogs() {
                 <select
                   id="sort-by"
                   value={sortBy}
-                  onChange={(e) => {
-                    setSortBy(e.target.value)
-                    setPage(1)
-                  }}
+                  onChange={(e) => setSortBy(e.target.value)}
                   className="rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                 >
                   <option value="datetime">Date/Time</option>
@@ -561,10 +487,7 @@ export function AllLogs() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => {
-                    setSortOrder(sortOrder === "asc" ? "desc" : "asc")
-                    setPage(1)
-                  }}
+                  onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
                 >
                   {sortOrder === "asc" ? (
                     <>
@@ -580,36 +503,47 @@ export function AllLogs() {
                 </Button>
               </div>
 
-              <div className="flex items-center gap-2">
-                <p className="text-sm text-muted-foreground">
-                  Total entries: <span className="font-medium text-foreground">{totalCount}</span>
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  logList.jumpTo(jumpPath)
+                }}
+              >
+                <p className="text-sm text-muted-foreground whitespace-nowrap">
+                  Total entries: <span className="font-medium text-foreground">{logList.totalCount}</span>
                 </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  Previous
-                </Button>
-                <span className="text-sm text-muted-foreground">
-                  Page {page} of {totalPages}
-                </span>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages}
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4" />
+                <Input
+                  type="text"
+                  placeholder="Jump to path..."
+                  value={jumpPath}
+                  onChange={(e) => setJumpPath(e.target.value)}
+                  className="w-64"
+                  aria-label="Jump to path"
+                />
+                <Button type="submit" variant="outline" size="sm" disabled={!jumpPath.trim() || logList.isLoading}>
+                  Go
                 </Button>
-              </div>
+                {logList.startIndex > 0 && (
+                  <Button type="button" variant="outline" size="sm" onClick={logList.reload}>
+                    Back to Start
+                  </Button>
+                )}
+              </form>
             </div>
           </div>
 
-          {logs.length === 0 ? (
+          {logList.error && (
+            <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+              {logList.error}
+            </div>
+          )}
+
+          {logList.isLoading && logList.rows.length === 0 ? (
+            <div className="rounded-lg border bg-card p-6 shadow-sm">
+              <p className="text-muted-foreground">Loading logs...</p>
+            </div>
+          ) : logList.rows.length === 0 ? (
             <div className="rounded-lg border bg-card p-6 shadow-sm">
               <div className="text-center py-12">
                 <p className="text-muted-foreground">No logs found for this execution</p>
@@ -618,71 +552,88 @@ export function AllLogs() {
           ) : (
             <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
               <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-muted">
-                    <tr>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("datetime")}
-                      >
-                        Date/Time{getSortIcon("datetime")}
-                      </th>
-                      <th className="text-left p-3 text-sm font-medium">Backup Plan</th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("filename")}
-                      >
-                        File Name{getSortIcon("filename")}
-                      </th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("size")}
-                      >
-                        Size{getSortIcon("size")}
-                      </th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("action")}
+                <div className="min-w-[1040px]">
+                  <div className="grid bg-muted" style={{ gridTemplateColumns: LOG_GRID_COLUMNS }}>
+                    <div
+                      className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                      onClick={() => handleSort("datetime")}
+                    >
+                      Date/Time{getSortIcon("datetime")}
+                    </div>
+                    <div className="text-left p-3 text-sm font-medium">Backup Plan</div>
+                    <div
+                      className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                      onClick={() => handleSort("filename")}
+                    >
+                      File Name{getSortIcon("filename")}
+                    </div>
+                    <div
+                      className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                      onClick={() => handleSort("size")}
+                    >
+                      Size{getSortIcon("size")}
+                    </div>
+                    <div
+                      className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                      onClick={() => handleSort("action")}
+                    >
+                      Action{getSortIcon("action")}
+                    </div>
+                    <div className="text-left p-3 text-sm font-medium">Reason</div>
+                  </div>
+                  {logList.startIndex > 0 && (
+                    <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+                      Showing from entry {(logList.startIndex + 1).toLocaleString()} of {logList.totalCount.toLocaleString()}
+                    </div>
+                  )}
+                  <VirtualList
+                    key={`${logQuery}-${logList.startIndex}-${logList.jumpedToId}`}
+                    items={logList.rows}
+                    rowHeight={LOG_ROW_HEIGHT}
+                    height={Math.min(600, (logList.rows.length + 1) * LOG_ROW_HEIGHT)}
+                    getKey={(log) => log.id}
+                    onEndReached={logList.hasMore ? logList.loadMore : undefined}
+                    renderRow={(log) => (
+                      <div
+                        className={`grid h-full items-center border-t hover:bg-muted/50 ${
+                          log.id === logList.jumpedToId ? "bg-primary/10" : ""
+                        }`}
+                        style={{ gridTemplateColumns: LOG_GRID_COLUMNS }}
                       >
-                        Action{getSortIcon("action")}
-                      </th>
-                      <th className="text-left p-3 text-sm font-medium">Reason</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {logs.map((log) => (
-                      <tr key={log.id} className="border-t hover:bg-muted/50">
-                        <td className="p-3 text-sm text-muted-foreground">
+                        <div className="px-3 text-sm text-muted-foreground truncate">
                           {formatDateTime(log.dateTime, timezone)}
-                        </td>
-                        <td className="p-3 text-sm">
+                        </div>
+                        <div className="px-3 text-sm truncate">
                           <button
                             onClick={() => handleBackupPlanClick(log.backupPlanId)}
                             className="text-blue-600 dark:text-blue-400 hover:underline"
                           >
                             {log.backupPlanName}
                           </button>
-                        </td>
-                        <td className="p-3 text-sm">
-                          <div className="max-w-md truncate" title={log.filePath}>
-                            {log.fileName}
-                          </div>
-                        </td>
-                        <td className="p-3 text-sm text-muted-foreground">
+                        </div>
+                        <div className="px-3 text-sm truncate" title={log.filePath}>
+                          {log.fileName}
+                        </div>
+                        <div className="px-3 text-sm text-muted-foreground truncate">
                           {formatFileSize(log.size)}
-                        </td>
-                        <td className="p-3 text-sm">
+                        </div>
+                        <div className="px-3 text-sm">
                           <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(log.action)}`}>
                             {log.action}
                           </span>
-                        </td>
-                        <td className="p-3 text-sm text-muted-foreground">
+                        </div>
+                        <div className="px-3 text-sm text-muted-foreground truncate" title={log.reason}>
                           {log.reason}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+                        </div>
+                      </div>
+                    )}
+                    footer={
+                      logList.isLoadingMore && (
+                        <p className="border-t p-3 text-sm text-muted-foreground">Loading more logs...</p>
+                      )
+                    }
+                  />
+                </div>
               </div>
             </div>
           )}
@@ -1,11 +1,31 @@
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { ArrowLeft, ChevronLeft, ChevronRight, X, ArrowUpDown, ArrowUp, ArrowDown, Clock, CheckCircle2, Loader2, Copy, Check } from "lucide-react"
-import { apiGet } from "@/lib/api"
+import { ArrowLeft, X, ArrowUpDown, ArrowUp, ArrowDown, Clock, CheckCircle2, Loader2, Copy, Check, Square, RotateCcw, Camera, ShieldAlert, GitCompare, List, ListTree } from "lucide-react"
+import { apiGet, apiPost } from "@/lib/api"
 import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+import { ExportLogsButton } from "@/components/ExportLogsButton"
+import { VirtualList } from "@/components/VirtualList"
+import { DirectoryTree } from "@/components/DirectoryTree"
+import { useCursorLogs } from "@/hooks/useCursorLogs"
+import { appendLogFilters, type LogFilters } from "@/lib/logExport"
+import type { DirectoryLevel } from "@/lib/directoryTree"
+import { useExecutionEvents, type ExecutionType } from "@/hooks/useExecutionEvents"
+import type { HardlinkSnapshot, SnapshotMode } from "@/lib/snapshotOptions"
+import { SimulationResults, type SimulationResult } from "@/components/SimulationResults"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 
 interface LogEntry {
   id: string
@@ -17,17 +37,10 @@ interface LogEntry {
   reason: string
 }
 
-interface LogsResponse {
-  logs: LogEntry[]
-  totalCount: number
-  page: number
-  pageSize: number
-  totalPages: number
-}
-
 interface BackupPlan {
   id: string
   name: string
+  snapshotMode?: SnapshotMode
 }
 
 interface BackupExecution {
@@ -37,6 +50,16 @@ interface BackupExecution {
   endDateTime: string | null
   isAutomatic: boolean
   isSimulation: boolean
+  executionType: ExecutionType
+  stoppedBy: string | null
+  blockedDeletions?: number | null
+}
+
+interface BlockedChanges extends SimulationResult {
+  reason: string
+  approvedBy: string | null
+  canApprove: boolean
+  truncated: boolean
 }
 
 interface ExecutionStats {
@@ -69,8 +92,21 @@ interface ExecutionStats {
   // Progress tracking
   totalFilesToProcess: number | null
   currentFileIndex: number
+  stoppedBy: string | null
+  blockedDeletions: number | null
+  deletionsApprovedBy: string | null
+}
+
+// Internal system logs (rsync-stats, rsync-transfer-speed, rsync-error) are not displayed
+function isDisplayedLog(log: LogEntry): boolean {
+  return log.fileName !== "rsync-stats" &&
+    log.fileName !== "rsync-transfer-speed" &&
+    log.fileName !== "rsync-error"
 }
 
+const LOG_ROW_HEIGHT = 44
+const LOG_GRID_COLUMNS = "minmax(180px, 1fr) minmax(200px, 2fr) 110px 120px minmax(200px, 2fr)"
+
 function formatFileSize(bytes: number | null): string {
   if (bytes === null || bytes === undefined) return "N/A"
   if (bytes === 0) return "0 B"
@@ -132,6 +168,12 @@ function getStatusDisplay(status: string): { icon: React.ReactNode; color: strin
         color: "text-red-600 dark:text-red-400",
         text: "Interrupted"
       }
+    case "Blocked":
+      return {
+        icon: <ShieldAlert className="h-5 w-5" />,
+        color: "text-red-600 dark:text-red-400",
+        text: "Blocked by Deletion Guard"
+      }
     case "Finished":
       // Legacy status - treat as Completed
       return {
@@ -149,24 +191,17 @@ function getStatusDisplay(status: string): { icon: React.ReactNode; color: strin
 }
 
 export function BackupLogs() {
-  // Sleep for 1 second
-  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
   const navigate = useNavigate()
   const { planId, executionId } = useParams<{ planId: string; executionId?: string }>()
   const [backupPlan, setBackupPlan] = useState<BackupPlan | null>(null)
   const [executions, setExecutions] = useState<BackupExecution[]>([])
-  const [logs, setLogs] = useState<LogEntry[]>([])
+  const [snapshots, setSnapshots] = useState<HardlinkSnapshot[]>([])
   const [executionStats, setExecutionStats] = useState<ExecutionStats | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [page, setPage] = useState(1)
-  const [pageSize] = useState(100)
-  const [totalPages, setTotalPages] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
 
   // Filters
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<LogFilters>({
     action: "All",
     fileName: "",
     minSize: "",
@@ -182,11 +217,50 @@ export function BackupLogs() {
   const [sortBy, setSortBy] = useState("datetime")
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
 
+  // Path typed to jump to its first row
+  const [jumpPath, setJumpPath] = useState("")
+
+  // Log entries one by one, or summed up per directory
+  const [view, setView] = useState<"list" | "tree">("list")
+
+  const loadTreeLevel = useCallback(
+    (path: string) =>
+      apiGet<DirectoryLevel>(
+        `/api/backupplan/${planId}/executions/${executionId}/tree?path=${encodeURIComponent(path)}`
+      ),
+    [planId, executionId]
+  )
+
+  const logQuery = useMemo(() => {
+    const params = new URLSearchParams({
+      executionId: executionId ?? "",
+      sortBy: sortBy,
+      sortOrder: sortOrder,
+    })
+    return appendLogFilters(params, filters).toString()
+  }, [executionId, filters, sortBy, sortOrder])
+
+  const logList = useCursorLogs<LogEntry>(
+    planId && executionId ? `/api/backupplan/${planId}/logs` : null,
+    logQuery,
+    isDisplayedLog
+  )
+
   // Timezone from navbar selector
   const [timezone, setTimezone] = useState<string>("UTC")
   
   // Copy button state
   const [copied, setCopied] = useState(false)
+  const [isStopping, setIsStopping] = useState(false)
+
+  // Review of a run blocked by the deletion guard
+  const [showBlockedChanges, setShowBlockedChanges] = useState(false)
+  const [blockedChanges, setBlockedChanges] = useState<BlockedChanges | null>(null)
+  const [isLoadingBlockedChanges, setIsLoadingBlockedChanges] = useState(false)
+  const [isApproving, setIsApproving] = useState(false)
+
+  // Executions picked in the list for the compare view, at most two
+  const [compareIds, setCompareIds] = useState<string[]>([])
 
   // Listen for timezone changes from navbar
   useEffect(() => {
@@ -208,6 +282,16 @@ export function BackupLogs() {
     }
   }, [])
 
+  // Hardlink snapshots written by this plan, shown next to its executions
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const data = await apiGet<HardlinkSnapshot[]>(`/api/backupplan/${planId}/snapshots`)
+      setSnapshots(data)
+    } catch {
+      // Snapshots are secondary, keep showing the executions
+    }
+  }, [planId])
+
   // Fetch executions list
   useEffect(() => {
     const fetchExecutions = async () => {
@@ -231,6 +315,9 @@ export function BackupLogs() {
         try {
           const planData: BackupPlan = await apiGet<BackupPlan>(`/api/backupplan/${planId}`)
           setBackupPlan(planData)
+          if (planData.snapshotMode === "hardlink") {
+            fetchSnapshots()
+          }
         } catch {
           // If plan fetch fails, continue without name
         }
@@ -253,11 +340,11 @@ export function BackupLogs() {
     if (!executionId) {
       fetchExecutions()
     }
-  }, [planId, executionId, navigate])
+  }, [planId, executionId, navigate, fetchSnapshots])
 
-  // Fetch logs for specific execution
+  // Fetch the plan of a specific execution, its logs are loaded as they are scrolled
   useEffect(() => {
-    const fetchLogs = async () => {
+    const fetchPlan = async () => {
       if (!planId || !executionId) {
         return
       }
@@ -272,115 +359,108 @@ export function BackupLogs() {
           return
         }
 
-        // Fetch backup plan name
-        try {
-          const planData: BackupPlan = await apiGet<BackupPlan>(`/api/backupplan/${planId}`)
-          setBackupPlan(planData)
-        } catch {
-          // If plan fetch fails, continue without name
-        }
-
-        // Build query parameters
-        const params = new URLSearchParams({
-          executionId: executionId,
-          page: page.toString(),
-          pageSize: pageSize.toString(),
-          sortBy: sortBy,
-          sortOrder: sortOrder,
-        })
-
-        if (filters.action && filters.action !== "All") {
-          params.append("action", filters.action)
-        }
-        if (filters.fileName) {
-          params.append("fileName", filters.fileName)
-        }
-        if (filters.minSize) {
-          params.append("minSize", filters.minSize)
-        }
-        if (filters.maxSize) {
-          params.append("maxSize", filters.maxSize)
-        }
-        if (filters.fromDate) {
-          params.append("fromDate", new Date(filters.fromDate).toISOString())
-        }
-        if (filters.toDate) {
-          // Add time to end of day
-          const toDate = new Date(filters.toDate)
-          toDate.setHours(23, 59, 59, 999)
-          params.append("toDate", toDate.toISOString())
-        }
-
-        // Fetch logs
-        const logsData: LogsResponse = await apiGet<LogsResponse>(
-          `/api/backupplan/${planId}/logs?${params.toString()}`
-        )
-        // Filter out internal system logs (rsync-stats, rsync-transfer-speed, rsync-error) from display
-        const filteredLogs = logsData.logs.filter(
-          (log) => log.fileName !== "rsync-stats" && 
-                   log.fileName !== "rsync-transfer-speed" && 
-                   log.fileName !== "rsync-error"
-        )
-        setLogs(filteredLogs)
-        setTotalPages(logsData.totalPages)
-        setTotalCount(logsData.totalCount)
-      } catch (err) {
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          setError("Unable to connect to the server. Please make sure the backend is running.")
-        } else {
-          setError(err instanceof Error ? err.message : "An error occurred while fetching logs")
-        }
+        const planData: BackupPlan = await apiGet<BackupPlan>(`/api/backupplan/${planId}`)
+        setBackupPlan(planData)
+      } catch {
+        // If plan fetch fails, continue without name
       } finally {
         setIsLoading(false)
       }
     }
 
-    fetchLogs()
-  }, [planId, executionId, page, filters, sortBy, sortOrder, pageSize, navigate])
+    fetchPlan()
+  }, [planId, executionId, navigate])
 
   // Fetch execution stats
+  const fetchExecutionStats = useCallback(async () => {
+    if (!planId || !executionId) {
+      return
+    }
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      const statsData: ExecutionStats = await apiGet<ExecutionStats>(
+        `/api/backupplan/${planId}/executions/${executionId}/stats`
+      )
+      setExecutionStats(statsData)
+    } catch (err) {
+      console.error("Error fetching execution stats:", err)
+      // Don't show error to user for stats, just log it
+    }
+  }, [planId, executionId, navigate])
+
   useEffect(() => {
-    const fetchExecutionStats = async () => {
-      if (!planId || !executionId) {
+    fetchExecutionStats()
+  }, [fetchExecutionStats])
+
+  // Progress is pushed by the server while the execution runs. The rsync statistics
+  // are only written once it ends, so refetch the full stats on the final status.
+  useExecutionEvents({
+    onExecutionUpdated: (event) => {
+      if (event.backupPlanId !== planId) {
         return
       }
 
-      try {
-        const token = sessionStorage.getItem("token")
-        if (!token) {
-          navigate("/login")
-          return
+      if (!executionId) {
+        setExecutions((prev) => {
+          const updated: BackupExecution = {
+            id: event.executionId,
+            name: event.name,
+            startDateTime: event.startDateTime,
+            endDateTime: event.endDateTime,
+            isAutomatic: event.isAutomatic,
+            isSimulation: event.isSimulation,
+            executionType: event.executionType,
+            stoppedBy: event.stoppedBy,
+          }
+          return prev.some((e) => e.id === event.executionId)
+            ? prev.map((e) => (e.id === event.executionId ? { ...e, ...updated } : e))
+            : [updated, ...prev]
+        })
+        // Runs blocked by the deletion guard end as Interrupted, reload to tell them apart
+        if (event.status === "Interrupted") {
+          apiGet<BackupExecution[]>(`/api/backupplan/${planId}/executions`)
+            .then(setExecutions)
+            .catch(() => {})
         }
-
-        const statsData: ExecutionStats = await apiGet<ExecutionStats>(
-          `/api/backupplan/${planId}/executions/${executionId}/stats`
-        )
-        // Sleep for 1 second
-        await sleep(1000);
-        setExecutionStats(statsData)
-      } catch (err) {
-        console.error("Error fetching execution stats:", err)
-        // Don't show error to user for stats, just log it
+        // A completed backup may have written a new snapshot
+        if (event.status === "Completed" && backupPlan?.snapshotMode === "hardlink") {
+          fetchSnapshots()
+        }
+        return
       }
-    }
 
-    fetchExecutionStats()
+      if (event.executionId !== executionId) {
+        return
+      }
 
-    // Auto-refresh stats if execution is not completed or interrupted
-    const interval = setInterval(() => {
-      if (executionStats && executionStats.status !== "Completed" && executionStats.status !== "Interrupted" && executionStats.status !== "Finished") {
+      if (event.status === "Completed" || event.status === "Interrupted") {
         fetchExecutionStats()
+        return
       }
-    }, 3000) // Refresh every 3 seconds
 
-    return () => clearInterval(interval)
-  }, [planId, executionId, navigate, executionStats])
+      setExecutionStats((prev) => prev && {
+        ...prev,
+        status: event.status,
+        endDateTime: event.endDateTime,
+        currentFileName: event.currentFileName,
+        currentFilePath: event.currentFilePath,
+        currentFileIndex: event.currentFileIndex,
+        totalFilesToProcess: event.totalFilesToProcess,
+      })
+    },
+    onReconnected: fetchExecutionStats,
+  })
 
   // Debounce filename filter - wait 500ms after user stops typing
   useEffect(() => {
     const timer = setTimeout(() => {
-      setFilters(prev => ({ ...prev, fileName: fileNameInput }))
-      setPage(1)
+      setFilters(prev => prev.fileName === fileNameInput ? prev : { ...prev, fileName: fileNameInput })
     }, 500)
 
     return () => clearTimeout(timer)
@@ -388,7 +468,6 @@ export function BackupLogs() {
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
-    setPage(1) // Reset to first page when filter changes
   }
 
   const clearFilters = () => {
@@ -401,7 +480,6 @@ export function BackupLogs() {
       fromDate: "",
       toDate: "",
     })
-    setPage(1)
   }
 
   const handleSort = (column: string) => {
@@ -411,7 +489,6 @@ export function BackupLogs() {
       setSortBy(column)
       setSortOrder("asc")
     }
-    setPage(1)
   }
 
   const getSortIcon = (column: string) => {
@@ -440,6 +517,8 @@ export function BackupLogs() {
         return "bg-gray-500/20 text-gray-600 dark:text-gray-400"
       case "Milestone":
         return "bg-blue-500/20 text-blue-600 dark:text-blue-400"
+      case "System":
+        return "bg-purple-500/20 text-purple-600 dark:text-purple-400"
       default:
         return "bg-muted text-muted-foreground"
     }
@@ -449,10 +528,95 @@ export function BackupLogs() {
     navigate(`/backup-plans/${planId}/logs/${execId}`)
   }
 
+  const toggleCompare = (execId: string) => {
+    setCompareIds((current) =>
+      current.includes(execId)
+        ? current.filter((id) => id !== execId)
+        : [...current, execId].slice(-2)
+    )
+  }
+
+  // The earlier execution is the base of the comparison
+  const handleCompare = () => {
+    const [base, target] = executions
+      .filter((execution) => compareIds.includes(execution.id))
+      .sort((a, b) => new Date(a.startDateTime).getTime() - new Date(b.startDateTime).getTime())
+    if (!base || !target) return
+    navigate(`/backup-plans/${planId}/compare?base=${base.id}&target=${target.id}`)
+  }
+
   const handleBackToExecutions = () => {
     navigate(`/backup-plans/${planId}/logs`)
   }
 
+  const handleStopExecution = async () => {
+    if (!planId || !executionId) {
+      return
+    }
+
+    setIsStopping(true)
+    setError(null)
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      await apiPost(`/api/backupplan/${planId}/executions/${executionId}/stop`, {})
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while stopping the execution")
+      }
+    } finally {
+      setIsStopping(false)
+    }
+  }
+
+  const handleReviewBlockedChanges = async () => {
+    if (!planId || !executionId) {
+      return
+    }
+
+    setShowBlockedChanges(true)
+    setIsLoadingBlockedChanges(true)
+    setBlockedChanges(null)
+
+    try {
+      const data = await apiGet<BlockedChanges>(`/api/backupplan/${planId}/executions/${executionId}/blocked-changes`)
+      setBlockedChanges(data)
+    } catch (err) {
+      setShowBlockedChanges(false)
+      setError(err instanceof Error ? err.message : "An error occurred while loading the blocked changes")
+    } finally {
+      setIsLoadingBlockedChanges(false)
+    }
+  }
+
+  const handleApproveBlockedRun = async () => {
+    if (!planId || !executionId) {
+      return
+    }
+
+    setIsApproving(true)
+    setError(null)
+
+    try {
+      await apiPost(`/api/backupplan/${planId}/executions/${executionId}/approve`, {})
+      setShowBlockedChanges(false)
+      // The approved run is a new execution, it shows up in the list
+      navigate(`/backup-plans/${planId}/logs`)
+    } catch (err) {
+      setShowBlockedChanges(false)
+      setError(err instanceof Error ? err.message : "An error occurred while approving the deletions")
+    } finally {
+      setIsApproving(false)
+    }
+  }
+
   const handleCopyCommand = async () => {
     if (executionStats?.rsyncCommand) {
       try {
@@ -500,6 +664,25 @@ export function BackupLogs() {
               )}
             </div>
           </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleCompare}
+              disabled={compareIds.length !== 2}
+              title="Tick two executions to compare them"
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare{compareIds.length > 0 && ` (${compareIds.length}/2)`}
+            </Button>
+            <Button variant="outline" onClick={() => navigate(`/backup-plans/${planId}/snapshots`)}>
+              <Camera className="h-4 w-4 mr-2" />
+              ZFS Snapshots
+            </Button>
+            <Button variant="outline" onClick={() => navigate(`/backup-plans/${planId}/restore`)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore Files
+            </Button>
+          </div>
         </div>
 
         {error && (
@@ -522,6 +705,9 @@ export function BackupLogs() {
                   <table className="w-full">
                     <thead className="bg-muted">
                       <tr>
+                        <th className="w-10 p-3 text-sm font-medium">
+                          <span className="sr-only">Compare</span>
+                        </th>
                         <th className="text-left p-3 text-sm font-medium">Execution</th>
                         <th className="text-left p-3 text-sm font-medium">Start Time</th>
                         <th className="text-left p-3 text-sm font-medium">End Time</th>
@@ -531,13 +717,25 @@ export function BackupLogs() {
                     </thead>
                     <tbody>
                       {executions.map((execution) => {
-                        const executionType = execution.isSimulation ? "Simulation" : "Execution"
+                        const isRestore = execution.executionType === "Restore"
+                        const executionType = isRestore
+                          ? (execution.isSimulation ? "Restore Preview" : "Restore")
+                          : (execution.isSimulation ? "Simulation" : "Execution")
                         const triggerType = execution.isAutomatic ? "Auto" : "Manual"
                         const displayName = backupPlan 
                           ? `${backupPlan.name} - ${executionType} - ${triggerType}`
                           : execution.name
                         return (
                         <tr key={execution.id} className="border-t hover:bg-muted/50">
+                          <td className="p-3 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={compareIds.includes(execution.id)}
+                              onChange={() => toggleCompare(execution.id)}
+                              aria-label={`Compare ${displayName}`}
+                              className="h-4 w-4"
+                            />
+                          </td>
                           <td className="p-3 text-sm">
                             {displayName}
                           </td>
@@ -550,7 +748,12 @@ export function BackupLogs() {
                               : <span className="text-muted-foreground/50">In progress...</span>}
                           </td>
                           <td className="p-3 text-sm">
-                            {execution.endDateTime ? (
+                            {execution.blockedDeletions != null ? (
+                              <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                                <ShieldAlert className="h-4 w-4" />
+                                Blocked
+                              </span>
+                            ) : execution.endDateTime ? (
                               <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
                                 <CheckCircle2 className="h-4 w-4" />
                                 Completed
@@ -563,13 +766,25 @@ export function BackupLogs() {
                             )}
                           </td>
                           <td className="p-3 text-sm">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleExecutionClick(execution.id)}
-                            >
-                              View Logs
-                            </Button>
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleExecutionClick(execution.id)}
+                              >
+                                View Logs
+                              </Button>
+                              {!isRestore && !execution.isSimulation && execution.endDateTime && execution.blockedDeletions == null && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => navigate(`/backup-plans/${planId}/restore?executionId=${execution.id}`)}
+                                >
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                  Restore
+                                </Button>
+                              )}
+                            </div>
                           </td>
                         </tr>
                         )
@@ -579,6 +794,81 @@ export function BackupLogs() {
                 </div>
               </div>
             )}
+
+            {backupPlan?.snapshotMode === "hardlink" && (
+              <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+                <div className="p-4 border-b">
+                  <h2 className="text-lg font-semibold">Snapshots</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Hardlink snapshots under the destination. Snapshots no retention rule keeps are pruned hourly.
+                  </p>
+                </div>
+                {snapshots.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">No snapshots yet</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="text-left p-3 text-sm font-medium">Snapshot</th>
+                          <th className="text-left p-3 text-sm font-medium">Created</th>
+                          <th className="text-left p-3 text-sm font-medium">Kept By</th>
+                          <th className="text-left p-3 text-sm font-medium">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {snapshots.map((snapshot) => (
+                          <tr key={snapshot.name} className="border-t hover:bg-muted/50">
+                            <td className="p-3 text-sm font-mono">{snapshot.name}</td>
+                            <td className="p-3 text-sm text-muted-foreground">
+                              {formatExecutionDateTime(snapshot.createdAt, timezone)}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {snapshot.keptBy.length === 0 ? (
+                                <span className="px-2 py-1 rounded text-xs font-medium bg-red-500/20 text-red-600 dark:text-red-400">
+                                  Expired
+                                </span>
+                              ) : (
+                                <div className="flex flex-wrap gap-1">
+                                  {snapshot.keptBy.map((rule) => (
+                                    <span key={rule} className="px-2 py-1 rounded text-xs font-medium bg-muted text-muted-foreground capitalize">
+                                      {rule}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {snapshot.executionId && (
+                                <div className="flex gap-2">
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleExecutionClick(snapshot.executionId!)}
+                                  >
+                                    View Logs
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => navigate(`/backup-plans/${planId}/restore?executionId=${snapshot.executionId}`)}
+                                  >
+                                    <RotateCcw className="h-4 w-4 mr-2" />
+                                    Restore
+                                  </Button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
           </>
         )}
       </div>
@@ -619,6 +909,33 @@ export function BackupLogs() {
             )}
           </div>
         </div>
+        {planId && executionId && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant={view === "list" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("list")}
+            >
+              <List className="h-4 w-4 mr-2" />
+              List
+            </Button>
+            <Button
+              variant={view === "tree" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("tree")}
+            >
+              <ListTree className="h-4 w-4 mr-2" />
+              Tree
+            </Button>
+            <ExportLogsButton
+              endpoint={`/api/backupplan/${planId}/logs/export`}
+              executionId={executionId}
+              filters={filters}
+              sortBy={sortBy}
+              sortOrder={sortOrder}
+            />
+          </div>
+        )}
       </div>
 
       {error && (
@@ -634,16 +951,69 @@ export function BackupLogs() {
             <div className="rounded-lg border bg-card p-6 shadow-sm">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-lg font-semibold">Execution Statistics</h2>
-                {(() => {
-                  const statusDisplay = getStatusDisplay(executionStats.status)
-                  return (
-                    <div className={`flex items-center gap-2 ${statusDisplay.color} font-semibold`}>
-                      {statusDisplay.icon}
-                      <span>{statusDisplay.text}</span>
-                    </div>
-                  )
-                })()}
+                <div className="flex items-center gap-4">
+                  {(() => {
+                    const statusDisplay = getStatusDisplay(executionStats.status)
+                    return (
+                      <div className={`flex items-center gap-2 ${statusDisplay.color} font-semibold`}>
+                        {statusDisplay.icon}
+                        <span>{statusDisplay.text}</span>
+                        {executionStats.stoppedBy && (
+                          <span className="text-sm font-normal text-muted-foreground">
+                            (stopped by {executionStats.stoppedBy})
+                          </span>
+                        )}
+                      </div>
+                    )
+                  })()}
+                  {!executionStats.endDateTime && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isStopping}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Square className="h-4 w-4 mr-2" />
+                          {isStopping ? "Stopping..." : "Stop"}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Stop Execution</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to stop this execution? The rsync process will be killed
+                            and files already transferred will stay at the destination.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={handleStopExecution}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Stop
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
               </div>
+
+              {executionStats.blockedDeletions != null && (
+                <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive mb-4 flex items-center justify-between gap-4">
+                  <span>
+                    The deletion guard stopped this run before rsync deleted anything: it would have deleted{" "}
+                    {executionStats.blockedDeletions.toLocaleString()} files.
+                    {executionStats.deletionsApprovedBy && ` Approved by ${executionStats.deletionsApprovedBy}.`}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={handleReviewBlockedChanges}>
+                    {executionStats.deletionsApprovedBy ? "Review" : "Review & Approve"}
+                  </Button>
+                </div>
+              )}
               
               {/* File Count Statistics Card */}
               <div className="rounded-lg border bg-muted/50 p-4 mb-4">
@@ -800,245 +1170,294 @@ export function BackupLogs() {
             </div>
           )}
 
-          {/* Filters Section */}
-          <div className="rounded-lg border bg-card p-4 shadow-sm">
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold">Filters</h2>
-                {hasActiveFilters && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={clearFilters}
-                  >
-                    <X className="h-4 w-4 mr-2" />
-                    Clear Filters
-                  </Button>
-                )}
-              </div>
+          {view === "tree" ? (
+            <div className="rounded-lg border bg-card p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4">Changes by Directory</h2>
+              <DirectoryTree key={executionId} loadLevel={loadTreeLevel} />
+            </div>
+          ) : (
+            <>
+              {/* Filters Section */}
+              <div className="rounded-lg border bg-card p-4 shadow-sm">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Filters</h2>
+                    {hasActiveFilters && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={clearFilters}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Clear Filters
+                      </Button>
+                    )}
+                  </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {/* Action Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-action">Action</Label>
-                  <select
-                    id="filter-action"
-                    value={filters.action}
-                    onChange={(e) => handleFilterChange("action", e.target.value)}
-                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                  >
-                    <option value="All">All</option>
-                    <option value="Copy">Copy</option>
-                    <option value="Delete">Delete</option>
-                    <option value="Ignored">Ignored</option>
-                    <option value="Milestone">Milestone</option>
-                  </select>
-                </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {/* Action Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-action">Action</Label>
+                      <select
+                        id="filter-action"
+                        value={filters.action}
+                        onChange={(e) => handleFilterChange("action", e.target.value)}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                      >
+                        <option value="All">All</option>
+                        <option value="Copy">Copy</option>
+                        <option value="Delete">Delete</option>
+                        <option value="Ignored">Ignored</option>
+                        <option value="Milestone">Milestone</option>
+                        <option value="System">System</option>
+                      </select>
+                    </div>
 
-                {/* Filename Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-filename">File Name</Label>
-                  <Input
-                    id="filter-filename"
-                    type="text"
-                    placeholder="Search filename..."
-                    value={fileNameInput}
-                    onChange={(e) => setFileNameInput(e.target.value)}
-                  />
-                </div>
+                    {/* Filename Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-filename">File Name</Label>
+                      <Input
+                        id="filter-filename"
+                        type="text"
+                        placeholder="Search filename..."
+                        value={fileNameInput}
+                        onChange={(e) => setFileNameInput(e.target.value)}
+                      />
+                    </div>
 
-                {/* Min Size Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-minsize">Min Size (bytes)</Label>
-                  <Input
-                    id="filter-minsize"
-                    type="number"
-                    placeholder="0"
-                    value={filters.minSize}
-                    onChange={(e) => handleFilterChange("minSize", e.target.value)}
-                    min="0"
-                  />
-                </div>
+                    {/* Min Size Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-minsize">Min Size (bytes)</Label>
+                      <Input
+                        id="filter-minsize"
+                        type="number"
+                        placeholder="0"
+                        value={filters.minSize}
+                        onChange={(e) => handleFilterChange("minSize", e.target.value)}
+                        min="0"
+                      />
+                    </div>
 
-                {/* Max Size Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-maxsize">Max Size (bytes)</Label>
-                  <Input
-                    id="filter-maxsize"
-                    type="number"
-                    placeholder="No limit"
-                    value={filters.maxSize}
-                    onChange={(e) => handleFilterChange("maxSize", e.target.value)}
-                    min="0"
-                  />
-                </div>
+                    {/* Max Size Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-maxsize">Max Size (bytes)</Label>
+                      <Input
+                        id="filter-maxsize"
+                        type="number"
+                        placeholder="No limit"
+                        value={filters.maxSize}
+                        onChange={(e) => handleFilterChange("maxSize", e.target.value)}
+                        min="0"
+                      />
+                    </div>
 
-                {/* From Date Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-fromdate">From Date</Label>
-                  <Input
-                    id="filter-fromdate"
-                    type="date"
-                    value={filters.fromDate}
-                    onChange={(e) => handleFilterChange("fromDate", e.target.value)}
-                  />
-                </div>
+                    {/* From Date Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-fromdate">From Date</Label>
+                      <Input
+                        id="filter-fromdate"
+                        type="date"
+                        value={filters.fromDate}
+                        onChange={(e) => handleFilterChange("fromDate", e.target.value)}
+                      />
+                    </div>
 
-                {/* To Date Filter */}
-                <div className="space-y-2">
-                  <Label htmlFor="filter-todate">To Date</Label>
-                  <Input
-                    id="filter-todate"
-                    type="date"
-                    value={filters.toDate}
-                    onChange={(e) => handleFilterChange("toDate", e.target.value)}
-                  />
+                    {/* To Date Filter */}
+                    <div className="space-y-2">
+                      <Label htmlFor="filter-todate">To Date</Label>
+                      <Input
+                        id="filter-todate"
+                        type="date"
+                        value={filters.toDate}
+                        onChange={(e) => handleFilterChange("toDate", e.target.value)}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
 
-          {/* Sort Section */}
-          <div className="rounded-lg border bg-card p-4 shadow-sm">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
-                <Label htmlFor="sort-by">Sort By:</Label>
-                <select
-                  id="sort-by"
-                  value={sortBy}
-                  onChange={(e) => {
-                    setSortBy(e.target.value)
-                    setPage(1)
-                  }}
-                  className="rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                >
-                  <option value="datetime">Date/Time</option>
-                  <option value="filename">File Name</option>
-                  <option value="size">Size</option>
-                  <option value="action">Action</option>
-                </select>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    setSortOrder(sortOrder === "asc" ? "desc" : "asc")
-                    setPage(1)
-                  }}
-                >
-                  {sortOrder === "asc" ? (
-                    <>
-                      <ArrowUp className="h-4 w-4 mr-2" />
-                      Ascending
-                    </>
-                  ) : (
-                    <>
-                      <ArrowDown className="h-4 w-4 mr-2" />
-                      Descending
-                    </>
-                  )}
-                </Button>
-              </div>
+              {/* Sort Section */}
+              <div className="rounded-lg border bg-card p-4 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-4">
+                    <Label htmlFor="sort-by">Sort By:</Label>
+                    <select
+                      id="sort-by"
+                      value={sortBy}
+                      onChange={(e) => setSortBy(e.target.value)}
+                      className="rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    >
+                      <option value="datetime">Date/Time</option>
+                      <option value="filename">File Name</option>
+                      <option value="size">Size</option>
+                      <option value="action">Action</option>
+                    </select>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSortOrder(sortOrder === "asc" ? "desc" : "asc")}
+                    >
+                      {sortOrder === "asc" ? (
+                        <>
+                          <ArrowUp className="h-4 w-4 mr-2" />
+                          Ascending
+                        </>
+                      ) : (
+                        <>
+                          <ArrowDown className="h-4 w-4 mr-2" />
+                          Descending
+                        </>
+                      )}
+                    </Button>
+                  </div>
 
-              <div className="flex items-center gap-2">
-                <p className="text-sm text-muted-foreground">
-                  Total entries: <span className="font-medium text-foreground">{totalCount}</span>
-                </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  Previous
-                </Button>
-                <span className="text-sm text-muted-foreground">
-                  Page {page} of {totalPages}
-                </span>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages}
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
+                  <form
+                    className="flex items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      logList.jumpTo(jumpPath)
+                    }}
+                  >
+                    <p className="text-sm text-muted-foreground whitespace-nowrap">
+                      Total entries: <span className="font-medium text-foreground">{logList.totalCount}</span>
+                    </p>
+                    <Input
+                      type="text"
+                      placeholder="Jump to path..."
+                      value={jumpPath}
+                      onChange={(e) => setJumpPath(e.target.value)}
+                      className="w-64"
+                      aria-label="Jump to path"
+                    />
+                    <Button type="submit" variant="outline" size="sm" disabled={!jumpPath.trim() || logList.isLoading}>
+                      Go
+                    </Button>
+                    {logList.startIndex > 0 && (
+                      <Button type="button" variant="outline" size="sm" onClick={logList.reload}>
+                        Back to Start
+                      </Button>
+                    )}
+                  </form>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {logs.length === 0 ? (
-            <div className="rounded-lg border bg-card p-6 shadow-sm">
-              <div className="text-center py-12">
-                <p className="text-muted-foreground">No logs found for this execution</p>
-              </div>
-            </div>
-          ) : (
-            <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-muted">
-                    <tr>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("datetime")}
-                      >
-                        Date/Time{getSortIcon("datetime")}
-                      </th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("filename")}
-                      >
-                        File Name{getSortIcon("filename")}
-                      </th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("size")}
-                      >
-                        Size{getSortIcon("size")}
-                      </th>
-                      <th
-                        className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
-                        onClick={() => handleSort("action")}
-                      >
-                        Action{getSortIcon("action")}
-                      </th>
-                      <th className="text-left p-3 text-sm font-medium">Reason</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {logs.map((log) => (
-                      <tr key={log.id} className="border-t hover:bg-muted/50">
-                        <td className="p-3 text-sm text-muted-foreground">
-                          {formatDateTime(log.dateTime, timezone)}
-                        </td>
-                        <td className="p-3 text-sm">
-                          <div className="max-w-md truncate" title={log.filePath}>
-                            {log.fileName}
+              {logList.error && (
+                <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+                  {logList.error}
+                </div>
+              )}
+
+              {logList.isLoading && logList.rows.length === 0 ? (
+                <div className="rounded-lg border bg-card p-6 shadow-sm">
+                  <p className="text-muted-foreground">Loading logs...</p>
+                </div>
+              ) : logList.rows.length === 0 ? (
+                <div className="rounded-lg border bg-card p-6 shadow-sm">
+                  <div className="text-center py-12">
+                    <p className="text-muted-foreground">No logs found for this execution</p>
+                  </div>
+                </div>
+              ) : (
+                <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <div className="min-w-[900px]">
+                      <div className="grid bg-muted" style={{ gridTemplateColumns: LOG_GRID_COLUMNS }}>
+                        <div
+                          className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                          onClick={() => handleSort("datetime")}
+                        >
+                          Date/Time{getSortIcon("datetime")}
+                        </div>
+                        <div
+                          className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                          onClick={() => handleSort("filename")}
+                        >
+                          File Name{getSortIcon("filename")}
+                        </div>
+                        <div
+                          className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                          onClick={() => handleSort("size")}
+                        >
+                          Size{getSortIcon("size")}
+                        </div>
+                        <div
+                          className="text-left p-3 text-sm font-medium cursor-pointer hover:bg-muted/80 select-none"
+                          onClick={() => handleSort("action")}
+                        >
+                          Action{getSortIcon("action")}
+                        </div>
+                        <div className="text-left p-3 text-sm font-medium">Reason</div>
+                      </div>
+                      {logList.startIndex > 0 && (
+                        <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+                          Showing from entry {(logList.startIndex + 1).toLocaleString()} of {logList.totalCount.toLocaleString()}
+                        </div>
+                      )}
+                      <VirtualList
+                        key={`${logQuery}-${logList.startIndex}-${logList.jumpedToId}`}
+                        items={logList.rows}
+                        rowHeight={LOG_ROW_HEIGHT}
+                        height={Math.min(600, (logList.rows.length + 1) * LOG_ROW_HEIGHT)}
+                        getKey={(log) => log.id}
+                        onEndReached={logList.hasMore ? logList.loadMore : undefined}
+                        renderRow={(log) => (
+                          <div
+                            className={`grid h-full items-center border-t hover:bg-muted/50 ${
+                              log.id === logList.jumpedToId ? "bg-primary/10" : ""
+                            }`}
+                            style={{ gridTemplateColumns: LOG_GRID_COLUMNS }}
+                          >
+                            <div className="px-3 text-sm text-muted-foreground truncate">
+                              {formatDateTime(log.dateTime, timezone)}
+                            </div>
+                            <div className="px-3 text-sm truncate" title={log.filePath}>
+                              {log.fileName}
+                            </div>
+                            <div className="px-3 text-sm text-muted-foreground truncate">
+                              {formatFileSize(log.size)}
+                            </div>
+                            <div className="px-3 text-sm">
+                              <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(log.action)}`}>
+                                {log.action}
+                              </span>
+                            </div>
+                            <div className="px-3 text-sm text-muted-foreground truncate" title={log.reason}>
+                              {log.reason}
+                            </div>
                           </div>
-                        </td>
-                        <td className="p-3 text-sm text-muted-foreground">
-                          {formatFileSize(log.size)}
-                        </td>
-                        <td className="p-3 text-sm">
-                          <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(log.action)}`}>
-                            {log.action}
-                          </span>
-                        </td>
-                        <td className="p-3 text-sm text-muted-foreground">
-                          {log.reason}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
+                        )}
+                        footer={
+                          logList.isLoadingMore && (
+                            <p className="border-t p-3 text-sm text-muted-foreground">Loading more logs...</p>
+                          )
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
           )}
         </>
       )}
+
+      <SimulationResults
+        open={showBlockedChanges}
+        onClose={() => setShowBlockedChanges(false)}
+        result={blockedChanges}
+        isLoading={isLoadingBlockedChanges}
+        title="Blocked Changes"
+        description={
+          blockedChanges?.truncated
+            ? "Changes the blocked run would have made (only the first of each kind are listed)"
+            : "Changes the blocked run would have made"
+        }
+        notice={blockedChanges?.reason}
+        onApprove={blockedChanges?.canApprove ? handleApproveBlockedRun : undefined}
+        approveLabel="Approve & Run Backup"
+        isApproving={isApproving}
+      />
     </div>
   )
 }
@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react"
 import { useNavigate } from "react-router-dom"
 import { Button } from "@/components/ui/button"
-import { Plus, Pencil, Trash2, FileText } from "lucide-react"
-import { apiGet, apiDelete } from "@/lib/api"
+import { Plus, Pencil, Trash2, FileText, Square } from "lucide-react"
+import { apiGet, apiDelete, apiPost } from "@/lib/api"
 import { CronDescription } from "@/components/CronDescription"
+import { useRunningExecutions } from "@/hooks/useRunningExecutions"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,13 +16,16 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
+import { SourcePathList } from "@/components/SourcePathList"
+import type { BackupPlanSource } from "@/lib/backupSources"
 
 interface BackupPlan {
   id: string
   name: string
   description: string
   schedule: string
-  source: string
+  timezone?: string
+  sources?: BackupPlanSource[]
   destination: string
   active?: boolean
   agentId?: string
@@ -33,6 +37,8 @@ export function BackupPlansList() {
   const [backupPlans, setBackupPlans] = useState<BackupPlan[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [stoppingPlanId, setStoppingPlanId] = useState<string | null>(null)
+  const { isPlanRunning } = useRunningExecutions()
 
   useEffect(() => {
     const fetchData = async () => {
@@ -84,6 +90,29 @@ export function BackupPlansList() {
     }
   }
 
+  const handleStop = async (planId: string) => {
+    setStoppingPlanId(planId)
+    setError(null)
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      await apiPost(`/api/backupplan/${planId}/stop`, {})
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while stopping the backup plan")
+      }
+    } finally {
+      setStoppingPlanId(null)
+    }
+  }
+
   const getAgentHostname = (plan: BackupPlan) => {
     if (plan.agentHostname) {
       return plan.agentHostname
@@ -170,6 +199,11 @@ export function BackupPlansList() {
                     }`}>
                       {plan.active !== false ? "Active" : "Inactive"}
                     </span>
+                    {isPlanRunning(plan.id) && (
+                      <span className="px-2 py-1 text-xs font-medium rounded bg-orange-500/20 text-orange-600 dark:text-orange-400">
+                        Running
+                      </span>
+                    )}
                   </div>
                   <div className="mb-2">
                     <p className="text-sm font-medium text-muted-foreground">Agent</p>
@@ -182,12 +216,12 @@ export function BackupPlansList() {
                     <div>
                       <p className="text-sm font-medium text-muted-foreground mb-2">Schedule</p>
                       <p className="text-sm font-mono mb-2">{plan.schedule}</p>
-                      <CronDescription cronExpression={plan.schedule} />
+                      <CronDescription cronExpression={plan.schedule} timezone={plan.timezone} />
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
-                        <p className="text-sm font-medium text-muted-foreground">Source</p>
-                        <p className="text-sm truncate" title={plan.source}>{plan.source}</p>
+                        <p className="text-sm font-medium text-muted-foreground">{plan.sources?.length === 1 ? "Source" : "Sources"}</p>
+                        <SourcePathList sources={plan.sources} />
                       </div>
                       <div>
                         <p className="text-sm font-medium text-muted-foreground">Destination</p>
@@ -197,6 +231,43 @@ export function BackupPlansList() {
                   </div>
                 </div>
                 <div className="flex gap-2 ml-4">
+                  {isPlanRunning(plan.id) && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={stoppingPlanId === plan.id}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Square className="h-4 w-4 mr-2" />
+                          {stoppingPlanId === plan.id ? "Stopping..." : "Stop"}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Stop Backup Plan</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to stop the running execution of <strong>{plan.name}</strong>?
+                            The rsync process will be killed and the execution marked as interrupted.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleStop(plan.id)
+                            }}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Stop
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
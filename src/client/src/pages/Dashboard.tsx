@@ -1,5 +1,6 @@
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { apiGet } from "@/lib/api"
+import { useExecutionEvents } from "@/hooks/useExecutionEvents"
 
 interface DashboardStats {
   activeExecutions: number
@@ -25,32 +26,41 @@ export function Dashboard() {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      setIsLoading(true)
-      setError(null)
+  // Last status seen per execution, so file progress events don't trigger a refetch
+  const executionStatuses = useRef(new Map<string, string>())
+
+  const fetchStats = useCallback(async () => {
+    setError(null)
 
-      try {
-        const data = await apiGet<DashboardStats>("/api/dashboard/stats")
-        setStats(data)
-      } catch (err) {
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          setError("Unable to connect to the server. Please make sure the backend is running.")
-        } else {
-          setError(err instanceof Error ? err.message : "An error occurred while loading dashboard statistics")
-        }
-      } finally {
-        setIsLoading(false)
+    try {
+      const data = await apiGet<DashboardStats>("/api/dashboard/stats")
+      setStats(data)
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while loading dashboard statistics")
       }
+    } finally {
+      setIsLoading(false)
     }
+  }, [])
 
+  useEffect(() => {
     fetchStats()
+  }, [fetchStats])
 
-    // Refresh stats every 30 seconds
-    const interval = setInterval(fetchStats, 30000)
-
-    return () => clearInterval(interval)
-  }, [])
+  // Refresh stats whenever an execution starts, changes phase or finishes
+  useExecutionEvents({
+    onExecutionUpdated: (event) => {
+      if (executionStatuses.current.get(event.executionId) === event.status) {
+        return
+      }
+      executionStatuses.current.set(event.executionId, event.status)
+      fetchStats()
+    },
+    onReconnected: fetchStats,
+  })
 
   return (
     <div className="space-y-6">
@@ -5,9 +5,28 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { ArrowLeft, Trash2, FolderOpen, Play, Zap } from "lucide-react"
 import { apiGet, apiPut, apiDelete, apiPost } from "@/lib/api"
-import { FileBrowser } from "@/components/FileBrowser"
+import { parseFilterRule, toRsyncFilterRules, type FilterRule } from "@/lib/rsyncFilters"
+import {
+  newBackupSourceDraft,
+  toBackupSourceDrafts,
+  toBackupSourceRequests,
+  usesRelativePaths,
+  type BackupPlanSource,
+  type BackupSourceDraft,
+} from "@/lib/backupSources"
+import { DEFAULT_RSYNC_OPTIONS, rsyncOptionsFromPlan, type BackupPlanRsyncFields, type RsyncOptions } from "@/lib/rsyncOptions"
+import { DEFAULT_SNAPSHOT_OPTIONS, snapshotOptionsFromPlan, type BackupPlanSnapshotFields, type SnapshotOptions } from "@/lib/snapshotOptions"
+import { DEFAULT_HOOK_OPTIONS, hookOptionsFromPlan, type BackupPlanHookFields, type HookOptions } from "@/lib/hookOptions"
+import { DEFAULT_DELETION_GUARD_OPTIONS, deletionGuardFromPlan, type BackupPlanDeletionGuardFields, type DeletionGuardOptions } from "@/lib/deletionGuard"
+import { SourcePathsEditor } from "@/components/SourcePathsEditor"
 import { ServerFileBrowser } from "@/components/ServerFileBrowser"
-import { CronDescription } from "@/components/CronDescription"
+import { ScheduleBuilder } from "@/components/ScheduleBuilder"
+import { FilterRulesEditor } from "@/components/FilterRulesEditor"
+import { RsyncOptionsPanel } from "@/components/RsyncOptionsPanel"
+import { RsyncCompatibilityWarning } from "@/components/RsyncCompatibilityWarning"
+import { SnapshotModePanel } from "@/components/SnapshotModePanel"
+import { HooksPanel } from "@/components/HooksPanel"
+import { DeletionGuardPanel } from "@/components/DeletionGuardPanel"
 import { SimulationResults } from "@/components/SimulationResults"
 import {
   AlertDialog,
@@ -21,14 +40,16 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 
-interface BackupPlan {
+interface BackupPlan extends BackupPlanRsyncFields, BackupPlanSnapshotFields, BackupPlanHookFields, BackupPlanDeletionGuardFields {
   id: string
   name: string
   description: string
   schedule: string
-  source: string
+  timezone?: string
+  sources: BackupPlanSource[]
   destination: string
   active?: boolean
+  filterRules?: string[]
   agentid?: string
 }
 
@@ -48,13 +69,18 @@ export function EditBackupPlan() {
   const [name, setName] = useState("")
   const [description, setDescription] = useState("")
   const [schedule, setSchedule] = useState("0 0 * * *")
-  const [source, setSource] = useState("")
+  const [timezone, setTimezone] = useState("UTC")
+  const [sources, setSources] = useState<BackupSourceDraft[]>([newBackupSourceDraft()])
   const [destination, setDestination] = useState("")
+  const [filterRules, setFilterRules] = useState<FilterRule[]>([])
+  const [rsyncOptions, setRsyncOptions] = useState<RsyncOptions>(DEFAULT_RSYNC_OPTIONS)
+  const [deletionGuard, setDeletionGuard] = useState<DeletionGuardOptions>(DEFAULT_DELETION_GUARD_OPTIONS)
+  const [snapshotOptions, setSnapshotOptions] = useState<SnapshotOptions>(DEFAULT_SNAPSHOT_OPTIONS)
+  const [hookOptions, setHookOptions] = useState<HookOptions>(DEFAULT_HOOK_OPTIONS)
   const [active, setActive] = useState(true)
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingData, setIsLoadingData] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [showFileBrowser, setShowFileBrowser] = useState(false)
   const [showServerFileBrowser, setShowServerFileBrowser] = useState(false)
   const [showSimulation, setShowSimulation] = useState(false)
   const [simulationResult, setSimulationResult] = useState<any>(null)
@@ -85,9 +111,15 @@ export function EditBackupPlan() {
         setName(planData.name)
         setDescription(planData.description)
         setSchedule(planData.schedule)
-        setSource(planData.source)
+        setTimezone(planData.timezone ?? "UTC")
+        setSources(planData.sources?.length ? toBackupSourceDrafts(planData.sources) : [newBackupSourceDraft()])
         setDestination(planData.destination)
         setActive(planData.active ?? false)
+        setFilterRules((planData.filterRules ?? []).map(parseFilterRule))
+        setRsyncOptions(rsyncOptionsFromPlan(planData))
+        setDeletionGuard(deletionGuardFromPlan(planData))
+        setSnapshotOptions(snapshotOptionsFromPlan(planData))
+        setHookOptions(hookOptionsFromPlan(planData))
 
         // Fetch agent if agentId is provided or from plan
         const agentIdToFetch = agentId || planData.agentid
@@ -131,8 +163,14 @@ export function EditBackupPlan() {
         name: name.trim(),
         description: description.trim(),
         schedule: schedule.trim() || "0 0 * * *",
-        source: source.trim(),
+        timezone: timezone,
+        sources: toBackupSourceRequests(sources),
         destination: destination.trim(),
+        filterRules: toRsyncFilterRules(filterRules),
+        rsyncOptions: rsyncOptions,
+        deletionGuard: deletionGuard,
+        snapshotOptions: snapshotOptions,
+        hooks: hookOptions,
         active: active,
       })
 
@@ -325,52 +363,20 @@ export function EditBackupPlan() {
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="schedule">Schedule (Cron) *</Label>
-            <Input
-              id="schedule"
-              type="text"
-              placeholder="0 0 * * *"
-              value={schedule}
-              onChange={(e) => setSchedule(e.target.value)}
-              required
-              disabled={isLoading}
-            />
-            <p className="text-sm text-muted-foreground">
-              Cron expression (e.g., "0 0 * * *" for daily at midnight)
-            </p>
-            <CronDescription cronExpression={schedule} />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="source">Source Path  (Agent)</Label>
-            <div className="flex gap-2">
-              <Input
-                id="source"
-                type="text"
-                placeholder="/path/to/source"
-                value={source}
-                onChange={(e) => setSource(e.target.value)}
-                required
-                disabled={isLoading}
-                className="flex-1"
-              />
-              {agentId && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setShowFileBrowser(true)}
-                  disabled={isLoading}
-                  title="Browse file system on agent"
-                >
-                  <FolderOpen className="h-4 w-4" />
-                </Button>
-              )}
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Path to the files/directories to backup
-            </p>
-          </div>
+          <ScheduleBuilder
+            schedule={schedule}
+            onScheduleChange={setSchedule}
+            timezone={timezone}
+            onTimezoneChange={setTimezone}
+            disabled={isLoading}
+          />
+
+          <SourcePathsEditor
+            sources={sources}
+            onChange={setSources}
+            agentId={agentId}
+            disabled={isLoading}
+          />
 
           <div className="space-y-2">
             <Label htmlFor="destination">Destination Path (Server)</Label>
@@ -400,6 +406,48 @@ export function EditBackupPlan() {
             </p>
           </div>
 
+          <FilterRulesEditor
+            rules={filterRules}
+            onChange={setFilterRules}
+            agentId={agentId || agent?.id}
+            source={sources[0]?.path ?? ""}
+            relativePaths={usesRelativePaths(sources)}
+            disabled={isLoading}
+          />
+
+          <RsyncOptionsPanel
+            options={rsyncOptions}
+            onChange={setRsyncOptions}
+            disabled={isLoading}
+          />
+
+          <RsyncCompatibilityWarning agentId={agentId || agent?.id} options={rsyncOptions} />
+
+          <DeletionGuardPanel
+            options={deletionGuard}
+            onChange={setDeletionGuard}
+            inactiveReason={
+              rsyncOptions.deleteMode === "none"
+                ? "Not checked while deleted files are kept"
+                : snapshotOptions.mode === "hardlink"
+                  ? "Not checked in hardlink snapshot mode, snapshots never delete files"
+                  : null
+            }
+            disabled={isLoading}
+          />
+
+          <SnapshotModePanel
+            options={snapshotOptions}
+            onChange={setSnapshotOptions}
+            disabled={isLoading}
+          />
+
+          <HooksPanel
+            options={hookOptions}
+            onChange={setHookOptions}
+            disabled={isLoading}
+          />
+
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <input
@@ -505,19 +553,6 @@ export function EditBackupPlan() {
         </form>
       </div>
 
-      {agentId && (
-        <FileBrowser
-          agentId={agentId}
-          open={showFileBrowser}
-          onClose={() => setShowFileBrowser(false)}
-          onSelect={(path) => {
-            setSource(path)
-            setShowFileBrowser(false)
-          }}
-          initialPath={source}
-        />
-      )}
-
       <ServerFileBrowser
         open={showServerFileBrowser}
         onClose={() => setShowServerFileBrowser(false)}
@@ -0,0 +1,411 @@
+import { useEffect, useState } from "react"
+import { useNavigate, useParams, useSearchParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, ArrowLeftRight } from "lucide-react"
+import { apiGet } from "@/lib/api"
+import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+import {
+  COMPARED_STATS,
+  formatComparedDelta,
+  formatComparedValue,
+  formatFileSize,
+  type ComparedFileList,
+  type ExecutionComparison as ExecutionComparisonResponse,
+} from "@/lib/executionComparison"
+
+interface BackupPlan {
+  id: string
+  name: string
+}
+
+interface BackupExecution {
+  id: string
+  name: string
+  startDateTime: string
+  endDateTime: string | null
+  isAutomatic: boolean
+  isSimulation: boolean
+  executionType: string
+}
+
+function describeExecution(execution: BackupExecution, timezone: string): string {
+  const type = execution.executionType === "Restore"
+    ? (execution.isSimulation ? "Restore Preview" : "Restore")
+    : (execution.isSimulation ? "Simulation" : "Execution")
+  return `${formatDateTimeWithTimezone(execution.startDateTime, timezone)} - ${type} - ${execution.isAutomatic ? "Auto" : "Manual"}`
+}
+
+interface FileListCardProps {
+  title: string
+  description: string
+  list: ComparedFileList
+  showExecution?: (executionId: string) => string
+}
+
+function FileListCard({ title, description, list, showExecution }: FileListCardProps) {
+  return (
+    <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {description} {list.totalCount.toLocaleString()} files, {formatFileSize(list.totalSize)}
+          {list.files.length < list.totalCount && `, the ${list.files.length} largest listed`}
+        </p>
+      </div>
+      {list.files.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">None</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full">
+            <thead className="bg-muted sticky top-0">
+              <tr>
+                <th className="text-left p-3 text-sm font-medium">File Path</th>
+                <th className="text-right p-3 text-sm font-medium">Size</th>
+                <th className="text-left p-3 text-sm font-medium">{showExecution ? "Execution" : "Reason"}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.files.map((file, index) => (
+                <tr key={`${file.executionId}-${file.filePath}-${index}`} className="border-t hover:bg-muted/50">
+                  <td className="p-3 text-sm font-mono break-all">{file.filePath}</td>
+                  <td className="p-3 text-sm text-right whitespace-nowrap">{formatFileSize(file.size)}</td>
+                  <td className="p-3 text-sm text-muted-foreground">
+                    {showExecution ? showExecution(file.executionId) : file.reason}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ExecutionComparison() {
+  const navigate = useNavigate()
+  const { planId } = useParams<{ planId: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const baseId = searchParams.get("base") ?? ""
+  const targetId = searchParams.get("target") ?? ""
+
+  const [backupPlan, setBackupPlan] = useState<BackupPlan | null>(null)
+  const [executions, setExecutions] = useState<BackupExecution[]>([])
+  const [comparison, setComparison] = useState<ExecutionComparisonResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [timezone, setTimezone] = useState<string>("UTC")
+
+  // Listen for timezone changes from navbar
+  useEffect(() => {
+    const handleTimezoneChange = (event: CustomEvent) => {
+      const newTimezone = event.detail || "UTC"
+      setTimezone(newTimezone)
+    }
+
+    window.addEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+
+    // Load initial timezone from sessionStorage
+    const saved = sessionStorage.getItem("selectedTimezone")
+    if (saved) {
+      setTimezone(saved)
+    }
+
+    return () => {
+      window.removeEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!planId) {
+        setError("Backup plan ID is required")
+        setIsLoading(false)
+        return
+      }
+
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const token = sessionStorage.getItem("token")
+        if (!token) {
+          navigate("/login")
+          return
+        }
+
+        const [planData, executionsData] = await Promise.all([
+          apiGet<BackupPlan>(`/api/backupplan/${planId}`),
+          apiGet<BackupExecution[]>(`/api/backupplan/${planId}/executions`),
+        ])
+        setBackupPlan(planData)
+        setExecutions(executionsData)
+      } catch (err) {
+        if (err instanceof TypeError && err.message === "Failed to fetch") {
+          setError("Unable to connect to the server. Please make sure the backend is running.")
+        } else {
+          setError(err instanceof Error ? err.message : "An error occurred")
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [planId, navigate])
+
+  useEffect(() => {
+    if (!planId || !baseId || !targetId || baseId === targetId) {
+      setComparison(null)
+      return
+    }
+
+    const fetchComparison = async () => {
+      setIsComparing(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ baseId, targetId })
+        const data = await apiGet<ExecutionComparisonResponse>(
+          `/api/backupplan/${planId}/executions/compare?${params.toString()}`
+        )
+        setComparison(data)
+      } catch (err) {
+        setComparison(null)
+        setError(err instanceof Error ? err.message : "Failed to compare executions")
+      } finally {
+        setIsComparing(false)
+      }
+    }
+
+    fetchComparison()
+  }, [planId, baseId, targetId])
+
+  const selectExecutions = (base: string, target: string) => {
+    setSearchParams({ base, target })
+  }
+
+  const executionLabel = (executionId: string) => {
+    const execution = executions.find((e) => e.id === executionId)
+    return execution ? formatDateTimeWithTimezone(execution.startDateTime, timezone) : executionId
+  }
+
+  const selectClassName =
+    "w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate(`/backup-plans/${planId}/logs`)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Executions
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Compare Executions</h1>
+            {backupPlan && (
+              <p className="text-muted-foreground mt-2">
+                {backupPlan.name}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <p className="text-muted-foreground">Loading executions...</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border bg-card p-4 shadow-sm">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="compare-base">Base</Label>
+              <select
+                id="compare-base"
+                value={baseId}
+                onChange={(e) => selectExecutions(e.target.value, targetId)}
+                className={selectClassName}
+              >
+                <option value="">Select an execution</option>
+                {executions.map((execution) => (
+                  <option key={execution.id} value={execution.id}>
+                    {describeExecution(execution, timezone)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => selectExecutions(targetId, baseId)}
+              disabled={!baseId || !targetId}
+              title="Swap base and target"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="compare-target">Target</Label>
+              <select
+                id="compare-target"
+                value={targetId}
+                onChange={(e) => selectExecutions(baseId, e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Select an execution</option>
+                {executions.map((execution) => (
+                  <option key={execution.id} value={execution.id}>
+                    {describeExecution(execution, timezone)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {baseId && baseId === targetId && (
+            <p className="text-sm text-muted-foreground mt-3">Pick two different executions to compare</p>
+          )}
+        </div>
+      )}
+
+      {isComparing && (
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <p className="text-muted-foreground">Comparing executions...</p>
+        </div>
+      )}
+
+      {comparison && !isComparing && (
+        <>
+          <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Statistics</h2>
+              <p className="text-sm text-muted-foreground">
+                Change from the base to the target execution
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="text-left p-3 text-sm font-medium"></th>
+                    <th className="text-right p-3 text-sm font-medium">
+                      Base
+                      <div className="font-normal text-xs text-muted-foreground">
+                        {formatDateTimeWithTimezone(comparison.base.execution.startDateTime, timezone)}
+                      </div>
+                    </th>
+                    <th className="text-right p-3 text-sm font-medium">
+                      Target
+                      <div className="font-normal text-xs text-muted-foreground">
+                        {formatDateTimeWithTimezone(comparison.target.execution.startDateTime, timezone)}
+                      </div>
+                    </th>
+                    <th className="text-right p-3 text-sm font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t">
+                    <td className="p-3 text-sm font-medium">Status</td>
+                    <td className="p-3 text-sm text-right">{comparison.base.stats.status}</td>
+                    <td className="p-3 text-sm text-right">{comparison.target.stats.status}</td>
+                    <td className="p-3 text-sm text-right text-muted-foreground"></td>
+                  </tr>
+                  {COMPARED_STATS.map((row) => {
+                    const base = row.value(comparison.base)
+                    const target = row.value(comparison.target)
+                    return (
+                      <tr key={row.label} className="border-t hover:bg-muted/50">
+                        <td className="p-3 text-sm font-medium">{row.label}</td>
+                        <td className="p-3 text-sm text-right">{formatComparedValue(base, row.format)}</td>
+                        <td className="p-3 text-sm text-right">{formatComparedValue(target, row.format)}</td>
+                        <td
+                          className={`p-3 text-sm text-right whitespace-nowrap ${
+                            target > base
+                              ? "text-orange-600 dark:text-orange-400"
+                              : target < base ? "text-green-600 dark:text-green-400" : "text-muted-foreground"
+                          }`}
+                        >
+                          {formatComparedDelta(base, target, row.format)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <FileListCard
+              title="Copied Only in Target"
+              description="Copied by the target execution but not by the base."
+              list={comparison.onlyInTarget}
+            />
+            <FileListCard
+              title="Copied Only in Base"
+              description="Copied by the base execution but not by the target."
+              list={comparison.onlyInBase}
+            />
+          </div>
+
+          <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+            <div className="p-4 border-b">
+              <h2 className="text-lg font-semibold">Size Changes</h2>
+              <p className="text-sm text-muted-foreground">
+                Copied by both executions with a different size. {comparison.sizeChanges.totalCount.toLocaleString()} files,{" "}
+                {formatComparedDelta(0, comparison.sizeChanges.totalDelta, "bytes")} in total
+                {comparison.sizeChanges.files.length < comparison.sizeChanges.totalCount &&
+                  `, the ${comparison.sizeChanges.files.length} largest changes listed`}
+              </p>
+            </div>
+            {comparison.sizeChanges.files.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">None</p>
+            ) : (
+              <div className="overflow-x-auto max-h-96">
+                <table className="w-full">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="text-left p-3 text-sm font-medium">File Path</th>
+                      <th className="text-right p-3 text-sm font-medium">Base</th>
+                      <th className="text-right p-3 text-sm font-medium">Target</th>
+                      <th className="text-right p-3 text-sm font-medium">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.sizeChanges.files.map((file, index) => (
+                      <tr key={`${file.filePath}-${index}`} className="border-t hover:bg-muted/50">
+                        <td className="p-3 text-sm font-mono break-all">{file.filePath}</td>
+                        <td className="p-3 text-sm text-right whitespace-nowrap">{formatFileSize(file.baseSize)}</td>
+                        <td className="p-3 text-sm text-right whitespace-nowrap">{formatFileSize(file.targetSize)}</td>
+                        <td
+                          className={`p-3 text-sm text-right whitespace-nowrap ${
+                            file.delta > 0 ? "text-orange-600 dark:text-orange-400" : "text-green-600 dark:text-green-400"
+                          }`}
+                        >
+                          {formatComparedDelta(file.baseSize, file.targetSize, "bytes")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <FileListCard
+            title="Deleted in Between"
+            description="Deleted by the runs after the earlier execution, up to and including the later one."
+            list={comparison.deletedBetween}
+            showExecution={executionLabel}
+          />
+        </>
+      )}
+    </div>
+  )
+}
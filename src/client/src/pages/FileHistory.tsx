@@ -0,0 +1,423 @@
+import { useEffect, useState } from "react"
+import { Link, useNavigate, useSearchParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ChevronLeft, ChevronRight, Search } from "lucide-react"
+import { apiGet } from "@/lib/api"
+import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+import { isGlob, sizeTimeline, type FileHistoryResponse } from "@/lib/fileHistory"
+
+interface BackupPlan {
+  id: string
+  name: string
+}
+
+function formatFileSize(bytes: number | null): string {
+  if (bytes === null || bytes === undefined) return "N/A"
+  if (bytes === 0) return "0 B"
+
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
+}
+
+function getActionColor(action: string): string {
+  switch (action) {
+    case "Copy":
+      return "bg-green-500/20 text-green-600 dark:text-green-400"
+    case "Delete":
+      return "bg-red-500/20 text-red-600 dark:text-red-400"
+    case "Ignored":
+      return "bg-gray-500/20 text-gray-600 dark:text-gray-400"
+    case "CopyError":
+    case "DeleteError":
+      return "bg-orange-500/20 text-orange-600 dark:text-orange-400"
+    default:
+      return "bg-muted text-muted-foreground"
+  }
+}
+
+export function FileHistory() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const path = searchParams.get("path") ?? ""
+  const backupPlanId = searchParams.get("backupPlanId") ?? ""
+  const includeSimulations = searchParams.get("includeSimulations") === "true"
+
+  const [pathInput, setPathInput] = useState(path)
+  const [backupPlans, setBackupPlans] = useState<BackupPlan[]>([])
+  const [history, setHistory] = useState<FileHistoryResponse | null>(null)
+  const [page, setPage] = useState(1)
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [timezone, setTimezone] = useState<string>("UTC")
+
+  // Listen for timezone changes from navbar
+  useEffect(() => {
+    const handleTimezoneChange = (event: CustomEvent) => {
+      const newTimezone = event.detail || "UTC"
+      setTimezone(newTimezone)
+    }
+
+    window.addEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+
+    // Load initial timezone from sessionStorage
+    const saved = sessionStorage.getItem("selectedTimezone")
+    if (saved) {
+      setTimezone(saved)
+    }
+
+    return () => {
+      window.removeEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchPlans = async () => {
+      try {
+        const data = await apiGet<BackupPlan[]>("/api/backupplan")
+        setBackupPlans(data)
+      } catch {
+        // The plan filter is optional, search across all plans
+      }
+    }
+
+    fetchPlans()
+  }, [])
+
+  useEffect(() => {
+    if (!path) {
+      return
+    }
+
+    const fetchHistory = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const token = sessionStorage.getItem("token")
+        if (!token) {
+          navigate("/login")
+          return
+        }
+
+        const params = new URLSearchParams({
+          path,
+          page: page.toString(),
+          pageSize: "100",
+          sortOrder,
+          includeSimulations: includeSimulations.toString(),
+        })
+        if (backupPlanId) {
+          params.append("backupPlanId", backupPlanId)
+        }
+
+        const data = await apiGet<FileHistoryResponse>(`/api/logs/history?${params.toString()}`)
+        setHistory(data)
+      } catch (err) {
+        if (err instanceof TypeError && err.message === "Failed to fetch") {
+          setError("Unable to connect to the server. Please make sure the backend is running.")
+        } else {
+          setError(err instanceof Error ? err.message : "An error occurred while searching the logs")
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [path, backupPlanId, includeSimulations, page, sortOrder, navigate])
+
+  const updateSearch = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams)
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        next.set(key, value)
+      } else {
+        next.delete(key)
+      }
+    }
+    setPage(1)
+    setSearchParams(next)
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateSearch({ path: pathInput.trim() })
+  }
+
+  const showFile = (filePath: string) => {
+    setPathInput(filePath)
+    updateSearch({ path: filePath })
+  }
+
+  const timeline = history && history.fileCount === 1 ? sizeTimeline(history.entries) : []
+  const maxSize = Math.max(1, ...timeline.map((point) => point.size))
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">File History</h1>
+        <p className="text-muted-foreground mt-2">
+          Every copy, change, deletion and error of a file across all backup plans and executions
+        </p>
+      </div>
+
+      <form onSubmit={handleSearch} className="rounded-lg border bg-card p-4 shadow-sm space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="history-path">Path or glob</Label>
+            <div className="flex gap-2">
+              <Input
+                id="history-path"
+                value={pathInput}
+                onChange={(e) => setPathInput(e.target.value)}
+                placeholder="/home/user/documents/report.pdf or *.sql"
+                className="font-mono"
+              />
+              <Button type="submit" disabled={!pathInput.trim() || isLoading}>
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {isGlob(pathInput)
+                ? "Glob: * also matches /, the pattern is matched at any depth."
+                : "Path: matches the file in any plan that backs it up, typed from its source, or in full with a backup plan selected."}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-plan">Backup Plan</Label>
+            <select
+              id="history-plan"
+              value={backupPlanId}
+              onChange={(e) => updateSearch({ backupPlanId: e.target.value })}
+              className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="">All plans</option>
+              {backupPlans.map((plan) => (
+                <option key={plan.id} value={plan.id}>
+                  {plan.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeSimulations}
+                onChange={(e) => updateSearch({ includeSimulations: e.target.checked ? "true" : "" })}
+                className="h-4 w-4"
+              />
+              Include simulations
+            </label>
+          </div>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {!path && (
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Search a path or glob to see its history</p>
+          </div>
+        </div>
+      )}
+
+      {path && isLoading && !history && (
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <p className="text-muted-foreground">Searching logs...</p>
+        </div>
+      )}
+
+      {path && history && !error && (
+        <>
+          {history.fileCount > 1 && (
+            <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+              <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold">Matching Files</h2>
+                <p className="text-sm text-muted-foreground">
+                  {history.fileCount.toLocaleString()} paths
+                  {history.files.length < history.fileCount && `, the ${history.files.length} seen last listed`}.
+                  Pick one to see its history alone.
+                </p>
+              </div>
+              <div className="overflow-x-auto max-h-96">
+                <table className="w-full">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="text-left p-3 text-sm font-medium">File Path</th>
+                      <th className="text-left p-3 text-sm font-medium">Entries</th>
+                      <th className="text-left p-3 text-sm font-medium">First Seen</th>
+                      <th className="text-left p-3 text-sm font-medium">Last Seen</th>
+                      <th className="text-left p-3 text-sm font-medium">Last Action</th>
+                      <th className="text-left p-3 text-sm font-medium">Last Size</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.files.map((file) => (
+                      <tr key={file.filePath} className="border-t hover:bg-muted/50">
+                        <td className="p-3 text-sm font-mono break-all">
+                          <button
+                            type="button"
+                            onClick={() => showFile(file.filePath)}
+                            className="text-left hover:underline"
+                          >
+                            {file.filePath}
+                          </button>
+                        </td>
+                        <td className="p-3 text-sm">{file.entryCount}</td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {formatDateTimeWithTimezone(file.firstSeen, timezone)}
+                        </td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {formatDateTimeWithTimezone(file.lastSeen, timezone)}
+                        </td>
+                        <td className="p-3 text-sm">
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(file.lastAction)}`}>
+                            {file.lastAction}
+                          </span>
+                        </td>
+                        <td className="p-3 text-sm">{formatFileSize(file.lastSize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {timeline.length > 1 && (
+            <div className="rounded-lg border bg-card p-6 shadow-sm">
+              <h2 className="text-lg font-semibold">Size Over Time</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Sizes logged on this page, oldest first
+              </p>
+              <div className="flex items-end gap-1 h-32">
+                {timeline.map((point, index) => (
+                  <div
+                    key={`${point.dateTime}-${index}`}
+                    className={`flex-1 min-w-[4px] rounded-t ${point.action === "Copy" ? "bg-green-500/60" : "bg-muted-foreground/40"}`}
+                    style={{ height: `${Math.max(2, (point.size / maxSize) * 100)}%` }}
+                    title={`${formatDateTimeWithTimezone(point.dateTime, timezone)}: ${formatFileSize(point.size)} (${point.action})`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                <span>{formatDateTimeWithTimezone(timeline[0].dateTime, timezone)}</span>
+                <span>max {formatFileSize(maxSize)}</span>
+                <span>{formatDateTimeWithTimezone(timeline[timeline.length - 1].dateTime, timezone)}</span>
+              </div>
+            </div>
+          )}
+
+          {history.entries.length === 0 ? (
+            <div className="rounded-lg border bg-card p-6 shadow-sm">
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No log entries match this path</p>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-lg border bg-card shadow-sm overflow-hidden">
+              <div className="flex items-center justify-between p-4 border-b">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setPage(1)
+                    setSortOrder(sortOrder === "asc" ? "desc" : "asc")
+                  }}
+                >
+                  {sortOrder === "desc" ? "Newest first" : "Oldest first"}
+                </Button>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm text-muted-foreground">
+                    Total entries: <span className="font-medium text-foreground">{history.totalCount}</span>
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => Math.max(1, p - 1))}
+                    disabled={page === 1 || isLoading}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {history.page} of {Math.max(1, history.totalPages)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => Math.min(history.totalPages, p + 1))}
+                    disabled={page >= history.totalPages || isLoading}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="text-left p-3 text-sm font-medium">Date/Time</th>
+                      <th className="text-left p-3 text-sm font-medium">Backup Plan</th>
+                      <th className="text-left p-3 text-sm font-medium">File Path</th>
+                      <th className="text-left p-3 text-sm font-medium">Size</th>
+                      <th className="text-left p-3 text-sm font-medium">Action</th>
+                      <th className="text-left p-3 text-sm font-medium">Reason</th>
+                      <th className="text-left p-3 text-sm font-medium">Execution</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.entries.map((entry) => (
+                      <tr key={entry.id} className="border-t hover:bg-muted/50">
+                        <td className="p-3 text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDateTimeWithTimezone(entry.dateTime, timezone)}
+                        </td>
+                        <td className="p-3 text-sm">{entry.backupPlanName}</td>
+                        <td className="p-3 text-sm font-mono break-all">{entry.filePath}</td>
+                        <td className="p-3 text-sm whitespace-nowrap">{formatFileSize(entry.size)}</td>
+                        <td className="p-3 text-sm">
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${getActionColor(entry.action)}`}>
+                            {entry.action}
+                          </span>
+                        </td>
+                        <td className="p-3 text-sm text-muted-foreground">{entry.reason}</td>
+                        <td className="p-3 text-sm whitespace-nowrap">
+                          <Link
+                            to={`/backup-plans/${entry.backupPlanId}/logs/${entry.executionId}`}
+                            className="text-primary hover:underline"
+                          >
+                            {entry.executionStartDateTime
+                              ? formatDateTimeWithTimezone(entry.executionStartDateTime, timezone)
+                              : "View execution"}
+                          </Link>
+                          {(entry.isSimulation || entry.executionType === "Restore") && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {entry.executionType === "Restore" ? "Restore" : "Simulation"}
+                              {entry.executionType === "Restore" && entry.isSimulation && " Preview"}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
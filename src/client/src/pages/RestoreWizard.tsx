@@ -0,0 +1,551 @@
+import { useState, useEffect } from "react"
+import { useNavigate, useParams, useSearchParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, FolderOpen, Play, RotateCcw, Trash2, Plus } from "lucide-react"
+import { apiGet, apiPost } from "@/lib/api"
+import { getOriginalLocation, type BackupPlanSource } from "@/lib/backupSources"
+import { parseSnapshotPath, type ZfsSnapshotsResponse } from "@/lib/zfsSnapshots"
+import type { SnapshotMode } from "@/lib/snapshotOptions"
+import { FileBrowser } from "@/components/FileBrowser"
+import { ServerFileBrowser } from "@/components/ServerFileBrowser"
+import { SimulationResults, type SimulationResult } from "@/components/SimulationResults"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+
+interface BackupPlan {
+  id: string
+  name: string
+  sources?: BackupPlanSource[]
+  destination: string
+  agentid?: string
+  snapshotMode?: SnapshotMode
+}
+
+interface Agent {
+  id: string
+  name: string
+  hostname: string
+}
+
+interface RestorePreview extends SimulationResult {
+  executionId: string | null
+}
+
+type TargetLocation = "original" | "alternate"
+
+function isInside(root: string, path: string): boolean {
+  const normalizedRoot = root.replace(/\/+$/, "")
+  const normalizedPath = path.replace(/\/+$/, "")
+  return normalizedPath === normalizedRoot || normalizedPath.startsWith(normalizedRoot + "/")
+}
+
+export function RestoreWizard() {
+  const navigate = useNavigate()
+  const { planId } = useParams()
+  const [searchParams] = useSearchParams()
+  const fromExecutionId = searchParams.get("executionId")
+  const fromSnapshot = searchParams.get("snapshot")
+  const [backupPlan, setBackupPlan] = useState<BackupPlan | null>(null)
+  // Where the file browser starts: the destination, or its copy in the snapshot we came from
+  const [browseRoot, setBrowseRoot] = useState("")
+  const [agents, setAgents] = useState<Agent[]>([])
+  const [paths, setPaths] = useState<string[]>([])
+  const [targetAgentId, setTargetAgentId] = useState("")
+  const [targetLocation, setTargetLocation] = useState<TargetLocation>("original")
+  const [alternatePath, setAlternatePath] = useState("")
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  const [showPreview, setShowPreview] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [isLoadingData, setIsLoadingData] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showServerFileBrowser, setShowServerFileBrowser] = useState(false)
+  const [showFileBrowser, setShowFileBrowser] = useState(false)
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!planId) {
+        setError("Backup plan ID is required")
+        setIsLoadingData(false)
+        return
+      }
+
+      setIsLoadingData(true)
+      setError(null)
+
+      try {
+        const token = sessionStorage.getItem("token")
+        if (!token) {
+          navigate("/login")
+          return
+        }
+
+        const planData: BackupPlan = await apiGet<BackupPlan>(`/api/backupplan/${planId}`)
+        setBackupPlan(planData)
+        setTargetAgentId(planData.agentid ?? "")
+        setBrowseRoot(planData.destination)
+
+        if (fromSnapshot) {
+          const snapshotData = await apiGet<ZfsSnapshotsResponse>(
+            `/api/filesystem/snapshots?dir=${encodeURIComponent(planData.destination)}`
+          )
+          const snapshot = snapshotData.snapshots.find((s) => s.name === fromSnapshot && s.exists)
+          if (snapshot) {
+            setBrowseRoot(snapshot.path)
+          }
+        }
+
+        // Starting from an execution restores everything it backed up, in hardlink
+        // snapshot mode that is the snapshot directory the execution wrote
+        if (fromExecutionId) {
+          let executionPath = planData.destination
+          if (planData.snapshotMode === "hardlink") {
+            const stats = await apiGet<{ snapshotName: string | null }>(
+              `/api/backupplan/${planId}/executions/${fromExecutionId}/stats`
+            )
+            if (stats.snapshotName) {
+              executionPath = `${planData.destination.replace(/\/+$/, "")}/${stats.snapshotName}`
+            }
+          }
+          setPaths([executionPath])
+        }
+
+        const agentsData: Agent[] = await apiGet<Agent[]>("/api/agent")
+        setAgents(agentsData)
+      } catch (err) {
+        if (err instanceof TypeError && err.message === "Failed to fetch") {
+          setError("Unable to connect to the server. Please make sure the backend is running.")
+        } else {
+          setError(err instanceof Error ? err.message : "An error occurred")
+        }
+      } finally {
+        setIsLoadingData(false)
+      }
+    }
+
+    fetchData()
+  }, [planId, fromExecutionId, fromSnapshot, navigate])
+
+  const getBackPath = () => {
+    if (fromSnapshot) return `/backup-plans/${planId}/snapshots`
+    if (fromExecutionId) return `/backup-plans/${planId}/logs/${fromExecutionId}`
+    return `/backup-plans/${planId}/logs`
+  }
+
+  const originalLocation = backupPlan ? getOriginalLocation(backupPlan.sources) : ""
+  const targetPath = targetLocation === "original" ? originalLocation : alternatePath.trim()
+
+  // Any change to what gets restored where makes the previous preview meaningless
+  const invalidatePreview = () => {
+    setPreview(null)
+  }
+
+  const handleAddPath = (path: string) => {
+    setShowServerFileBrowser(false)
+    if (!backupPlan) return
+
+    // Files picked inside a ZFS snapshot are checked against their live location
+    const snapshotPath = parseSnapshotPath(path)
+    if (!isInside(backupPlan.destination, snapshotPath?.livePath ?? path)) {
+      setError("Only files inside the backup destination can be restored")
+      return
+    }
+
+    const selectedSnapshot = paths.length > 0 ? parseSnapshotPath(paths[0])?.snapshot : undefined
+    if (paths.length > 0 && selectedSnapshot !== snapshotPath?.snapshot) {
+      setError("All files of a restore must come from the same snapshot")
+      return
+    }
+
+    setError(null)
+    if (!paths.includes(path)) {
+      setPaths([...paths, path])
+      invalidatePreview()
+    }
+  }
+
+  const handleRemovePath = (path: string) => {
+    setPaths(paths.filter((p) => p !== path))
+    invalidatePreview()
+  }
+
+  const buildRequest = (previewExecutionId: string | null) => ({
+    paths: paths,
+    targetAgentId: targetAgentId || null,
+    targetPath: targetLocation === "original" ? null : alternatePath.trim(),
+    previewExecutionId: previewExecutionId,
+  })
+
+  const handlePreview = async () => {
+    if (!planId) {
+      setError("Backup plan ID is required")
+      return
+    }
+
+    setIsPreviewing(true)
+    setError(null)
+    setPreview(null)
+    setShowPreview(true)
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      const result = await apiPost<RestorePreview>(`/api/backupplan/${planId}/restore/preview`, buildRequest(null))
+      setPreview(result)
+    } catch (err) {
+      setShowPreview(false)
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while previewing the restore")
+      }
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!planId || !preview?.executionId) {
+      setError("Run a restore preview before starting the restore")
+      return
+    }
+
+    setIsRestoring(true)
+    setError(null)
+
+    try {
+      const token = sessionStorage.getItem("token")
+      if (!token) {
+        navigate("/login")
+        return
+      }
+
+      await apiPost(`/api/backupplan/${planId}/restore`, buildRequest(preview.executionId))
+      navigate(`/backup-plans/${planId}/logs`)
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Unable to connect to the server. Please make sure the backend is running.")
+      } else {
+        setError(err instanceof Error ? err.message : "An error occurred while starting the restore")
+      }
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const targetAgent = agents.find((a) => a.id === targetAgentId)
+  const canPreview = paths.length > 0 && !!targetAgentId && targetPath.startsWith("/")
+  const isBusy = isPreviewing || isRestoring
+
+  if (isLoadingData) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate(getBackPath())}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+        </div>
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <p className="text-muted-foreground">Loading backup plan...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate(getBackPath())}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Restore Files</h1>
+            {backupPlan && (
+              <p className="text-muted-foreground mt-2">
+                From backup plan: <span className="font-medium">{backupPlan.name}</span>
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {backupPlan && (
+        <div className="space-y-6 max-w-3xl">
+          <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">1. Files to restore</h2>
+              <p className="text-sm text-muted-foreground">
+                Pick files or folders from the backup destination <span className="font-mono">{backupPlan.destination}</span>
+              </p>
+            </div>
+
+            {paths.length > 0 && parseSnapshotPath(paths[0]) && (
+              <p className="text-sm text-muted-foreground">
+                Point-in-time restore from snapshot{" "}
+                <span className="font-mono">{parseSnapshotPath(paths[0])?.snapshot}</span>
+              </p>
+            )}
+
+            {fromExecutionId && (
+              <p className="text-sm text-muted-foreground">
+                Started from an execution: everything it backed up is selected. Remove it and add
+                individual files or folders to restore only part of the backup.
+              </p>
+            )}
+
+            {paths.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No files selected</p>
+            ) : (
+              <div className="space-y-1">
+                {paths.map((path) => (
+                  <div key={path} className="flex items-center gap-2 rounded border px-3 py-2">
+                    <span className="flex-1 truncate font-mono text-sm" title={path}>
+                      {path}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemovePath(path)}
+                      disabled={isBusy}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowServerFileBrowser(true)}
+              disabled={isBusy}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add File or Folder
+            </Button>
+          </div>
+
+          <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+            <h2 className="text-lg font-semibold">2. Restore target</h2>
+
+            <div className="space-y-2">
+              <Label htmlFor="targetAgent">Target Agent</Label>
+              <select
+                id="targetAgent"
+                value={targetAgentId}
+                onChange={(e) => {
+                  setTargetAgentId(e.target.value)
+                  invalidatePreview()
+                }}
+                disabled={isBusy}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                <option value="">Select an agent</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>
+                    {agent.name} ({agent.hostname})
+                    {agent.id === backupPlan.agentid ? " - original" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Target Location</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="location-original"
+                  type="radio"
+                  name="targetLocation"
+                  checked={targetLocation === "original"}
+                  onChange={() => {
+                    setTargetLocation("original")
+                    invalidatePreview()
+                  }}
+                  disabled={isBusy}
+                  className="h-4 w-4"
+                />
+                <Label htmlFor="location-original" className="cursor-pointer">
+                  Original location <span className="font-mono text-xs text-muted-foreground">{originalLocation}</span>
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  id="location-alternate"
+                  type="radio"
+                  name="targetLocation"
+                  checked={targetLocation === "alternate"}
+                  onChange={() => {
+                    setTargetLocation("alternate")
+                    invalidatePreview()
+                  }}
+                  disabled={isBusy}
+                  className="h-4 w-4"
+                />
+                <Label htmlFor="location-alternate" className="cursor-pointer">
+                  Alternate directory
+                </Label>
+              </div>
+              {targetLocation === "alternate" && (
+                <div className="flex gap-2">
+                  <Input
+                    id="alternatePath"
+                    type="text"
+                    placeholder="/path/to/restore"
+                    value={alternatePath}
+                    onChange={(e) => {
+                      setAlternatePath(e.target.value)
+                      invalidatePreview()
+                    }}
+                    disabled={isBusy}
+                    className="flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowFileBrowser(true)}
+                    disabled={isBusy || !targetAgentId}
+                    title="Browse file system on agent"
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Files keep their path relative to the backup destination. Existing files are
+                overwritten, files that are not part of the backup are left untouched.
+              </p>
+            </div>
+          </div>
+
+          <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">3. Preview and restore</h2>
+              <p className="text-sm text-muted-foreground">
+                A dry run is required before the restore can start
+              </p>
+            </div>
+
+            {preview && (
+              <div className="rounded-md bg-green-500/15 p-3 text-sm text-green-600 dark:text-green-400">
+                Preview ready: {preview.itemsToCopy} items will be copied to{" "}
+                {targetAgent?.hostname}:{targetPath}
+              </div>
+            )}
+
+            <div className="flex gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handlePreview}
+                disabled={!canPreview || isBusy}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {isPreviewing ? "Previewing..." : "Preview"}
+              </Button>
+              {preview && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowPreview(true)}
+                  disabled={isBusy}
+                >
+                  Show Preview
+                </Button>
+              )}
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    type="button"
+                    disabled={!preview?.executionId || isBusy}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {isRestoring ? "Starting..." : "Restore"}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Restore Files</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Are you sure you want to restore {paths.length} selected path(s) to{" "}
+                      <strong>{targetAgent?.name}</strong> at <strong>{targetPath}</strong>?
+                      Existing files at the target will be overwritten.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleRestore}
+                      className="bg-primary text-primary-foreground hover:bg-primary/90"
+                    >
+                      Restore
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {backupPlan && (
+        <ServerFileBrowser
+          open={showServerFileBrowser}
+          onClose={() => setShowServerFileBrowser(false)}
+          onSelect={handleAddPath}
+          initialPath={browseRoot || backupPlan.destination}
+        />
+      )}
+
+      {targetAgentId && (
+        <FileBrowser
+          agentId={targetAgentId}
+          open={showFileBrowser}
+          onClose={() => setShowFileBrowser(false)}
+          onSelect={(path) => {
+            setAlternatePath(path)
+            invalidatePreview()
+            setShowFileBrowser(false)
+          }}
+          initialPath={alternatePath || originalLocation}
+        />
+      )}
+
+      <SimulationResults
+        open={showPreview}
+        onClose={() => setShowPreview(false)}
+        result={preview}
+        isLoading={isPreviewing}
+        title="Restore Preview"
+        description="Files that will be copied back to the agent. Nothing on the agent is deleted."
+      />
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback } from "react"
+import { useNavigate, useParams } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Camera, FolderOpen, RotateCcw } from "lucide-react"
+import { apiGet } from "@/lib/api"
+import {
+  getSnapshotChange,
+  parseSnapshotPath,
+  SNAPSHOT_CHANGE_STYLES,
+  type FileVersionsResponse,
+  type ZfsSnapshot,
+  type ZfsSnapshotsResponse,
+} from "@/lib/zfsSnapshots"
+import { ServerFileBrowser } from "@/components/ServerFileBrowser"
+import { formatDateTimeWithTimezone } from "@/components/TimezoneSelector"
+
+interface BackupPlan {
+  id: string
+  name: string
+  destination: string
+}
+
+function formatFileSize(bytes: number | null): string {
+  if (bytes === null || bytes === undefined) return "N/A"
+  if (bytes === 0) return "0 B"
+
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`
+}
+
+export function SnapshotTimeline() {
+  const navigate = useNavigate()
+  const { planId } = useParams()
+  const [backupPlan, setBackupPlan] = useState<BackupPlan | null>(null)
+  const [snapshots, setSnapshots] = useState<ZfsSnapshotsResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [browsePath, setBrowsePath] = useState<string | null>(null)
+  const [versions, setVersions] = useState<FileVersionsResponse | null>(null)
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false)
+  const [timezone, setTimezone] = useState<string>("UTC")
+
+  // Listen for timezone changes from navbar
+  useEffect(() => {
+    const handleTimezoneChange = (event: CustomEvent) => {
+      const newTimezone = event.detail || "UTC"
+      setTimezone(newTimezone)
+    }
+
+    window.addEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+
+    // Load initial timezone from sessionStorage
+    const saved = sessionStorage.getItem("selectedTimezone")
+    if (saved) {
+      setTimezone(saved)
+    }
+
+    return () => {
+      window.removeEventListener('timezoneChanged', handleTimezoneChange as EventListener)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!planId) {
+        setError("Backup plan ID is required")
+        setIsLoading(false)
+        return
+      }
+
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const token = sessionStorage.getItem("token")
+        if (!token) {
+          navigate("/login")
+          return
+        }
+
+        const planData: BackupPlan = await apiGet<BackupPlan>(`/api/backupplan/${planId}`)
+        setBackupPlan(planData)
+
+        const snapshotData = await apiGet<ZfsSnapshotsResponse>(
+          `/api/filesystem/snapshots?dir=${encodeURIComponent(planData.destination)}`
+        )
+        setSnapshots(snapshotData)
+      } catch (err) {
+        if (err instanceof TypeError && err.message === "Failed to fetch") {
+          setError("Unable to connect to the server. Please make sure the backend is running.")
+        } else {
+          setError(err instanceof Error ? err.message : "An error occurred")
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [planId, navigate])
+
+  const loadVersions = useCallback(async (path: string) => {
+    setIsLoadingVersions(true)
+    setError(null)
+
+    try {
+      const data = await apiGet<FileVersionsResponse>(`/api/filesystem/versions?path=${encodeURIComponent(path)}`)
+      setVersions(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load file versions")
+    } finally {
+      setIsLoadingVersions(false)
+    }
+  }, [])
+
+  const handleRestore = (snapshot: ZfsSnapshot) => {
+    navigate(`/backup-plans/${planId}/restore?snapshot=${encodeURIComponent(snapshot.name)}`)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate(`/backup-plans/${planId}/logs`)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Executions
+          </Button>
+        </div>
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <p className="text-muted-foreground">Loading snapshots...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate(`/backup-plans/${planId}/logs`)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Executions
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Snapshots</h1>
+            {backupPlan && (
+              <p className="text-muted-foreground mt-2">
+                {backupPlan.name} - <span className="font-mono text-sm">{backupPlan.destination}</span>
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {snapshots && !snapshots.datasetRoot && (
+        <div className="rounded-lg border bg-card p-6 shadow-sm">
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              The destination is not on a ZFS dataset, or its .zfs/snapshot directory is not accessible
+            </p>
+          </div>
+        </div>
+      )}
+
+      {snapshots?.datasetRoot && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="rounded-lg border bg-card p-6 shadow-sm">
+            <h2 className="text-lg font-semibold">Timeline</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Dataset <span className="font-mono">{snapshots.datasetRoot}</span>, newest first
+            </p>
+
+            {snapshots.snapshots.length === 0 ? (
+              <p className="text-muted-foreground">No snapshots found</p>
+            ) : (
+              <ol className="relative border-l ml-2 space-y-4">
+                {snapshots.snapshots.map((snapshot) => (
+                  <li key={snapshot.name} className="ml-4">
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border ${
+                        snapshot.exists ? "bg-blue-500" : "bg-muted"
+                      }`}
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium font-mono text-sm truncate">{snapshot.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDateTimeWithTimezone(snapshot.createdAt, timezone)}
+                          {!snapshot.exists && " - taken before the destination existed"}
+                        </div>
+                      </div>
+                      {snapshot.exists && (
+                        <div className="flex gap-2 flex-shrink-0">
+                          <Button variant="outline" size="sm" onClick={() => setBrowsePath(snapshot.path)}>
+                            <FolderOpen className="h-4 w-4 mr-2" />
+                            Browse
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleRestore(snapshot)}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Restore
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="rounded-lg border bg-card p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold">File Versions</h2>
+                <p className="text-sm text-muted-foreground">
+                  Pick a file to compare its snapshot copies with the live copy
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBrowsePath(backupPlan?.destination ?? "/")}
+              >
+                <Camera className="h-4 w-4 mr-2" />
+                Pick File
+              </Button>
+            </div>
+
+            {isLoadingVersions ? (
+              <p className="text-muted-foreground">Loading versions...</p>
+            ) : !versions ? (
+              <p className="text-muted-foreground">No file selected</p>
+            ) : (
+              <div className="space-y-3">
+                <div className="text-sm">
+                  <div className="font-mono truncate" title={versions.livePath}>{versions.livePath}</div>
+                  <div className="text-muted-foreground">
+                    {versions.liveExists && versions.liveLastModified
+                      ? `Live: ${formatFileSize(versions.liveSize)}, modified ${formatDateTimeWithTimezone(versions.liveLastModified, timezone)}`
+                      : "Live copy no longer exists"}
+                  </div>
+                </div>
+
+                {versions.versions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The file is not in any snapshot</p>
+                ) : (
+                  <div className="overflow-auto border rounded-lg">
+                    <table className="w-full">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="text-left p-3 text-sm font-medium">Snapshot</th>
+                          <th className="text-left p-3 text-sm font-medium">Size</th>
+                          <th className="text-left p-3 text-sm font-medium">Modified</th>
+                          <th className="text-left p-3 text-sm font-medium">Live Copy</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {versions.versions.map((version) => {
+                          const style = SNAPSHOT_CHANGE_STYLES[getSnapshotChange(version, {
+                            exists: versions.liveExists,
+                            size: versions.liveSize,
+                            lastModified: versions.liveLastModified,
+                          })]
+                          return (
+                            <tr key={version.snapshot} className="border-t">
+                              <td className="p-3 text-sm font-mono">{version.snapshot}</td>
+                              <td className="p-3 text-sm text-muted-foreground">{formatFileSize(version.size)}</td>
+                              <td className="p-3 text-sm text-muted-foreground">
+                                {formatDateTimeWithTimezone(version.lastModified, timezone)}
+                              </td>
+                              <td className="p-3 text-sm">
+                                <span className={`px-2 py-1 rounded text-xs font-medium ${style.className}`}>
+                                  {style.label}
+                                </span>
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ServerFileBrowser
+        open={browsePath !== null}
+        onClose={() => setBrowsePath(null)}
+        onSelect={(path) => {
+          // Versions are looked up by live path, whichever snapshot the file was picked from
+          loadVersions(parseSnapshotPath(path)?.livePath ?? path)
+        }}
+        initialPath={browsePath ?? undefined}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Loader2, Play, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { AsciicastPlayer } from "@/components/AsciicastPlayer"
+import { apiGet } from "@/lib/api"
+import { formatBytes } from "@/lib/agentInventory"
+import {
+  describeSessionResult,
+  formatDuration,
+  parseAsciicast,
+  type Asciicast,
+  type TerminalSession,
+} from "@/lib/terminalSessions"
+
+export function TerminalSessions() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedId = searchParams.get("session")
+  const [sessions, setSessions] = useState<TerminalSession[]>([])
+  const [agentFilter, setAgentFilter] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [cast, setCast] = useState<Asciicast | null>(null)
+  const [isLoadingCast, setIsLoadingCast] = useState(false)
+  const [castError, setCastError] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setSessions(await apiGet<TerminalSession[]>("/api/terminal-sessions"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the console sessions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  useEffect(() => {
+    if (!selectedId) return
+
+    let cancelled = false
+    const loadRecording = async () => {
+      setIsLoadingCast(true)
+      setCastError(null)
+      setCast(null)
+      try {
+        const text = await apiGet<string>(`/api/terminal-sessions/${selectedId}/recording`)
+        if (!cancelled) setCast(parseAsciicast(text))
+      } catch (err) {
+        if (!cancelled) setCastError(err instanceof Error ? err.message : "Failed to load the recording")
+      } finally {
+        if (!cancelled) setIsLoadingCast(false)
+      }
+    }
+    loadRecording()
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId])
+
+  // Agents that had sessions, also the ones deleted since
+  const agents = useMemo(() => {
+    const names = new Map<string, string>()
+    sessions.forEach((session) => names.set(session.agentId, session.agentName))
+    return [...names.entries()].sort((a, b) => a[1].localeCompare(b[1]))
+  }, [sessions])
+
+  const visibleSessions = agentFilter ? sessions.filter((session) => session.agentId === agentFilter) : sessions
+  const selectedSession = sessions.find((session) => session.id === selectedId)
+
+  const sessionDuration = (session: TerminalSession) =>
+    session.endedAt
+      ? formatDuration((new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000)
+      : "-"
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Console Sessions</h1>
+          <p className="text-muted-foreground mt-2">
+            Recordings of the console sessions opened on the agents, with who opened them and how they ended
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchSessions} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{error}</div>}
+
+      {selectedId && (
+        <div className="rounded-lg border bg-card p-6 shadow-sm space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold">
+                {selectedSession
+                  ? `${selectedSession.userName} on ${selectedSession.agentName} (${selectedSession.hostname})`
+                  : "Recording"}
+              </h2>
+              {selectedSession && (
+                <p className="text-sm text-muted-foreground">
+                  Opened {new Date(selectedSession.startedAt).toLocaleString()}
+                  {selectedSession.clientAddress && ` from ${selectedSession.clientAddress}`}
+                  {" - "}
+                  {describeSessionResult(selectedSession)}
+                </p>
+              )}
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setSearchParams({})}>
+              Close
+            </Button>
+          </div>
+
+          {selectedSession?.recordingTruncated && (
+            <div className="rounded-md bg-yellow-500/15 p-3 text-sm text-yellow-700 dark:text-yellow-400">
+              The recording stopped at its size limit, the session went on after its end
+            </div>
+          )}
+          {castError && <div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{castError}</div>}
+          {isLoadingCast && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading recording...
+            </p>
+          )}
+          {cast && <AsciicastPlayer key={selectedId} cast={cast} />}
+        </div>
+      )}
+
+      <div className="rounded-lg border bg-card shadow-sm">
+        <div className="flex items-center gap-3 border-b p-4">
+          <label htmlFor="agent-filter" className="text-sm font-medium">
+            Agent
+          </label>
+          <select
+            id="agent-filter"
+            value={agentFilter}
+            onChange={(e) => setAgentFilter(e.target.value)}
+            className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            <option value="">All agents</option>
+            {agents.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {!isLoading && visibleSessions.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No console sessions yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Opened</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Agent</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">User</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">From</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Duration</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Result</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Recording</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSessions.map((session) => (
+                  <tr
+                    key={session.id}
+                    className={`border-b transition-colors hover:bg-muted/50 ${
+                      session.id === selectedId ? "bg-muted/50" : ""
+                    }`}
+                  >
+                    <td className="p-4 align-middle whitespace-nowrap text-sm">
+                      {new Date(session.startedAt).toLocaleString()}
+                    </td>
+                    <td className="p-4 align-middle text-sm">
+                      <div className="font-medium">{session.agentName}</div>
+                      <div className="text-xs text-muted-foreground">{session.hostname}</div>
+                    </td>
+                    <td className="p-4 align-middle text-sm">{session.userName}</td>
+                    <td className="p-4 align-middle font-mono text-xs">{session.clientAddress ?? "-"}</td>
+                    <td className="p-4 align-middle text-sm tabular-nums">{sessionDuration(session)}</td>
+                    <td className={`p-4 align-middle text-sm ${session.error ? "text-destructive" : ""}`}>
+                      {describeSessionResult(session)}
+                    </td>
+                    <td className="p-4 align-middle">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSearchParams({ session: session.id })}
+                        title={session.endedAt ? formatBytes(session.recordingSize) : "Session still open"}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Replay
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
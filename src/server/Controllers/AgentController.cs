@@ -1,12 +1,15 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.AspNetCore.Hosting;
 using server.Data;
 using server.Models;
+using server.Services;
 using System.Net.Http;
 using System.Net.Http.Json;
 using System.Net.Security;
 using System.Security.Cryptography.X509Certificates;
+using System.Security.Claims;
 
 namespace server.Controllers;
 
@@ -15,12 +18,14 @@ namespace server.Controllers;
 public class AgentController : ControllerBase
 {
     private readonly DBContext _context;
+    private readonly LogDbContext _logContext;
     private readonly ILogger<AgentController> _logger;
     private readonly IWebHostEnvironment _environment;
 
-    public AgentController(server.Data.DBContext context, ILogger<AgentController> logger, IWebHostEnvironment environment)
+    public AgentController(server.Data.DBContext context, LogDbContext logContext, ILogger<AgentController> logger, IWebHostEnvironment environment)
     {
         _context = context;
+        _logContext = logContext;
         _logger = logger;
         _environment = environment;
     }
@@ -38,6 +43,20 @@ public class AgentController : ControllerBase
 
         var hostname = request.Hostname.Trim();
 
+        // Host key the user confirmed after validating the connection
+        string? hostKey = null;
+        if (!string.IsNullOrWhiteSpace(request.HostKey))
+        {
+            try
+            {
+                hostKey = SshKeys.NormalizePublicKey(request.HostKey);
+            }
+            catch (ArgumentException)
+            {
+                return BadRequest(new { message = "Invalid host key" });
+            }
+        }
+
         // Create agent with rsync configuration (no token needed for rsync)
         var agent = new Agent
         {
@@ -47,12 +66,33 @@ public class AgentController : ControllerBase
             token = null, // Token not needed for rsync-based agents
             rsyncUser = request.RsyncUser?.Trim(),
             rsyncPort = request.RsyncPort ?? 22,
-            rsyncSshKey = request.RsyncSshKey?.Trim()
+            hostKey = hostKey,
+            hostKeyFingerprint = hostKey != null ? HostKeys.GetFingerprint(hostKey) : null,
+            hostKeyPinnedAt = hostKey != null ? DateTime.UtcNow : null,
+            hostKeyPinnedBy = hostKey != null ? User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user" : null
         };
 
+        List<AgentJumpHost> jumpHosts;
+        try
+        {
+            var privateKey = ReadRequestKey(request.RsyncSshKey, request.RsyncSshKeyToken);
+            if (privateKey != null)
+            {
+                await SshKeys.StoreAsync(agent, privateKey, request.RsyncSshKeyPassphrase);
+            }
+
+            jumpHosts = await JumpHosts.BuildAsync(_context, agent.id, request.JumpHosts ?? new List<JumpHostRequest>());
+            await JumpHosts.ResolveAsync(_context, agent.id, jumpHosts, SshKeys.GetPrivateKey(agent), SshKeys.GetPassphrase(agent));
+        }
+        catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
         try
         {
             _context.Agents.Add(agent);
+            _context.AgentJumpHosts.AddRange(jumpHosts);
             await _context.SaveChangesAsync();
 
             _logger.LogInformation("Agent created with ID: {AgentId}, Hostname: {Hostname}", agent.id, agent.hostname);
@@ -85,6 +125,62 @@ public class AgentController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Current health of every agent with its uptime over the last hours, split into hourly
+    /// buckets (oldest first) for the sparkline of the agent list.
+    /// </summary>
+    [HttpGet("health")]
+    [Authorize]
+    [ProducesResponseType(typeof(List<AgentHealthResponse>), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GetAgentsHealth([FromQuery] int hours = 24)
+    {
+        try
+        {
+            hours = Math.Clamp(hours, 1, 24 * 7);
+            var now = DateTime.UtcNow;
+            var since = now.AddHours(-hours);
+
+            var agents = await _context.Agents.ToListAsync();
+            var checks = await _logContext.AgentHealthChecks
+                .Where(c => c.checkedAt >= since)
+                .Select(c => new { c.agentId, c.checkedAt, c.success })
+                .ToListAsync();
+            var checksByAgent = checks.ToLookup(c => c.agentId);
+
+            var response = agents.Select(agent =>
+            {
+                var agentChecks = checksByAgent[agent.id].ToList();
+                var buckets = new List<double?>();
+                for (var hour = hours; hour > 0; hour--)
+                {
+                    var bucketStart = now.AddHours(-hour);
+                    var bucketEnd = bucketStart.AddHours(1);
+                    var bucketChecks = agentChecks.Where(c => c.checkedAt >= bucketStart && c.checkedAt < bucketEnd).ToList();
+                    buckets.Add(bucketChecks.Count == 0 ? null : (double)bucketChecks.Count(c => c.success) / bucketChecks.Count);
+                }
+
+                return new AgentHealthResponse
+                {
+                    AgentId = agent.id,
+                    Status = agent.healthStatus,
+                    LastCheckAt = agent.lastHealthCheckAt,
+                    LastSeenAt = agent.lastSeenAt,
+                    LatencyMs = agent.lastLatencyMs,
+                    Error = agent.lastHealthError,
+                    UptimePercent = agentChecks.Count == 0 ? null : Math.Round(100.0 * agentChecks.Count(c => c.success) / agentChecks.Count, 1),
+                    Buckets = buckets
+                };
+            }).ToList();
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving agent health");
+            return StatusCode(500, new { message = "An error occurred while retrieving agent health" });
+        }
+    }
+
     [HttpGet("{id}")]
     [ProducesResponseType(typeof(Agent), StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
@@ -115,49 +211,68 @@ public class AgentController : ControllerBase
             }
 
             // Check if SSH key is configured
-            if (string.IsNullOrWhiteSpace(request.RsyncSshKey))
+            string? privateKey;
+            try
+            {
+                privateKey = ReadRequestKey(request.RsyncSshKey, request.RsyncSshKeyToken);
+                if (privateKey == null)
+                {
+                    return BadRequest(new { message = "SSH private key is required to validate the connection." });
+                }
+
+                // A wrong passphrase is reported as such instead of as a failed connection
+                await SshKeys.GetPublicKeyAsync(privateKey, request.RsyncSshKeyPassphrase);
+            }
+            catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
             {
-                return BadRequest(new { message = "SSH private key is required to validate the connection." });
+                return BadRequest(new { message = ex.Message });
             }
 
             int port = (request.RsyncPort > 0) ? request.RsyncPort : 22;
-            var user = string.IsNullOrWhiteSpace(request.RsyncUser) ? "" : $"{request.RsyncUser}@";
+            var hostname = request.Hostname.Trim();
 
-            // Create temporary SSH key file
-            string? tempSshKeyFile = null;
-            try
+            var target = new Agent
             {
-                tempSshKeyFile = CreateTempSshKeyFile(request.RsyncSshKey);
-
-                // Test SSH connection with a simple command (echo test)
-                var sshCommand = "echo 'SSH connection test successful'";
-                var sshArgs = $"-i \"{tempSshKeyFile}\" -p {port} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -o ConnectTimeout=10 {user}{request.Hostname.Trim()} {sshCommand}";
+                hostname = hostname,
+                rsyncUser = request.RsyncUser,
+                rsyncPort = port
+            };
 
-                _logger.LogInformation("Validating SSH connection: ssh {Args}", sshArgs);
+            // Hops without a key of their own use the key being validated
+            try
+            {
+                var jumpHosts = await JumpHosts.BuildAsync(_context, null, request.JumpHosts ?? new List<JumpHostRequest>());
+                target.jumpRoute = await JumpHosts.ResolveAsync(_context, Guid.Empty, jumpHosts, privateKey, request.RsyncSshKeyPassphrase);
+            }
+            catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
 
-                var processStartInfo = new System.Diagnostics.ProcessStartInfo
+            try
+            {
+                // The test connection is checked against the key that is shown for confirmation
+                string hostKey;
+                try
                 {
-                    FileName = "ssh",
-                    Arguments = sshArgs,
-                    RedirectStandardOutput = true,
-                    RedirectStandardError = true,
-                    UseShellExecute = false,
-                    CreateNoWindow = true
-                };
-
-                using var process = System.Diagnostics.Process.Start(processStartInfo);
-                if (process == null)
+                    hostKey = HostKeys.SelectKey(await HostKeys.ScanAsync(target));
+                }
+                catch (InvalidOperationException ex)
                 {
-                    throw new InvalidOperationException("Failed to start SSH process");
+                    _logger.LogError(ex, "Reading the host key of {Hostname}:{Port} failed", hostname, port);
+                    return StatusCode(503, new { message = $"SSH connection failed. {ex.Message}" });
                 }
 
-                var output = await process.StandardOutput.ReadToEndAsync();
-                var error = await process.StandardError.ReadToEndAsync();
-                await process.WaitForExitAsync();
+                target.hostKey = hostKey;
 
-                if (process.ExitCode != 0)
+                _logger.LogInformation("Validating SSH connection to {Hostname}:{Port}", hostname, port);
+
+                var result = await AgentSsh.RunAsync(target, privateKey, request.RsyncSshKeyPassphrase, AgentSsh.TestCommand, TimeSpan.FromSeconds(30));
+                var error = result.Error;
+
+                if (!result.Success)
                 {
-                    _logger.LogError("SSH connection validation failed with exit code {ExitCode}. Error: {Error}", process.ExitCode, error);
+                    _logger.LogError("SSH connection validation failed with exit code {ExitCode}. Error: {Error}", result.ExitCode, error);
                     
                     // Provide more specific error messages
                     string errorMessage;
@@ -170,7 +285,7 @@ public class AgentController : ControllerBase
                     }
                     else if (error.Contains("Connection refused") || error.Contains("Connection timed out"))
                     {
-                        errorMessage = $"SSH connection failed. Unable to connect to {request.Hostname.Trim()}:{port}.\n" +
+                        errorMessage = $"SSH connection failed. Unable to connect to {hostname}:{port}.\n" +
                                      "Please verify that:\n" +
                                      "- The hostname and port are correct\n" +
                                      "- The SSH service is running on the remote server\n" +
@@ -179,11 +294,11 @@ public class AgentController : ControllerBase
                     }
                     else if (error.Contains("Host key verification failed"))
                     {
-                        errorMessage = "SSH host key verification failed. This is handled automatically, but if the problem persists, please check the server's host key.";
+                        errorMessage = "SSH host key verification failed. The host presented a different key during the test, try again and compare the fingerprint.";
                     }
                     else if (error.Contains("No route to host") || error.Contains("Network is unreachable"))
                     {
-                        errorMessage = $"Network error: Unable to reach {request.Hostname.Trim()}.\n" +
+                        errorMessage = $"Network error: Unable to reach {hostname}.\n" +
                                      "Please verify that:\n" +
                                      "- The hostname is correct\n" +
                                      "- The server is online and reachable\n" +
@@ -192,22 +307,24 @@ public class AgentController : ControllerBase
                     else
                     {
                         errorMessage = $"SSH connection failed: {error.Trim()}\n" +
-                                     $"Exit code: {process.ExitCode}";
+                                     $"Exit code: {result.ExitCode}";
                     }
 
                     return StatusCode(503, new { message = errorMessage });
                 }
 
-                _logger.LogInformation("SSH connection validation successful to {Hostname}", request.Hostname.Trim());
+                _logger.LogInformation("SSH connection validation successful to {Hostname}", hostname);
 
                 return Ok(new { 
-                    message = $"SSH connection successful to {request.Hostname.Trim()}:{port}", 
-                    hostname = request.Hostname.Trim(),
+                    message = $"SSH connection successful to {hostname}:{port}", 
+                    hostname = hostname,
                     port = port,
                     user = request.RsyncUser ?? "default",
                     hasSshKey = true,
                     rsyncUser = request.RsyncUser,
-                    rsyncPort = request.RsyncPort
+                    rsyncPort = request.RsyncPort,
+                    hostKey = hostKey,
+                    hostKeyFingerprint = HostKeys.GetFingerprint(hostKey)
                 });
             }
             catch (Exception ex)
@@ -231,21 +348,6 @@ public class AgentController : ControllerBase
 
                 return StatusCode(500, new { message = errorMessage });
             }
-            finally
-            {
-                // Clean up temporary SSH key file
-                if (!string.IsNullOrWhiteSpace(tempSshKeyFile) && System.IO.File.Exists(tempSshKeyFile))
-                {
-                    try
-                    {
-                        System.IO.File.Delete(tempSshKeyFile);
-                    }
-                    catch (Exception ex)
-                    {
-                        _logger.LogWarning(ex, "Failed to delete temporary SSH key file: {Path}", tempSshKeyFile);
-                    }
-                }
-            }
         }
         catch (Exception ex)
         {
@@ -259,6 +361,7 @@ public class AgentController : ControllerBase
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status503ServiceUnavailable)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
     public async Task<IActionResult> ValidateAgent(Guid id)
     {
         try
@@ -283,168 +386,762 @@ public class AgentController : ControllerBase
             }
 
             int port = (agent.rsyncPort > 0) ? agent.rsyncPort : 22;
-            var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
 
-            // Create temporary SSH key file
-            string? tempSshKeyFile = null;
             try
             {
-                tempSshKeyFile = CreateTempSshKeyFile(agent.rsyncSshKey);
+                _logger.LogInformation("Validating SSH connection to agent {AgentId} ({Hostname}:{Port})", id, agent.hostname, port);
 
-                // Test SSH connection with a simple command (echo test)
-                var sshCommand = "echo 'SSH connection test successful'";
-                var sshArgs = $"-i \"{tempSshKeyFile}\" -p {port} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -o ConnectTimeout=10 {user}{agent.hostname} {sshCommand}";
+                try
+                {
+                    await JumpHosts.LoadAsync(_context, agent);
+                }
+                catch (InvalidOperationException ex)
+                {
+                    return BadRequest(new { message = ex.Message });
+                }
 
-                _logger.LogInformation("Validating SSH connection: ssh {Args}", sshArgs);
+                // The same test AgentHealthService runs periodically
+                var result = await AgentSsh.RunAsync(agent, AgentSsh.TestCommand, TimeSpan.FromSeconds(30));
+                var error = result.Error;
 
-                var processStartInfo = new System.Diagnostics.ProcessStartInfo
+                if (!result.Success && HostKeys.IsPinned(agent) && HostKeys.IsHostKeyError(error))
                 {
-                    FileName = "ssh",
-                    Arguments = sshArgs,
-                    RedirectStandardOutput = true,
-                    RedirectStandardError = true,
-                    UseShellExecute = false,
-                    CreateNoWindow = true
-                };
+                    var presentedKey = await HostKeys.FindChangedKeyAsync(agent);
+                    if (presentedKey != null)
+                    {
+                        var presentedFingerprint = HostKeys.GetFingerprint(presentedKey);
+                        if (agent.changedHostKeyFingerprint != presentedFingerprint)
+                        {
+                            agent.changedHostKeyFingerprint = presentedFingerprint;
+                            await _context.SaveChangesAsync();
+
+                            var notificationService = HttpContext.RequestServices.GetRequiredService<INotificationService>();
+                            await notificationService.SendHostKeyChangedNotificationAsync(agent, agent.hostKeyFingerprint ?? "unknown", presentedFingerprint);
+                        }
+
+                        return Conflict(new
+                        {
+                            message = $"The host key of {agent.hostname} changed. Pinned: {agent.hostKeyFingerprint}, presented: {presentedFingerprint}.\n" +
+                                      "Connections are refused until the new host key is accepted.",
+                            hostKeyChanged = true,
+                            pinnedFingerprint = agent.hostKeyFingerprint,
+                            presentedFingerprint
+                        });
+                    }
+                }
+
+                if (!result.Success)
+                {
+                    _logger.LogError("SSH connection validation failed with exit code {ExitCode}. Error: {Error}", result.ExitCode, error);
+                    
+                    // Provide more specific error messages
+                    string errorMessage;
+                    if (error.Contains("Permission denied") || error.Contains("publickey"))
+                    {
+                        errorMessage = "SSH authentication failed. Please verify that:\n" +
+                                     "- The SSH private key is correct\n" +
+                                     "- The corresponding public key is installed on the remote server\n" +
+                                     "- The SSH user has permission to access the server";
+                    }
+                    else if (error.Contains("Connection refused") || error.Contains("Connection timed out"))
+                    {
+                        errorMessage = $"SSH connection failed. Unable to connect to {agent.hostname}:{port}.\n" +
+                                     "Please verify that:\n" +
+                                     "- The hostname and port are correct\n" +
+                                     "- The SSH service is running on the remote server\n" +
+                                     "- The server is reachable from this machine\n" +
+                                     "- Firewall rules allow SSH connections";
+                    }
+                    else if (error.Contains("Host key verification failed"))
+                    {
+                        errorMessage = "SSH host key verification failed. Check the host key of the agent on the agent page.";
+                    }
+                    else if (error.Contains("No route to host") || error.Contains("Network is unreachable"))
+                    {
+                        errorMessage = $"Network error: Unable to reach {agent.hostname}.\n" +
+                                     "Please verify that:\n" +
+                                     "- The hostname is correct\n" +
+                                     "- The server is online and reachable\n" +
+                                     "- Network connectivity is available";
+                    }
+                    else
+                    {
+                        errorMessage = $"SSH connection failed: {error.Trim()}\n" +
+                                     $"Exit code: {result.ExitCode}";
+                    }
+
+                    return StatusCode(503, new { message = errorMessage });
+                }
+
+                _logger.LogInformation("SSH connection validation successful for agent {AgentId} to {Hostname}", id, agent.hostname);
+
+                // A first validation captures the host key, the client asks to confirm it before it is pinned
+                string? hostKey = agent.hostKey;
+                if (!HostKeys.IsPinned(agent))
+                {
+                    try
+                    {
+                        hostKey = HostKeys.SelectKey(await HostKeys.ScanAsync(agent));
+                    }
+                    catch (InvalidOperationException ex)
+                    {
+                        _logger.LogWarning(ex, "Could not read the host key of agent {AgentId}", id);
+                    }
+                }
+
+                return Ok(new { 
+                    message = $"SSH connection successful to {agent.hostname}:{port}", 
+                    hostname = agent.hostname,
+                    port = port,
+                    user = agent.rsyncUser ?? "default",
+                    hasSshKey = true,
+                    rsyncUser = agent.rsyncUser,
+                    rsyncPort = agent.rsyncPort,
+                    hostKeyPinned = HostKeys.IsPinned(agent),
+                    hostKey,
+                    hostKeyFingerprint = hostKey != null ? HostKeys.GetFingerprint(hostKey) : null
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error validating SSH connection for agent {AgentId}", id);
+                
+                // Provide user-friendly error message
+                string errorMessage;
+                if (ex.Message.Contains("No such file or directory") || ex.Message.Contains("ssh: command not found"))
+                {
+                    errorMessage = "SSH client is not available on this system. Please install OpenSSH client.";
+                }
+                else if (ex.Message.Contains("Failed to start SSH process"))
+                {
+                    errorMessage = "Failed to start SSH process. Please ensure SSH client is properly installed and accessible.";
+                }
+                else
+                {
+                    errorMessage = $"Error testing SSH connection: {ex.Message}";
+                }
+
+                return StatusCode(500, new { message = errorMessage });
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error validating agent {AgentId}", id);
+            return StatusCode(500, new { message = $"An error occurred while validating the agent: {ex.Message}" });
+        }
+    }
+
+    /// <summary>
+    /// What the browser may know about the stored key of an agent. The key itself never leaves the server.
+    /// </summary>
+    [HttpGet("{id}/ssh-key")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetAgentSshKey(Guid id)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            return Ok(new { 
+                id = agent.id,
+                name = agent.name,
+                hostname = agent.hostname,
+                hasSshKey = agent.hasSshKey,
+                fingerprint = agent.sshKeyFingerprint,
+                hasPassphrase = agent.sshKeyHasPassphrase
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving SSH key for agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while retrieving the SSH key" });
+        }
+    }
+
+    /// <summary>
+    /// Jump hosts of an agent in order, without their keys.
+    /// </summary>
+    [HttpGet("{id}/jump-hosts")]
+    [Authorize]
+    [ProducesResponseType(typeof(List<AgentJumpHost>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetJumpHosts(Guid id)
+    {
+        try
+        {
+            if (!await _context.Agents.AnyAsync(a => a.id == id))
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            return Ok(await JumpHosts.LoadHopsAsync(_context, id));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the jump hosts of agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while retrieving the jump hosts", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Pinned host key of an agent next to the key it presents right now.
+    /// </summary>
+    [HttpGet("{id}/host-key")]
+    [Authorize]
+    [ProducesResponseType(typeof(HostKeyResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetHostKey(Guid id)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            var response = new HostKeyResponse
+            {
+                PinnedFingerprint = agent.hostKeyFingerprint,
+                PinnedAt = agent.hostKeyPinnedAt,
+                PinnedBy = agent.hostKeyPinnedBy,
+                ChangedFingerprint = agent.changedHostKeyFingerprint
+            };
+
+            try
+            {
+                await JumpHosts.LoadAsync(_context, agent);
+                var presentedKey = HostKeys.SelectKey(await HostKeys.ScanAsync(agent), agent.hostKey);
+                response.PresentedFingerprint = HostKeys.GetFingerprint(presentedKey);
+                response.PresentedKeyType = presentedKey.Split(' ')[0];
+            }
+            catch (InvalidOperationException ex)
+            {
+                response.ScanError = ex.Message;
+            }
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading the host key of agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while reading the host key", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Pins the key the agent presents, after the user compared its fingerprint. The fingerprint is
+    /// checked again against a fresh scan, so a key that changed in the meantime is not pinned.
+    /// </summary>
+    [HttpPost("{id}/host-key/accept")]
+    [Authorize]
+    [ProducesResponseType(typeof(HostKeyResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<IActionResult> AcceptHostKey(Guid id, [FromBody] AcceptHostKeyRequest request)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            List<string> keys;
+            try
+            {
+                await JumpHosts.LoadAsync(_context, agent);
+                keys = await HostKeys.ScanAsync(agent);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            var key = keys.FirstOrDefault(k => HostKeys.GetFingerprint(k) == request.Fingerprint);
+            if (key == null)
+            {
+                return Conflict(new { message = $"{agent.hostname} no longer presents the host key {request.Fingerprint}, check it again before accepting" });
+            }
+
+            var user = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            _logger.LogInformation("Host key {Fingerprint} of agent {AgentId} accepted by {User}, previously {Previous}",
+                request.Fingerprint, id, user, agent.hostKeyFingerprint ?? "not pinned");
+
+            agent.hostKey = key;
+            agent.hostKeyFingerprint = request.Fingerprint;
+            agent.hostKeyPinnedAt = DateTime.UtcNow;
+            agent.hostKeyPinnedBy = user;
+            agent.changedHostKeyFingerprint = null;
+            await _context.SaveChangesAsync();
+
+            return Ok(new HostKeyResponse
+            {
+                PinnedFingerprint = agent.hostKeyFingerprint,
+                PinnedAt = agent.hostKeyPinnedAt,
+                PinnedBy = agent.hostKeyPinnedBy,
+                PresentedFingerprint = agent.hostKeyFingerprint,
+                PresentedKeyType = key.Split(' ')[0]
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error accepting the host key of agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while accepting the host key", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Generates a new ed25519 key pair, or returns the shared key pair (created on first use).
+    /// Nothing is stored on an agent: the form gets the private key as an encrypted token only the
+    /// server can read, and hands it back when the agent is created.
+    /// </summary>
+    [HttpPost("ssh-key/generate")]
+    [Authorize]
+    [ProducesResponseType(typeof(SshKeyResponse), StatusCodes.Status200OK)]
+    public async Task<IActionResult> GenerateSshKey([FromBody] GenerateSshKeyRequest request)
+    {
+        try
+        {
+            string privateKey;
+            string publicKey;
+            if (request.Shared)
+            {
+                var setting = await _context.AppSettings
+                    .FirstOrDefaultAsync(s => s.key == SshKeys.SharedKeySetting);
+
+                if (setting == null)
+                {
+                    var keyPair = await SshKeys.GenerateAsync($"remember-shared-{DateTime.UtcNow:yyyyMMdd}");
+                    setting = new AppSettings
+                    {
+                        id = Guid.NewGuid(),
+                        key = SshKeys.SharedKeySetting,
+                        value = SecretEncryption.Encrypt(keyPair.PrivateKey),
+                        created_at = DateTime.UtcNow,
+                        updated_at = DateTime.UtcNow
+                    };
+                    _context.AppSettings.Add(setting);
+                    await _context.SaveChangesAsync();
+
+                    _logger.LogInformation("Generated the shared SSH key");
+                }
+
+                privateKey = SecretEncryption.Decrypt(setting.value);
+                publicKey = await SshKeys.GetPublicKeyAsync(privateKey);
+            }
+            else
+            {
+                var keyPair = await SshKeys.GenerateAsync(SshKeys.BuildComment(request.Hostname ?? "agent"));
+                privateKey = keyPair.PrivateKey;
+                publicKey = keyPair.PublicKey;
+            }
+
+            return Ok(BuildSshKeyResponse(publicKey, SshKeys.ProtectGeneratedKey(privateKey), request.Shared));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error generating SSH key");
+            return StatusCode(500, new { message = "An error occurred while generating the SSH key", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Public key of the stored private key of an agent, with the command that installs it by hand.
+    /// </summary>
+    [HttpGet("{id}/ssh-key/public")]
+    [Authorize]
+    [ProducesResponseType(typeof(SshKeyResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetAgentPublicKey(Guid id)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            if (string.IsNullOrWhiteSpace(agent.rsyncSshKey))
+            {
+                return BadRequest(new { message = "Agent does not have an SSH key configured" });
+            }
+
+            var publicKey = await SshKeys.GetPublicKeyAsync(SshKeys.GetPrivateKey(agent)!, SshKeys.GetPassphrase(agent));
+            return Ok(BuildSshKeyResponse(publicKey, null, await IsSharedKeyAsync(publicKey)));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading the public key of agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while reading the public key", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Installs a public key on a host with a one-time password login, like ssh-copy-id.
+    /// The password is only passed to the ssh process and never stored or logged.
+    /// </summary>
+    [HttpPost("ssh-key/install")]
+    [Authorize]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> InstallSshKey([FromBody] InstallSshKeyRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.Hostname))
+            {
+                return BadRequest(new { message = "Hostname is required" });
+            }
+
+            if (string.IsNullOrEmpty(request.Password))
+            {
+                return BadRequest(new { message = "Password is required" });
+            }
+
+            string installCommand;
+            try
+            {
+                installCommand = SshKeys.BuildInstallCommand(request.PublicKey);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            // An existing agent keeps its pinned host key, the password must not go to another host
+            var existingAgent = request.AgentId.HasValue ? await _context.Agents.FindAsync(request.AgentId.Value) : null;
+            var target = new Agent
+            {
+                hostname = request.Hostname,
+                rsyncUser = request.RsyncUser,
+                rsyncPort = request.RsyncPort > 0 ? request.RsyncPort : 22,
+                hostKey = existingAgent != null && existingAgent.hostname == request.Hostname.Trim() ? existingAgent.hostKey : null
+            };
+
+            // The jump hosts log in with keys, the password only goes to the agent. Before its first key a
+            // new agent has none for hops without a key of their own
+            try
+            {
+                var jumpHosts = await JumpHosts.BuildAsync(_context, existingAgent?.id, request.JumpHosts ?? new List<JumpHostRequest>());
+                target.jumpRoute = await JumpHosts.ResolveAsync(_context, existingAgent?.id ?? Guid.Empty, jumpHosts,
+                    existingAgent != null ? SshKeys.GetPrivateKey(existingAgent) : null,
+                    existingAgent != null ? SshKeys.GetPassphrase(existingAgent) : null);
+            }
+            catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            _logger.LogInformation("Installing SSH key on {Hostname} with password authentication", request.Hostname);
+
+            var result = await AgentSsh.RunWithPasswordAsync(target, request.Password, installCommand, TimeSpan.FromSeconds(30));
+            if (!result.Success)
+            {
+                _logger.LogWarning("Installing SSH key on {Hostname} failed: {Error}", request.Hostname, result.ErrorSummary);
+
+                var message = result.Error.Contains("Permission denied")
+                    ? "Password authentication failed. Check the user and password, and that the server allows password logins."
+                    : $"Could not install the key: {result.ErrorSummary}";
+                return BadRequest(new { message });
+            }
+
+            return Ok(new { message = $"Public key installed on {request.Hostname}" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error installing SSH key on {Hostname}", request.Hostname);
+            return StatusCode(500, new { message = "An error occurred while installing the SSH key", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Replaces the key of an agent: the new key is installed with the current one and verified,
+    /// only then it is stored and the old key removed from the agent.
+    /// </summary>
+    [HttpPost("{id}/ssh-key/rotate")]
+    [Authorize]
+    [ProducesResponseType(typeof(RotateSshKeyResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> RotateSshKey(Guid id)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            if (string.IsNullOrWhiteSpace(agent.rsyncSshKey))
+            {
+                return BadRequest(new { message = "Agent does not have an SSH key configured" });
+            }
+
+            // The new key is only installed on the agent, jump hosts logging in with the agent key would lock it out
+            var jumpHosts = await JumpHosts.LoadHopsAsync(_context, agent.id);
+            if (jumpHosts.Any(h => h.viaAgentId == null && !h.hasSshKey))
+            {
+                return BadRequest(new { message = "A jump host of this agent logs in with the agent key. Give it a key of its own before rotating the agent key." });
+            }
+
+            try
+            {
+                await JumpHosts.LoadAsync(_context, agent);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            var oldPublicKey = await SshKeys.GetPublicKeyAsync(SshKeys.GetPrivateKey(agent)!, SshKeys.GetPassphrase(agent));
+            var newKey = await SshKeys.GenerateAsync(SshKeys.BuildComment(agent.hostname));
+            var timeout = TimeSpan.FromSeconds(30);
+
+            var install = await AgentSsh.RunAsync(agent, SshKeys.BuildInstallCommand(newKey.PublicKey), timeout);
+            if (!install.Success)
+            {
+                return BadRequest(new { message = $"Could not install the new key with the current one: {install.ErrorSummary}" });
+            }
+
+            var verify = await AgentSsh.RunAsync(agent, newKey.PrivateKey, null, AgentSsh.TestCommand, timeout);
+            if (!verify.Success)
+            {
+                // Leave the agent as it was, the current key still works
+                await AgentSsh.RunAsync(agent, SshKeys.BuildRemoveCommand(newKey.PublicKey), timeout);
+                return BadRequest(new { message = $"The new key was installed but could not log in, the current key is kept: {verify.ErrorSummary}" });
+            }
+
+            // Stored before the old key is removed, so the agent stays reachable whatever happens next
+            await SshKeys.StoreAsync(agent, newKey.PrivateKey, null);
+            await _context.SaveChangesAsync();
+
+            var remove = await AgentSsh.RunAsync(agent, SshKeys.BuildRemoveCommand(oldPublicKey), timeout);
+            if (!remove.Success)
+            {
+                _logger.LogWarning("Could not remove the old key from agent {AgentId}: {Error}", id, remove.ErrorSummary);
+            }
+
+            var user = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            _logger.LogInformation("SSH key of agent {AgentId} rotated by {User}", id, user);
+
+            return Ok(new RotateSshKeyResponse
+            {
+                Key = BuildSshKeyResponse(newKey.PublicKey, null, false),
+                OldKeyFingerprint = SshKeys.GetFingerprint(oldPublicKey),
+                OldKeyRemoved = remove.Success,
+                Message = remove.Success
+                    ? "The new key is installed and the old key was removed from the agent"
+                    : $"The new key is installed, but the old key could not be removed from the agent: {remove.ErrorSummary}"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error rotating the SSH key of agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while rotating the SSH key", error = ex.Message });
+        }
+    }
 
-                using var process = System.Diagnostics.Process.Start(processStartInfo);
-                if (process == null)
-                {
-                    throw new InvalidOperationException("Failed to start SSH process");
-                }
+    private async Task<bool> IsSharedKeyAsync(string publicKey)
+    {
+        var sharedKey = await _context.AppSettings
+            .Where(s => s.key == SshKeys.SharedKeySetting)
+            .Select(s => s.value)
+            .FirstOrDefaultAsync();
+        if (sharedKey == null)
+        {
+            return false;
+        }
 
-                var output = await process.StandardOutput.ReadToEndAsync();
-                var error = await process.StandardError.ReadToEndAsync();
-                await process.WaitForExitAsync();
+        var sharedPublicKey = await SshKeys.GetPublicKeyAsync(SecretEncryption.Decrypt(sharedKey));
+        return SshKeys.GetFingerprint(sharedPublicKey) == SshKeys.GetFingerprint(publicKey);
+    }
 
-                if (process.ExitCode != 0)
-                {
-                    _logger.LogError("SSH connection validation failed with exit code {ExitCode}. Error: {Error}", process.ExitCode, error);
-                    
-                    // Provide more specific error messages
-                    string errorMessage;
-                    if (error.Contains("Permission denied") || error.Contains("publickey"))
-                    {
-                        errorMessage = "SSH authentication failed. Please verify that:\n" +
-                                     "- The SSH private key is correct\n" +
-                                     "- The corresponding public key is installed on the remote server\n" +
-                                     "- The SSH user has permission to access the server";
-                    }
-                    else if (error.Contains("Connection refused") || error.Contains("Connection timed out"))
-                    {
-                        errorMessage = $"SSH connection failed. Unable to connect to {agent.hostname}:{port}.\n" +
-                                     "Please verify that:\n" +
-                                     "- The hostname and port are correct\n" +
-                                     "- The SSH service is running on the remote server\n" +
-                                     "- The server is reachable from this machine\n" +
-                                     "- Firewall rules allow SSH connections";
-                    }
-                    else if (error.Contains("Host key verification failed"))
-                    {
-                        errorMessage = "SSH host key verification failed. This is handled automatically, but if the problem persists, please check the server's host key.";
-                    }
-                    else if (error.Contains("No route to host") || error.Contains("Network is unreachable"))
-                    {
-                        errorMessage = $"Network error: Unable to reach {agent.hostname}.\n" +
-                                     "Please verify that:\n" +
-                                     "- The hostname is correct\n" +
-                                     "- The server is online and reachable\n" +
-                                     "- Network connectivity is available";
-                    }
-                    else
-                    {
-                        errorMessage = $"SSH connection failed: {error.Trim()}\n" +
-                                     $"Exit code: {process.ExitCode}";
-                    }
+    /// <summary>
+    /// Private key of a form: a generated key comes back as the token it was handed out as, a pasted
+    /// key as it is. Throws ArgumentException when the token cannot be read.
+    /// </summary>
+    private static string? ReadRequestKey(string? sshKey, string? sshKeyToken)
+    {
+        if (string.IsNullOrWhiteSpace(sshKeyToken))
+        {
+            return string.IsNullOrWhiteSpace(sshKey) ? null : sshKey.Trim();
+        }
 
-                    return StatusCode(503, new { message = errorMessage });
-                }
+        try
+        {
+            return SshKeys.ReadGeneratedKey(sshKeyToken);
+        }
+        catch (InvalidOperationException)
+        {
+            throw new ArgumentException("The generated key can no longer be read, generate it again");
+        }
+    }
 
-                _logger.LogInformation("SSH connection validation successful for agent {AgentId} to {Hostname}", id, agent.hostname);
+    private static SshKeyResponse BuildSshKeyResponse(string publicKey, string? keyToken, bool shared)
+    {
+        var normalizedPublicKey = SshKeys.NormalizePublicKey(publicKey);
+        return new SshKeyResponse
+        {
+            KeyToken = keyToken,
+            PublicKey = normalizedPublicKey,
+            Fingerprint = SshKeys.GetFingerprint(normalizedPublicKey),
+            InstallCommand = SshKeys.BuildInstallCommand(normalizedPublicKey),
+            Shared = shared
+        };
+    }
 
-                return Ok(new { 
-                    message = $"SSH connection successful to {agent.hostname}:{port}", 
-                    hostname = agent.hostname,
-                    port = port,
-                    user = agent.rsyncUser ?? "default",
-                    hasSshKey = true,
-                    rsyncUser = agent.rsyncUser,
-                    rsyncPort = agent.rsyncPort
-                });
-            }
-            catch (Exception ex)
+    /// <summary>
+    /// Latest inventory of an agent with the usage history of its mounts over the last days.
+    /// Inventory is null when it has never been collected.
+    /// </summary>
+    [HttpGet("{id}/inventory")]
+    [Authorize]
+    [ProducesResponseType(typeof(AgentInventoryResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetAgentInventory(Guid id, [FromQuery] int days = 30)
+    {
+        try
+        {
+            if (!await _context.Agents.AnyAsync(a => a.id == id))
             {
-                _logger.LogError(ex, "Error validating SSH connection for agent {AgentId}", id);
-                
-                // Provide user-friendly error message
-                string errorMessage;
-                if (ex.Message.Contains("No such file or directory") || ex.Message.Contains("ssh: command not found"))
-                {
-                    errorMessage = "SSH client is not available on this system. Please install OpenSSH client.";
-                }
-                else if (ex.Message.Contains("Failed to start SSH process"))
-                {
-                    errorMessage = "Failed to start SSH process. Please ensure SSH client is properly installed and accessible.";
-                }
-                else
-                {
-                    errorMessage = $"Error testing SSH connection: {ex.Message}";
-                }
-
-                return StatusCode(500, new { message = errorMessage });
+                return NotFound(new { message = "Agent not found" });
             }
-            finally
+
+            days = Math.Clamp(days, 1, 180);
+            var since = DateTime.UtcNow.AddDays(-days);
+
+            var inventory = await _logContext.AgentInventories
+                .Where(i => i.agentId == id)
+                .OrderByDescending(i => i.collectedAt)
+                .FirstOrDefaultAsync();
+            if (inventory == null)
             {
-                // Clean up temporary SSH key file
-                if (!string.IsNullOrWhiteSpace(tempSshKeyFile) && System.IO.File.Exists(tempSshKeyFile))
-                {
-                    try
-                    {
-                        System.IO.File.Delete(tempSshKeyFile);
-                    }
-                    catch (Exception ex)
-                    {
-                        _logger.LogWarning(ex, "Failed to delete temporary SSH key file: {Path}", tempSshKeyFile);
-                    }
-                }
+                return Ok(new AgentInventoryResponse());
             }
+
+            var history = await _logContext.AgentDiskUsages
+                .Where(d => d.agentId == id && d.collectedAt >= since)
+                .OrderBy(d => d.collectedAt)
+                .ToListAsync();
+
+            return Ok(BuildInventoryResponse(inventory, history));
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error validating agent {AgentId}", id);
-            return StatusCode(500, new { message = $"An error occurred while validating the agent: {ex.Message}" });
+            _logger.LogError(ex, "Error retrieving inventory for agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while retrieving the agent inventory" });
         }
     }
 
-    [HttpGet("{id}/ssh-key")]
-    [ProducesResponseType(StatusCodes.Status200OK)]
+    /// <summary>
+    /// Collects the inventory of an agent now and stores it as a new history entry.
+    /// </summary>
+    [HttpPost("{id}/inventory/refresh")]
+    [Authorize]
+    [ProducesResponseType(typeof(AgentInventoryResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<IActionResult> GetAgentSshKey(Guid id)
+    public async Task<IActionResult> RefreshAgentInventory(Guid id)
     {
         try
         {
             var agent = await _context.Agents.FindAsync(id);
-
             if (agent == null)
             {
                 return NotFound(new { message = "Agent not found" });
             }
 
-            return Ok(new { 
-                id = agent.id,
-                name = agent.name,
-                hostname = agent.hostname,
-                rsyncSshKey = agent.rsyncSshKey ?? string.Empty,
-                hasSshKey = !string.IsNullOrWhiteSpace(agent.rsyncSshKey)
-            });
+            if (string.IsNullOrWhiteSpace(agent.rsyncSshKey))
+            {
+                return BadRequest(new { message = "Agent does not have an SSH key configured" });
+            }
+
+            AgentInventory inventory;
+            List<AgentDiskUsage> disks;
+            try
+            {
+                await JumpHosts.LoadAsync(_context, agent);
+                (inventory, disks) = await AgentInventoryCollector.CollectAsync(agent);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            _logContext.AgentInventories.Add(inventory);
+            _logContext.AgentDiskUsages.AddRange(disks);
+            await _logContext.SaveChangesAsync();
+
+            var since = DateTime.UtcNow.AddDays(-30);
+            var history = await _logContext.AgentDiskUsages
+                .Where(d => d.agentId == id && d.collectedAt >= since)
+                .OrderBy(d => d.collectedAt)
+                .ToListAsync();
+
+            return Ok(BuildInventoryResponse(inventory, history));
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error retrieving SSH key for agent {AgentId}", id);
-            return StatusCode(500, new { message = "An error occurred while retrieving the SSH key" });
+            _logger.LogError(ex, "Error refreshing inventory for agent {AgentId}", id);
+            return StatusCode(500, new { message = "An error occurred while collecting the agent inventory", error = ex.Message });
         }
     }
 
+    private static AgentInventoryResponse BuildInventoryResponse(AgentInventory inventory, List<AgentDiskUsage> history)
+    {
+        var historyByMount = history.ToLookup(d => d.mountPoint);
+
+        return new AgentInventoryResponse
+        {
+            CollectedAt = inventory.collectedAt,
+            Kernel = inventory.kernel,
+            Distribution = inventory.distribution,
+            RsyncVersion = inventory.rsyncVersion,
+            RsyncProtocol = inventory.rsyncProtocol,
+            CpuCount = inventory.cpuCount,
+            CpuModel = inventory.cpuModel,
+            MemoryTotalBytes = inventory.memoryTotalBytes,
+            MemoryAvailableBytes = inventory.memoryAvailableBytes,
+            // Mounts of the latest collection, each with its own history
+            Mounts = history
+                .Where(d => d.inventoryId == inventory.id)
+                .OrderBy(d => d.mountPoint)
+                .Select(d => new AgentMountResponse
+                {
+                    Filesystem = d.filesystem,
+                    MountPoint = d.mountPoint,
+                    SizeBytes = d.sizeBytes,
+                    UsedBytes = d.usedBytes,
+                    AvailableBytes = d.availableBytes,
+                    History = historyByMount[d.mountPoint]
+                        .Select(h => new AgentDiskUsagePoint
+                        {
+                            CollectedAt = h.collectedAt,
+                            SizeBytes = h.sizeBytes,
+                            UsedBytes = h.usedBytes
+                        })
+                        .ToList()
+                })
+                .ToList()
+        };
+    }
+
     [HttpGet("{id}/browse")]
     [ProducesResponseType(typeof(List<FileSystemItem>), StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
@@ -479,12 +1176,21 @@ public class AgentController : ControllerBase
             string? tempSshKeyFile = null;
             try
             {
-                tempSshKeyFile = CreateTempSshKeyFile(agent.rsyncSshKey);
+                tempSshKeyFile = CreateTempSshKeyFile(SshKeys.GetPrivateKey(agent)!);
+                var sshKeyPassphrase = SshKeys.GetPassphrase(agent);
+                if (sshKeyPassphrase != null)
+                {
+                    await SshKeys.RemovePassphraseAsync(tempSshKeyFile, sshKeyPassphrase);
+                }
+                await HostKeys.WriteKnownHostsFileAsync(agent, tempSshKeyFile);
+                await JumpHosts.LoadAsync(_context, agent);
+                await JumpHosts.WriteFilesAsync(agent, tempSshKeyFile);
 
                 // Build SSH command to list files
                 var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
                 var sshCommand = $"ls -la --time-style=full-iso \"{directoryPath}\"";
-                var sshArgs = $"-i \"{tempSshKeyFile}\" -p {agent.rsyncPort} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null {user}{agent.hostname} {sshCommand}";
+                var sshOptions = HostKeys.BuildSshOptions(agent, tempSshKeyFile).Concat(JumpHosts.BuildSshOptions(agent, tempSshKeyFile));
+                var sshArgs = $"-i \"{tempSshKeyFile}\" -p {agent.rsyncPort} {string.Join(' ', sshOptions)} {user}{agent.hostname} {sshCommand}";
 
                 _logger.LogInformation("Executing SSH command: ssh {Args}", sshArgs);
 
@@ -528,6 +1234,12 @@ public class AgentController : ControllerBase
             }
             finally
             {
+                if (!string.IsNullOrWhiteSpace(tempSshKeyFile))
+                {
+                    HostKeys.DeleteKnownHostsFile(tempSshKeyFile);
+                    JumpHosts.DeleteFiles(agent, tempSshKeyFile);
+                }
+
                 // Clean up temporary SSH key file
                 if (!string.IsNullOrWhiteSpace(tempSshKeyFile) && System.IO.File.Exists(tempSshKeyFile))
                 {
@@ -549,6 +1261,76 @@ public class AgentController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Total size of a directory on the agent (du), calculated on demand as it can take a while for
+    /// large trees. Unreadable subdirectories are left out, Complete is false then.
+    /// </summary>
+    [HttpGet("{id}/disk-usage")]
+    [Authorize]
+    [ProducesResponseType(typeof(DiskUsageResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetDiskUsage(Guid id, [FromQuery] string? path)
+    {
+        try
+        {
+            var agent = await _context.Agents.FindAsync(id);
+            if (agent == null)
+            {
+                return NotFound(new { message = "Agent not found" });
+            }
+
+            if (string.IsNullOrWhiteSpace(agent.rsyncSshKey))
+            {
+                return BadRequest(new { message = "Agent does not have SSH key configured" });
+            }
+
+            var directoryPath = path?.Trim();
+            if (string.IsNullOrEmpty(directoryPath) || !directoryPath.StartsWith('/'))
+            {
+                return BadRequest(new { message = "An absolute path is required" });
+            }
+            if (directoryPath.Contains(".."))
+            {
+                return BadRequest(new { message = "Invalid directory path: directory traversal (..) is not allowed" });
+            }
+
+            AgentSshResult result;
+            try
+            {
+                await JumpHosts.LoadAsync(_context, agent);
+                // -k for sizes in KiB, -b (bytes) is GNU only. Large trees take a while
+                result = await AgentSsh.RunAsync(agent, $"du -sk -- {SshKeys.ShellQuote(directoryPath)}", TimeSpan.FromMinutes(5));
+            }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(new { message = ex.Message });
+            }
+
+            // du exits with 1 when it could not read everything, but still prints the total of the rest
+            var total = result.Output
+                .Split('\n', StringSplitOptions.RemoveEmptyEntries)
+                .LastOrDefault()?
+                .Split('\t', 2)[0];
+            if (result.TimedOut || !long.TryParse(total, out var kibibytes))
+            {
+                return StatusCode(500, new { message = $"Could not calculate the size of {directoryPath}", error = result.ErrorSummary });
+            }
+
+            return Ok(new DiskUsageResponse
+            {
+                Path = directoryPath,
+                SizeBytes = kibibytes * 1024,
+                Complete = result.Success
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error calculating the size of {Path} on agent {AgentId}", path, id);
+            return StatusCode(500, new { message = "An error occurred while calculating the directory size", error = ex.Message });
+        }
+    }
+
     private string NormalizeSshKeyContent(string sshKeyContent)
     {
         if (string.IsNullOrWhiteSpace(sshKeyContent))
@@ -782,6 +1564,18 @@ public class AgentController : ControllerBase
                 return NotFound(new { message = "Agent not found" });
             }
 
+            // A pinned host key belongs to the old address, the new one has to be confirmed again
+            var newPort = request.RsyncPort ?? agent.rsyncPort;
+            if (HostKeys.IsPinned(agent) && (agent.hostname != request.Hostname.Trim() || agent.rsyncPort != newPort))
+            {
+                _logger.LogInformation("Address of agent {AgentId} changed, removing its pinned host key", id);
+                agent.hostKey = null;
+                agent.hostKeyFingerprint = null;
+                agent.hostKeyPinnedAt = null;
+                agent.hostKeyPinnedBy = null;
+                agent.changedHostKeyFingerprint = null;
+            }
+
             // Update hostname and name
             agent.hostname = request.Hostname.Trim();
             if (!string.IsNullOrWhiteSpace(request.Name))
@@ -798,9 +1592,34 @@ public class AgentController : ControllerBase
             {
                 agent.rsyncPort = request.RsyncPort.Value;
             }
-            if (request.RsyncSshKey != null)
+            // An empty key keeps the stored one, the form never has it to send back
+            if (!string.IsNullOrWhiteSpace(request.RsyncSshKey))
+            {
+                try
+                {
+                    await SshKeys.StoreAsync(agent, request.RsyncSshKey, request.RsyncSshKeyPassphrase);
+                }
+                catch (InvalidOperationException ex)
+                {
+                    return BadRequest(new { message = ex.Message });
+                }
+            }
+
+            // The chain is replaced as a whole, hops that keep their id keep their stored key
+            if (request.JumpHosts != null)
             {
-                agent.rsyncSshKey = request.RsyncSshKey.Trim();
+                try
+                {
+                    var jumpHosts = await JumpHosts.BuildAsync(_context, agent.id, request.JumpHosts);
+                    await JumpHosts.ResolveAsync(_context, agent.id, jumpHosts, SshKeys.GetPrivateKey(agent), SshKeys.GetPassphrase(agent));
+
+                    _context.AgentJumpHosts.RemoveRange(await JumpHosts.LoadHopsAsync(_context, agent.id));
+                    _context.AgentJumpHosts.AddRange(jumpHosts);
+                }
+                catch (Exception ex) when (ex is ArgumentException or InvalidOperationException)
+                {
+                    return BadRequest(new { message = ex.Message });
+                }
             }
 
             await _context.SaveChangesAsync();
@@ -821,6 +1640,7 @@ public class AgentController : ControllerBase
     [HttpDelete("{id}")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
     public async Task<IActionResult> DeleteAgent(Guid id)
     {
         try
@@ -832,6 +1652,23 @@ public class AgentController : ControllerBase
                 return NotFound(new { message = "Agent not found" });
             }
 
+            // Agents behind this one would lose their route
+            var dependentAgentIds = await _context.AgentJumpHosts
+                .Where(h => h.viaAgentId == id)
+                .Select(h => h.agentId)
+                .Distinct()
+                .ToListAsync();
+            if (dependentAgentIds.Any())
+            {
+                var dependentNames = await _context.Agents
+                    .Where(a => dependentAgentIds.Contains(a.id))
+                    .Select(a => a.name)
+                    .ToListAsync();
+                return Conflict(new { message = $"The agent is a jump host of {string.Join(", ", dependentNames)}. Remove it from their jump hosts first." });
+            }
+
+            _context.AgentJumpHosts.RemoveRange(await JumpHosts.LoadHopsAsync(_context, id));
+
             // Delete all backup plans associated with this agent
             var backupPlans = await _context.BackupPlans
                 .Where(bp => EF.Property<Guid?>(bp, "agentid") == id)
@@ -865,6 +1702,10 @@ public class AgentController : ControllerBase
         public string? RsyncUser { get; set; }
         public int? RsyncPort { get; set; }
         public string? RsyncSshKey { get; set; }
+        public string? RsyncSshKeyPassphrase { get; set; }
+        public string? RsyncSshKeyToken { get; set; } // Encrypted generated key, used instead of RsyncSshKey
+        public string? HostKey { get; set; } // Confirmed host key from the validation, pinned on creation
+        public List<JumpHostRequest>? JumpHosts { get; set; }
     }
 
     public class UpdateAgentRequest
@@ -873,7 +1714,110 @@ public class AgentController : ControllerBase
         public string Hostname { get; set; } = string.Empty;
         public string? RsyncUser { get; set; }
         public int? RsyncPort { get; set; }
-        public string? RsyncSshKey { get; set; }
+        public string? RsyncSshKey { get; set; } // Replaces the stored key when set
+        public string? RsyncSshKeyPassphrase { get; set; }
+        public List<JumpHostRequest>? JumpHosts { get; set; } // Replaces the jump hosts when set
+    }
+
+    public class AgentHealthResponse
+    {
+        public Guid AgentId { get; set; }
+        public string Status { get; set; } = "Unknown";
+        public DateTime? LastCheckAt { get; set; }
+        public DateTime? LastSeenAt { get; set; }
+        public int? LatencyMs { get; set; }
+        public string? Error { get; set; }
+        public double? UptimePercent { get; set; }
+        public List<double?> Buckets { get; set; } = new();
+    }
+
+    public class AcceptHostKeyRequest
+    {
+        public string Fingerprint { get; set; } = string.Empty;
+    }
+
+    public class HostKeyResponse
+    {
+        public string? PinnedFingerprint { get; set; }
+        public DateTime? PinnedAt { get; set; }
+        public string? PinnedBy { get; set; }
+        public string? ChangedFingerprint { get; set; } // Set when a connection saw another key than the pinned one
+        public string? PresentedFingerprint { get; set; }
+        public string? PresentedKeyType { get; set; }
+        public string? ScanError { get; set; }
+    }
+
+    public class GenerateSshKeyRequest
+    {
+        public bool Shared { get; set; }
+        public string? Hostname { get; set; } // Used in the key comment
+    }
+
+    public class InstallSshKeyRequest
+    {
+        public string Hostname { get; set; } = string.Empty;
+        public string? RsyncUser { get; set; }
+        public int RsyncPort { get; set; } = 22;
+        public string Password { get; set; } = string.Empty;
+        public string PublicKey { get; set; } = string.Empty;
+        public Guid? AgentId { get; set; } // Set on the agent page, its pinned host key is checked
+        public List<JumpHostRequest>? JumpHosts { get; set; }
+    }
+
+    public class SshKeyResponse
+    {
+        public string? KeyToken { get; set; } // Encrypted private key, only set right after generating
+        public string PublicKey { get; set; } = string.Empty;
+        public string Fingerprint { get; set; } = string.Empty;
+        public string InstallCommand { get; set; } = string.Empty;
+        public bool Shared { get; set; }
+    }
+
+    public class DiskUsageResponse
+    {
+        public string Path { get; set; } = string.Empty;
+        public long SizeBytes { get; set; }
+        // False when du could not read every subdirectory, the size leaves them out
+        public bool Complete { get; set; }
+    }
+
+    public class RotateSshKeyResponse
+    {
+        public SshKeyResponse Key { get; set; } = new();
+        public string OldKeyFingerprint { get; set; } = string.Empty;
+        public bool OldKeyRemoved { get; set; }
+        public string Message { get; set; } = string.Empty;
+    }
+
+    public class AgentInventoryResponse
+    {
+        public DateTime? CollectedAt { get; set; }
+        public string? Kernel { get; set; }
+        public string? Distribution { get; set; }
+        public string? RsyncVersion { get; set; }
+        public int? RsyncProtocol { get; set; }
+        public int? CpuCount { get; set; }
+        public string? CpuModel { get; set; }
+        public long? MemoryTotalBytes { get; set; }
+        public long? MemoryAvailableBytes { get; set; }
+        public List<AgentMountResponse> Mounts { get; set; } = new();
+    }
+
+    public class AgentMountResponse
+    {
+        public string Filesystem { get; set; } = string.Empty;
+        public string MountPoint { get; set; } = string.Empty;
+        public long SizeBytes { get; set; }
+        public long UsedBytes { get; set; }
+        public long AvailableBytes { get; set; }
+        public List<AgentDiskUsagePoint> History { get; set; } = new();
+    }
+
+    public class AgentDiskUsagePoint
+    {
+        public DateTime CollectedAt { get; set; }
+        public long SizeBytes { get; set; }
+        public long UsedBytes { get; set; }
     }
 
     public class ValidateSshConnectionRequest
@@ -882,6 +1826,9 @@ public class AgentController : ControllerBase
         public string? RsyncUser { get; set; }
         public int RsyncPort { get; set; } = 22;
         public string? RsyncSshKey { get; set; }
+        public string? RsyncSshKeyPassphrase { get; set; }
+        public string? RsyncSshKeyToken { get; set; }
+        public List<JumpHostRequest>? JumpHosts { get; set; }
     }
 }
 
@@ -1,8 +1,15 @@
+using System.Globalization;
+using System.Runtime.CompilerServices;
+using System.Security.Claims;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using server.Data;
 using server.Models;
+using server.Services;
 
 namespace server.Controllers;
 
@@ -12,12 +19,30 @@ public class BackupLogController : ControllerBase
 {
     private readonly LogDbContext _logContext;
     private readonly DBContext _context;
+    private readonly RunningExecutionService _runningExecutions;
     private readonly ILogger<BackupLogController> _logger;
 
-    public BackupLogController(LogDbContext logContext, DBContext context, ILogger<BackupLogController> logger)
+    private static readonly string[] LogExportFormats = { "csv", "json", "ndjson" };
+
+    // Rows between flushes of a JSON export, the writer buffers everything until it is flushed
+    private const int ExportFlushInterval = 500;
+
+    // Files listed per section of an execution comparison, the counts and sizes cover all of them
+    private const int MaxComparedFiles = 1000;
+
+    // Matched paths summarized by a file history search
+    private const int MaxHistoryFiles = 50;
+
+    // Children returned per directory level of an execution tree, the largest ones first
+    private const int MaxTreeChildren = 500;
+
+    private static readonly JsonSerializerOptions ExportJsonOptions = new(JsonSerializerDefaults.Web);
+
+    public BackupLogController(LogDbContext logContext, DBContext context, RunningExecutionService runningExecutions, ILogger<BackupLogController> logger)
     {
         _logContext = logContext;
         _context = context;
+        _runningExecutions = runningExecutions;
         _logger = logger;
     }
 
@@ -45,7 +70,12 @@ public class BackupLogController : ControllerBase
                     StartDateTime = e.startDateTime,
                     EndDateTime = e.endDateTime,
                     IsAutomatic = e.isAutomatic,
-                    IsSimulation = e.isSimulation
+                    IsSimulation = e.isSimulation,
+                    ExecutionType = e.executionType,
+                    SnapshotName = e.snapshotName,
+                    StoppedBy = e.stoppedBy,
+                    BlockedDeletions = e.blockedDeletions,
+                    DeletionsApprovedBy = e.deletionsApprovedBy
                 })
                 .ToListAsync();
 
@@ -58,6 +88,44 @@ public class BackupLogController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Hardlink snapshots under the plan destination, newest first, with the retention rules keeping each one.
+    /// </summary>
+    [HttpGet("/api/backupplan/{id}/snapshots")]
+    [ProducesResponseType(typeof(List<HardlinkSnapshot>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetBackupPlanSnapshots(Guid id)
+    {
+        try
+        {
+            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            if (backupPlan == null)
+            {
+                return NotFound(new { message = "Backup plan not found" });
+            }
+
+            var snapshots = HardlinkSnapshots.List(backupPlan.destination);
+            HardlinkSnapshots.ApplyRetention(backupPlan, snapshots);
+
+            var names = snapshots.Select(s => s.Name).ToList();
+            var executionIds = await _logContext.BackupExecutions
+                .Where(e => e.backupPlanId == id && e.snapshotName != null && names.Contains(e.snapshotName))
+                .ToDictionaryAsync(e => e.snapshotName!, e => e.id);
+
+            foreach (var snapshot in snapshots)
+            {
+                snapshot.ExecutionId = executionIds.TryGetValue(snapshot.Name, out var executionId) ? executionId : null;
+            }
+
+            return Ok(snapshots);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving snapshots for backup plan {BackupPlanId}", id);
+            return StatusCode(500, new { message = "An error occurred while retrieving snapshots", error = ex.Message });
+        }
+    }
+
     [HttpGet("/api/backupplan/{id}/logs")]
     [ProducesResponseType(typeof(List<LogEntryResponse>), StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
@@ -73,7 +141,8 @@ public class BackupLogController : ControllerBase
         [FromQuery] DateTime? fromDate = null,
         [FromQuery] DateTime? toDate = null,
         [FromQuery] string? sortBy = "datetime",
-        [FromQuery] string? sortOrder = "desc")
+        [FromQuery] string? sortOrder = "desc",
+        [FromQuery] string? cursor = null)
     {
         try
         {
@@ -94,100 +163,160 @@ public class BackupLogController : ControllerBase
             }
 
             // Apply filters
-            if (!string.IsNullOrWhiteSpace(action) && action != "All")
+            query = FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate);
+
+            var logPage = await ReadLogPageAsync(query, page, pageSize, sortBy, sortOrder, cursor);
+            if (logPage == null)
             {
-                query = query.Where(log => log.action == action);
+                return BadRequest(new { message = "The cursor does not match the sort order, reload the logs" });
             }
 
-            if (!string.IsNullOrWhiteSpace(fileName))
+            var logs = logPage.Value.Logs.Select(log => new LogEntryResponse
             {
-                // Use ToLower() for case-insensitive search (SQLite compatible)
-                var fileNameLower = fileName.ToLower();
-                query = query.Where(log => log.fileName.ToLower().Contains(fileNameLower));
-            }
+                Id = log.id,
+                DateTime = log.datetime,
+                FileName = log.fileName,
+                FilePath = log.filePath,
+                Size = log.size,
+                Action = log.action,
+                Reason = log.reason
+            }).ToList();
 
-            if (minSize.HasValue)
+            return Ok(new
             {
-                query = query.Where(log => log.size.HasValue && log.size >= minSize.Value);
-            }
+                logs = logs,
+                totalCount = logPage.Value.TotalCount,
+                page = page,
+                pageSize = logPage.Value.PageSize,
+                totalPages = logPage.Value.TotalCount.HasValue
+                    ? (int?)Math.Ceiling(logPage.Value.TotalCount.Value / (double)logPage.Value.PageSize)
+                    : null,
+                nextCursor = logPage.Value.NextCursor
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving logs for backup plan {BackupPlanId}. Error:{error}", id, ex.Message);
+            return StatusCode(500, new { message = "An error occurred while retrieving logs", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Position of the first log of a path in the filtered and sorted logs of a plan, so a long
+    /// execution can be opened at that row.
+    /// </summary>
+    [HttpGet("/api/backupplan/{id}/logs/locate")]
+    [ProducesResponseType(typeof(LogLocationResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> LocateBackupPlanLog(
+        Guid id,
+        [FromQuery] string? path = null,
+        [FromQuery] Guid? executionId = null,
+        [FromQuery] string? action = null,
+        [FromQuery] string? fileName = null,
+        [FromQuery] long? minSize = null,
+        [FromQuery] long? maxSize = null,
+        [FromQuery] DateTime? fromDate = null,
+        [FromQuery] DateTime? toDate = null,
+        [FromQuery] string? sortBy = "datetime",
+        [FromQuery] string? sortOrder = "desc")
+    {
+        if (string.IsNullOrWhiteSpace(path))
+        {
+            return BadRequest(new { message = "A path is required" });
+        }
 
-            if (maxSize.HasValue)
+        try
+        {
+            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            if (backupPlan == null)
             {
-                query = query.Where(log => log.size.HasValue && log.size <= maxSize.Value);
+                return NotFound(new { message = "Backup plan not found" });
             }
 
-            if (fromDate.HasValue)
+            var query = _logContext.LogEntries.Where(log => log.backupPlanId == id);
+            if (executionId.HasValue)
             {
-                query = query.Where(log => log.datetime >= fromDate.Value);
+                query = query.Where(log => log.executionId == executionId.Value);
             }
+            query = FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate);
 
-            if (toDate.HasValue)
+            var location = await LocateLogAsync(query, path.Trim(), sortBy, sortOrder);
+            if (location == null)
             {
-                query = query.Where(log => log.datetime <= toDate.Value);
+                return NotFound(new { message = "No log entry matches this path" });
             }
 
-            // Get total count after filters
-            var totalCount = await query.CountAsync();
+            return Ok(location);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error locating {Path} in the logs of backup plan {BackupPlanId}", path, id);
+            return StatusCode(500, new { message = "An error occurred while locating the log entry", error = ex.Message });
+        }
+    }
 
-            // Apply sorting
-            var sortByLower = sortBy?.ToLower() ?? "datetime";
-            var sortOrderLower = sortOrder?.ToLower() ?? "desc";
+    [HttpGet("/api/backupplan/{id}/logs/export")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ExportBackupPlanLogs(
+        Guid id,
+        [FromQuery] string format = "csv",
+        [FromQuery] Guid? executionId = null,
+        [FromQuery] string? action = null,
+        [FromQuery] string? fileName = null,
+        [FromQuery] long? minSize = null,
+        [FromQuery] long? maxSize = null,
+        [FromQuery] DateTime? fromDate = null,
+        [FromQuery] DateTime? toDate = null,
+        [FromQuery] string? sortBy = "datetime",
+        [FromQuery] string? sortOrder = "desc")
+    {
+        if (!LogExportFormats.Contains(format))
+        {
+            return BadRequest(new { message = $"Export format must be one of: {string.Join(", ", LogExportFormats)}" });
+        }
 
-            if (sortByLower == "filename")
-            {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.fileName)
-                    : query.OrderByDescending(log => log.fileName);
-            }
-            else if (sortByLower == "size")
+        IQueryable<LogEntry> query;
+        LogExportHeader header;
+        Dictionary<Guid, string> planNames;
+        try
+        {
+            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            if (backupPlan == null)
             {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.size ?? 0)
-                    : query.OrderByDescending(log => log.size ?? 0);
+                return NotFound(new { message = "Backup plan not found" });
             }
-            else if (sortByLower == "action")
+
+            query = _logContext.LogEntries.Where(log => log.backupPlanId == id);
+            if (executionId.HasValue)
             {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.action)
-                    : query.OrderByDescending(log => log.action);
+                query = query.Where(log => log.executionId == executionId.Value);
             }
-            else // datetime (default)
+            query = LogKeyset.Sort(FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate), sortBy, LogKeyset.IsAscending(sortOrder));
+
+            var filters = DescribeLogFilters(executionId, null, action, fileName, minSize, maxSize, fromDate, toDate, sortBy, sortOrder);
+            var builtHeader = await BuildExportHeaderAsync(query, executionId, filters);
+            if (builtHeader == null || (builtHeader.Execution != null && builtHeader.BackupPlanId != id))
             {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.datetime)
-                    : query.OrderByDescending(log => log.datetime);
+                return NotFound(new { message = "Execution not found" });
             }
 
-            // Get paginated logs
-            var logs = await query
-                .Skip((page - 1) * pageSize)
-                .Take(pageSize)
-                .Select(log => new LogEntryResponse
-                {
-                    Id = log.id,
-                    DateTime = log.datetime,
-                    FileName = log.fileName,
-                    FilePath = log.filePath,
-                    Size = log.size,
-                    Action = log.action,
-                    Reason = log.reason
-                })
-                .ToListAsync();
-
-            return Ok(new
-            {
-                logs = logs,
-                totalCount = totalCount,
-                page = page,
-                pageSize = pageSize,
-                totalPages = (int)Math.Ceiling(totalCount / (double)pageSize)
-            });
+            header = builtHeader;
+            header.BackupPlanId = id;
+            header.BackupPlanName = backupPlan.name;
+            planNames = new Dictionary<Guid, string> { [id] = backupPlan.name };
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error retrieving logs for backup plan {BackupPlanId}. Error:{error}", id, ex.Message);
-            return StatusCode(500, new { message = "An error occurred while retrieving logs", error = ex.Message });
+            _logger.LogError(ex, "Error preparing the log export of backup plan {BackupPlanId}", id);
+            return StatusCode(500, new { message = "An error occurred while exporting logs", error = ex.Message });
         }
+
+        await WriteLogExportAsync(format, header, query, planNames);
+        return new EmptyResult();
     }
 
     [HttpGet("/api/backupplan/{id}/logs/summary")]
@@ -249,202 +378,215 @@ public class BackupLogController : ControllerBase
                 return NotFound(new { message = "Execution not found" });
             }
 
-            // Get rsync command from log entry
-            var commandLog = await _logContext.LogEntries
-                .Where(log => log.executionId == executionId && log.fileName == "rsync-command")
-                .FirstOrDefaultAsync();
-            var rsyncCommand = commandLog?.filePath ?? string.Empty;
-
-            // Get rsync statistics from log entry
-            var statsLog = await _logContext.LogEntries
-                .Where(log => log.executionId == executionId && log.fileName == "rsync-stats")
-                .OrderByDescending(log => log.datetime)
-                .FirstOrDefaultAsync();
+            var stats = await BuildExecutionStatsAsync(execution);
 
-            // Initialize default values
-            var stats = new ExecutionStatsResponse
-            {
-                ExecutionId = executionId,
-                StartDateTime = execution.startDateTime,
-                EndDateTime = execution.endDateTime,
-                Status = "Unknown",
-                CurrentFileName = execution.currentFileName,
-                CurrentFilePath = execution.currentFilePath,
-                RsyncCommand = rsyncCommand,
-                TotalFilesToProcess = execution.totalFilesToProcess,
-                CurrentFileIndex = execution.currentFileIndex
-            };
+            return Ok(stats);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving execution stats for backup plan {BackupPlanId}, execution {ExecutionId}", id, executionId);
+            return StatusCode(500, new
+            {
+                message = "An error occurred while retrieving execution stats",
+                error = ex.Message
+            });
+        }
+    }
 
-            // Parse statistics from log entry if available
-            if (statsLog != null)
+    /// <summary>
+    /// One directory level of an execution's changes: every child of the path with the files
+    /// copied, deleted and errored below it and the bytes copied. Deeper levels are asked for when
+    /// they are expanded, so executions of any size are summarized by the database.
+    /// </summary>
+    [HttpGet("/api/backupplan/{id}/executions/{executionId}/tree")]
+    [ProducesResponseType(typeof(DirectoryLevelResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetExecutionTree(Guid id, Guid executionId, [FromQuery] string? path = null)
+    {
+        try
+        {
+            var execution = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == executionId && e.backupPlanId == id);
+            if (execution == null)
             {
-                var parts = statsLog.reason.Split('|');
-                foreach (var part in parts)
+                return NotFound(new { message = "Execution not found" });
+            }
+
+            // Logged paths are relative, directories end with a slash
+            var prefix = string.IsNullOrWhiteSpace(path) ? string.Empty : path.Trim().Trim('/') + "/";
+            var prefixLength = prefix.Length;
+
+            var entries = _logContext.LogEntries
+                .Where(log => log.executionId == executionId
+                    && log.action != "System"
+                    && log.action != "Milestone"
+                    && log.filePath.StartsWith(prefix)
+                    && log.filePath.Length > prefixLength)
+                .Select(log => new
+                {
+                    log.action,
+                    log.size,
+                    isFile = !log.filePath.EndsWith("/"),
+                    rest = log.filePath.Substring(prefixLength)
+                })
+                .Select(log => new
+                {
+                    log.action,
+                    log.size,
+                    log.isFile,
+                    log.rest,
+                    slash = log.rest.IndexOf("/")
+                });
+
+            var children = entries
+                .GroupBy(log => log.slash >= 0 ? log.rest.Substring(0, log.slash) : log.rest)
+                .Select(g => new DirectoryNodeResponse
                 {
-                    var keyValue = part.Split(':');
-                    if (keyValue.Length == 2)
+                    Name = g.Key,
+                    IsDirectory = g.Max(log => log.slash) >= 0,
+                    Files = g.Count(log => log.isFile),
+                    Copied = g.Count(log => log.isFile && log.action == "Copy"),
+                    Deleted = g.Count(log => log.isFile && log.action == "Delete"),
+                    Errored = g.Count(log => log.action == "CopyError" || log.action == "DeleteError"),
+                    CopiedBytes = g.Sum(log => log.action == "Copy" ? log.size ?? 0 : 0)
+                });
+
+            var level = new DirectoryLevelResponse
+            {
+                Path = prefix,
+                ChildCount = await children.CountAsync(),
+                Children = await children
+                    .OrderByDescending(child => child.CopiedBytes)
+                    .ThenByDescending(child => child.Files)
+                    .ThenBy(child => child.Name)
+                    .Take(MaxTreeChildren)
+                    .ToListAsync(),
+                Totals = await entries
+                    .GroupBy(log => 1)
+                    .Select(g => new DirectoryNodeResponse
                     {
-                        var key = keyValue[0];
-                        var value = keyValue[1];
-                        
-                        switch (key)
-                        {
-                            case "TotalFiles":
-                                if (int.TryParse(value.Replace(".", ""), out var totalFiles))
-                                    stats.TotalFiles = totalFiles;
-                                break;
-                            case "RegularFiles":
-                                if (int.TryParse(value.Replace(".", ""), out var regularFiles))
-                                    stats.RegularFiles = regularFiles;
-                                break;
-                            case "Directories":
-                                if (int.TryParse(value.Replace(".", ""), out var directories))
-                                    stats.Directories = directories;
-                                break;
-                            case "CreatedFiles":
-                                if (int.TryParse(value.Replace(".", ""), out var createdFiles))
-                                    stats.CreatedFiles = createdFiles;
-                                break;
-                            case "DeletedFiles":
-                                if (int.TryParse(value.Replace(".", ""), out var deletedFiles))
-                                    stats.DeletedFiles = deletedFiles;
-                                break;
-                            case "TransferredFiles":
-                                if (int.TryParse(value.Replace(".", ""), out var transferredFiles))
-                                    stats.TransferredFiles = transferredFiles;
-                                break;
-                            case "TotalFileSize":
-                                if (long.TryParse(value.Replace(".", ""), out var totalFileSize))
-                                    stats.TotalFileSize = totalFileSize;
-                                break;
-                            case "TotalTransferredSize":
-                                if (long.TryParse(value.Replace(".", ""), out var totalTransferredSize))
-                                    stats.TotalTransferredSize = totalTransferredSize;
-                                break;
-                            case "LiteralData":
-                                if (long.TryParse(value.Replace(".", ""), out var literalData))
-                                    stats.LiteralData = literalData;
-                                break;
-                            case "MatchedData":
-                                if (long.TryParse(value.Replace(".", ""), out var matchedData))
-                                    stats.MatchedData = matchedData;
-                                break;
-                            case "FileListSize":
-                                if (long.TryParse(value.Replace(".", ""), out var fileListSize))
-                                    stats.FileListSize = fileListSize;
-                                break;
-                            case "FileListGenerationTime":
-                                if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var genTime))
-                                    stats.FileListGenerationTime = genTime;
-                                break;
-                            case "FileListTransferTime":
-                                if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var transferTime))
-                                    stats.FileListTransferTime = transferTime;
-                                break;
-                            case "TotalBytesSent":
-                                if (long.TryParse(value.Replace(".", ""), out var bytesSent))
-                                    stats.TotalBytesSent = bytesSent;
-                                break;
-                            case "TotalBytesReceived":
-                                if (long.TryParse(value.Replace(".", ""), out var bytesReceived))
-                                    stats.TotalBytesReceived = bytesReceived;
-                                break;
-                            case "TransferSpeed":
-                                if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var speed))
-                                    stats.TransferSpeedBytesPerSecond = speed;
-                                break;
-                            case "Speedup":
-                                if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var speedup))
-                                    stats.Speedup = speedup;
-                                break;
-                        }
-                    }
-                }
-            }
+                        IsDirectory = true,
+                        Files = g.Count(log => log.isFile),
+                        Copied = g.Count(log => log.isFile && log.action == "Copy"),
+                        Deleted = g.Count(log => log.isFile && log.action == "Delete"),
+                        Errored = g.Count(log => log.action == "CopyError" || log.action == "DeleteError"),
+                        CopiedBytes = g.Sum(log => log.action == "Copy" ? log.size ?? 0 : 0)
+                    })
+                    .FirstOrDefaultAsync() ?? new DirectoryNodeResponse { IsDirectory = true }
+            };
 
-            // Calculate duration
-            if (execution.endDateTime.HasValue)
+            level.Totals.Name = prefix.TrimEnd('/').Split('/').Last();
+            level.Totals.Path = prefix;
+
+            foreach (var child in level.Children)
             {
-                var duration = execution.endDateTime.Value - execution.startDateTime;
-                stats.DurationSeconds = duration.TotalSeconds;
+                child.Path = prefix + child.Name + (child.IsDirectory ? "/" : string.Empty);
             }
-            else
+
+            return Ok(level);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error summarizing {Path} of execution {ExecutionId}", path, executionId);
+            return StatusCode(500, new { message = "An error occurred while summarizing the execution", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Compares two executions of a plan: files copied by only one of them, files copied by both
+    /// with a different size, files deleted by the runs in between and the statistics of both.
+    /// </summary>
+    [HttpGet("/api/backupplan/{id}/executions/compare")]
+    [ProducesResponseType(typeof(ExecutionComparisonResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> CompareExecutions(
+        Guid id,
+        [FromQuery] Guid baseId,
+        [FromQuery] Guid targetId,
+        [FromQuery] int limit = 100)
+    {
+        if (baseId == targetId)
+        {
+            return BadRequest(new { message = "Pick two different executions to compare" });
+        }
+
+        limit = Math.Clamp(limit, 1, MaxComparedFiles);
+
+        try
+        {
+            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            if (backupPlan == null)
             {
-                var currentDuration = DateTime.UtcNow - execution.startDateTime;
-                stats.DurationSeconds = currentDuration.TotalSeconds;
+                return NotFound(new { message = "Backup plan not found" });
             }
 
-            // Determine status based on execution completion and finish log
-            if (execution.endDateTime.HasValue)
+            var baseExecution = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == baseId && e.backupPlanId == id);
+            var targetExecution = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == targetId && e.backupPlanId == id);
+            if (baseExecution == null || targetExecution == null)
             {
-                // Execution has finished - check if it completed successfully or was interrupted
-                var finishLog = await _logContext.LogEntries
-                    .Where(log => log.executionId == executionId && log.fileName == "rsync-finish")
-                    .OrderByDescending(log => log.datetime)
-                    .FirstOrDefaultAsync();
-
-                if (finishLog != null)
-                {
-                    // Check the action to determine if it was successful or failed
-                    if (finishLog.action == "CopyError")
-                    {
-                        stats.Status = "Interrupted";
-                    }
-                    else if (finishLog.reason.Contains("finished successfully") || 
-                             finishLog.reason.Contains("partial transfer"))
-                    {
-                        stats.Status = "Completed";
-                    }
-                    else
-                    {
-                        stats.Status = "Interrupted";
-                    }
-                }
-                else
-                {
-                    // No finish log found but endDateTime is set - likely interrupted
-                    stats.Status = "Interrupted";
-                }
+                return NotFound(new { message = "Execution not found" });
             }
-            else
-            {
-                // Execution is still running - check latest milestone to determine current phase
-                var latestMilestone = await _logContext.LogEntries
-                    .Where(log => log.executionId == executionId && log.action == "Milestone")
-                    .OrderByDescending(log => log.datetime)
-                    .FirstOrDefaultAsync();
 
-                if (latestMilestone != null)
+            var baseCopies = _logContext.LogEntries
+                .Where(log => log.executionId == baseId && log.action == "Copy");
+            var targetCopies = _logContext.LogEntries
+                .Where(log => log.executionId == targetId && log.action == "Copy");
+
+            var onlyInBase = baseCopies.Where(log => !targetCopies.Any(other => other.filePath == log.filePath));
+            var onlyInTarget = targetCopies.Where(log => !baseCopies.Any(other => other.filePath == log.filePath));
+
+            // Deletions of the runs after the earlier execution, up to and including the later one
+            var from = baseExecution.startDateTime <= targetExecution.startDateTime ? baseExecution : targetExecution;
+            var to = from == baseExecution ? targetExecution : baseExecution;
+            var executionsBetween = _logContext.BackupExecutions
+                .Where(e => e.backupPlanId == id
+                    && !e.isSimulation
+                    && e.startDateTime > from.startDateTime
+                    && e.startDateTime <= to.startDateTime)
+                .Select(e => e.id);
+            var deletedBetween = _logContext.LogEntries
+                .Where(log => log.action == "Delete" && executionsBetween.Contains(log.executionId));
+
+            var sizeChanges =
+                from target in targetCopies
+                join original in baseCopies on target.filePath equals original.filePath
+                where target.size != null && original.size != null && target.size != original.size
+                select new FileSizeChangeResponse
                 {
-                    if (latestMilestone.reason.Contains("SourceAnalysisStarted"))
-                    {
-                        stats.Status = "Analyzing";
-                    }
-                    else if (latestMilestone.reason.Contains("CopiesStarted"))
-                    {
-                        stats.Status = "Copying";
-                    }
-                    else if (latestMilestone.reason.Contains("CopiesFinished"))
-                    {
-                        stats.Status = "Finalizing";
-                    }
-                }
-                else
+                    FilePath = target.filePath,
+                    FileName = target.fileName,
+                    BaseSize = original.size!.Value,
+                    TargetSize = target.size!.Value,
+                    Delta = target.size!.Value - original.size!.Value
+                };
+
+            var response = new ExecutionComparisonResponse
+            {
+                Base = await BuildComparedExecutionAsync(baseExecution, baseCopies),
+                Target = await BuildComparedExecutionAsync(targetExecution, targetCopies),
+                OnlyInBase = await BuildComparedFileListAsync(onlyInBase, limit),
+                OnlyInTarget = await BuildComparedFileListAsync(onlyInTarget, limit),
+                DeletedBetween = await BuildComparedFileListAsync(deletedBetween, limit),
+                SizeChanges = new FileSizeChangeListResponse
                 {
-                    stats.Status = "Starting";
+                    TotalCount = await sizeChanges.CountAsync(),
+                    TotalDelta = await sizeChanges.SumAsync(change => change.Delta),
+                    Files = await sizeChanges
+                        .OrderByDescending(change => Math.Abs(change.Delta))
+                        .Take(limit)
+                        .ToListAsync()
                 }
-            }
+            };
 
-            return Ok(stats);
+            return Ok(response);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error retrieving execution stats for backup plan {BackupPlanId}, execution {ExecutionId}", id, executionId);
-            return StatusCode(500, new
-            {
-                message = "An error occurred while retrieving execution stats",
-                error = ex.Message
-            });
+            _logger.LogError(ex, "Error comparing executions {BaseId} and {TargetId} of backup plan {BackupPlanId}", baseId, targetId, id);
+            return StatusCode(500, new { message = "An error occurred while comparing executions", error = ex.Message });
         }
     }
 
@@ -462,7 +604,8 @@ public class BackupLogController : ControllerBase
         [FromQuery] DateTime? toDate = null,
         [FromQuery] Guid? backupPlanId = null,
         [FromQuery] string? sortBy = "datetime",
-        [FromQuery] string? sortOrder = "desc")
+        [FromQuery] string? sortOrder = "desc",
+        [FromQuery] string? cursor = null)
     {
         try
         {
@@ -482,86 +625,15 @@ public class BackupLogController : ControllerBase
             }
 
             // Apply filters
-            if (!string.IsNullOrWhiteSpace(action) && action != "All")
-            {
-                query = query.Where(log => log.action == action);
-            }
+            query = FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate);
 
-            if (!string.IsNullOrWhiteSpace(fileName))
+            var logPage = await ReadLogPageAsync(query, page, pageSize, sortBy, sortOrder, cursor);
+            if (logPage == null)
             {
-                // Use ToLower() for case-insensitive search (SQLite compatible)
-                var fileNameLower = fileName.ToLower();
-                query = query.Where(log => log.fileName.ToLower().Contains(fileNameLower));
+                return BadRequest(new { message = "The cursor does not match the sort order, reload the logs" });
             }
 
-            if (minSize.HasValue)
-            {
-                query = query.Where(log => log.size.HasValue && log.size >= minSize.Value);
-            }
-
-            if (maxSize.HasValue)
-            {
-                query = query.Where(log => log.size.HasValue && log.size <= maxSize.Value);
-            }
-
-            if (fromDate.HasValue)
-            {
-                query = query.Where(log => log.datetime >= fromDate.Value);
-            }
-
-            if (toDate.HasValue)
-            {
-                query = query.Where(log => log.datetime <= toDate.Value);
-            }
-
-            // Get total count after filters
-            var totalCount = await query.CountAsync();
-
-            // Apply sorting
-            var sortByLower = sortBy?.ToLower() ?? "datetime";
-            var sortOrderLower = sortOrder?.ToLower() ?? "desc";
-
-            if (sortByLower == "filename")
-            {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.fileName)
-                    : query.OrderByDescending(log => log.fileName);
-            }
-            else if (sortByLower == "size")
-            {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.size ?? 0)
-                    : query.OrderByDescending(log => log.size ?? 0);
-            }
-            else if (sortByLower == "action")
-            {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.action)
-                    : query.OrderByDescending(log => log.action);
-            }
-            else // datetime (default)
-            {
-                query = sortOrderLower == "asc"
-                    ? query.OrderBy(log => log.datetime)
-                    : query.OrderByDescending(log => log.datetime);
-            }
-
-            // Get paginated logs with backup plan information
-            var logs = await query
-                .Skip((page - 1) * pageSize)
-                .Take(pageSize)
-                .Select(log => new
-                {
-                    log.id,
-                    log.datetime,
-                    log.fileName,
-                    log.filePath,
-                    log.size,
-                    log.action,
-                    log.reason,
-                    log.backupPlanId
-                })
-                .ToListAsync();
+            var logs = logPage.Value.Logs;
 
             // Get backup plan names for the logs
             var backupPlanIds = logs.Select(l => l.backupPlanId).Distinct().ToList();
@@ -591,10 +663,13 @@ public class BackupLogController : ControllerBase
             return Ok(new
             {
                 logs = logResponses,
-                totalCount = totalCount,
+                totalCount = logPage.Value.TotalCount,
                 page = page,
-                pageSize = pageSize,
-                totalPages = (int)Math.Ceiling(totalCount / (double)pageSize)
+                pageSize = logPage.Value.PageSize,
+                totalPages = logPage.Value.TotalCount.HasValue
+                    ? (int?)Math.Ceiling(logPage.Value.TotalCount.Value / (double)logPage.Value.PageSize)
+                    : null,
+                nextCursor = logPage.Value.NextCursor
             });
         }
         catch (Exception ex)
@@ -604,6 +679,260 @@ public class BackupLogController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Position of the first log of a path in the filtered and sorted logs of all plans.
+    /// </summary>
+    [HttpGet("/api/logs/locate")]
+    [ProducesResponseType(typeof(LogLocationResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> LocateLog(
+        [FromQuery] string? path = null,
+        [FromQuery] Guid? executionId = null,
+        [FromQuery] string? action = null,
+        [FromQuery] string? fileName = null,
+        [FromQuery] long? minSize = null,
+        [FromQuery] long? maxSize = null,
+        [FromQuery] DateTime? fromDate = null,
+        [FromQuery] DateTime? toDate = null,
+        [FromQuery] Guid? backupPlanId = null,
+        [FromQuery] string? sortBy = "datetime",
+        [FromQuery] string? sortOrder = "desc")
+    {
+        if (string.IsNullOrWhiteSpace(path))
+        {
+            return BadRequest(new { message = "A path is required" });
+        }
+
+        try
+        {
+            var query = _logContext.LogEntries.AsQueryable();
+            if (executionId.HasValue)
+            {
+                query = query.Where(log => log.executionId == executionId.Value);
+            }
+            if (backupPlanId.HasValue)
+            {
+                query = query.Where(log => log.backupPlanId == backupPlanId.Value);
+            }
+            query = FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate);
+
+            var location = await LocateLogAsync(query, path.Trim(), sortBy, sortOrder);
+            if (location == null)
+            {
+                return NotFound(new { message = "No log entry matches this path" });
+            }
+
+            return Ok(location);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error locating {Path} in the logs", path);
+            return StatusCode(500, new { message = "An error occurred while locating the log entry", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Every log entry of the files matching a path or glob, across all plans and executions, so the
+    /// copies, changes, deletions and errors of a file can be followed over time.
+    /// </summary>
+    [HttpGet("/api/logs/history")]
+    [ProducesResponseType(typeof(FileHistoryResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> GetFileHistory(
+        [FromQuery] string? path = null,
+        [FromQuery] Guid? backupPlanId = null,
+        [FromQuery] bool includeSimulations = false,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 100,
+        [FromQuery] string? sortOrder = "desc")
+    {
+        var pattern = path?.Trim().Trim('/');
+        if (string.IsNullOrEmpty(pattern))
+        {
+            return BadRequest(new { message = "A path or glob is required" });
+        }
+
+        page = Math.Max(page, 1);
+        pageSize = Math.Clamp(pageSize, 1, 1000);
+
+        try
+        {
+            // An absolute path typed from the agent is only known to be one of the plan's files when
+            // it lies below the directory the plan's logged paths are relative to
+            string? planPath = null;
+            if (backupPlanId.HasValue && path!.Trim().StartsWith('/'))
+            {
+                var backupPlan = await _context.BackupPlans
+                    .Include(bp => bp.sources)
+                    .AsNoTracking()
+                    .FirstOrDefaultAsync(bp => bp.id == backupPlanId.Value);
+                if (backupPlan != null)
+                {
+                    var root = BackupSources.GetOriginalLocation(backupPlan).TrimEnd('/') + "/";
+                    var absolute = "/" + pattern;
+                    if (absolute.Length > root.Length && absolute.StartsWith(root, StringComparison.Ordinal))
+                    {
+                        planPath = absolute[root.Length..];
+                    }
+                }
+            }
+
+            var query = MatchFilePath(_logContext.LogEntries, pattern, planPath)
+                .Where(log => log.action != "System" && log.action != "Milestone");
+
+            if (backupPlanId.HasValue)
+            {
+                query = query.Where(log => log.backupPlanId == backupPlanId.Value);
+            }
+
+            if (!includeSimulations)
+            {
+                query = query.Where(log => !_logContext.BackupExecutions.Any(e => e.id == log.executionId && e.isSimulation));
+            }
+
+            var totalCount = await query.CountAsync();
+            var fileCount = await query.Select(log => log.filePath).Distinct().CountAsync();
+
+            var files = await query
+                .GroupBy(log => log.filePath)
+                .Select(g => new FileHistoryFileResponse
+                {
+                    FilePath = g.Key,
+                    EntryCount = g.Count(),
+                    FirstSeen = g.Min(log => log.datetime),
+                    LastSeen = g.Max(log => log.datetime),
+                    LastAction = g.OrderByDescending(log => log.datetime).Select(log => log.action).First(),
+                    LastSize = g.OrderByDescending(log => log.datetime).Select(log => log.size).First()
+                })
+                .OrderByDescending(f => f.LastSeen)
+                .Take(MaxHistoryFiles)
+                .ToListAsync();
+
+            var ordered = sortOrder?.ToLower() == "asc"
+                ? query.OrderBy(log => log.datetime)
+                : query.OrderByDescending(log => log.datetime);
+
+            var logs = await ordered
+                .Skip((page - 1) * pageSize)
+                .Take(pageSize)
+                .AsNoTracking()
+                .ToListAsync();
+
+            var executionIds = logs.Select(l => l.executionId).Distinct().ToList();
+            var executions = await _logContext.BackupExecutions
+                .Where(e => executionIds.Contains(e.id))
+                .ToDictionaryAsync(e => e.id);
+
+            var backupPlanIds = logs.Select(l => l.backupPlanId).Distinct().ToList();
+            var backupPlanDict = await _context.BackupPlans
+                .Where(bp => backupPlanIds.Contains(bp.id))
+                .ToDictionaryAsync(bp => bp.id, bp => bp.name);
+
+            var entries = logs.Select(log =>
+            {
+                executions.TryGetValue(log.executionId, out var execution);
+                return new FileHistoryEntryResponse
+                {
+                    Id = log.id,
+                    DateTime = log.datetime,
+                    FileName = log.fileName,
+                    FilePath = log.filePath,
+                    Size = log.size,
+                    Action = log.action,
+                    Reason = log.reason,
+                    BackupPlanId = log.backupPlanId,
+                    BackupPlanName = backupPlanDict.TryGetValue(log.backupPlanId, out var name) ? name : "Unknown Plan",
+                    ExecutionId = log.executionId,
+                    ExecutionStartDateTime = execution?.startDateTime,
+                    ExecutionType = execution?.executionType ?? "Backup",
+                    IsSimulation = execution?.isSimulation ?? false
+                };
+            }).ToList();
+
+            return Ok(new FileHistoryResponse
+            {
+                Entries = entries,
+                Files = files,
+                FileCount = fileCount,
+                TotalCount = totalCount,
+                Page = page,
+                PageSize = pageSize,
+                TotalPages = (int)Math.Ceiling(totalCount / (double)pageSize)
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the history of {Path}", pattern);
+            return StatusCode(500, new { message = "An error occurred while retrieving the file history", error = ex.Message });
+        }
+    }
+
+    [HttpGet("/api/logs/export")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ExportAllLogs(
+        [FromQuery] string format = "csv",
+        [FromQuery] Guid? executionId = null,
+        [FromQuery] string? action = null,
+        [FromQuery] string? fileName = null,
+        [FromQuery] long? minSize = null,
+        [FromQuery] long? maxSize = null,
+        [FromQuery] DateTime? fromDate = null,
+        [FromQuery] DateTime? toDate = null,
+        [FromQuery] Guid? backupPlanId = null,
+        [FromQuery] string? sortBy = "datetime",
+        [FromQuery] string? sortOrder = "desc")
+    {
+        if (!LogExportFormats.Contains(format))
+        {
+            return BadRequest(new { message = $"Export format must be one of: {string.Join(", ", LogExportFormats)}" });
+        }
+
+        IQueryable<LogEntry> query;
+        LogExportHeader header;
+        Dictionary<Guid, string> planNames;
+        try
+        {
+            query = _logContext.LogEntries.AsQueryable();
+            if (executionId.HasValue)
+            {
+                query = query.Where(log => log.executionId == executionId.Value);
+            }
+            if (backupPlanId.HasValue)
+            {
+                query = query.Where(log => log.backupPlanId == backupPlanId.Value);
+            }
+            query = LogKeyset.Sort(FilterLogs(query, action, fileName, minSize, maxSize, fromDate, toDate), sortBy, LogKeyset.IsAscending(sortOrder));
+
+            var filters = DescribeLogFilters(executionId, backupPlanId, action, fileName, minSize, maxSize, fromDate, toDate, sortBy, sortOrder);
+            var builtHeader = await BuildExportHeaderAsync(query, executionId, filters);
+            if (builtHeader == null)
+            {
+                return NotFound(new { message = "Execution not found" });
+            }
+
+            // Plans are few, logs of deleted plans keep their id only
+            planNames = await _context.BackupPlans.ToDictionaryAsync(bp => bp.id, bp => bp.name);
+
+            header = builtHeader;
+            header.BackupPlanId ??= backupPlanId;
+            if (header.BackupPlanId.HasValue)
+            {
+                header.BackupPlanName = planNames.GetValueOrDefault(header.BackupPlanId.Value, "Unknown Plan");
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error preparing the log export. Error:{error}", ex.Message);
+            return StatusCode(500, new { message = "An error occurred while exporting logs", error = ex.Message });
+        }
+
+        await WriteLogExportAsync(format, header, query, planNames);
+        return new EmptyResult();
+    }
+
     [HttpGet("/api/executions")]
     [ProducesResponseType(typeof(List<AllExecutionsResponse>), StatusCodes.Status200OK)]
     public async Task<IActionResult> GetAllExecutions()
@@ -619,7 +948,8 @@ public class BackupLogController : ControllerBase
                     e.backupPlanId,
                     e.name,
                     e.startDateTime,
-                    e.endDateTime
+                    e.endDateTime,
+                    e.executionType
                 })
                 .ToListAsync();
 
@@ -642,7 +972,8 @@ public class BackupLogController : ControllerBase
                     : "Unknown Plan",
                 Name = e.name,
                 StartDateTime = e.startDateTime,
-                EndDateTime = e.endDateTime
+                EndDateTime = e.endDateTime,
+                ExecutionType = e.executionType
             }).ToList();
 
             return Ok(executionResponses);
@@ -653,6 +984,661 @@ public class BackupLogController : ControllerBase
             return StatusCode(500, new { message = "An error occurred while retrieving executions", error = ex.Message });
         }
     }
+
+    [HttpGet("/api/executions/running")]
+    [ProducesResponseType(typeof(List<RunningExecution>), StatusCodes.Status200OK)]
+    public IActionResult GetRunningExecutions([FromQuery] Guid? backupPlanId = null)
+    {
+        return Ok(_runningExecutions.GetRunningExecutions(backupPlanId));
+    }
+
+    /// <summary>
+    /// Statistics of an execution: its progress, the rsync statistics logged at its end and a status
+    /// derived from its finish and milestone log entries.
+    /// </summary>
+    private async Task<ExecutionStatsResponse> BuildExecutionStatsAsync(BackupExecution execution)
+    {
+        var executionId = execution.id;
+
+        // Get rsync command from log entry
+        var commandLog = await _logContext.LogEntries
+            .Where(log => log.executionId == executionId && log.fileName == "rsync-command")
+            .FirstOrDefaultAsync();
+        var rsyncCommand = commandLog?.filePath ?? string.Empty;
+
+        // Get rsync statistics from log entry
+        var statsLog = await _logContext.LogEntries
+            .Where(log => log.executionId == executionId && log.fileName == "rsync-stats")
+            .OrderByDescending(log => log.datetime)
+            .FirstOrDefaultAsync();
+
+        // Initialize default values
+        var stats = new ExecutionStatsResponse
+        {
+            ExecutionId = executionId,
+            StartDateTime = execution.startDateTime,
+            EndDateTime = execution.endDateTime,
+            Status = "Unknown",
+            CurrentFileName = execution.currentFileName,
+            CurrentFilePath = execution.currentFilePath,
+            RsyncCommand = rsyncCommand,
+            TotalFilesToProcess = execution.totalFilesToProcess,
+            CurrentFileIndex = execution.currentFileIndex,
+            ExecutionType = execution.executionType,
+            SnapshotName = execution.snapshotName,
+            StoppedBy = execution.stoppedBy,
+            BlockedDeletions = execution.blockedDeletions,
+            DeletionsApprovedBy = execution.deletionsApprovedBy
+        };
+
+        // Parse statistics from log entry if available
+        if (statsLog != null)
+        {
+            var parts = statsLog.reason.Split('|');
+            foreach (var part in parts)
+            {
+                var keyValue = part.Split(':');
+                if (keyValue.Length == 2)
+                {
+                    var key = keyValue[0];
+                    var value = keyValue[1];
+                    
+                    switch (key)
+                    {
+                        case "TotalFiles":
+                            if (int.TryParse(value.Replace(".", ""), out var totalFiles))
+                                stats.TotalFiles = totalFiles;
+                            break;
+                        case "RegularFiles":
+                            if (int.TryParse(value.Replace(".", ""), out var regularFiles))
+                                stats.RegularFiles = regularFiles;
+                            break;
+                        case "Directories":
+                            if (int.TryParse(value.Replace(".", ""), out var directories))
+                                stats.Directories = directories;
+                            break;
+                        case "CreatedFiles":
+                            if (int.TryParse(value.Replace(".", ""), out var createdFiles))
+                                stats.CreatedFiles = createdFiles;
+                            break;
+                        case "DeletedFiles":
+                            if (int.TryParse(value.Replace(".", ""), out var deletedFiles))
+                                stats.DeletedFiles = deletedFiles;
+                            break;
+                        case "TransferredFiles":
+                            if (int.TryParse(value.Replace(".", ""), out var transferredFiles))
+                                stats.TransferredFiles = transferredFiles;
+                            break;
+                        case "TotalFileSize":
+                            if (long.TryParse(value.Replace(".", ""), out var totalFileSize))
+                                stats.TotalFileSize = totalFileSize;
+                            break;
+                        case "TotalTransferredSize":
+                            if (long.TryParse(value.Replace(".", ""), out var totalTransferredSize))
+                                stats.TotalTransferredSize = totalTransferredSize;
+                            break;
+                        case "LiteralData":
+                            if (long.TryParse(value.Replace(".", ""), out var literalData))
+                                stats.LiteralData = literalData;
+                            break;
+                        case "MatchedData":
+                            if (long.TryParse(value.Replace(".", ""), out var matchedData))
+                                stats.MatchedData = matchedData;
+                            break;
+                        case "FileListSize":
+                            if (long.TryParse(value.Replace(".", ""), out var fileListSize))
+                                stats.FileListSize = fileListSize;
+                            break;
+                        case "FileListGenerationTime":
+                            if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var genTime))
+                                stats.FileListGenerationTime = genTime;
+                            break;
+                        case "FileListTransferTime":
+                            if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var transferTime))
+                                stats.FileListTransferTime = transferTime;
+                            break;
+                        case "TotalBytesSent":
+                            if (long.TryParse(value.Replace(".", ""), out var bytesSent))
+                                stats.TotalBytesSent = bytesSent;
+                            break;
+                        case "TotalBytesReceived":
+                            if (long.TryParse(value.Replace(".", ""), out var bytesReceived))
+                                stats.TotalBytesReceived = bytesReceived;
+                            break;
+                        case "TransferSpeed":
+                            if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var speed))
+                                stats.TransferSpeedBytesPerSecond = speed;
+                            break;
+                        case "Speedup":
+                            if (double.TryParse(value.Replace(",", "."), System.Globalization.NumberStyles.Float, System.Globalization.CultureInfo.InvariantCulture, out var speedup))
+                                stats.Speedup = speedup;
+                            break;
+                    }
+                }
+            }
+        }
+
+        // Calculate duration
+        if (execution.endDateTime.HasValue)
+        {
+            var duration = execution.endDateTime.Value - execution.startDateTime;
+            stats.DurationSeconds = duration.TotalSeconds;
+        }
+        else
+        {
+            var currentDuration = DateTime.UtcNow - execution.startDateTime;
+            stats.DurationSeconds = currentDuration.TotalSeconds;
+        }
+
+        // Determine status based on execution completion and finish log
+        if (execution.endDateTime.HasValue)
+        {
+            // Execution has finished - check if it completed successfully or was interrupted
+            var finishLog = await _logContext.LogEntries
+                .Where(log => log.executionId == executionId && log.fileName == "rsync-finish")
+                .OrderByDescending(log => log.datetime)
+                .FirstOrDefaultAsync();
+
+            // A failing hook with "abort on failure" fails the run even when rsync itself succeeded
+            var abortedByHook = await _logContext.LogEntries
+                .AnyAsync(log => log.executionId == executionId && log.fileName.StartsWith("hook-") && log.action == "CopyError");
+
+            if (execution.blockedDeletions.HasValue)
+            {
+                // Stopped by the deletion guard after the dry-run, nothing was transferred
+                stats.Status = "Blocked";
+            }
+            else if (abortedByHook)
+            {
+                stats.Status = "Interrupted";
+            }
+            else if (finishLog != null)
+            {
+                // Check the action to determine if it was successful or failed
+                if (finishLog.action == "CopyError")
+                {
+                    stats.Status = "Interrupted";
+                }
+                else if (finishLog.reason.Contains("finished successfully") || 
+                         finishLog.reason.Contains("partial transfer"))
+                {
+                    stats.Status = "Completed";
+                }
+                else
+                {
+                    stats.Status = "Interrupted";
+                }
+            }
+            else
+            {
+                // No finish log found but endDateTime is set - likely interrupted
+                stats.Status = "Interrupted";
+            }
+        }
+        else
+        {
+            // Execution is still running - check latest milestone to determine current phase
+            var latestMilestone = await _logContext.LogEntries
+                .Where(log => log.executionId == executionId && log.action == "Milestone")
+                .OrderByDescending(log => log.datetime)
+                .FirstOrDefaultAsync();
+
+            if (latestMilestone != null)
+            {
+                if (latestMilestone.reason.Contains("SourceAnalysisStarted"))
+                {
+                    stats.Status = "Analyzing";
+                }
+                else if (latestMilestone.reason.Contains("CopiesStarted"))
+                {
+                    stats.Status = "Copying";
+                }
+                else if (latestMilestone.reason.Contains("CopiesFinished"))
+                {
+                    stats.Status = "Finalizing";
+                }
+            }
+            else
+            {
+                stats.Status = "Starting";
+            }
+        }
+
+        return stats;
+    }
+
+    private async Task<ComparedExecutionResponse> BuildComparedExecutionAsync(BackupExecution execution, IQueryable<LogEntry> copies)
+    {
+        return new ComparedExecutionResponse
+        {
+            Execution = ToExecutionResponse(execution),
+            Stats = await BuildExecutionStatsAsync(execution),
+            CopiedFiles = await copies.CountAsync(),
+            CopiedSize = await copies.SumAsync(log => log.size ?? 0)
+        };
+    }
+
+    /// <summary>
+    /// Count and total size of the logged files, with the largest of them.
+    /// </summary>
+    private static async Task<ComparedFileListResponse> BuildComparedFileListAsync(IQueryable<LogEntry> query, int limit)
+    {
+        return new ComparedFileListResponse
+        {
+            TotalCount = await query.CountAsync(),
+            TotalSize = await query.SumAsync(log => log.size ?? 0),
+            Files = await query
+                .OrderByDescending(log => log.size ?? 0)
+                .ThenBy(log => log.filePath)
+                .Take(limit)
+                .Select(log => new ComparedFileResponse
+                {
+                    FilePath = log.filePath,
+                    FileName = log.fileName,
+                    Size = log.size,
+                    Reason = log.reason,
+                    DateTime = log.datetime,
+                    ExecutionId = log.executionId
+                })
+                .ToListAsync()
+        };
+    }
+
+    private static BackupExecutionResponse ToExecutionResponse(BackupExecution execution)
+    {
+        return new BackupExecutionResponse
+        {
+            Id = execution.id,
+            Name = execution.name,
+            StartDateTime = execution.startDateTime,
+            EndDateTime = execution.endDateTime,
+            IsAutomatic = execution.isAutomatic,
+            IsSimulation = execution.isSimulation,
+            ExecutionType = execution.executionType,
+            SnapshotName = execution.snapshotName,
+            StoppedBy = execution.stoppedBy,
+            BlockedDeletions = execution.blockedDeletions,
+            DeletionsApprovedBy = execution.deletionsApprovedBy
+        };
+    }
+
+    private static IQueryable<LogEntry> FilterLogs(IQueryable<LogEntry> query, string? action, string? fileName, long? minSize, long? maxSize, DateTime? fromDate, DateTime? toDate)
+    {
+        if (!string.IsNullOrWhiteSpace(action) && action != "All")
+        {
+            query = query.Where(log => log.action == action);
+        }
+
+        if (!string.IsNullOrWhiteSpace(fileName))
+        {
+            // Use ToLower() for case-insensitive search (SQLite compatible)
+            var fileNameLower = fileName.ToLower();
+            query = query.Where(log => log.fileName.ToLower().Contains(fileNameLower));
+        }
+
+        if (minSize.HasValue)
+        {
+            query = query.Where(log => log.size.HasValue && log.size >= minSize.Value);
+        }
+
+        if (maxSize.HasValue)
+        {
+            query = query.Where(log => log.size.HasValue && log.size <= maxSize.Value);
+        }
+
+        if (fromDate.HasValue)
+        {
+            query = query.Where(log => log.datetime >= fromDate.Value);
+        }
+
+        if (toDate.HasValue)
+        {
+            query = query.Where(log => log.datetime <= toDate.Value);
+        }
+
+        return query;
+    }
+
+    /// <summary>
+    /// Reads one page of sorted logs. Without a cursor the page is found by its number and the
+    /// filtered total is counted; with one, the page continues after the row the cursor was made
+    /// from and the count is left out. Returns null when the cursor does not fit the sort.
+    /// </summary>
+    private static async Task<(List<LogEntry> Logs, int? TotalCount, int PageSize, string? NextCursor)?> ReadLogPageAsync(
+        IQueryable<LogEntry> query, int page, int pageSize, string? sortBy, string? sortOrder, string? cursor)
+    {
+        var ascending = LogKeyset.IsAscending(sortOrder);
+        pageSize = Math.Clamp(pageSize, 1, LogKeyset.MaxPageSize);
+
+        int? totalCount = null;
+        IQueryable<LogEntry> pageQuery;
+        if (!string.IsNullOrEmpty(cursor))
+        {
+            if (!LogKeyset.TrySeek(query, sortBy, ascending, cursor, out var after))
+            {
+                return null;
+            }
+
+            pageQuery = LogKeyset.Sort(after, sortBy, ascending);
+        }
+        else
+        {
+            totalCount = await query.CountAsync();
+            pageQuery = LogKeyset.Sort(query, sortBy, ascending).Skip((Math.Max(page, 1) - 1) * pageSize);
+        }
+
+        // One row more than the page tells whether there is a next one
+        var logs = await pageQuery.Take(pageSize + 1).AsNoTracking().ToListAsync();
+        string? nextCursor = null;
+        if (logs.Count > pageSize)
+        {
+            logs.RemoveAt(pageSize);
+            nextCursor = LogKeyset.Encode(logs[^1], sortBy);
+        }
+
+        return (logs, totalCount, pageSize, nextCursor);
+    }
+
+    /// <summary>
+    /// Finds the first row of a path in the sorted logs, the exact path or else the first path
+    /// containing it, with its position and the cursor that loads the logs from it.
+    /// </summary>
+    private static async Task<LogLocationResponse?> LocateLogAsync(IQueryable<LogEntry> query, string path, string? sortBy, string? sortOrder)
+    {
+        var ascending = LogKeyset.IsAscending(sortOrder);
+
+        var match = await LogKeyset.Sort(query.Where(log => log.filePath == path), sortBy, ascending)
+            .AsNoTracking()
+            .FirstOrDefaultAsync();
+        if (match == null)
+        {
+            var pathLower = path.ToLower();
+            match = await LogKeyset.Sort(query.Where(log => log.filePath.ToLower().Contains(pathLower)), sortBy, ascending)
+                .AsNoTracking()
+                .FirstOrDefaultAsync();
+        }
+
+        if (match == null)
+        {
+            return null;
+        }
+
+        // The rows before the match are the rows after it in the reversed order
+        var before = LogKeyset.SeekAfter(query, sortBy, !ascending, match);
+        var previous = await LogKeyset.Sort(before, sortBy, !ascending).AsNoTracking().FirstOrDefaultAsync();
+
+        return new LogLocationResponse
+        {
+            Id = match.id,
+            FilePath = match.filePath,
+            Index = await before.CountAsync(),
+            Cursor = previous != null ? LogKeyset.Encode(previous, sortBy) : null
+        };
+    }
+
+    /// <summary>
+    /// Logged paths are relative to the transfer root (see BackupSources.UseRelativePaths):
+    /// "docs/a.txt" for a single source /home/user/, "user/docs/a.txt" for /home/user and
+    /// "home/user/docs/a.txt" with several sources. A plain path therefore matches a logged path
+    /// equal to it or ending with it, and planPath, the typed absolute path relative to the
+    /// transfer root of the plan searched, when there is one. A glob (*, ?, [...]) is matched with
+    /// SQLite GLOB, where "*" also spans "/", at any depth.
+    /// </summary>
+    private static IQueryable<LogEntry> MatchFilePath(IQueryable<LogEntry> query, string pattern, string? planPath)
+    {
+        if (pattern.IndexOfAny(new[] { '*', '?', '[' }) >= 0)
+        {
+            var anyDepth = "*/" + pattern;
+            return query.Where(log => EF.Functions.Glob(log.filePath, pattern) || EF.Functions.Glob(log.filePath, anyDepth));
+        }
+
+        var suffix = "/" + pattern;
+        var directory = pattern + "/";
+        var planDirectory = planPath + "/";
+        return query.Where(log => log.filePath != ""
+            && (log.filePath == pattern
+                || log.filePath == directory
+                || log.filePath.EndsWith(suffix)
+                || log.filePath.EndsWith(suffix + "/")
+                || (planPath != null && (log.filePath == planPath || log.filePath == planDirectory))));
+    }
+
+    /// <summary>
+    /// The filters an export was made with, so the file tells what it contains.
+    /// </summary>
+    private static Dictionary<string, string> DescribeLogFilters(Guid? executionId, Guid? backupPlanId, string? action, string? fileName, long? minSize, long? maxSize, DateTime? fromDate, DateTime? toDate, string? sortBy, string? sortOrder)
+    {
+        var filters = new Dictionary<string, string?>
+        {
+            ["executionId"] = executionId?.ToString(),
+            ["backupPlanId"] = backupPlanId?.ToString(),
+            ["action"] = string.IsNullOrWhiteSpace(action) || action == "All" ? null : action,
+            ["fileName"] = string.IsNullOrWhiteSpace(fileName) ? null : fileName,
+            ["minSize"] = minSize?.ToString(CultureInfo.InvariantCulture),
+            ["maxSize"] = maxSize?.ToString(CultureInfo.InvariantCulture),
+            ["fromDate"] = fromDate?.ToString("o", CultureInfo.InvariantCulture),
+            ["toDate"] = toDate?.ToString("o", CultureInfo.InvariantCulture),
+            ["sortBy"] = sortBy?.ToLower() ?? "datetime",
+            ["sortOrder"] = sortOrder?.ToLower() == "asc" ? "asc" : "desc"
+        };
+
+        return filters.Where(f => f.Value != null).ToDictionary(f => f.Key, f => f.Value!);
+    }
+
+    /// <summary>
+    /// Header of an export. An export of one execution carries the execution and its statistics,
+    /// returns null when that execution does not exist.
+    /// </summary>
+    private async Task<LogExportHeader?> BuildExportHeaderAsync(IQueryable<LogEntry> query, Guid? executionId, Dictionary<string, string> filters)
+    {
+        var header = new LogExportHeader
+        {
+            ExportedAt = DateTime.UtcNow,
+            ExportedBy = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user",
+            Filters = filters,
+            TotalCount = await query.CountAsync()
+        };
+
+        if (executionId.HasValue)
+        {
+            var execution = await _logContext.BackupExecutions.FirstOrDefaultAsync(e => e.id == executionId.Value);
+            if (execution == null)
+            {
+                return null;
+            }
+
+            header.BackupPlanId = execution.backupPlanId;
+            header.Execution = ToExecutionResponse(execution);
+            header.Stats = await BuildExecutionStatsAsync(execution);
+        }
+
+        return header;
+    }
+
+    /// <summary>
+    /// Streams the logs of the query as a file download, row by row, so exports of any size never
+    /// sit in memory. CSV carries the header as "#" comment lines before the column names, JSON as
+    /// an "export" object next to the "logs" array, NDJSON as its first line.
+    /// </summary>
+    private async Task WriteLogExportAsync(string format, LogExportHeader header, IQueryable<LogEntry> query, Dictionary<Guid, string> planNames)
+    {
+        var fileBaseName = header.BackupPlanName != null
+            ? Regex.Replace(header.BackupPlanName, "[^A-Za-z0-9_-]+", "-").Trim('-')
+            : "all";
+        var fileName = $"logs-{(fileBaseName.Length > 0 ? fileBaseName : "plan")}-{header.ExportedAt:yyyyMMdd-HHmmss}.{format}";
+
+        Response.ContentType = format switch
+        {
+            "json" => "application/json",
+            "ndjson" => "application/x-ndjson",
+            _ => "text/csv; charset=utf-8"
+        };
+        Response.Headers.ContentDisposition = $"attachment; filename=\"{fileName}\"";
+
+        var cancellationToken = HttpContext.RequestAborted;
+        var rows = ReadExportRowsAsync(query, planNames, cancellationToken);
+
+        try
+        {
+            if (format == "json")
+            {
+                await using var writer = new Utf8JsonWriter(Response.Body);
+                writer.WriteStartObject();
+                writer.WritePropertyName("export");
+                JsonSerializer.Serialize(writer, header, ExportJsonOptions);
+                writer.WriteStartArray("logs");
+
+                var count = 0;
+                await foreach (var row in rows)
+                {
+                    JsonSerializer.Serialize(writer, row, ExportJsonOptions);
+                    if (++count % ExportFlushInterval == 0)
+                    {
+                        await writer.FlushAsync(cancellationToken);
+                    }
+                }
+
+                writer.WriteEndArray();
+                writer.WriteEndObject();
+                await writer.FlushAsync(cancellationToken);
+                return;
+            }
+
+            // The byte order mark makes spreadsheet applications read the CSV as UTF-8
+            await using var textWriter = new StreamWriter(Response.Body, new UTF8Encoding(format == "csv"), bufferSize: -1, leaveOpen: true);
+            if (format == "ndjson")
+            {
+                await textWriter.WriteLineAsync(JsonSerializer.Serialize(new { export = header }, ExportJsonOptions));
+                await foreach (var row in rows)
+                {
+                    await textWriter.WriteLineAsync(JsonSerializer.Serialize(row, ExportJsonOptions));
+                }
+            }
+            else
+            {
+                foreach (var line in DescribeExportHeader(header))
+                {
+                    await textWriter.WriteLineAsync($"# {line}");
+                }
+                await textWriter.WriteLineAsync("DateTime,Backup Plan,Execution,Action,File Name,File Path,Size,Reason");
+                await foreach (var row in rows)
+                {
+                    await textWriter.WriteLineAsync(string.Join(',',
+                        row.DateTime.ToString("o", CultureInfo.InvariantCulture),
+                        CsvField(row.BackupPlanName),
+                        row.ExecutionId,
+                        row.Action,
+                        CsvField(row.FileName),
+                        CsvField(row.FilePath),
+                        row.Size?.ToString(CultureInfo.InvariantCulture) ?? string.Empty,
+                        CsvField(row.Reason)));
+                }
+            }
+            await textWriter.FlushAsync(cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            // The client went away, nobody is left to receive the rest
+        }
+        catch (Exception ex)
+        {
+            // The status is already sent, aborting keeps a truncated file from looking complete
+            _logger.LogError(ex, "Error streaming the log export {FileName}", fileName);
+            HttpContext.Abort();
+        }
+    }
+
+    private static async IAsyncEnumerable<LogExportRow> ReadExportRowsAsync(IQueryable<LogEntry> query, Dictionary<Guid, string> planNames, [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        var logs = query
+            .AsNoTracking()
+            .Select(log => new
+            {
+                log.datetime,
+                log.backupPlanId,
+                log.executionId,
+                log.action,
+                log.fileName,
+                log.filePath,
+                log.size,
+                log.reason
+            })
+            .AsAsyncEnumerable()
+            .WithCancellation(cancellationToken);
+
+        await foreach (var log in logs)
+        {
+            yield return new LogExportRow
+            {
+                // Log times are stored in UTC without a kind
+                DateTime = DateTime.SpecifyKind(log.datetime, DateTimeKind.Utc),
+                BackupPlanId = log.backupPlanId,
+                BackupPlanName = planNames.GetValueOrDefault(log.backupPlanId, "Unknown Plan"),
+                ExecutionId = log.executionId,
+                Action = log.action,
+                FileName = log.fileName,
+                FilePath = log.filePath,
+                Size = log.size,
+                Reason = log.reason
+            };
+        }
+    }
+
+    /// <summary>
+    /// The export header as "key: value" lines, the execution and statistics flattened with their
+    /// JSON names.
+    /// </summary>
+    private static IEnumerable<string> DescribeExportHeader(LogExportHeader header)
+    {
+        yield return $"exportedAt: {DateTime.SpecifyKind(header.ExportedAt, DateTimeKind.Utc):o}";
+        yield return $"exportedBy: {SingleLine(header.ExportedBy)}";
+        if (header.BackupPlanId.HasValue)
+        {
+            yield return $"backupPlan: {SingleLine(header.BackupPlanName ?? string.Empty)} ({header.BackupPlanId})";
+        }
+        foreach (var filter in header.Filters)
+        {
+            yield return $"filter.{filter.Key}: {SingleLine(filter.Value)}";
+        }
+        yield return $"totalCount: {header.TotalCount}";
+
+        foreach (var (prefix, value) in new (string, object?)[] { ("execution", header.Execution), ("stats", header.Stats) })
+        {
+            if (value == null)
+            {
+                continue;
+            }
+
+            foreach (var property in JsonSerializer.SerializeToElement(value, ExportJsonOptions).EnumerateObject())
+            {
+                var text = property.Value.ValueKind == JsonValueKind.String ? property.Value.GetString() : property.Value.GetRawText();
+                yield return $"{prefix}.{property.Name}: {SingleLine(text ?? string.Empty)}";
+            }
+        }
+    }
+
+    /// <summary>
+    /// Quotes a CSV field when needed. Fields starting like a formula get a leading apostrophe, file
+    /// names come from the agents and spreadsheet applications would run them.
+    /// </summary>
+    private static string CsvField(string? value)
+    {
+        if (string.IsNullOrEmpty(value))
+        {
+            return string.Empty;
+        }
+
+        if ("=+-@\t\r".Contains(value[0]))
+        {
+            value = "'" + value;
+        }
+
+        return value.IndexOfAny(new[] { ',', '"', '\r', '\n' }) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+
+    private static string SingleLine(string value) => value.Replace('\r', ' ').Replace('\n', ' ');
 }
 
 public class LogEntryResponse
@@ -683,6 +1669,11 @@ public class BackupExecutionResponse
     public DateTime? EndDateTime { get; set; }
     public bool IsAutomatic { get; set; }
     public bool IsSimulation { get; set; }
+    public string ExecutionType { get; set; } = "Backup";
+    public string? SnapshotName { get; set; }
+    public string? StoppedBy { get; set; }
+    public int? BlockedDeletions { get; set; }
+    public string? DeletionsApprovedBy { get; set; }
 }
 
 public class ExecutionStatsResponse
@@ -718,6 +1709,11 @@ public class ExecutionStatsResponse
     // Progress tracking
     public int? TotalFilesToProcess { get; set; }
     public int CurrentFileIndex { get; set; }
+    public string ExecutionType { get; set; } = "Backup";
+    public string? SnapshotName { get; set; }
+    public string? StoppedBy { get; set; }
+    public int? BlockedDeletions { get; set; }
+    public string? DeletionsApprovedBy { get; set; }
 }
 
 public class AllLogsEntryResponse
@@ -741,6 +1737,149 @@ public class AllExecutionsResponse
     public string Name { get; set; } = string.Empty;
     public DateTime StartDateTime { get; set; }
     public DateTime? EndDateTime { get; set; }
+    public string ExecutionType { get; set; } = "Backup";
+}
+
+public class LogExportHeader
+{
+    public DateTime ExportedAt { get; set; }
+    public string ExportedBy { get; set; } = string.Empty;
+    public Guid? BackupPlanId { get; set; }
+    public string? BackupPlanName { get; set; }
+    public Dictionary<string, string> Filters { get; set; } = new();
+    public int TotalCount { get; set; }
+
+    // Set when a single execution is exported
+    public BackupExecutionResponse? Execution { get; set; }
+    public ExecutionStatsResponse? Stats { get; set; }
+}
+
+public class LogExportRow
+{
+    public DateTime DateTime { get; set; }
+    public Guid BackupPlanId { get; set; }
+    public string BackupPlanName { get; set; } = string.Empty;
+    public Guid ExecutionId { get; set; }
+    public string Action { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public string FilePath { get; set; } = string.Empty;
+    public long? Size { get; set; }
+    public string Reason { get; set; } = string.Empty;
+}
+
+public class ExecutionComparisonResponse
+{
+    public ComparedExecutionResponse Base { get; set; } = new();
+    public ComparedExecutionResponse Target { get; set; } = new();
+    public ComparedFileListResponse OnlyInBase { get; set; } = new();
+    public ComparedFileListResponse OnlyInTarget { get; set; } = new();
+    public ComparedFileListResponse DeletedBetween { get; set; } = new();
+    public FileSizeChangeListResponse SizeChanges { get; set; } = new();
+}
+
+public class ComparedExecutionResponse
+{
+    public BackupExecutionResponse Execution { get; set; } = new();
+    public ExecutionStatsResponse Stats { get; set; } = new();
+    public int CopiedFiles { get; set; }
+    public long CopiedSize { get; set; }
+}
+
+public class ComparedFileListResponse
+{
+    public int TotalCount { get; set; }
+    public long TotalSize { get; set; }
+    public List<ComparedFileResponse> Files { get; set; } = new(); // Largest first, at most the requested limit
+}
+
+public class ComparedFileResponse
+{
+    public string FilePath { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public long? Size { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public DateTime DateTime { get; set; }
+    public Guid ExecutionId { get; set; }
+}
+
+public class FileSizeChangeListResponse
+{
+    public int TotalCount { get; set; }
+    public long TotalDelta { get; set; }
+    public List<FileSizeChangeResponse> Files { get; set; } = new(); // Largest change first, at most the requested limit
+}
+
+public class FileSizeChangeResponse
+{
+    public string FilePath { get; set; } = string.Empty;
+    public string FileName { get; set; } = string.Empty;
+    public long BaseSize { get; set; }
+    public long TargetSize { get; set; }
+    public long Delta { get; set; }
+}
+
+public class FileHistoryResponse
+{
+    public List<FileHistoryEntryResponse> Entries { get; set; } = new();
+    public List<FileHistoryFileResponse> Files { get; set; } = new(); // Matched paths, last seen first, at most 50
+    public int FileCount { get; set; }
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+    public int TotalPages { get; set; }
+}
+
+public class FileHistoryEntryResponse
+{
+    public Guid Id { get; set; }
+    public DateTime DateTime { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string FilePath { get; set; } = string.Empty;
+    public long? Size { get; set; }
+    public string Action { get; set; } = string.Empty;
+    public string Reason { get; set; } = string.Empty;
+    public Guid BackupPlanId { get; set; }
+    public string BackupPlanName { get; set; } = string.Empty;
+    public Guid ExecutionId { get; set; }
+    public DateTime? ExecutionStartDateTime { get; set; }
+    public string ExecutionType { get; set; } = "Backup";
+    public bool IsSimulation { get; set; }
 }
 
+public class FileHistoryFileResponse
+{
+    public string FilePath { get; set; } = string.Empty;
+    public int EntryCount { get; set; }
+    public DateTime FirstSeen { get; set; }
+    public DateTime LastSeen { get; set; }
+    public string LastAction { get; set; } = string.Empty;
+    public long? LastSize { get; set; }
+}
 
+public class LogLocationResponse
+{
+    public Guid Id { get; set; }
+    public string FilePath { get; set; } = string.Empty;
+    public int Index { get; set; } // Rows before it in the filtered and sorted logs
+    public string? Cursor { get; set; } // Loads the logs from this row on, null when it is the first
+}
+
+public class DirectoryLevelResponse
+{
+    public string Path { get; set; } = string.Empty; // Relative, with a trailing slash, empty for the transfer root
+    public DirectoryNodeResponse Totals { get; set; } = new();
+    public List<DirectoryNodeResponse> Children { get; set; } = new(); // Most bytes copied first, at most 500
+    public int ChildCount { get; set; }
+}
+
+public class DirectoryNodeResponse
+{
+    public string Name { get; set; } = string.Empty;
+    public string Path { get; set; } = string.Empty;
+    public bool IsDirectory { get; set; }
+    public int Files { get; set; }
+    public int Copied { get; set; }
+    public int Deleted { get; set; }
+    public int Errored { get; set; }
+    public long CopiedBytes { get; set; }
+}
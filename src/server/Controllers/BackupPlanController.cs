@@ -1,8 +1,11 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using server.Data;
 using server.Models;
 using server.HostedServices;
+using server.Services;
 
 namespace server.Controllers;
 
@@ -29,11 +32,6 @@ public class BackupPlanController : ControllerBase
             return BadRequest(new { message = "Name is required" });
         }
 
-        if (string.IsNullOrWhiteSpace(request.Source))
-        {
-            return BadRequest(new { message = "Source is required" });
-        }
-
         if (string.IsNullOrWhiteSpace(request.Destination))
         {
             return BadRequest(new { message = "Destination is required" });
@@ -76,7 +74,49 @@ public class BackupPlanController : ControllerBase
             rsyncHost = request.RsyncHost.Trim();
             rsyncUser = request.RsyncUser?.Trim();
             rsyncPort = request.RsyncPort ?? 22;
-            rsyncSshKey = request.RsyncSshKey?.Trim();
+            rsyncSshKey = string.IsNullOrWhiteSpace(request.RsyncSshKey) ? null : SecretEncryption.Encrypt(request.RsyncSshKey.Trim());
+        }
+
+        var timezone = PlanSchedules.NormalizeTimezone(request.Timezone, out var timezoneError);
+        if (timezoneError != null)
+        {
+            return BadRequest(new { message = timezoneError });
+        }
+
+        var sources = BackupSources.Normalize(request.Sources, out var sourcesError);
+        if (sourcesError != null)
+        {
+            return BadRequest(new { message = sourcesError });
+        }
+
+        var filterRules = RsyncFilterRules.Normalize(request.FilterRules, out var filterRulesError);
+        if (filterRulesError != null)
+        {
+            return BadRequest(new { message = filterRulesError });
+        }
+
+        var rsyncOptionsError = request.RsyncOptions != null ? RsyncTransferOptions.Validate(request.RsyncOptions) : null;
+        if (rsyncOptionsError != null)
+        {
+            return BadRequest(new { message = rsyncOptionsError });
+        }
+
+        var deletionGuardError = request.DeletionGuard != null ? DeletionGuard.Validate(request.DeletionGuard) : null;
+        if (deletionGuardError != null)
+        {
+            return BadRequest(new { message = deletionGuardError });
+        }
+
+        var snapshotOptionsError = request.SnapshotOptions != null ? HardlinkSnapshots.Validate(request.SnapshotOptions) : null;
+        if (snapshotOptionsError != null)
+        {
+            return BadRequest(new { message = snapshotOptionsError });
+        }
+
+        var hooksError = request.Hooks != null ? SshHooks.Validate(request.Hooks) : null;
+        if (hooksError != null)
+        {
+            return BadRequest(new { message = hooksError });
         }
 
         var backupPlan = new BackupPlan
@@ -85,9 +125,11 @@ public class BackupPlanController : ControllerBase
             name = request.Name.Trim(),
             description = request.Description?.Trim() ?? string.Empty,
             schedule = string.IsNullOrWhiteSpace(request.Schedule) ? "0 0 * * *" : request.Schedule.Trim(),
-            source = request.Source.Trim(),
+            timezone = timezone,
+            sources = sources,
             destination = request.Destination.Trim(),
             active = request.Active,
+            filterRules = filterRules,
             rsyncHost = rsyncHost,
             rsyncUser = rsyncUser,
             rsyncPort = rsyncPort,
@@ -95,6 +137,26 @@ public class BackupPlanController : ControllerBase
             agent = agent // Set the agent relationship if provided
         };
 
+        if (request.RsyncOptions != null)
+        {
+            RsyncTransferOptions.Apply(backupPlan, request.RsyncOptions);
+        }
+
+        if (request.DeletionGuard != null)
+        {
+            DeletionGuard.Apply(backupPlan, request.DeletionGuard);
+        }
+
+        if (request.SnapshotOptions != null)
+        {
+            HardlinkSnapshots.Apply(backupPlan, request.SnapshotOptions);
+        }
+
+        if (request.Hooks != null)
+        {
+            SshHooks.Apply(backupPlan, request.Hooks);
+        }
+
         try
         {
             _context.BackupPlans.Add(backupPlan);
@@ -129,7 +191,8 @@ public class BackupPlanController : ControllerBase
                            Name = bp.name,
                            Description = bp.description,
                            Schedule = bp.schedule,
-                           Source = bp.source,
+                           Timezone = bp.timezone,
+                           Sources = bp.sources.OrderBy(s => s.position).ToList(),
                            Destination = bp.destination,
                            Active = bp.active,
                            AgentId = EF.Property<Guid?>(bp, "agentid"),
@@ -153,7 +216,9 @@ public class BackupPlanController : ControllerBase
     {
         try
         {
-            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            var backupPlan = await _context.BackupPlans
+                .Include(bp => bp.sources.OrderBy(s => s.position))
+                .FirstOrDefaultAsync(bp => bp.id == id);
 
             if (backupPlan == null)
             {
@@ -180,19 +245,58 @@ public class BackupPlanController : ControllerBase
             return BadRequest(new { message = "Name is required" });
         }
 
-        if (string.IsNullOrWhiteSpace(request.Source))
+        if (string.IsNullOrWhiteSpace(request.Destination))
         {
-            return BadRequest(new { message = "Source is required" });
+            return BadRequest(new { message = "Destination is required" });
         }
 
-        if (string.IsNullOrWhiteSpace(request.Destination))
+        var timezone = PlanSchedules.NormalizeTimezone(request.Timezone, out var timezoneError);
+        if (timezoneError != null)
         {
-            return BadRequest(new { message = "Destination is required" });
+            return BadRequest(new { message = timezoneError });
+        }
+
+        var sources = BackupSources.Normalize(request.Sources, out var sourcesError);
+        if (sourcesError != null)
+        {
+            return BadRequest(new { message = sourcesError });
+        }
+
+        var filterRules = RsyncFilterRules.Normalize(request.FilterRules, out var filterRulesError);
+        if (filterRulesError != null)
+        {
+            return BadRequest(new { message = filterRulesError });
+        }
+
+        var rsyncOptionsError = request.RsyncOptions != null ? RsyncTransferOptions.Validate(request.RsyncOptions) : null;
+        if (rsyncOptionsError != null)
+        {
+            return BadRequest(new { message = rsyncOptionsError });
+        }
+
+        var deletionGuardError = request.DeletionGuard != null ? DeletionGuard.Validate(request.DeletionGuard) : null;
+        if (deletionGuardError != null)
+        {
+            return BadRequest(new { message = deletionGuardError });
+        }
+
+        var snapshotOptionsError = request.SnapshotOptions != null ? HardlinkSnapshots.Validate(request.SnapshotOptions) : null;
+        if (snapshotOptionsError != null)
+        {
+            return BadRequest(new { message = snapshotOptionsError });
+        }
+
+        var hooksError = request.Hooks != null ? SshHooks.Validate(request.Hooks) : null;
+        if (hooksError != null)
+        {
+            return BadRequest(new { message = hooksError });
         }
 
         try
         {
-            var backupPlan = await _context.BackupPlans.FindAsync(id);
+            var backupPlan = await _context.BackupPlans
+                .Include(bp => bp.sources)
+                .FirstOrDefaultAsync(bp => bp.id == id);
 
             if (backupPlan == null)
             {
@@ -203,9 +307,39 @@ public class BackupPlanController : ControllerBase
             backupPlan.name = request.Name.Trim();
             backupPlan.description = request.Description?.Trim() ?? string.Empty;
             backupPlan.schedule = string.IsNullOrWhiteSpace(request.Schedule) ? "0 0 * * *" : request.Schedule.Trim();
-            backupPlan.source = request.Source.Trim();
+            backupPlan.timezone = timezone;
             backupPlan.destination = request.Destination.Trim();
             backupPlan.active = request.Active;
+
+            // The sources of the form replace the saved ones
+            _context.BackupPlanSources.RemoveRange(backupPlan.sources);
+            backupPlan.sources = sources;
+
+            // Filter rules are only replaced when the client sends them
+            if (request.FilterRules != null)
+            {
+                backupPlan.filterRules = filterRules;
+            }
+
+            if (request.RsyncOptions != null)
+            {
+                RsyncTransferOptions.Apply(backupPlan, request.RsyncOptions);
+            }
+
+            if (request.DeletionGuard != null)
+            {
+                DeletionGuard.Apply(backupPlan, request.DeletionGuard);
+            }
+
+            if (request.SnapshotOptions != null)
+            {
+                HardlinkSnapshots.Apply(backupPlan, request.SnapshotOptions);
+            }
+
+            if (request.Hooks != null)
+            {
+                SshHooks.Apply(backupPlan, request.Hooks);
+            }
             
             // Update rsync properties if provided
             if (!string.IsNullOrWhiteSpace(request.RsyncHost))
@@ -222,7 +356,7 @@ public class BackupPlanController : ControllerBase
             }
             if (request.RsyncSshKey != null)
             {
-                backupPlan.rsyncSshKey = request.RsyncSshKey.Trim();
+                backupPlan.rsyncSshKey = string.IsNullOrWhiteSpace(request.RsyncSshKey) ? null : SecretEncryption.Encrypt(request.RsyncSshKey.Trim());
             }
 
             await _context.SaveChangesAsync();
@@ -256,6 +390,7 @@ public class BackupPlanController : ControllerBase
 
             // Get backup plans for the agent
             var backupPlans = await _context.BackupPlans
+                .Include(bp => bp.sources.OrderBy(s => s.position))
                 .Where(bp => EF.Property<Guid?>(bp, "agentid") == agentId)
                 .ToListAsync();
 
@@ -307,6 +442,7 @@ public class BackupPlanController : ControllerBase
         {
             var backupPlan = await _context.BackupPlans
                 .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
                 .FirstOrDefaultAsync(bp => bp.id == id);
 
             if (backupPlan == null)
@@ -341,6 +477,7 @@ public class BackupPlanController : ControllerBase
         {
             var backupPlan = await _context.BackupPlans
                 .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
                 .FirstOrDefaultAsync(bp => bp.id == id);
 
             if (backupPlan == null)
@@ -377,5 +514,65 @@ public class BackupPlanController : ControllerBase
             return StatusCode(500, new { message = "An error occurred while starting the backup plan execution", error = ex.Message });
         }
     }
+
+    [HttpPost("/api/backupplan/{id}/stop")]
+    [Authorize]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public IActionResult StopBackupPlan(Guid id)
+    {
+        try
+        {
+            var runningExecutionService = HttpContext.RequestServices.GetRequiredService<RunningExecutionService>();
+            var runningExecutions = runningExecutionService.GetRunningExecutions(id);
+
+            if (runningExecutions.Count == 0)
+            {
+                return NotFound(new { message = "Backup plan has no running execution" });
+            }
+
+            var stoppedBy = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            foreach (var execution in runningExecutions)
+            {
+                runningExecutionService.RequestStop(execution.ExecutionId, stoppedBy);
+            }
+
+            return Ok(new { message = "Backup plan execution stop requested", count = runningExecutions.Count });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error stopping backup plan {BackupPlanId}", id);
+            return StatusCode(500, new { message = "An error occurred while stopping the backup plan", error = ex.Message });
+        }
+    }
+
+    [HttpPost("/api/backupplan/{id}/executions/{executionId}/stop")]
+    [Authorize]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public IActionResult StopExecution(Guid id, Guid executionId)
+    {
+        try
+        {
+            var runningExecutionService = HttpContext.RequestServices.GetRequiredService<RunningExecutionService>();
+            var isRunning = runningExecutionService.GetRunningExecutions(id)
+                .Any(e => e.ExecutionId == executionId);
+
+            if (!isRunning)
+            {
+                return NotFound(new { message = "Execution is not running" });
+            }
+
+            var stoppedBy = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            runningExecutionService.RequestStop(executionId, stoppedBy);
+
+            return Ok(new { message = "Execution stop requested" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error stopping execution {ExecutionId} of backup plan {BackupPlanId}", executionId, id);
+            return StatusCode(500, new { message = "An error occurred while stopping the execution", error = ex.Message });
+        }
+    }
 }
 
@@ -0,0 +1,179 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using server.Data;
+using server.Models;
+using server.HostedServices;
+using server.Services;
+
+namespace server.Controllers;
+
+[ApiController]
+[Authorize]
+public class DeletionGuardController : ControllerBase
+{
+    private readonly DBContext _context;
+    private readonly LogDbContext _logContext;
+    private readonly ILogger<DeletionGuardController> _logger;
+
+    public DeletionGuardController(DBContext context, LogDbContext logContext, ILogger<DeletionGuardController> logger)
+    {
+        _context = context;
+        _logContext = logContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// The changes a run blocked by the deletion guard would have made, in the shape of a simulation
+    /// result so they can be reviewed the same way.
+    /// </summary>
+    [HttpGet("/api/backupplan/{id}/executions/{executionId}/blocked-changes")]
+    [ProducesResponseType(typeof(BlockedChangesResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetBlockedChanges(Guid id, Guid executionId)
+    {
+        try
+        {
+            var execution = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == executionId && e.backupPlanId == id);
+
+            if (execution == null || !execution.blockedDeletions.HasValue)
+            {
+                return NotFound(new { message = "Execution was not blocked by the deletion guard" });
+            }
+
+            var entries = await _logContext.LogEntries
+                .Where(log => log.executionId == executionId)
+                .OrderBy(log => log.datetime)
+                .ToListAsync();
+
+            var items = entries
+                .Where(log => log.action == "DeleteSkipped" || log.action == "CopySkipped")
+                .Select(log => new ExecutionItems
+                {
+                    FileName = log.fileName,
+                    FilePath = log.filePath,
+                    Action = log.action == "DeleteSkipped" ? "Delete" : "Copy",
+                    Reason = log.reason
+                })
+                .ToList();
+
+            var guardEntry = entries.LastOrDefault(log => log.fileName == "deletion-guard" && log.action == "CopyError");
+            var itemsToCopy = items.Count(i => i.Action == "Copy");
+
+            return Ok(new BlockedChangesResponse
+            {
+                ExecutionId = executionId,
+                Items = items,
+                TotalItems = execution.blockedDeletions.Value + itemsToCopy,
+                ItemsToCopy = itemsToCopy,
+                ItemsToDelete = execution.blockedDeletions.Value,
+                Reason = guardEntry?.reason ?? string.Empty,
+                ApprovedBy = execution.deletionsApprovedBy,
+                CanApprove = execution.deletionsApprovedBy == null &&
+                             execution.startDateTime >= DateTime.UtcNow - DeletionGuard.ApprovalValidity,
+                // At most MaxLoggedChanges changes of each kind were stored when the run was blocked
+                Truncated = items.Count(i => i.Action == "Delete") >= DeletionGuard.MaxLoggedChanges ||
+                            itemsToCopy >= DeletionGuard.MaxLoggedChanges
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving blocked changes of execution {ExecutionId}", executionId);
+            return StatusCode(500, new { message = "An error occurred while retrieving the blocked changes", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Approves the deletions of a blocked run and starts the backup again. The new run may delete
+    /// up to the number of files that were blocked, a larger deletion is blocked again.
+    /// </summary>
+    [HttpPost("/api/backupplan/{id}/executions/{executionId}/approve")]
+    [ProducesResponseType(StatusCodes.Status202Accepted)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ApproveBlockedExecution(Guid id, Guid executionId)
+    {
+        try
+        {
+            var backupPlan = await _context.BackupPlans
+                .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
+                .FirstOrDefaultAsync(bp => bp.id == id);
+
+            if (backupPlan == null)
+            {
+                return NotFound(new { message = "Backup plan not found" });
+            }
+
+            var execution = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == executionId && e.backupPlanId == id);
+
+            if (execution == null || !execution.blockedDeletions.HasValue)
+            {
+                return NotFound(new { message = "Execution was not blocked by the deletion guard" });
+            }
+
+            if (execution.deletionsApprovedBy != null)
+            {
+                return BadRequest(new { message = $"Deletions were already approved by {execution.deletionsApprovedBy}" });
+            }
+
+            if (execution.startDateTime < DateTime.UtcNow - DeletionGuard.ApprovalValidity)
+            {
+                return BadRequest(new { message = "The blocked run is too old to be approved, run the backup again" });
+            }
+
+            var runningExecutionService = HttpContext.RequestServices.GetRequiredService<RunningExecutionService>();
+            if (runningExecutionService.GetRunningExecutions(id).Count > 0)
+            {
+                return BadRequest(new { message = "Backup plan is already running" });
+            }
+
+            var approvedBy = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            var approvedDeletions = execution.blockedDeletions.Value;
+            execution.deletionsApprovedBy = approvedBy;
+            await _logContext.SaveChangesAsync();
+
+            _logger.LogInformation("Deletion of {Count} files by backup plan {BackupPlanId} approved by {ApprovedBy}",
+                approvedDeletions, id, approvedBy);
+
+            var executor = HttpContext.RequestServices.GetRequiredService<BackupPlanExecutor>();
+
+            // Execute asynchronously in the background (manual execution)
+            _ = Task.Run(async () =>
+            {
+                try
+                {
+                    await executor.ExecuteBackupPlanAsync(backupPlan, false, false, approvedDeletions);
+                    _logger.LogInformation("Approved execution of backup plan {BackupPlanId} completed successfully", id);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error during approved execution of backup plan {BackupPlanId}", id);
+                }
+            });
+
+            return Accepted(new { message = "Deletions approved, backup started" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error approving execution {ExecutionId} of backup plan {BackupPlanId}", executionId, id);
+            return StatusCode(500, new { message = "An error occurred while approving the execution", error = ex.Message });
+        }
+    }
+}
+
+public class BlockedChangesResponse
+{
+    public Guid ExecutionId { get; set; }
+    public List<ExecutionItems> Items { get; set; } = new();
+    public int TotalItems { get; set; }
+    public int ItemsToCopy { get; set; }
+    public int ItemsToDelete { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public string? ApprovedBy { get; set; }
+    public bool CanApprove { get; set; }
+    public bool Truncated { get; set; }
+}
@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using server.Models;
+using server.Services;
 
 namespace server.Controllers;
 
@@ -167,6 +168,29 @@ public class FileSystemController : ControllerBase
                 return StatusCode(500, new { message = $"Error reading directory: {ex.Message}" });
             }
 
+            // Inside a ZFS snapshot, compare every item with its live copy
+            if (ZfsSnapshots.TryParseSnapshotPath(directoryPath, out var snapshotName, out _, out var liveDirectory))
+            {
+                foreach (var item in items)
+                {
+                    var livePath = System.IO.Path.Combine(liveDirectory, item.Name);
+                    item.Snapshot = snapshotName;
+                    if (item.Type == "file")
+                    {
+                        var liveFile = new FileInfo(livePath);
+                        item.LiveExists = liveFile.Exists;
+                        item.LiveSize = liveFile.Exists ? liveFile.Length : null;
+                        item.LiveLastModified = liveFile.Exists ? liveFile.LastWriteTimeUtc : null;
+                    }
+                    else
+                    {
+                        var liveDir = new DirectoryInfo(livePath);
+                        item.LiveExists = liveDir.Exists;
+                        item.LiveLastModified = liveDir.Exists ? liveDir.LastWriteTimeUtc : null;
+                    }
+                }
+            }
+
             var dirCount = items.Count(i => i.Type == "directory");
             var fileCount = items.Count(i => i.Type == "file");
 
@@ -186,6 +210,136 @@ public class FileSystemController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// List the ZFS snapshots of the dataset containing a directory or file
+    /// </summary>
+    /// <param name="dir">Live path or a path inside a snapshot (query parameter)</param>
+    /// <returns>The dataset root and its snapshots, newest first. Empty when the path is not on ZFS.</returns>
+    [HttpGet("snapshots")]
+    [ProducesResponseType(typeof(ZfsSnapshotsResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public IActionResult GetSnapshots([FromQuery] string? dir)
+    {
+        if (string.IsNullOrWhiteSpace(dir) || dir.Contains(".."))
+        {
+            return BadRequest(new { message = "Invalid directory path" });
+        }
+
+        var path = dir.Trim();
+
+        try
+        {
+            string? currentSnapshot = null;
+            var livePath = path;
+            string? datasetRoot;
+            if (ZfsSnapshots.TryParseSnapshotPath(path, out var snapshotName, out var snapshotDatasetRoot, out var snapshotLivePath))
+            {
+                currentSnapshot = snapshotName;
+                datasetRoot = snapshotDatasetRoot;
+                livePath = snapshotLivePath;
+            }
+            else
+            {
+                datasetRoot = ZfsSnapshots.FindDatasetRoot(path);
+            }
+
+            var response = new ZfsSnapshotsResponse
+            {
+                DatasetRoot = datasetRoot,
+                LivePath = livePath,
+                CurrentSnapshot = currentSnapshot,
+                Snapshots = datasetRoot != null
+                    ? ZfsSnapshots.ListSnapshots(datasetRoot, livePath, _logger)
+                    : new List<ZfsSnapshot>()
+            };
+
+            return Ok(response);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Access denied to snapshots of: {Path}", path);
+            return StatusCode(403, new { message = $"Access denied to snapshots of: {path}" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error listing snapshots of: {Path}", path);
+            return StatusCode(500, new { message = $"An error occurred: {ex.Message}" });
+        }
+    }
+
+    /// <summary>
+    /// Compare a file with its copy in every ZFS snapshot of its dataset
+    /// </summary>
+    /// <param name="path">Live path of the file (query parameter)</param>
+    /// <returns>The live file and one version per snapshot that contains it, newest first</returns>
+    [HttpGet("versions")]
+    [ProducesResponseType(typeof(FileVersionsResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public IActionResult GetFileVersions([FromQuery] string? path)
+    {
+        if (string.IsNullOrWhiteSpace(path) || path.Contains(".."))
+        {
+            return BadRequest(new { message = "Invalid file path" });
+        }
+
+        var livePath = path.Trim();
+        if (ZfsSnapshots.TryParseSnapshotPath(livePath, out _, out _, out var snapshotLivePath))
+        {
+            livePath = snapshotLivePath;
+        }
+
+        if (Directory.Exists(livePath))
+        {
+            return BadRequest(new { message = "Versions can only be compared for files" });
+        }
+
+        try
+        {
+            var liveFile = new FileInfo(livePath);
+            var response = new FileVersionsResponse
+            {
+                LivePath = livePath,
+                LiveExists = liveFile.Exists,
+                LiveSize = liveFile.Exists ? liveFile.Length : null,
+                LiveLastModified = liveFile.Exists ? liveFile.LastWriteTimeUtc : null
+            };
+
+            var datasetRoot = ZfsSnapshots.FindDatasetRoot(System.IO.Path.GetDirectoryName(livePath) ?? "/");
+            if (datasetRoot != null)
+            {
+                foreach (var snapshot in ZfsSnapshots.ListSnapshots(datasetRoot, livePath, _logger))
+                {
+                    var snapshotFile = new FileInfo(snapshot.Path);
+                    if (!snapshotFile.Exists)
+                    {
+                        continue;
+                    }
+
+                    response.Versions.Add(new FileVersion
+                    {
+                        Snapshot = snapshot.Name,
+                        SnapshotCreatedAt = snapshot.CreatedAt,
+                        Path = snapshot.Path,
+                        Size = snapshotFile.Length,
+                        LastModified = snapshotFile.LastWriteTimeUtc
+                    });
+                }
+            }
+
+            return Ok(response);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Access denied to versions of: {Path}", livePath);
+            return StatusCode(403, new { message = $"Access denied to versions of: {livePath}" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error listing versions of: {Path}", livePath);
+            return StatusCode(500, new { message = $"An error occurred: {ex.Message}" });
+        }
+    }
+
     private string? GetUnixPermissions(string path)
     {
         try
@@ -242,3 +396,28 @@ public class FileSystemController : ControllerBase
     }
 }
 
+public class ZfsSnapshotsResponse
+{
+    public string? DatasetRoot { get; set; }
+    public string LivePath { get; set; } = string.Empty;
+    public string? CurrentSnapshot { get; set; }
+    public List<ZfsSnapshot> Snapshots { get; set; } = new();
+}
+
+public class FileVersionsResponse
+{
+    public string LivePath { get; set; } = string.Empty;
+    public bool LiveExists { get; set; }
+    public long? LiveSize { get; set; }
+    public DateTime? LiveLastModified { get; set; }
+    public List<FileVersion> Versions { get; set; } = new();
+}
+
+public class FileVersion
+{
+    public string Snapshot { get; set; } = string.Empty;
+    public DateTime SnapshotCreatedAt { get; set; }
+    public string Path { get; set; } = string.Empty;
+    public long Size { get; set; }
+    public DateTime LastModified { get; set; }
+}
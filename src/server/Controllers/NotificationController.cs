@@ -41,6 +41,7 @@ public class NotificationController : ControllerBase
                     Type = n.type,
                     Title = n.title,
                     Message = n.message,
+                    Priority = n.priority,
                     BackupPlanId = n.backupPlanId,
                     ExecutionId = n.executionId,
                     IsRead = n.isRead,
@@ -157,6 +158,7 @@ public class NotificationResponse
     public string Type { get; set; } = string.Empty;
     public string Title { get; set; } = string.Empty;
     public string Message { get; set; } = string.Empty;
+    public string Priority { get; set; } = "Normal";
     public Guid? BackupPlanId { get; set; }
     public Guid? ExecutionId { get; set; }
     public bool IsRead { get; set; }
@@ -0,0 +1,268 @@
+using System.Security.Claims;
+using System.Text.Json;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using server.Data;
+using server.Models;
+using server.HostedServices;
+using server.Services;
+
+namespace server.Controllers;
+
+[ApiController]
+[Authorize]
+public class RestoreController : ControllerBase
+{
+    // How long a restore preview stays valid for starting the actual restore
+    private static readonly TimeSpan PreviewValidity = TimeSpan.FromHours(1);
+
+    private readonly DBContext _context;
+    private readonly LogDbContext _logContext;
+    private readonly ILogger<RestoreController> _logger;
+
+    public RestoreController(DBContext context, LogDbContext logContext, ILogger<RestoreController> logger)
+    {
+        _context = context;
+        _logContext = logContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Dry-run of a restore. The returned executionId must be passed to the restore endpoint.
+    /// </summary>
+    [HttpPost("/api/backupplan/{id}/restore/preview")]
+    [ProducesResponseType(typeof(ExecutionResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> PreviewRestore(Guid id, [FromBody] RestoreRequest request)
+    {
+        try
+        {
+            var backupPlan = await _context.BackupPlans
+                .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
+                .FirstOrDefaultAsync(bp => bp.id == id);
+
+            if (backupPlan == null)
+            {
+                return NotFound(new { message = "Backup plan not found" });
+            }
+
+            var (restore, error) = await BuildRestoreTargetAsync(backupPlan, request);
+            if (restore == null)
+            {
+                return BadRequest(new { message = error });
+            }
+
+            var executor = HttpContext.RequestServices.GetRequiredService<BackupPlanExecutor>();
+            var previewResult = await executor.ExecuteRestoreAsync(backupPlan, restore, true);
+
+            // Only a restore of exactly what was previewed can be started with this preview
+            var preview = await _logContext.BackupExecutions.FindAsync(previewResult.ExecutionId);
+            if (preview != null)
+            {
+                preview.restoreRequest = DescribeRestore(backupPlan, restore);
+                await _logContext.SaveChangesAsync();
+            }
+
+            return Ok(previewResult);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error previewing restore for backup plan {BackupPlanId}", id);
+            return StatusCode(500, new { message = "An error occurred while previewing the restore", error = ex.Message });
+        }
+    }
+
+    [HttpPost("/api/backupplan/{id}/restore")]
+    [ProducesResponseType(StatusCodes.Status202Accepted)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> StartRestore(Guid id, [FromBody] RestoreRequest request)
+    {
+        try
+        {
+            var backupPlan = await _context.BackupPlans
+                .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
+                .FirstOrDefaultAsync(bp => bp.id == id);
+
+            if (backupPlan == null)
+            {
+                return NotFound(new { message = "Backup plan not found" });
+            }
+
+            // A restore overwrites files on the agent, so it requires a recent successful preview
+            if (!request.PreviewExecutionId.HasValue)
+            {
+                return BadRequest(new { message = "Run a restore preview before starting the restore" });
+            }
+
+            var previewStartedAfter = DateTime.UtcNow - PreviewValidity;
+            var preview = await _logContext.BackupExecutions
+                .FirstOrDefaultAsync(e => e.id == request.PreviewExecutionId.Value
+                    && e.backupPlanId == id
+                    && e.executionType == "Restore"
+                    && e.isSimulation);
+
+            if (preview == null || preview.endDateTime == null || preview.stoppedBy != null)
+            {
+                return BadRequest(new { message = "Restore preview not found or not finished" });
+            }
+
+            if (preview.startDateTime < previewStartedAfter)
+            {
+                return BadRequest(new { message = "Restore preview has expired, run it again" });
+            }
+
+            var (restore, error) = await BuildRestoreTargetAsync(backupPlan, request);
+            if (restore == null)
+            {
+                return BadRequest(new { message = error });
+            }
+
+            if (preview.restoreRequest != DescribeRestore(backupPlan, restore))
+            {
+                return BadRequest(new { message = "The restore differs from its preview (paths, target agent, target path or transfer options), run the preview again" });
+            }
+
+            var requestedBy = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            _logger.LogInformation("Restore of backup plan {BackupPlanId} to {Hostname}:{TargetPath} requested by {RequestedBy}",
+                id, restore.agent.hostname, restore.targetPath, requestedBy);
+
+            var executor = HttpContext.RequestServices.GetRequiredService<BackupPlanExecutor>();
+
+            // Execute asynchronously in the background, progress is pushed like any other execution
+            _ = Task.Run(async () =>
+            {
+                try
+                {
+                    await executor.ExecuteRestoreAsync(backupPlan, restore, false);
+                    _logger.LogInformation("Restore of backup plan {BackupPlanId} completed successfully", id);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error during restore of backup plan {BackupPlanId}", id);
+                }
+            });
+
+            return Accepted(new { message = "Restore started" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error starting restore for backup plan {BackupPlanId}", id);
+            return StatusCode(500, new { message = "An error occurred while starting the restore", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Validates the request and resolves the target agent, the target path (the original location
+    /// when none is given) and the selected paths relative to the plan destination.
+    /// </summary>
+    private async Task<(RestoreTarget? Restore, string? Error)> BuildRestoreTargetAsync(BackupPlan backupPlan, RestoreRequest request)
+    {
+        if (request.Paths == null || request.Paths.Count == 0)
+        {
+            return (null, "Select at least one file or folder to restore");
+        }
+
+        Agent? agent = backupPlan.agent;
+        if (request.TargetAgentId.HasValue)
+        {
+            agent = await _context.Agents.FindAsync(request.TargetAgentId.Value);
+            if (agent == null)
+            {
+                return (null, "Target agent not found");
+            }
+        }
+
+        if (agent == null)
+        {
+            return (null, "Backup plan does not have an agent configured");
+        }
+
+        if (string.IsNullOrWhiteSpace(agent.hostname) || string.IsNullOrWhiteSpace(agent.rsyncSshKey))
+        {
+            return (null, "Target agent does not have rsync access configured");
+        }
+
+        var invalidPath = request.Paths.FirstOrDefault(p => string.IsNullOrWhiteSpace(p) || p.Contains('"'));
+        if (invalidPath != null)
+        {
+            return (null, $"Invalid path: {invalidPath}");
+        }
+
+        // Paths may also come from a ZFS snapshot of the destination, for a point-in-time restore.
+        // All of them have to come from the same place.
+        var sourceRoot = Path.GetFullPath(backupPlan.destination).TrimEnd('/');
+        var firstPath = Path.GetFullPath(request.Paths[0].Trim()).TrimEnd('/');
+        if (ZfsSnapshots.TryParseSnapshotPath(firstPath, out var snapshotName, out var datasetRoot, out _))
+        {
+            sourceRoot = ZfsSnapshots.GetSnapshotPath(datasetRoot, snapshotName, sourceRoot).TrimEnd('/');
+        }
+
+        // In hardlink snapshot mode paths are relative to the snapshot directory they were picked from
+        if (backupPlan.snapshotMode == "hardlink" && firstPath.StartsWith(sourceRoot + "/"))
+        {
+            var snapshotDirectory = firstPath[(sourceRoot.Length + 1)..].Split('/')[0];
+            var hardlinkSnapshot = HardlinkSnapshots.List(sourceRoot).FirstOrDefault(s => s.Name == snapshotDirectory);
+            if (hardlinkSnapshot != null)
+            {
+                sourceRoot = hardlinkSnapshot.Path.TrimEnd('/');
+            }
+        }
+
+        var relativePaths = new List<string>();
+        foreach (var path in request.Paths)
+        {
+            // Only content of this plan's destination can be restored
+            var fullPath = Path.GetFullPath(path.Trim()).TrimEnd('/');
+            if (fullPath != sourceRoot && !fullPath.StartsWith(sourceRoot + "/"))
+            {
+                return (null, $"Path is outside the backup destination: {path}");
+            }
+
+            if (!System.IO.File.Exists(fullPath) && !Directory.Exists(fullPath))
+            {
+                return (null, $"Path not found in the backup: {path}");
+            }
+
+            var relativePath = Path.GetRelativePath(sourceRoot, fullPath);
+            relativePaths.Add(relativePath == "." ? string.Empty : relativePath);
+        }
+
+        var targetPath = string.IsNullOrWhiteSpace(request.TargetPath)
+            ? BackupSources.GetOriginalLocation(backupPlan)
+            : request.TargetPath.Trim();
+
+        if (!targetPath.StartsWith('/') || targetPath.Contains('"') || targetPath.Contains(".."))
+        {
+            return (null, "Target path must be an absolute path");
+        }
+
+        return (new RestoreTarget
+        {
+            agent = agent,
+            sourceRoot = sourceRoot,
+            paths = relativePaths.Distinct().ToList(),
+            targetPath = targetPath
+        }, null);
+    }
+
+    /// <summary>
+    /// Everything a restore copies and where, as stored on its preview: the target agent and path,
+    /// the source root and paths, and the transfer options that decide what gets overwritten.
+    /// </summary>
+    private static string DescribeRestore(BackupPlan backupPlan, RestoreTarget restore)
+    {
+        return JsonSerializer.Serialize(new
+        {
+            agentId = restore.agent.id,
+            targetPath = restore.targetPath,
+            sourceRoot = restore.sourceRoot,
+            paths = restore.paths.OrderBy(p => p, StringComparer.Ordinal).ToList(),
+            options = RsyncTransferOptions.BuildArguments(backupPlan, allowDelete: false)
+        });
+    }
+}
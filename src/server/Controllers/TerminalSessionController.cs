@@ -0,0 +1,101 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using server.Data;
+using server.Models;
+using server.Services;
+
+namespace server.Controllers;
+
+/// <summary>
+/// Console sessions of all agents and their recordings, for admins only.
+/// </summary>
+[ApiController]
+[Authorize]
+[Route("api/terminal-sessions")]
+public class TerminalSessionController : ControllerBase
+{
+    private readonly DBContext _context;
+    private readonly LogDbContext _logContext;
+    private readonly ILogger<TerminalSessionController> _logger;
+
+    public TerminalSessionController(DBContext context, LogDbContext logContext, ILogger<TerminalSessionController> logger)
+    {
+        _context = context;
+        _logContext = logContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Sessions newest first, optionally of one agent.
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(List<TerminalSession>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<IActionResult> GetSessions([FromQuery] Guid? agentId = null, [FromQuery] int limit = 200)
+    {
+        try
+        {
+            if (!await AdminUsers.IsActiveAdminAsync(_context, User))
+            {
+                return Forbid();
+            }
+
+            var query = _logContext.TerminalSessions.AsQueryable();
+            if (agentId.HasValue)
+            {
+                query = query.Where(s => s.agentId == agentId.Value);
+            }
+
+            var sessions = await query
+                .OrderByDescending(s => s.startedAt)
+                .Take(Math.Clamp(limit, 1, 1000))
+                .ToListAsync();
+
+            return Ok(sessions);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the console sessions");
+            return StatusCode(500, new { message = "An error occurred while retrieving the console sessions", error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Recording of a session as an asciicast v2 file. The recording of an open session is returned as
+    /// far as it got.
+    /// </summary>
+    [HttpGet("{id}/recording")]
+    [Produces("application/x-asciicast")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetRecording(Guid id)
+    {
+        try
+        {
+            if (!await AdminUsers.IsActiveAdminAsync(_context, User))
+            {
+                return Forbid();
+            }
+
+            var session = await _logContext.TerminalSessions.FindAsync(id);
+            var path = AsciicastRecorder.GetPath(id);
+            if (session == null || !System.IO.File.Exists(path))
+            {
+                return NotFound(new { message = "Recording not found" });
+            }
+
+            var user = User.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            _logger.LogInformation("Recording of console session {SessionId} opened by {UserName}", id, user);
+
+            return PhysicalFile(path, "application/x-asciicast", $"{id}.cast");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the recording of console session {SessionId}", id);
+            return StatusCode(500, new { message = "An error occurred while retrieving the recording", error = ex.Message });
+        }
+    }
+}
@@ -41,6 +41,8 @@ public class DBContext : DbContext
     public DbSet<Notification> Notifications { get; set; } = null!;
     public DbSet<User> Users { get; set; } = null!;
     public DbSet<TelegramConfig> TelegramConfigs { get; set; } = null!;
+    public DbSet<AgentJumpHost> AgentJumpHosts { get; set; } = null!;
+    public DbSet<BackupPlanSource> BackupPlanSources { get; set; } = null!;
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -84,6 +86,7 @@ public class DBContext : DbContext
             entity.Property(e => e.type).IsRequired().HasMaxLength(50);
             entity.Property(e => e.title).IsRequired().HasMaxLength(500);
             entity.Property(e => e.message).IsRequired().HasMaxLength(2000);
+            entity.Property(e => e.priority).IsRequired().HasMaxLength(20);
             entity.Property(e => e.createdAt).IsRequired();
             
             // Create index on createdAt and isRead for faster queries
@@ -115,6 +118,32 @@ public class DBContext : DbContext
             entity.Property(e => e.created_at).IsRequired();
             entity.Property(e => e.updated_at).IsRequired();
         });
+
+        modelBuilder.Entity<AgentJumpHost>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.Property(e => e.hostname).HasMaxLength(255);
+            entity.Property(e => e.user).HasMaxLength(100);
+
+            // Hops are read per agent in order, and looked up when an agent used as a hop is deleted
+            entity.HasIndex(e => new { e.agentId, e.position });
+            entity.HasIndex(e => e.viaAgentId);
+        });
+
+        modelBuilder.Entity<BackupPlanSource>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.Property(e => e.path).IsRequired();
+
+            // Sources belong to their plan and are read in order
+            entity.HasOne<BackupPlan>()
+                .WithMany(p => p.sources)
+                .HasForeignKey(e => e.backupPlanId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => new { e.backupPlanId, e.position });
+        });
     }
 }
 
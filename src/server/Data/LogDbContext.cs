@@ -7,6 +7,10 @@ public class LogDbContext : DbContext
 {
     public DbSet<LogEntry> LogEntries { get; set; }
     public DbSet<BackupExecution> BackupExecutions { get; set; }
+    public DbSet<AgentHealthCheck> AgentHealthChecks { get; set; }
+    public DbSet<AgentInventory> AgentInventories { get; set; }
+    public DbSet<AgentDiskUsage> AgentDiskUsages { get; set; }
+    public DbSet<TerminalSession> TerminalSessions { get; set; }
 
     public LogDbContext(DbContextOptions<LogDbContext> options) : base(options)
     {
@@ -45,6 +49,45 @@ public class LogDbContext : DbContext
             // Create index on executionId for faster queries
             entity.HasIndex(e => e.executionId);
         });
+
+        modelBuilder.Entity<AgentHealthCheck>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.Property(e => e.error).HasMaxLength(1000);
+
+            // Uptime history is always read per agent and time range
+            entity.HasIndex(e => new { e.agentId, e.checkedAt });
+        });
+
+        modelBuilder.Entity<AgentInventory>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.HasIndex(e => new { e.agentId, e.collectedAt });
+        });
+
+        modelBuilder.Entity<AgentDiskUsage>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.Property(e => e.filesystem).IsRequired().HasMaxLength(500);
+            entity.Property(e => e.mountPoint).IsRequired().HasMaxLength(1000);
+            entity.HasIndex(e => new { e.agentId, e.collectedAt });
+            entity.HasIndex(e => e.inventoryId);
+        });
+
+        modelBuilder.Entity<TerminalSession>(entity =>
+        {
+            entity.HasKey(e => e.id);
+            entity.Property(e => e.id).ValueGeneratedNever();
+            entity.Property(e => e.agentName).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.hostname).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.userName).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.clientAddress).HasMaxLength(100);
+            entity.Property(e => e.error).HasMaxLength(1000);
+            entity.HasIndex(e => new { e.agentId, e.startedAt });
+        });
     }
 }
 
@@ -0,0 +1,215 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using server.Data;
+using server.Models;
+using server.Services;
+
+namespace server.HostedServices;
+
+/// <summary>
+/// Periodically runs the SSH connection test of every agent, so an unreachable agent is noticed
+/// before its next backup fails. Each check is kept as history for the uptime in the agent list.
+/// </summary>
+public class AgentHealthService : IHostedService
+{
+    public static readonly TimeSpan CheckInterval = TimeSpan.FromMinutes(5);
+    public static readonly TimeSpan HistoryRetention = TimeSpan.FromDays(30);
+
+    // A successful check slower than this marks the agent as degraded
+    public const int SlowLatencyMs = 3000;
+
+    // A single failed check only degrades the agent, so a network blip does not raise a notification
+    public const int FailuresUntilOffline = 2;
+
+    private static readonly TimeSpan CheckTimeout = TimeSpan.FromSeconds(30);
+
+    private readonly ILogger<AgentHealthService> _logger;
+    private readonly IServiceScopeFactory _serviceScopeFactory;
+    private readonly IExecutionEventsService _executionEvents;
+    private Timer? _timer;
+    private int _isRunning;
+
+    public AgentHealthService(
+        ILogger<AgentHealthService> logger,
+        IServiceScopeFactory serviceScopeFactory,
+        IExecutionEventsService executionEvents)
+    {
+        _logger = logger;
+        _serviceScopeFactory = serviceScopeFactory;
+        _executionEvents = executionEvents;
+    }
+
+    public Task StartAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("AgentHealthService is starting...");
+
+        // Run shortly after startup, then every few minutes
+        _timer = new Timer(ExecuteHealthChecks, null, TimeSpan.FromSeconds(30), CheckInterval);
+
+        _logger.LogInformation("AgentHealthService started. Will run every {Interval} minutes.", CheckInterval.TotalMinutes);
+
+        return Task.CompletedTask;
+    }
+
+    public Task StopAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("AgentHealthService is stopping...");
+
+        _timer?.Change(Timeout.Infinite, 0);
+
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Status after a check, from its result and the number of failed checks in a row.
+    /// </summary>
+    public static string EvaluateStatus(AgentSshResult result, int consecutiveFailures)
+    {
+        if (result.Success)
+        {
+            return result.Duration.TotalMilliseconds > SlowLatencyMs ? "Degraded" : "Online";
+        }
+
+        return consecutiveFailures >= FailuresUntilOffline ? "Offline" : "Degraded";
+    }
+
+    private void ExecuteHealthChecks(object? state)
+    {
+        // Checks of many unreachable agents can take longer than the interval
+        if (Interlocked.Exchange(ref _isRunning, 1) == 1)
+        {
+            _logger.LogDebug("Previous agent health checks are still running, skipping");
+            return;
+        }
+
+        _ = Task.Run(async () =>
+        {
+            try
+            {
+                using var scope = _serviceScopeFactory.CreateScope();
+                var dbContext = scope.ServiceProvider.GetRequiredService<DBContext>();
+                var logContext = scope.ServiceProvider.GetRequiredService<LogDbContext>();
+                var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+
+                var agents = await dbContext.Agents
+                    .Where(a => a.hostname != "" && a.rsyncSshKey != null && a.rsyncSshKey != "")
+                    .ToListAsync();
+
+                foreach (var agent in agents)
+                {
+                    try
+                    {
+                        await JumpHosts.LoadAsync(dbContext, agent);
+                        await CheckAgentAsync(agent, logContext, notificationService);
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogError(ex, "Error checking health of agent {AgentId}", agent.id);
+                    }
+                }
+
+                await dbContext.SaveChangesAsync();
+
+                // Open agent lists update right away instead of polling for the results
+                if (agents.Count > 0)
+                {
+                    await _executionEvents.PublishAgentHealthUpdatedAsync(agents.Select(a => a.id).ToList());
+                }
+
+                var cutoff = DateTime.UtcNow - HistoryRetention;
+                await logContext.AgentHealthChecks
+                    .Where(c => c.checkedAt < cutoff)
+                    .ExecuteDeleteAsync();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error during agent health checks");
+            }
+            finally
+            {
+                Interlocked.Exchange(ref _isRunning, 0);
+            }
+        });
+    }
+
+    private async Task CheckAgentAsync(Agent agent, LogDbContext logContext, INotificationService notificationService)
+    {
+        var result = await AgentSsh.RunAsync(agent, AgentSsh.TestCommand, CheckTimeout);
+        var checkedAt = DateTime.UtcNow;
+        var latencyMs = (int)result.Duration.TotalMilliseconds;
+        var error = result.Success ? null : LastLine(result.Error) ?? $"ssh exited with code {result.ExitCode}";
+
+        logContext.AgentHealthChecks.Add(new AgentHealthCheck
+        {
+            id = Guid.NewGuid(),
+            agentId = agent.id,
+            checkedAt = checkedAt,
+            success = result.Success,
+            latencyMs = result.Success ? latencyMs : null,
+            error = error?.Length > 1000 ? error[..1000] : error
+        });
+        await logContext.SaveChangesAsync();
+
+        var previousStatus = agent.healthStatus;
+        agent.consecutiveHealthFailures = result.Success ? 0 : agent.consecutiveHealthFailures + 1;
+        agent.healthStatus = EvaluateStatus(result, agent.consecutiveHealthFailures);
+        agent.lastHealthCheckAt = checkedAt;
+        agent.lastLatencyMs = result.Success ? latencyMs : null;
+        agent.lastHealthError = error;
+        if (result.Success)
+        {
+            agent.lastSeenAt = checkedAt;
+        }
+
+        if (!result.Success && HostKeys.IsPinned(agent) && HostKeys.IsHostKeyError(result.Error))
+        {
+            await RecordChangedHostKeyAsync(agent, notificationService);
+        }
+
+        if (agent.healthStatus == "Offline" && previousStatus != "Offline")
+        {
+            _logger.LogWarning("Agent {AgentId} ({Hostname}) is offline: {Error}", agent.id, agent.hostname, error);
+            await notificationService.SendAgentOfflineNotificationAsync(agent, error ?? "Unknown error");
+        }
+        else if (previousStatus == "Offline" && agent.healthStatus != "Offline")
+        {
+            _logger.LogInformation("Agent {AgentId} ({Hostname}) is reachable again", agent.id, agent.hostname);
+            await notificationService.SendAgentRecoveredNotificationAsync(agent);
+        }
+    }
+
+    private async Task RecordChangedHostKeyAsync(Agent agent, INotificationService notificationService)
+    {
+        try
+        {
+            var presentedKey = await HostKeys.FindChangedKeyAsync(agent);
+            if (presentedKey == null)
+            {
+                return;
+            }
+
+            var presentedFingerprint = HostKeys.GetFingerprint(presentedKey);
+            if (agent.changedHostKeyFingerprint == presentedFingerprint)
+            {
+                return;
+            }
+
+            _logger.LogWarning("Host key of agent {AgentId} ({Hostname}) changed from {Pinned} to {Presented}",
+                agent.id, agent.hostname, agent.hostKeyFingerprint, presentedFingerprint);
+            agent.changedHostKeyFingerprint = presentedFingerprint;
+            await notificationService.SendHostKeyChangedNotificationAsync(agent, agent.hostKeyFingerprint ?? "unknown", presentedFingerprint);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Could not read the host key of agent {AgentId}", agent.id);
+        }
+    }
+
+    // ssh prints warnings (e.g. "Permanently added ... to the list of known hosts") before the actual error
+    private static string? LastLine(string text)
+    {
+        return text.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).LastOrDefault();
+    }
+}
@@ -0,0 +1,105 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using server.Data;
+using server.Services;
+
+namespace server.HostedServices;
+
+/// <summary>
+/// Collects the inventory of every reachable agent a few times a day, so the disk usage history
+/// shows source disks filling up without anybody pressing "Refresh".
+/// </summary>
+public class AgentInventoryService : IHostedService
+{
+    public static readonly TimeSpan CollectInterval = TimeSpan.FromHours(6);
+    public static readonly TimeSpan HistoryRetention = TimeSpan.FromDays(180);
+
+    private readonly ILogger<AgentInventoryService> _logger;
+    private readonly IServiceScopeFactory _serviceScopeFactory;
+    private Timer? _timer;
+
+    public AgentInventoryService(
+        ILogger<AgentInventoryService> logger,
+        IServiceScopeFactory serviceScopeFactory)
+    {
+        _logger = logger;
+        _serviceScopeFactory = serviceScopeFactory;
+    }
+
+    public Task StartAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("AgentInventoryService is starting...");
+
+        // Run after the first health checks, then a few times a day
+        _timer = new Timer(ExecuteCollection, null, TimeSpan.FromMinutes(2), TimeSpan.FromHours(1));
+
+        _logger.LogInformation("AgentInventoryService started. Will collect every {Interval} hours.", CollectInterval.TotalHours);
+
+        return Task.CompletedTask;
+    }
+
+    public Task StopAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("AgentInventoryService is stopping...");
+
+        _timer?.Change(Timeout.Infinite, 0);
+
+        return Task.CompletedTask;
+    }
+
+    private void ExecuteCollection(object? state)
+    {
+        _ = Task.Run(async () =>
+        {
+            try
+            {
+                using var scope = _serviceScopeFactory.CreateScope();
+                var dbContext = scope.ServiceProvider.GetRequiredService<DBContext>();
+                var logContext = scope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+                // Offline agents would only wait for the SSH timeout
+                var agents = await dbContext.Agents
+                    .Where(a => a.hostname != "" && a.rsyncSshKey != null && a.rsyncSshKey != "" && a.healthStatus != "Offline")
+                    .ToListAsync();
+
+                // The timer ticks hourly, agents refreshed manually in the meantime are not collected again
+                var dueBefore = DateTime.UtcNow - CollectInterval;
+                var lastCollections = await logContext.AgentInventories
+                    .GroupBy(i => i.agentId)
+                    .Select(g => new { AgentId = g.Key, CollectedAt = g.Max(i => i.collectedAt) })
+                    .ToDictionaryAsync(x => x.AgentId, x => x.CollectedAt);
+
+                foreach (var agent in agents)
+                {
+                    if (lastCollections.TryGetValue(agent.id, out var collectedAt) && collectedAt > dueBefore)
+                    {
+                        continue;
+                    }
+
+                    try
+                    {
+                        await JumpHosts.LoadAsync(dbContext, agent);
+                        var (inventory, disks) = await AgentInventoryCollector.CollectAsync(agent);
+                        logContext.AgentInventories.Add(inventory);
+                        logContext.AgentDiskUsages.AddRange(disks);
+                        await logContext.SaveChangesAsync();
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogWarning(ex, "Error collecting the inventory of agent {AgentId}", agent.id);
+                    }
+                }
+
+                var cutoff = DateTime.UtcNow - HistoryRetention;
+                await logContext.AgentDiskUsages.Where(d => d.collectedAt < cutoff).ExecuteDeleteAsync();
+                await logContext.AgentInventories.Where(i => i.collectedAt < cutoff).ExecuteDeleteAsync();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error during agent inventory collection");
+            }
+        });
+    }
+}
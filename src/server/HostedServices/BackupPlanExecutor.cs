@@ -15,20 +15,46 @@ public class BackupPlanExecutor
     private readonly ILogger<BackupPlanExecutor> _logger;
     private readonly IServiceScopeFactory _serviceScopeFactory;
     private readonly IWebHostEnvironment _environment;
+    private readonly IExecutionEventsService _executionEvents;
+    private readonly RunningExecutionService _runningExecutions;
 
     public BackupPlanExecutor(
         ILogger<BackupPlanExecutor> logger,
         IServiceScopeFactory serviceScopeFactory,
-        IWebHostEnvironment environment)
+        IWebHostEnvironment environment,
+        IExecutionEventsService executionEvents,
+        RunningExecutionService runningExecutions)
     {
         _logger = logger;
         _serviceScopeFactory = serviceScopeFactory;
         _environment = environment;
+        _executionEvents = executionEvents;
+        _runningExecutions = runningExecutions;
     }
 
-    public async Task<ExecutionResult> ExecuteBackupPlanAsync(BackupPlan backupPlan, bool isAutomatic = true, bool isSimulation = false)
+    /// <summary>
+    /// Runs a backup. approvedDeletions is set when an operator approved a run blocked by the
+    /// deletion guard, the new run may then delete up to that many files.
+    /// </summary>
+    public async Task<ExecutionResult> ExecuteBackupPlanAsync(BackupPlan backupPlan, bool isAutomatic = true, bool isSimulation = false, int? approvedDeletions = null)
     {
-        Agent? agent = backupPlan.agent;
+        return await ExecuteAsync(backupPlan, isAutomatic, isSimulation, null, approvedDeletions);
+    }
+
+    /// <summary>
+    /// Copies paths from the plan destination back to an agent. Restores are always manual
+    /// and never delete anything on the agent.
+    /// </summary>
+    public async Task<ExecutionResult> ExecuteRestoreAsync(BackupPlan backupPlan, RestoreTarget restore, bool isSimulation)
+    {
+        return await ExecuteAsync(backupPlan, false, isSimulation, restore, null);
+    }
+
+    private async Task<ExecutionResult> ExecuteAsync(BackupPlan backupPlan, bool isAutomatic, bool isSimulation, RestoreTarget? restore, int? approvedDeletions)
+    {
+        // Restores run against the chosen target agent, which may differ from the plan's agent
+        Agent? agent = restore?.agent ?? backupPlan.agent;
+        var executionType = restore != null ? "Restore" : "Backup";
 
         if (agent == null)
         {
@@ -41,20 +67,35 @@ public class BackupPlanExecutor
             _logger.LogError("Agent {AgentId} does not have an SSH key configured", agent.id);
             throw new InvalidOperationException("Agent does not have an SSH key configured");
         }
-        var sshKeyPath = Path.Combine(Path.GetTempPath(), $"ssh_key_{Guid.NewGuid()}");
-        var result = new ExecutionResult();
-        Guid executionId = Guid.NewGuid(); // Declare outside try block so it's accessible in catch block
 
-        using (var scope = _serviceScopeFactory.CreateScope())
+        // Without a source rsync would list the destination instead of backing anything up
+        if (restore == null && backupPlan.sources.Count == 0)
         {
-            var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
-            await notificationService.SendBackupStartNotificationAsync(backupPlan, isAutomatic, isSimulation);
+            _logger.LogError("Backup plan {BackupPlanId} has no sources", backupPlan.id);
+            throw new InvalidOperationException("Backup plan does not have any sources");
         }
+        var sshKeyPath = Path.Combine(Path.GetTempPath(), $"ssh_key_{Guid.NewGuid()}");
+        var result = new ExecutionResult();
+        Guid executionId = Guid.NewGuid(); // Declare outside try block so it's accessible in catch block
+        var postHookRan = false; // The post hook also runs after failures, but never twice
+        result.ExecutionId = executionId;
 
         try
         {
+            // Registered inside the try so the finally block always unregisters the run
+            _runningExecutions.Register(executionId, backupPlan.id, isSimulation);
+
+            if (restore == null)
+            {
+                using (var scope = _serviceScopeFactory.CreateScope())
+                {
+                    var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+                    await notificationService.SendBackupStartNotificationAsync(backupPlan, isAutomatic, isSimulation);
+                }
+            }
+
             // Normalize SSH key content: convert CRLF to LF, trim whitespace, ensure it ends with newline
-            var normalizedKey = NormalizeSshKeyContent(agent.rsyncSshKey);
+            var normalizedKey = NormalizeSshKeyContent(SshKeys.GetPrivateKey(agent)!);
             
             // Write SSH key to temporary file with UTF-8 encoding without BOM
             await File.WriteAllTextAsync(sshKeyPath, normalizedKey, new System.Text.UTF8Encoding(false));
@@ -94,9 +135,36 @@ public class BackupPlanExecutor
                 _logger.LogWarning(ex, "Failed to execute chmod on SSH key file, but continuing with SetUnixFileMode permissions");
             }
 
+            // rsync runs ssh in the background, a passphrase protected key would make it wait for a prompt
+            var sshKeyPassphrase = SshKeys.GetPassphrase(agent);
+            if (sshKeyPassphrase != null)
+            {
+                await SshKeys.RemovePassphraseAsync(sshKeyPath, sshKeyPassphrase);
+            }
+
+            await HostKeys.WriteKnownHostsFileAsync(agent, sshKeyPath);
+
+            // The route through the jump hosts is resolved once, rsync and the hooks of the run share it
+            using (var scope = _serviceScopeFactory.CreateScope())
+            {
+                await JumpHosts.LoadAsync(scope.ServiceProvider.GetRequiredService<DBContext>(), agent);
+            }
+            await JumpHosts.WriteFilesAsync(agent, sshKeyPath);
+
+            // A changed host key fails the run before anything connects to the agent
+            await VerifyHostKeyAsync(agent);
+
             var startTime = DateTime.UtcNow;
             int? totalFilesToProcess = null;
 
+            // Hooks only run around real backups, never around simulations or restores
+            var runHooks = restore == null && !isSimulation;
+
+            // In hardlink snapshot mode every backup run writes its own directory under the destination
+            HardlinkSnapshotTarget? snapshot = restore == null && backupPlan.snapshotMode == "hardlink"
+                ? HardlinkSnapshots.CreateTarget(backupPlan.destination, startTime)
+                : null;
+
             // If not a simulation, run dry-run first to get the list of files that will be affected
             if (!isSimulation)
             {
@@ -111,10 +179,11 @@ public class BackupPlanExecutor
                     {
                         id = executionId,
                         backupPlanId = backupPlan.id,
-                        name = $"{backupPlan.name} - Execution",
+                        name = restore != null ? $"{backupPlan.name} - Restore" : $"{backupPlan.name} - Execution",
                         startDateTime = startTime,
                         isAutomatic = isAutomatic,
-                        isSimulation = false
+                        isSimulation = false,
+                        executionType = executionType
                     };
                     logContext.BackupExecutions.Add(backupExecution);
                     
@@ -132,10 +201,41 @@ public class BackupPlanExecutor
                     };
                     logContext.LogEntries.Add(dryRunStartLog);
                     await logContext.SaveChangesAsync();
+
+                    // Subscribers learn about the run now, not only at its first milestone after the pre hook
+                    await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, "Starting"));
+                }
+
+                // The pre hook runs before the dry-run so the analysis already sees e.g. a fresh database dump
+                if (runHooks && !string.IsNullOrWhiteSpace(backupPlan.preHookCommand))
+                {
+                    var preHookSucceeded = await RunHookAsync(backupPlan, agent, sshKeyPath, executionId, "pre",
+                        backupPlan.preHookCommand, backupPlan.preHookTimeoutSeconds, backupPlan.preHookAbortOnFailure);
+
+                    var stoppedDuringPreHook = _runningExecutions.GetStoppedBy(executionId);
+                    if (stoppedDuringPreHook != null)
+                    {
+                        postHookRan = true;
+                        await RunPostHookAfterFailureAsync(backupPlan, agent, sshKeyPath, executionId);
+                        await CompleteStoppedExecutionAsync(backupPlan, executionId, stoppedDuringPreHook, startTime);
+                        return result;
+                    }
+
+                    if (!preHookSucceeded && backupPlan.preHookAbortOnFailure)
+                    {
+                        throw new Exception("Pre-execution hook failed, backup aborted");
+                    }
                 }
 
+                await RecordMilestoneAsync(backupPlan.id, executionId, "SourceAnalysisStarted", "Analyzing");
+
+                // The deletion guard needs the full dry-run output to see what would be deleted
+                var guardOutput = restore == null && (DeletionGuard.Applies(backupPlan) || approvedDeletions.HasValue)
+                    ? new StringBuilder()
+                    : null;
+
                 // Run dry-run to count files
-                totalFilesToProcess = await RunDryRunAndCountFiles(backupPlan, agent, sshKeyPath, executionId);
+                totalFilesToProcess = await RunDryRunAndCountFiles(backupPlan, agent, sshKeyPath, executionId, restore, snapshot, guardOutput);
                 
                 // Update BackupExecution with total files
                 if (totalFilesToProcess.HasValue)
@@ -152,6 +252,55 @@ public class BackupPlanExecutor
                     }
                     _logger.LogInformation("Dry-run completed. Found {FileCount} files to process", totalFilesToProcess.Value);
                 }
+
+                var stoppedDuringAnalysis = _runningExecutions.GetStoppedBy(executionId);
+                if (stoppedDuringAnalysis != null)
+                {
+                    if (runHooks)
+                    {
+                        postHookRan = true;
+                        await RunPostHookAfterFailureAsync(backupPlan, agent, sshKeyPath, executionId);
+                    }
+                    await CompleteStoppedExecutionAsync(backupPlan, executionId, stoppedDuringAnalysis, startTime);
+                    return result;
+                }
+
+                // Nothing has been deleted yet, stop here if the dry-run deletes more than the plan allows
+                if (guardOutput != null)
+                {
+                    var dryRunOutput = guardOutput.ToString();
+                    var deletionCounts = DeletionGuard.Count(dryRunOutput);
+                    var blockReason = DeletionGuard.Check(backupPlan, deletionCounts, approvedDeletions);
+
+                    if (blockReason != null)
+                    {
+                        if (runHooks)
+                        {
+                            postHookRan = true;
+                            await RunPostHookAfterFailureAsync(backupPlan, agent, sshKeyPath, executionId);
+                        }
+                        await BlockExecutionAsync(backupPlan, executionId, blockReason, deletionCounts, dryRunOutput, isAutomatic);
+                        return result;
+                    }
+
+                    if (approvedDeletions.HasValue)
+                    {
+                        using var logScope = _serviceScopeFactory.CreateScope();
+                        var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+                        logContext.LogEntries.Add(new LogEntry
+                        {
+                            id = Guid.NewGuid(),
+                            backupPlanId = backupPlan.id,
+                            executionId = executionId,
+                            datetime = DateTime.UtcNow,
+                            fileName = "deletion-guard",
+                            filePath = "",
+                            action = LogEntry.Action.System.ToString(),
+                            reason = $"Deleting {deletionCounts.FilesToDelete} files, an operator approved up to {approvedDeletions.Value}"
+                        });
+                        await logContext.SaveChangesAsync();
+                    }
+                }
             }
 
             // Build rsync command
@@ -162,15 +311,7 @@ public class BackupPlanExecutor
                 rsyncArgs.Append("--dry-run ");
             }
             
-            rsyncArgs.Append("-avz --progress --delete --itemize-changes --stats ");
-            
-            // Build SSH command for -e option
-            var sshCommand = $"ssh -i {sshKeyPath} -p {agent.rsyncPort} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null";
-            rsyncArgs.Append($"-e \"{sshCommand}\" ");
-            
-            var sourcePath = $"{agent.rsyncUser}@{agent.hostname}:{backupPlan.source}";
-            
-            rsyncArgs.Append($"{sourcePath} {backupPlan.destination}");
+            rsyncArgs.Append(BuildRsyncArguments(backupPlan, agent, sshKeyPath, "--progress --itemize-changes --stats ", restore, snapshot));
 
             var fullCommand = $"rsync {rsyncArgs}";
 
@@ -189,10 +330,11 @@ public class BackupPlanExecutor
                     {
                         id = executionId,
                         backupPlanId = backupPlan.id,
-                        name = $"{backupPlan.name} - Simulation",
+                        name = restore != null ? $"{backupPlan.name} - Restore Simulation" : $"{backupPlan.name} - Simulation",
                         startDateTime = startTime,
                         isAutomatic = isAutomatic,
-                        isSimulation = true
+                        isSimulation = true,
+                        executionType = executionType
                     };
                     logContext.BackupExecutions.Add(backupExecution);
 
@@ -225,6 +367,7 @@ public class BackupPlanExecutor
                     logContext.LogEntries.Add(commandLogEntry);
 
                     await logContext.SaveChangesAsync();
+                    await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, "Starting"));
                 }
             }
             else
@@ -266,6 +409,8 @@ public class BackupPlanExecutor
                 }
             }
 
+            await RecordMilestoneAsync(backupPlan.id, executionId, "CopiesStarted", "Copying");
+
             // Execute rsync
             var processStartInfo = new ProcessStartInfo
             {
@@ -285,6 +430,8 @@ public class BackupPlanExecutor
             var batchLock = new object();
             const int BatchSaveIntervalSeconds = 2; // Save logs every 2 seconds
             const int MaxBatchSize = 50; // Save when batch reaches 50 entries
+            const int ProgressPublishIntervalMilliseconds = 1000; // Push current file to clients at most once per second
+            var lastProgressPublishTime = DateTime.MinValue;
             LogEntry? lastFileEntry = null; // Track last file entry to update with size from progress lines
 
             process.OutputDataReceived += (sender, e) =>
@@ -317,6 +464,7 @@ public class BackupPlanExecutor
                         }
                         
                         List<LogEntry>? batchToSave = null;
+                        var publishProgress = false;
                         
                         lock (batchLock)
                         {
@@ -330,6 +478,12 @@ public class BackupPlanExecutor
                                 logEntriesBatch.Clear();
                                 lastSaveTime = now;
                             }
+
+                            if ((now - lastProgressPublishTime).TotalMilliseconds >= ProgressPublishIntervalMilliseconds)
+                            {
+                                publishProgress = true;
+                                lastProgressPublishTime = now;
+                            }
                         }
                         
                         // Update BackupExecution with current file being processed and progress
@@ -351,6 +505,11 @@ public class BackupPlanExecutor
                                         backupExecution.currentFilePath = logEntry.filePath;
                                         backupExecution.currentFileIndex++;
                                         await logContext.SaveChangesAsync();
+
+                                        if (publishProgress)
+                                        {
+                                            await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, "Copying"));
+                                        }
                                     }
                                 }
                                 catch (Exception ex)
@@ -376,6 +535,11 @@ public class BackupPlanExecutor
                                         backupExecution.currentFilePath = logEntry.filePath;
                                         // Don't increment counter for directories
                                         await logContext.SaveChangesAsync();
+
+                                        if (publishProgress)
+                                        {
+                                            await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, "Copying"));
+                                        }
                                     }
                                 }
                                 catch (Exception ex)
@@ -465,9 +629,16 @@ public class BackupPlanExecutor
             process.Start();
             process.BeginOutputReadLine();
             process.BeginErrorReadLine();
+            _runningExecutions.AttachProcess(executionId, process);
 
             await process.WaitForExitAsync();
 
+            var stoppedBy = _runningExecutions.GetStoppedBy(executionId);
+            if (stoppedBy == null)
+            {
+                await RecordMilestoneAsync(backupPlan.id, executionId, "CopiesFinished", "Finalizing");
+            }
+
             var endTime = DateTime.UtcNow;
             var duration = endTime - startTime;
             var output = outputBuilder.ToString();
@@ -490,6 +661,27 @@ public class BackupPlanExecutor
                 _logger.LogDebug("Saved final batch of {Count} log entries to database", finalBatch.Count);
             }
 
+            if (stoppedBy != null)
+            {
+                if (runHooks)
+                {
+                    postHookRan = true;
+                    await RunPostHookAfterFailureAsync(backupPlan, agent, sshKeyPath, executionId);
+                }
+                await CompleteStoppedExecutionAsync(backupPlan, executionId, stoppedBy, startTime);
+                return result;
+            }
+
+            // The snapshot only gets its final name once rsync has written it, failed runs stay
+            // ".inprogress" and are never used as --link-dest
+            string? snapshotName = null;
+            if (snapshot != null && !isSimulation && (process.ExitCode == 0 || process.ExitCode == 23) && Directory.Exists(snapshot.workingPath))
+            {
+                Directory.Move(snapshot.workingPath, snapshot.path);
+                snapshotName = snapshot.name;
+                _logger.LogInformation("Snapshot {SnapshotName} written for backup plan {BackupPlanId}", snapshot.name, backupPlan.id);
+            }
+
             // Log rsync finish to database
             using (var logScope = _serviceScopeFactory.CreateScope())
             {
@@ -500,6 +692,7 @@ public class BackupPlanExecutor
                 if (backupExecution != null)
                 {
                     backupExecution.endDateTime = endTime;
+                    backupExecution.snapshotName = snapshotName;
                 }
 
                 // Log rsync finish
@@ -594,6 +787,18 @@ public class BackupPlanExecutor
                 }
             }
 
+            if (runHooks && !string.IsNullOrWhiteSpace(backupPlan.postHookCommand))
+            {
+                postHookRan = true;
+                var postHookSucceeded = await RunHookAsync(backupPlan, agent, sshKeyPath, executionId, "post",
+                    backupPlan.postHookCommand, backupPlan.postHookTimeoutSeconds, backupPlan.postHookAbortOnFailure);
+
+                if (!postHookSucceeded && backupPlan.postHookAbortOnFailure)
+                {
+                    throw new Exception("Post-execution hook failed");
+                }
+            }
+
             // Parse output for simulation mode
             if (isSimulation)
             {
@@ -604,16 +809,37 @@ public class BackupPlanExecutor
                 _logger.LogInformation("Backup completed successfully for backup plan {BackupPlanId}", backupPlan.id);
             }
 
+            await PublishExecutionStatusAsync(executionId, "Completed");
+
             using (var scope = _serviceScopeFactory.CreateScope())
             {
                 var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
-                await notificationService.SendBackupCompletedNotificationAsync(backupPlan, result, isAutomatic, isSimulation);
+                if (restore == null)
+                {
+                    await notificationService.SendBackupCompletedNotificationAsync(backupPlan, result, isAutomatic, isSimulation, executionId);
+                }
+                else if (!isSimulation)
+                {
+                    // Restore previews are interactive, only the actual restore is worth a notification
+                    await notificationService.CreateNotificationAsync(
+                        "RestoreCompleted",
+                        $"Restore completed: {backupPlan.name}",
+                        $"Restored {result.TransferredFiles} files to {agent.hostname}:{restore.targetPath}",
+                        backupPlan.id,
+                        executionId);
+                }
             }
 
             return result;
         }
         catch (Exception ex)
         {
+            // Give the post hook a chance to undo what the pre hook did (restart a container, drop a dump)
+            if (restore == null && !isSimulation && !postHookRan)
+            {
+                await RunPostHookAfterFailureAsync(backupPlan, agent, sshKeyPath, executionId);
+            }
+
             // Set endDateTime even on failure so status can be determined
             var failureTime = DateTime.UtcNow;
             try
@@ -634,15 +860,31 @@ public class BackupPlanExecutor
                 _logger.LogWarning(logEx, "Failed to update BackupExecution endDateTime on failure");
             }
 
+            await PublishExecutionStatusAsync(executionId, "Interrupted");
+
             using (var scope = _serviceScopeFactory.CreateScope())
             {
                 var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
-                await notificationService.SendBackupFailedNotificationAsync(backupPlan, ex.Message, isAutomatic, isSimulation);
+                if (restore == null)
+                {
+                    await notificationService.SendBackupFailedNotificationAsync(backupPlan, ex.Message, isAutomatic, isSimulation, executionId);
+                }
+                else if (!isSimulation)
+                {
+                    await notificationService.CreateNotificationAsync(
+                        "RestoreFailed",
+                        $"Restore failed: {backupPlan.name}",
+                        ex.Message,
+                        backupPlan.id,
+                        executionId);
+                }
             }
             throw;
         }
         finally
         {
+            _runningExecutions.Unregister(executionId);
+
             // Clean up temporary SSH key file
             try
             {
@@ -655,6 +897,405 @@ public class BackupPlanExecutor
             {
                 _logger.LogWarning(ex, "Failed to delete temporary SSH key file: {SshKeyPath}", sshKeyPath);
             }
+
+            HostKeys.DeleteKnownHostsFile(sshKeyPath);
+            JumpHosts.DeleteFiles(agent, sshKeyPath);
+        }
+    }
+
+    /// <summary>
+    /// Refuses to run against an agent whose host key differs from the pinned one. The change is
+    /// recorded on the agent and notified once per presented key, until the new key is accepted.
+    /// </summary>
+    private async Task VerifyHostKeyAsync(Agent agent)
+    {
+        string? presentedKey;
+        try
+        {
+            presentedKey = await HostKeys.FindChangedKeyAsync(agent);
+        }
+        catch (InvalidOperationException ex)
+        {
+            // An unreachable agent fails on the rsync connection, which checks the pinned key as well
+            _logger.LogWarning(ex, "Could not read the host key of agent {AgentId}", agent.id);
+            return;
+        }
+
+        if (presentedKey == null)
+        {
+            return;
+        }
+
+        var presentedFingerprint = HostKeys.GetFingerprint(presentedKey);
+        _logger.LogWarning("Host key of agent {AgentId} ({Hostname}) changed from {Pinned} to {Presented}",
+            agent.id, agent.hostname, agent.hostKeyFingerprint, presentedFingerprint);
+
+        using (var scope = _serviceScopeFactory.CreateScope())
+        {
+            var dbContext = scope.ServiceProvider.GetRequiredService<DBContext>();
+            var storedAgent = await dbContext.Agents.FindAsync(agent.id);
+            if (storedAgent != null && storedAgent.changedHostKeyFingerprint != presentedFingerprint)
+            {
+                storedAgent.changedHostKeyFingerprint = presentedFingerprint;
+                await dbContext.SaveChangesAsync();
+
+                var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+                await notificationService.SendHostKeyChangedNotificationAsync(agent, agent.hostKeyFingerprint ?? "unknown", presentedFingerprint);
+            }
+        }
+
+        throw new InvalidOperationException(
+            $"Host key of {agent.hostname} changed from {agent.hostKeyFingerprint} to {presentedFingerprint}, refusing to connect. " +
+            "Accept the new host key on the agent page if the change is expected.");
+    }
+
+    /// <summary>
+    /// Writes a Milestone log entry (read back by GetExecutionStats to derive the running status)
+    /// and pushes the new status to connected clients.
+    /// </summary>
+    private async Task RecordMilestoneAsync(Guid backupPlanId, Guid executionId, string milestone, string status)
+    {
+        try
+        {
+            using var logScope = _serviceScopeFactory.CreateScope();
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+            var milestoneLogEntry = new LogEntry
+            {
+                id = Guid.NewGuid(),
+                backupPlanId = backupPlanId,
+                executionId = executionId,
+                datetime = DateTime.UtcNow,
+                fileName = "rsync-milestone",
+                filePath = "",
+                action = LogEntry.Action.Milestone.ToString(),
+                reason = milestone
+            };
+            logContext.LogEntries.Add(milestoneLogEntry);
+            await logContext.SaveChangesAsync();
+
+            var backupExecution = await logContext.BackupExecutions.FindAsync(executionId);
+            if (backupExecution != null)
+            {
+                await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, status));
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to record milestone {Milestone} for execution {ExecutionId}", milestone, executionId);
+        }
+    }
+
+    /// <summary>
+    /// Runs a hook command on the agent over ssh and records it as System log entries of the
+    /// execution: the command, every output line (stderr prefixed) and the exit code. The process
+    /// is attached to the execution so stopping the execution also stops the hook.
+    /// Returns true when the command exited with code 0 within its timeout.
+    /// </summary>
+    private async Task<bool> RunHookAsync(BackupPlan backupPlan, Agent agent, string sshKeyPath, Guid executionId, string phase, string command, int timeoutSeconds, bool abortOnFailure)
+    {
+        var fileName = $"hook-{phase}";
+        var hookStartTime = DateTime.UtcNow;
+        var outputEntries = new List<LogEntry>();
+        var outputLock = new object();
+        var droppedLines = 0;
+
+        LogEntry CreateEntry(string reason, string action) => new LogEntry
+        {
+            id = Guid.NewGuid(),
+            backupPlanId = backupPlan.id,
+            executionId = executionId,
+            datetime = DateTime.UtcNow,
+            fileName = fileName,
+            filePath = command,
+            action = action,
+            reason = reason
+        };
+
+        void AddOutputLine(string? line, bool isError)
+        {
+            if (string.IsNullOrEmpty(line))
+            {
+                return;
+            }
+
+            lock (outputLock)
+            {
+                if (outputEntries.Count >= SshHooks.MaxLoggedOutputLines)
+                {
+                    droppedLines++;
+                    return;
+                }
+                outputEntries.Add(CreateEntry(isError ? $"[stderr] {line}" : line, LogEntry.Action.System.ToString()));
+            }
+        }
+
+        using (var logScope = _serviceScopeFactory.CreateScope())
+        {
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+            logContext.LogEntries.Add(CreateEntry($"Starting {phase}-execution hook (timeout {timeoutSeconds}s)", LogEntry.Action.System.ToString()));
+            await logContext.SaveChangesAsync();
+        }
+
+        _logger.LogInformation("Running {Phase}-execution hook for backup plan {BackupPlanId}: {Command}", phase, backupPlan.id, command);
+
+        int? exitCode = null;
+        var timedOut = false;
+        string? startError = null;
+
+        var processStartInfo = new ProcessStartInfo
+        {
+            FileName = "ssh",
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+        foreach (var argument in SshHooks.BuildSshArguments(agent, sshKeyPath, command))
+        {
+            processStartInfo.ArgumentList.Add(argument);
+        }
+
+        using var process = new Process { StartInfo = processStartInfo };
+        process.OutputDataReceived += (sender, e) => AddOutputLine(e.Data, false);
+        process.ErrorDataReceived += (sender, e) => AddOutputLine(e.Data, true);
+
+        try
+        {
+            process.Start();
+            process.BeginOutputReadLine();
+            process.BeginErrorReadLine();
+
+            // After a stop the post hook still runs to clean up, attaching it would kill it right away
+            if (_runningExecutions.GetStoppedBy(executionId) == null)
+            {
+                _runningExecutions.AttachProcess(executionId, process);
+            }
+
+            using var timeout = new CancellationTokenSource(TimeSpan.FromSeconds(timeoutSeconds));
+            try
+            {
+                await process.WaitForExitAsync(timeout.Token);
+                exitCode = process.ExitCode;
+            }
+            catch (OperationCanceledException)
+            {
+                // Killing the local ssh client closes the session; commands that ignore SIGHUP may
+                // keep running on the agent
+                timedOut = true;
+                try
+                {
+                    process.Kill(entireProcessTree: true);
+                }
+                catch (InvalidOperationException)
+                {
+                    // Exited on its own in the meantime
+                }
+                await process.WaitForExitAsync();
+            }
+        }
+        catch (Exception ex)
+        {
+            startError = ex.Message;
+            _logger.LogWarning(ex, "Failed to run {Phase}-execution hook for backup plan {BackupPlanId}", phase, backupPlan.id);
+        }
+
+        var duration = DateTime.UtcNow - hookStartTime;
+        var succeeded = exitCode == 0;
+        var finishReason = succeeded
+            ? $"{phase}-execution hook finished successfully. Exit code: 0, Duration: {duration.TotalMilliseconds}ms"
+            : timedOut
+                ? $"{phase}-execution hook timed out after {timeoutSeconds}s"
+                : startError != null
+                    ? $"{phase}-execution hook could not be started: {startError}"
+                    : $"{phase}-execution hook failed. Exit code: {exitCode}, Duration: {duration.TotalMilliseconds}ms";
+
+        using (var logScope = _serviceScopeFactory.CreateScope())
+        {
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+            lock (outputLock)
+            {
+                logContext.LogEntries.AddRange(outputEntries);
+                if (droppedLines > 0)
+                {
+                    logContext.LogEntries.Add(CreateEntry($"{droppedLines} more output lines were not logged", LogEntry.Action.System.ToString()));
+                }
+            }
+
+            // A failure that aborts the run is logged as CopyError, which GetExecutionStats reports as Interrupted
+            var finishAction = !succeeded && abortOnFailure ? LogEntry.Action.CopyError : LogEntry.Action.System;
+            logContext.LogEntries.Add(CreateEntry(finishReason, finishAction.ToString()));
+            await logContext.SaveChangesAsync();
+        }
+
+        if (succeeded)
+        {
+            _logger.LogInformation("{Phase}-execution hook of backup plan {BackupPlanId} finished in {Duration}ms", phase, backupPlan.id, duration.TotalMilliseconds);
+        }
+        else
+        {
+            _logger.LogWarning("{Phase}-execution hook of backup plan {BackupPlanId} failed: {Reason}", phase, backupPlan.id, finishReason);
+        }
+
+        return succeeded;
+    }
+
+    /// <summary>
+    /// Runs the post hook of a run that failed or was stopped. Its result is only logged, the run
+    /// has already failed.
+    /// </summary>
+    private async Task RunPostHookAfterFailureAsync(BackupPlan backupPlan, Agent agent, string sshKeyPath, Guid executionId)
+    {
+        if (string.IsNullOrWhiteSpace(backupPlan.postHookCommand))
+        {
+            return;
+        }
+
+        try
+        {
+            await RunHookAsync(backupPlan, agent, sshKeyPath, executionId, "post",
+                backupPlan.postHookCommand, backupPlan.postHookTimeoutSeconds, abortOnFailure: false);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to run post-execution hook after failure of execution {ExecutionId}", executionId);
+        }
+    }
+
+    /// <summary>
+    /// Closes an execution the deletion guard blocked after its dry-run. The planned changes are kept
+    /// as DeleteSkipped/CopySkipped entries so an operator can review them before approving the run.
+    /// </summary>
+    private async Task BlockExecutionAsync(BackupPlan backupPlan, Guid executionId, string reason, DeletionGuardCounts counts, string dryRunOutput, bool isAutomatic)
+    {
+        var plannedChanges = new ExecutionResult();
+        ParseRsyncOutput(dryRunOutput, plannedChanges);
+        var endTime = DateTime.UtcNow;
+
+        using (var logScope = _serviceScopeFactory.CreateScope())
+        {
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+            var backupExecution = await logContext.BackupExecutions.FindAsync(executionId);
+            if (backupExecution != null)
+            {
+                backupExecution.endDateTime = endTime;
+                backupExecution.blockedDeletions = counts.FilesToDelete;
+            }
+
+            // Deletions first, they are what the operator has to review
+            var skippedItems = plannedChanges.Items.Where(i => i.Action == "Delete").Take(DeletionGuard.MaxLoggedChanges)
+                .Concat(plannedChanges.Items.Where(i => i.Action == "Copy").Take(DeletionGuard.MaxLoggedChanges));
+            foreach (var item in skippedItems)
+            {
+                logContext.LogEntries.Add(new LogEntry
+                {
+                    id = Guid.NewGuid(),
+                    backupPlanId = backupPlan.id,
+                    executionId = executionId,
+                    datetime = endTime,
+                    fileName = item.FileName,
+                    filePath = item.FilePath,
+                    action = (item.Action == "Delete" ? LogEntry.Action.DeleteSkipped : LogEntry.Action.CopySkipped).ToString(),
+                    reason = "Blocked by deletion guard"
+                });
+            }
+
+            logContext.LogEntries.Add(new LogEntry
+            {
+                id = Guid.NewGuid(),
+                backupPlanId = backupPlan.id,
+                executionId = executionId,
+                datetime = endTime,
+                fileName = "deletion-guard",
+                filePath = "",
+                action = LogEntry.Action.CopyError.ToString(),
+                reason = $"Run blocked by deletion guard: {reason}"
+            });
+
+            await logContext.SaveChangesAsync();
+        }
+
+        _logger.LogWarning("Execution {ExecutionId} of backup plan {BackupPlanId} was blocked by the deletion guard: {Reason}", executionId, backupPlan.id, reason);
+
+        await PublishExecutionStatusAsync(executionId, "Interrupted");
+
+        using (var scope = _serviceScopeFactory.CreateScope())
+        {
+            var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+            await notificationService.SendDeletionGuardNotificationAsync(backupPlan, reason, isAutomatic, executionId);
+        }
+    }
+
+    /// <summary>
+    /// Closes an execution whose rsync process was killed through RunningExecutionService.
+    /// </summary>
+    private async Task CompleteStoppedExecutionAsync(BackupPlan backupPlan, Guid executionId, string stoppedBy, DateTime startTime)
+    {
+        var endTime = DateTime.UtcNow;
+        var duration = endTime - startTime;
+
+        using (var logScope = _serviceScopeFactory.CreateScope())
+        {
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+            var backupExecution = await logContext.BackupExecutions.FindAsync(executionId);
+            if (backupExecution != null)
+            {
+                backupExecution.endDateTime = endTime;
+                backupExecution.stoppedBy = stoppedBy;
+            }
+
+            // A CopyError finish entry is what GetExecutionStats reports as Interrupted
+            var finishLogEntry = new LogEntry
+            {
+                id = Guid.NewGuid(),
+                backupPlanId = backupPlan.id,
+                executionId = executionId,
+                datetime = endTime,
+                fileName = "rsync-finish",
+                filePath = "",
+                action = LogEntry.Action.CopyError.ToString(),
+                reason = $"Rsync stopped by {stoppedBy}. Duration: {duration.TotalMilliseconds}ms"
+            };
+            logContext.LogEntries.Add(finishLogEntry);
+
+            await logContext.SaveChangesAsync();
+        }
+
+        _logger.LogWarning("Execution {ExecutionId} of backup plan {BackupPlanId} was stopped by {StoppedBy}", executionId, backupPlan.id, stoppedBy);
+
+        await PublishExecutionStatusAsync(executionId, "Interrupted");
+
+        using (var scope = _serviceScopeFactory.CreateScope())
+        {
+            var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+            await notificationService.CreateNotificationAsync(
+                "BackupStopped",
+                $"Backup stopped: {backupPlan.name}",
+                $"Execution stopped by {stoppedBy}",
+                backupPlan.id,
+                executionId);
+        }
+    }
+
+    private async Task PublishExecutionStatusAsync(Guid executionId, string status)
+    {
+        try
+        {
+            using var logScope = _serviceScopeFactory.CreateScope();
+            var logContext = logScope.ServiceProvider.GetRequiredService<LogDbContext>();
+
+            var backupExecution = await logContext.BackupExecutions.FindAsync(executionId);
+            if (backupExecution != null)
+            {
+                await _executionEvents.PublishExecutionUpdateAsync(ExecutionEvent.FromExecution(backupExecution, status));
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to publish status {Status} for execution {ExecutionId}", status, executionId);
         }
     }
 
@@ -683,20 +1324,74 @@ public class BackupPlanExecutor
         return normalized;
     }
 
-    private async Task<int> RunDryRunAndCountFiles(BackupPlan backupPlan, Agent agent, string sshKeyPath, Guid executionId)
+    /// <summary>
+    /// Builds the transfer options, ssh transport and paths of an rsync run. Backups pull the plan
+    /// sources from the agent into the destination; restores push the selected destination paths
+    /// back to the agent, keeping their path relative to the destination. In hardlink snapshot mode
+    /// backups go into a fresh snapshot directory instead, so there is nothing to delete. Whether a
+    /// backup keeps the full source paths depends on the plan only, never on the run: a run with
+    /// --link-dest has to lay out its files like the snapshot it links to.
+    /// </summary>
+    private static string BuildRsyncArguments(BackupPlan backupPlan, Agent agent, string sshKeyPath, string outputFlags, RestoreTarget? restore, HardlinkSnapshotTarget? snapshot)
+    {
+        var rsyncArgs = new StringBuilder();
+        rsyncArgs.Append(RsyncTransferOptions.BuildArguments(backupPlan, allowDelete: restore == null && snapshot == null));
+        rsyncArgs.Append(outputFlags);
+
+        var sources = BackupSources.Ordered(backupPlan);
+        var relativePaths = BackupSources.UseRelativePaths(backupPlan);
+
+        if (restore == null)
+        {
+            rsyncArgs.Append(BackupSources.BuildExcludeArguments(sources, relativePaths));
+            rsyncArgs.Append(RsyncFilterRules.BuildArguments(backupPlan.filterRules));
+        }
+
+        if (snapshot?.linkDestPath != null)
+        {
+            rsyncArgs.Append($"--link-dest=\"{snapshot.linkDestPath}\" ");
+        }
+
+        // Restores need it for "/./" below, backups only when the plan keeps the full source paths
+        if (restore != null || relativePaths)
+        {
+            rsyncArgs.Append("--relative ");
+        }
+
+        // Build SSH command for -e option
+        var sshOptions = HostKeys.BuildSshOptions(agent, sshKeyPath).Concat(JumpHosts.BuildSshOptions(agent, sshKeyPath));
+        var sshCommand = $"ssh -i {sshKeyPath} -p {agent.rsyncPort} {string.Join(' ', sshOptions)}";
+        rsyncArgs.Append($"-e \"{sshCommand}\" ");
+
+        if (restore == null)
+        {
+            var destinationPath = snapshot != null ? $"\"{snapshot.workingPath}/\"" : backupPlan.destination;
+            rsyncArgs.Append($"{BackupSources.BuildSourceArguments(sources, agent)} {destinationPath}");
+        }
+        else
+        {
+            // With --relative, the part after "/./" is recreated under the target path
+            var sourceRoot = restore.sourceRoot.TrimEnd('/');
+            foreach (var path in restore.paths)
+            {
+                rsyncArgs.Append($"\"{sourceRoot}/./{path}\" ");
+            }
+
+            var targetPath = restore.targetPath.TrimEnd('/') + "/";
+            rsyncArgs.Append($"\"{agent.rsyncUser}@{agent.hostname}:{targetPath}\"");
+        }
+
+        return rsyncArgs.ToString();
+    }
+
+    private async Task<int> RunDryRunAndCountFiles(BackupPlan backupPlan, Agent agent, string sshKeyPath, Guid executionId, RestoreTarget? restore, HardlinkSnapshotTarget? snapshot, StringBuilder? dryRunOutput = null)
     {
         try
         {
             // Build rsync command with --dry-run
             var rsyncArgs = new StringBuilder();
-            rsyncArgs.Append("--dry-run -avz --delete --itemize-changes --stats ");
-            
-            // Build SSH command for -e option
-            var sshCommand = $"ssh -i {sshKeyPath} -p {agent.rsyncPort} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null";
-            rsyncArgs.Append($"-e \"{sshCommand}\" ");
-            
-            var sourcePath = $"{agent.rsyncUser}@{agent.hostname}:{backupPlan.source}";
-            rsyncArgs.Append($"{sourcePath} {backupPlan.destination}");
+            rsyncArgs.Append("--dry-run ");
+            rsyncArgs.Append(BuildRsyncArguments(backupPlan, agent, sshKeyPath, "--itemize-changes --stats ", restore, snapshot));
 
             var processStartInfo = new ProcessStartInfo
             {
@@ -731,10 +1426,12 @@ public class BackupPlanExecutor
             process.Start();
             process.BeginOutputReadLine();
             process.BeginErrorReadLine();
+            _runningExecutions.AttachProcess(executionId, process);
 
             await process.WaitForExitAsync();
 
             var output = outputBuilder.ToString();
+            dryRunOutput?.Append(output);
             
             // Parse the output to count files
             // Look for "Number of files:" line in stats and extract regular files count
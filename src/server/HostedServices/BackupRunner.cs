@@ -9,6 +9,7 @@ using Microsoft.Extensions.Logging;
 using NCrontab;
 using server.Data;
 using server.Models;
+using server.Services;
 
 namespace server.HostedServices;
 
@@ -19,6 +20,12 @@ public class BackupRunner : IHostedService
     private Timer? _timer;
     private readonly Dictionary<Guid, CrontabSchedule> _cronSchedules = new();
 
+    // Scheduled wall clock time each plan last ran for and when (UTC), so the repeated hour of a
+    // daylight saving fall-back does not run a plan twice
+    private readonly Dictionary<Guid, ScheduledRun> _lastScheduledRuns = new();
+
+    private record ScheduledRun(DateTime occurrence, DateTime startedAtUtc);
+
     public BackupRunner(ILogger<BackupRunner> logger, IServiceScopeFactory serviceScopeFactory)
     {
         _logger = logger;
@@ -59,8 +66,8 @@ public class BackupRunner : IHostedService
                 {
                     var cronSchedule = CrontabSchedule.Parse(plan.schedule);
                     _cronSchedules[plan.id] = cronSchedule;
-                    _logger.LogInformation("Loaded backup plan '{Name}' (ID: {Id}) with schedule: {Schedule}", 
-                        plan.name, plan.id, plan.schedule);
+                    _logger.LogInformation("Loaded backup plan '{Name}' (ID: {Id}) with schedule: {Schedule} ({Timezone})", 
+                        plan.name, plan.id, plan.schedule, plan.timezone);
                 }
                 catch (Exception ex)
                 {
@@ -90,6 +97,7 @@ public class BackupRunner : IHostedService
             
             var backupPlans = dbContext.BackupPlans
                 .Include(bp => bp.agent)
+                .Include(bp => bp.sources)
                 .Where(bp => bp.active)
                 .ToList();
             
@@ -102,12 +110,17 @@ public class BackupRunner : IHostedService
                 var plan = backupPlans.FirstOrDefault(p => p.id == planId);
                 if (plan == null) continue;
                 
-                // Get the next occurrence
-                var nextOccurrence = cronSchedule.GetNextOccurrence(now.AddMinutes(-1));
-                
-                // Check if the current minute matches the schedule
-                if (nextOccurrence <= now && (now - nextOccurrence).TotalMinutes < 1)
+                // Check if the current minute matches the schedule, in the plan's timezone
+                var occurrence = PlanSchedules.GetDueOccurrence(cronSchedule, plan.timezone, now);
+                if (occurrence.HasValue)
                 {
+                    if (_lastScheduledRuns.TryGetValue(planId, out var lastRun) && lastRun.occurrence == occurrence.Value)
+                    {
+                        _logger.LogInformation("Backup plan '{Name}' (ID: {Id}) already ran for {Occurrence} ({Timezone}) at {StartedAt:u}. Skipping the repeated hour.",
+                            plan.name, plan.id, occurrence.Value, plan.timezone, lastRun.startedAtUtc);
+                        continue;
+                    }
+
                     // Check if agent is configured
                     if (plan.agent == null)
                     {
@@ -123,9 +136,11 @@ public class BackupRunner : IHostedService
                         continue;
                     }
                     
-                    _logger.LogInformation("Backup plan '{Name}' (ID: {Id}) is due to run. Schedule: {Schedule}, Agent: {AgentName}", 
-                        plan.name, plan.id, plan.schedule, plan.agent.name);
+                    _logger.LogInformation("Backup plan '{Name}' (ID: {Id}) is due to run. Schedule: {Schedule} ({Timezone}), Agent: {AgentName}", 
+                        plan.name, plan.id, plan.schedule, plan.timezone, plan.agent.name);
                     
+                    _lastScheduledRuns[planId] = new ScheduledRun(occurrence.Value, now);
+
                     // Start backup execution asynchronously
                     // Create a new scope for the async execution to avoid disposing the scope too early
                     var planToExecute = plan; // Capture the plan for the closure
@@ -0,0 +1,107 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using server.Data;
+using server.Services;
+
+namespace server.HostedServices;
+
+/// <summary>
+/// Removes hardlink snapshots that no retention rule keeps anymore, and the ".inprogress"
+/// directories left behind by failed or stopped runs.
+/// </summary>
+public class SnapshotPruneService : IHostedService
+{
+    private readonly ILogger<SnapshotPruneService> _logger;
+    private readonly IServiceScopeFactory _serviceScopeFactory;
+    private readonly RunningExecutionService _runningExecutions;
+    private Timer? _timer;
+
+    public SnapshotPruneService(
+        ILogger<SnapshotPruneService> logger,
+        IServiceScopeFactory serviceScopeFactory,
+        RunningExecutionService runningExecutions)
+    {
+        _logger = logger;
+        _serviceScopeFactory = serviceScopeFactory;
+        _runningExecutions = runningExecutions;
+    }
+
+    public Task StartAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("SnapshotPruneService is starting...");
+
+        // Run shortly after startup, then every hour
+        _timer = new Timer(ExecutePrune, null, TimeSpan.FromMinutes(1), TimeSpan.FromHours(1));
+
+        _logger.LogInformation("SnapshotPruneService started. Will run every hour.");
+
+        return Task.CompletedTask;
+    }
+
+    public Task StopAsync(CancellationToken cancellationToken)
+    {
+        _logger.LogInformation("SnapshotPruneService is stopping...");
+
+        _timer?.Change(Timeout.Infinite, 0);
+
+        return Task.CompletedTask;
+    }
+
+    private void ExecutePrune(object? state)
+    {
+        _ = Task.Run(async () =>
+        {
+            try
+            {
+                using var scope = _serviceScopeFactory.CreateScope();
+                var dbContext = scope.ServiceProvider.GetRequiredService<DBContext>();
+
+                var backupPlans = await dbContext.BackupPlans
+                    .Where(bp => bp.snapshotMode == "hardlink")
+                    .ToListAsync();
+
+                foreach (var backupPlan in backupPlans)
+                {
+                    // Never touch a destination while a run may be writing or linking against it
+                    if (_runningExecutions.GetRunningExecutions(backupPlan.id).Count > 0)
+                    {
+                        _logger.LogDebug("Backup plan {BackupPlanId} is running, skipping snapshot pruning", backupPlan.id);
+                        continue;
+                    }
+
+                    try
+                    {
+                        var snapshots = HardlinkSnapshots.List(backupPlan.destination);
+                        HardlinkSnapshots.ApplyRetention(backupPlan, snapshots);
+
+                        var expired = snapshots.Where(s => s.KeptBy.Count == 0).Select(s => s.Path).ToList();
+                        var leftovers = HardlinkSnapshots.ListInProgress(backupPlan.destination);
+
+                        foreach (var path in expired.Concat(leftovers))
+                        {
+                            Directory.Delete(path, recursive: true);
+                            _logger.LogInformation("Deleted snapshot {SnapshotPath} of backup plan {BackupPlanId}", path, backupPlan.id);
+                        }
+
+                        if (expired.Count > 0 || leftovers.Count > 0)
+                        {
+                            _logger.LogInformation(
+                                "Snapshot pruning for backup plan {BackupPlanId} deleted {ExpiredCount} expired snapshots and {LeftoverCount} incomplete runs",
+                                backupPlan.id, expired.Count, leftovers.Count);
+                        }
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogError(ex, "Error pruning snapshots of backup plan {BackupPlanId}", backupPlan.id);
+                    }
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error during snapshot pruning");
+            }
+        });
+    }
+}
@@ -0,0 +1,31 @@
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.AspNetCore.Authorization;
+
+namespace server.Hubs;
+
+/// <summary>
+/// Push-only hub: the server broadcasts "ExecutionUpdated", "NotificationCreated" and
+/// "AgentHealthUpdated" through IExecutionEventsService, clients only listen.
+/// </summary>
+[Authorize]
+public class ExecutionEventsHub : Hub
+{
+    private readonly ILogger<ExecutionEventsHub> _logger;
+
+    public ExecutionEventsHub(ILogger<ExecutionEventsHub> logger)
+    {
+        _logger = logger;
+    }
+
+    public override async Task OnConnectedAsync()
+    {
+        _logger.LogDebug("Execution events client connected: {ConnectionId}", Context.ConnectionId);
+        await base.OnConnectedAsync();
+    }
+
+    public override async Task OnDisconnectedAsync(Exception? exception)
+    {
+        _logger.LogDebug("Execution events client disconnected: {ConnectionId}", Context.ConnectionId);
+        await base.OnDisconnectedAsync(exception);
+    }
+}
@@ -1,18 +1,26 @@
+using System.Security.Claims;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.AspNetCore.Authorization;
+using server.Data;
 using server.Services;
 
 namespace server.Hubs;
 
+/// <summary>
+/// Web console of the agents. Every connection carries at most one SSH session, the browser opens a
+/// connection per console tab.
+/// </summary>
 [Authorize]
 public class TerminalHub : Hub
 {
     private readonly TerminalService _terminalService;
+    private readonly DBContext _context;
     private readonly ILogger<TerminalHub> _logger;
 
-    public TerminalHub(TerminalService terminalService, ILogger<TerminalHub> logger)
+    public TerminalHub(TerminalService terminalService, DBContext context, ILogger<TerminalHub> logger)
     {
         _terminalService = terminalService;
+        _context = context;
         _logger = logger;
     }
 
@@ -25,20 +33,35 @@ public class TerminalHub : Hub
     public override async Task OnDisconnectedAsync(Exception? exception)
     {
         _logger.LogInformation("Terminal client disconnected: {ConnectionId}", Context.ConnectionId);
-        await _terminalService.DisconnectAsync(Context.ConnectionId);
+        await _terminalService.CloseSessionAsync(Context.ConnectionId);
         await base.OnDisconnectedAsync(exception);
     }
 
-    public async Task StartTerminal()
+    public async Task StartTerminal(Guid agentId, int cols, int rows)
     {
         try
         {
-            // Capture the client proxy before starting the terminal
-            // ISingleClientProxy implements IClientProxy, so we can cast it
+            // A shell on an agent is as good as its SSH key, only admins get one
+            if (!await AdminUsers.IsActiveAdminAsync(_context, Context.User))
+            {
+                await Clients.Caller.SendAsync("TerminalError", "Only administrators can open a console");
+                return;
+            }
+
+            var agent = await _context.Agents.FindAsync(agentId);
+            if (agent == null)
+            {
+                await Clients.Caller.SendAsync("TerminalError", "Agent not found");
+                return;
+            }
+            await JumpHosts.LoadAsync(_context, agent);
+
+            var userName = Context.User?.FindFirst(ClaimTypes.Name)?.Value ?? "Unknown user";
+            var clientAddress = Context.GetHttpContext()?.Connection.RemoteIpAddress?.ToString();
+
+            // Capture the client proxy, the session outlives this invocation
             IClientProxy clientProxy = Clients.Caller;
-            var connectionId = Context.ConnectionId;
-            
-            await _terminalService.StartTerminalAsync(connectionId, clientProxy);
+            await _terminalService.StartSessionAsync(Context.ConnectionId, clientProxy, agent, userName, clientAddress, cols, rows);
         }
         catch (Exception ex)
         {
@@ -72,12 +95,16 @@ public class TerminalHub : Hub
     {
         try
         {
-            await _terminalService.ResizeTerminalAsync(Context.ConnectionId, cols, rows);
+            await _terminalService.ResizeAsync(Context.ConnectionId, cols, rows);
         }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error resizing terminal for connection {ConnectionId}", Context.ConnectionId);
         }
     }
-}
 
+    public async Task CloseTerminal()
+    {
+        await _terminalService.CloseSessionAsync(Context.ConnectionId);
+    }
+}
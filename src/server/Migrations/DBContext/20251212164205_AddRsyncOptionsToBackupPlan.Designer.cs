@@ -0,0 +1,367 @@
+﻿// <auto-generated />
+using System;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+using server.Data;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    [DbContext(typeof(server.Data.DBContext))]
+    [Migration("20251212164205_AddRsyncOptionsToBackupPlan")]
+    partial class AddRsyncOptionsToBackupPlan
+    {
+        /// <inheritdoc />
+        protected override void BuildTargetModel(ModelBuilder modelBuilder)
+        {
+#pragma warning disable 612, 618
+            modelBuilder.HasAnnotation("ProductVersion", "10.0.0");
+
+            modelBuilder.Entity("server.Models.Agent", b =>
+                {
+                    b.Property<Guid>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("hostname")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("name")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("rsyncPort")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncSshKey")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("rsyncUser")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("token")
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.ToTable("agent");
+                });
+
+            modelBuilder.Entity("server.Models.AppSettings", b =>
+                {
+                    b.Property<Guid>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("created_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("key")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("updated_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("value")
+                        .IsRequired()
+                        .HasMaxLength(1000)
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("key")
+                        .IsUnique();
+
+                    b.ToTable("app_settings");
+                });
+
+            modelBuilder.Entity("server.Models.BackupPlan", b =>
+                {
+                    b.Property<Guid>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("active")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<Guid?>("agentid")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("description")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("destination")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.PrimitiveCollection<string>("filterRules")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("name")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("rsyncAcls")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int?>("rsyncBandwidthLimit")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncChecksum")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncCompress")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncDeleteMode")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("rsyncHardLinks")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncHost")
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("rsyncNumericIds")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncPartial")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int>("rsyncPort")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncSparse")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncSshKey")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("rsyncUser")
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("rsyncXattrs")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("schedule")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("source")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("agentid");
+
+                    b.ToTable("backup_plan");
+                });
+
+            modelBuilder.Entity("server.Models.CertificateConfig", b =>
+                {
+                    b.Property<int>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("certificatePassword")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("certificatePath")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("created_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("updated_at")
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.ToTable("certificate_config");
+                });
+
+            modelBuilder.Entity("server.Models.JwtConfig", b =>
+                {
+                    b.Property<int>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("audience")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("created_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("issuer")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("secretKey")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("updated_at")
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.ToTable("jwt_config");
+                });
+
+            modelBuilder.Entity("server.Models.Notification", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid?>("backupPlanId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("createdAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid?>("executionId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("isRead")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("message")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("title")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("type")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("createdAt", "isRead");
+
+                    b.ToTable("notification");
+                });
+
+            modelBuilder.Entity("server.Models.TelegramConfig", b =>
+                {
+                    b.Property<Guid>("id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("botToken")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("created_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("isEnabled")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("notificationChatId")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("notificationsEnabled")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<DateTime>("updated_at")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("webhookUrl")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.ToTable("telegram_config");
+                });
+
+            modelBuilder.Entity("server.Models.User", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("createdAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("email")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("isActive")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("isAdmin")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("passwordHash")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("theme")
+                        .HasMaxLength(50)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("timezone")
+                        .HasMaxLength(100)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime?>("updatedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("username")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("email")
+                        .IsUnique();
+
+                    b.HasIndex("username")
+                        .IsUnique();
+
+                    b.ToTable("user");
+                });
+
+            modelBuilder.Entity("server.Models.BackupPlan", b =>
+                {
+                    b.HasOne("server.Models.Agent", "agent")
+                        .WithMany()
+                        .HasForeignKey("agentid");
+
+                    b.Navigation("agent");
+                });
+#pragma warning restore 612, 618
+        }
+    }
+}
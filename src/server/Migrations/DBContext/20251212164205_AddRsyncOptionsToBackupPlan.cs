@@ -0,0 +1,127 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddRsyncOptionsToBackupPlan : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncAcls",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "rsyncBandwidthLimit",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncChecksum",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncCompress",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "rsyncDeleteMode",
+                table: "backup_plan",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "delete");
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncHardLinks",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncNumericIds",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncPartial",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncSparse",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "rsyncXattrs",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "rsyncAcls",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncBandwidthLimit",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncChecksum",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncCompress",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncDeleteMode",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncHardLinks",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncNumericIds",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncPartial",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncSparse",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "rsyncXattrs",
+                table: "backup_plan");
+        }
+    }
+}
@@ -0,0 +1,62 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddSnapshotModeToBackupPlan : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "retentionDaily",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 7);
+
+            migrationBuilder.AddColumn<int>(
+                name: "retentionMonthly",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 12);
+
+            migrationBuilder.AddColumn<int>(
+                name: "retentionWeekly",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 4);
+
+            migrationBuilder.AddColumn<string>(
+                name: "snapshotMode",
+                table: "backup_plan",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "none");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "retentionDaily",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "retentionMonthly",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "retentionWeekly",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "snapshotMode",
+                table: "backup_plan");
+        }
+    }
+}
@@ -0,0 +1,82 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddHooksToBackupPlan : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "postHookAbortOnFailure",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "postHookCommand",
+                table: "backup_plan",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "postHookTimeoutSeconds",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 300);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "preHookAbortOnFailure",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "preHookCommand",
+                table: "backup_plan",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "preHookTimeoutSeconds",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 300);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "postHookAbortOnFailure",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "postHookCommand",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "postHookTimeoutSeconds",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "preHookAbortOnFailure",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "preHookCommand",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "preHookTimeoutSeconds",
+                table: "backup_plan");
+        }
+    }
+}
@@ -0,0 +1,50 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddDeletionGuard : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "deleteThresholdFiles",
+                table: "backup_plan",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "deleteThresholdPercent",
+                table: "backup_plan",
+                type: "REAL",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "priority",
+                table: "notification",
+                type: "TEXT",
+                maxLength: 20,
+                nullable: false,
+                defaultValue: "Normal");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "deleteThresholdFiles",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "deleteThresholdPercent",
+                table: "backup_plan");
+
+            migrationBuilder.DropColumn(
+                name: "priority",
+                table: "notification");
+        }
+    }
+}
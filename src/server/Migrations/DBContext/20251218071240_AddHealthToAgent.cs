@@ -0,0 +1,81 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddHealthToAgent : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "consecutiveHealthFailures",
+                table: "agent",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<string>(
+                name: "healthStatus",
+                table: "agent",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "Unknown");
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "lastHealthCheckAt",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "lastHealthError",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "lastLatencyMs",
+                table: "agent",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "lastSeenAt",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "consecutiveHealthFailures",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "healthStatus",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "lastHealthCheckAt",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "lastHealthError",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "lastLatencyMs",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "lastSeenAt",
+                table: "agent");
+        }
+    }
+}
@@ -0,0 +1,69 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddHostKeyToAgent : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "changedHostKeyFingerprint",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "hostKey",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "hostKeyFingerprint",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "hostKeyPinnedAt",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "hostKeyPinnedBy",
+                table: "agent",
+                type: "TEXT",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "changedHostKeyFingerprint",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "hostKey",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "hostKeyFingerprint",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "hostKeyPinnedAt",
+                table: "agent");
+
+            migrationBuilder.DropColumn(
+                name: "hostKeyPinnedBy",
+                table: "agent");
+        }
+    }
+}
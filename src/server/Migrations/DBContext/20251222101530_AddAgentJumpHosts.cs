@@ -0,0 +1,52 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddAgentJumpHosts : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "agent_jump_host",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    position = table.Column<int>(type: "INTEGER", nullable: false),
+                    viaAgentId = table.Column<Guid>(type: "TEXT", nullable: true),
+                    hostname = table.Column<string>(type: "TEXT", maxLength: 255, nullable: true),
+                    user = table.Column<string>(type: "TEXT", maxLength: 100, nullable: true),
+                    port = table.Column<int>(type: "INTEGER", nullable: false),
+                    sshKey = table.Column<string>(type: "TEXT", nullable: true),
+                    sshKeyPassphrase = table.Column<string>(type: "TEXT", nullable: true),
+                    sshKeyFingerprint = table.Column<string>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_agent_jump_host", x => x.id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_jump_host_agentId_position",
+                table: "agent_jump_host",
+                columns: new[] { "agentId", "position" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_jump_host_viaAgentId",
+                table: "agent_jump_host",
+                column: "viaAgentId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "agent_jump_host");
+        }
+    }
+}
@@ -0,0 +1,79 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.DBContext
+{
+    /// <inheritdoc />
+    public partial class AddBackupPlanSources : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "backup_plan_source",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    backupPlanId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    position = table.Column<int>(type: "INTEGER", nullable: false),
+                    path = table.Column<string>(type: "TEXT", nullable: false),
+                    excludes = table.Column<string>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_backup_plan_source", x => x.id);
+                    table.ForeignKey(
+                        name: "FK_backup_plan_source_backup_plan_backupPlanId",
+                        column: x => x.backupPlanId,
+                        principalTable: "backup_plan",
+                        principalColumn: "id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_backup_plan_source_backupPlanId_position",
+                table: "backup_plan_source",
+                columns: new[] { "backupPlanId", "position" });
+
+            // The single source of every existing plan becomes its first source
+            migrationBuilder.Sql(@"
+                INSERT INTO backup_plan_source (id, backupPlanId, position, path, excludes)
+                SELECT upper(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-' || hex(randomblob(2)) || '-' ||
+                             hex(randomblob(2)) || '-' || hex(randomblob(6))),
+                       id, 0, source, '[]'
+                FROM backup_plan
+                WHERE trim(source) <> '';
+            ");
+
+            migrationBuilder.DropColumn(
+                name: "source",
+                table: "backup_plan");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "source",
+                table: "backup_plan",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            // Only the first source fits into the single column
+            migrationBuilder.Sql(@"
+                UPDATE backup_plan
+                SET source = COALESCE((
+                    SELECT path FROM backup_plan_source
+                    WHERE backupPlanId = backup_plan.id
+                    ORDER BY position
+                    LIMIT 1), '');
+            ");
+
+            migrationBuilder.DropTable(
+                name: "backup_plan_source");
+        }
+    }
+}
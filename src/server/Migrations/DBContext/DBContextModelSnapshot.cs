@@ -1,4 +1,4 @@
-// <auto-generated />
+﻿// <auto-generated />
 using System;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Infrastructure;
@@ -23,10 +23,44 @@ namespace server.Migrations.DBContext
                         .ValueGeneratedOnAdd()
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("changedHostKeyFingerprint")
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("consecutiveHealthFailures")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("healthStatus")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("hostKey")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("hostKeyFingerprint")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime?>("hostKeyPinnedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("hostKeyPinnedBy")
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("hostname")
                         .IsRequired()
                         .HasColumnType("TEXT");
 
+                    b.Property<DateTime?>("lastHealthCheckAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("lastHealthError")
+                        .HasColumnType("TEXT");
+
+                    b.Property<int?>("lastLatencyMs")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<DateTime?>("lastSeenAt")
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("name")
                         .IsRequired()
                         .HasColumnType("TEXT");
@@ -37,9 +71,15 @@ namespace server.Migrations.DBContext
                     b.Property<string>("rsyncSshKey")
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("rsyncSshKeyPassphrase")
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("rsyncUser")
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("sshKeyFingerprint")
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("token")
                         .HasColumnType("TEXT");
 
@@ -48,6 +88,49 @@ namespace server.Migrations.DBContext
                     b.ToTable("agent");
                 });
 
+            modelBuilder.Entity("server.Models.AgentJumpHost", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("agentId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("hostname")
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("port")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int>("position")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("sshKey")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("sshKeyFingerprint")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("sshKeyPassphrase")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("user")
+                        .HasMaxLength(100)
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid?>("viaAgentId")
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("viaAgentId");
+
+                    b.HasIndex("agentId", "position");
+
+                    b.ToTable("agent_jump_host");
+                });
+
             modelBuilder.Entity("server.Models.AppSettings", b =>
                 {
                     b.Property<Guid>("id")
@@ -90,6 +173,12 @@ namespace server.Migrations.DBContext
                     b.Property<Guid?>("agentid")
                         .HasColumnType("TEXT");
 
+                    b.Property<int?>("deleteThresholdFiles")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<double?>("deleteThresholdPercent")
+                        .HasColumnType("REAL");
+
                     b.Property<string>("description")
                         .IsRequired()
                         .HasColumnType("TEXT");
@@ -98,27 +187,93 @@ namespace server.Migrations.DBContext
                         .IsRequired()
                         .HasColumnType("TEXT");
 
+                    b.PrimitiveCollection<string>("filterRules")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("name")
                         .IsRequired()
                         .HasColumnType("TEXT");
 
+                    b.Property<bool>("postHookAbortOnFailure")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("postHookCommand")
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("postHookTimeoutSeconds")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("preHookAbortOnFailure")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("preHookCommand")
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("preHookTimeoutSeconds")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int>("retentionDaily")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int>("retentionMonthly")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int>("retentionWeekly")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncAcls")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int?>("rsyncBandwidthLimit")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncChecksum")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncCompress")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncDeleteMode")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<bool>("rsyncHardLinks")
+                        .HasColumnType("INTEGER");
+
                     b.Property<string>("rsyncHost")
                         .HasColumnType("TEXT");
 
+                    b.Property<bool>("rsyncNumericIds")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("rsyncPartial")
+                        .HasColumnType("INTEGER");
+
                     b.Property<int>("rsyncPort")
                         .HasColumnType("INTEGER");
 
+                    b.Property<bool>("rsyncSparse")
+                        .HasColumnType("INTEGER");
+
                     b.Property<string>("rsyncSshKey")
                         .HasColumnType("TEXT");
 
                     b.Property<string>("rsyncUser")
                         .HasColumnType("TEXT");
 
+                    b.Property<bool>("rsyncXattrs")
+                        .HasColumnType("INTEGER");
+
                     b.Property<string>("schedule")
                         .IsRequired()
                         .HasColumnType("TEXT");
 
-                    b.Property<string>("source")
+                    b.Property<string>("snapshotMode")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("timezone")
                         .IsRequired()
                         .HasColumnType("TEXT");
 
@@ -129,6 +284,32 @@ namespace server.Migrations.DBContext
                     b.ToTable("backup_plan");
                 });
 
+            modelBuilder.Entity("server.Models.BackupPlanSource", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("backupPlanId")
+                        .HasColumnType("TEXT");
+
+                    b.PrimitiveCollection<string>("excludes")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("path")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
+                    b.Property<int>("position")
+                        .HasColumnType("INTEGER");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("backupPlanId", "position");
+
+                    b.ToTable("backup_plan_source");
+                });
+
             modelBuilder.Entity("server.Models.CertificateConfig", b =>
                 {
                     b.Property<int>("id")
@@ -210,6 +391,11 @@ namespace server.Migrations.DBContext
                         .HasMaxLength(2000)
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("priority")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("TEXT");
+
                     b.Property<string>("title")
                         .IsRequired()
                         .HasMaxLength(500)
@@ -322,6 +508,17 @@ namespace server.Migrations.DBContext
                         .HasForeignKey("agentid");
 
                     b.Navigation("agent");
+
+                    b.Navigation("sources");
+                });
+
+            modelBuilder.Entity("server.Models.BackupPlanSource", b =>
+                {
+                    b.HasOne("server.Models.BackupPlan", null)
+                        .WithMany("sources")
+                        .HasForeignKey("backupPlanId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
                 });
 #pragma warning restore 612, 618
         }
@@ -0,0 +1,29 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.LogDbContext
+{
+    /// <inheritdoc />
+    public partial class AddExecutionTypeToBackupExecution : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "executionType",
+                table: "backup_execution",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "Backup");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "executionType",
+                table: "backup_execution");
+        }
+    }
+}
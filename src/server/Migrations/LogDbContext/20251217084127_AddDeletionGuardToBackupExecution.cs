@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.LogDbContext
+{
+    /// <inheritdoc />
+    public partial class AddDeletionGuardToBackupExecution : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "blockedDeletions",
+                table: "backup_execution",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "deletionsApprovedBy",
+                table: "backup_execution",
+                type: "TEXT",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "blockedDeletions",
+                table: "backup_execution");
+
+            migrationBuilder.DropColumn(
+                name: "deletionsApprovedBy",
+                table: "backup_execution");
+        }
+    }
+}
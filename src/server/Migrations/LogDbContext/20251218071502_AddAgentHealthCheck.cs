@@ -0,0 +1,43 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.LogDbContext
+{
+    /// <inheritdoc />
+    public partial class AddAgentHealthCheck : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "agent_health_check",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    checkedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    success = table.Column<bool>(type: "INTEGER", nullable: false),
+                    latencyMs = table.Column<int>(type: "INTEGER", nullable: true),
+                    error = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_agent_health_check", x => x.id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_health_check_agentId_checkedAt",
+                table: "agent_health_check",
+                columns: new[] { "agentId", "checkedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "agent_health_check");
+        }
+    }
+}
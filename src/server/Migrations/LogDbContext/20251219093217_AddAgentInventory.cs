@@ -0,0 +1,80 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.LogDbContext
+{
+    /// <inheritdoc />
+    public partial class AddAgentInventory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "agent_disk_usage",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    inventoryId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    collectedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    filesystem = table.Column<string>(type: "TEXT", maxLength: 500, nullable: false),
+                    mountPoint = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: false),
+                    sizeBytes = table.Column<long>(type: "INTEGER", nullable: false),
+                    usedBytes = table.Column<long>(type: "INTEGER", nullable: false),
+                    availableBytes = table.Column<long>(type: "INTEGER", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_agent_disk_usage", x => x.id);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "agent_inventory",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    collectedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    kernel = table.Column<string>(type: "TEXT", nullable: true),
+                    distribution = table.Column<string>(type: "TEXT", nullable: true),
+                    rsyncVersion = table.Column<string>(type: "TEXT", nullable: true),
+                    rsyncProtocol = table.Column<int>(type: "INTEGER", nullable: true),
+                    cpuCount = table.Column<int>(type: "INTEGER", nullable: true),
+                    cpuModel = table.Column<string>(type: "TEXT", nullable: true),
+                    memoryTotalBytes = table.Column<long>(type: "INTEGER", nullable: true),
+                    memoryAvailableBytes = table.Column<long>(type: "INTEGER", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_agent_inventory", x => x.id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_disk_usage_agentId_collectedAt",
+                table: "agent_disk_usage",
+                columns: new[] { "agentId", "collectedAt" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_disk_usage_inventoryId",
+                table: "agent_disk_usage",
+                column: "inventoryId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_agent_inventory_agentId_collectedAt",
+                table: "agent_inventory",
+                columns: new[] { "agentId", "collectedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "agent_disk_usage");
+
+            migrationBuilder.DropTable(
+                name: "agent_inventory");
+        }
+    }
+}
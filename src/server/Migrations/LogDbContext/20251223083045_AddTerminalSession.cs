@@ -0,0 +1,47 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace server.Migrations.LogDbContext
+{
+    /// <inheritdoc />
+    public partial class AddTerminalSession : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "terminal_session",
+                columns: table => new
+                {
+                    id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    agentName = table.Column<string>(type: "TEXT", maxLength: 255, nullable: false),
+                    hostname = table.Column<string>(type: "TEXT", maxLength: 255, nullable: false),
+                    userName = table.Column<string>(type: "TEXT", maxLength: 100, nullable: false),
+                    clientAddress = table.Column<string>(type: "TEXT", maxLength: 100, nullable: true),
+                    startedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    endedAt = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    exitCode = table.Column<int>(type: "INTEGER", nullable: true),
+                    error = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_terminal_session", x => x.id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_terminal_session_agentId_startedAt",
+                table: "terminal_session",
+                columns: new[] { "agentId", "startedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "terminal_session");
+        }
+    }
+}
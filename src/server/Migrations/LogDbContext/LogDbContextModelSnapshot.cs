@@ -17,6 +17,118 @@ namespace server.Migrations.LogDbContext
 #pragma warning disable 612, 618
             modelBuilder.HasAnnotation("ProductVersion", "10.0.0");
 
+            modelBuilder.Entity("server.Models.AgentHealthCheck", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("agentId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("checkedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("error")
+                        .HasMaxLength(1000)
+                        .HasColumnType("TEXT");
+
+                    b.Property<int?>("latencyMs")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("success")
+                        .HasColumnType("INTEGER");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("agentId", "checkedAt");
+
+                    b.ToTable("agent_health_check");
+                });
+
+            modelBuilder.Entity("server.Models.AgentInventory", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("agentId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime>("collectedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<int?>("cpuCount")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("cpuModel")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("distribution")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("kernel")
+                        .HasColumnType("TEXT");
+
+                    b.Property<long?>("memoryAvailableBytes")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<long?>("memoryTotalBytes")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<int?>("rsyncProtocol")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("rsyncVersion")
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("agentId", "collectedAt");
+
+                    b.ToTable("agent_inventory");
+                });
+
+            modelBuilder.Entity("server.Models.AgentDiskUsage", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("agentId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<long>("availableBytes")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<DateTime>("collectedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("filesystem")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("inventoryId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("mountPoint")
+                        .IsRequired()
+                        .HasMaxLength(1000)
+                        .HasColumnType("TEXT");
+
+                    b.Property<long>("sizeBytes")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<long>("usedBytes")
+                        .HasColumnType("INTEGER");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("inventoryId");
+
+                    b.HasIndex("agentId", "collectedAt");
+
+                    b.ToTable("agent_disk_usage");
+                });
+
             modelBuilder.Entity("server.Models.BackupExecution", b =>
                 {
                     b.Property<Guid>("id")
@@ -25,6 +137,9 @@ namespace server.Migrations.LogDbContext
                     b.Property<Guid>("backupPlanId")
                         .HasColumnType("TEXT");
 
+                    b.Property<int?>("blockedDeletions")
+                        .HasColumnType("INTEGER");
+
                     b.Property<int>("currentFileIndex")
                         .HasColumnType("INTEGER");
 
@@ -34,9 +149,16 @@ namespace server.Migrations.LogDbContext
                     b.Property<string>("currentFilePath")
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("deletionsApprovedBy")
+                        .HasColumnType("TEXT");
+
                     b.Property<DateTime?>("endDateTime")
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("executionType")
+                        .IsRequired()
+                        .HasColumnType("TEXT");
+
                     b.Property<bool>("isAutomatic")
                         .HasColumnType("INTEGER");
 
@@ -48,9 +170,18 @@ namespace server.Migrations.LogDbContext
                         .HasMaxLength(500)
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("restoreRequest")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("snapshotName")
+                        .HasColumnType("TEXT");
+
                     b.Property<DateTime>("startDateTime")
                         .HasColumnType("TEXT");
 
+                    b.Property<string>("stoppedBy")
+                        .HasColumnType("TEXT");
+
                     b.Property<int?>("totalFilesToProcess")
                         .HasColumnType("INTEGER");
 
@@ -107,6 +238,59 @@ namespace server.Migrations.LogDbContext
 
                     b.ToTable("log_entry");
                 });
+
+            modelBuilder.Entity("server.Models.TerminalSession", b =>
+                {
+                    b.Property<Guid>("id")
+                        .HasColumnType("TEXT");
+
+                    b.Property<Guid>("agentId")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("agentName")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("clientAddress")
+                        .HasMaxLength(100)
+                        .HasColumnType("TEXT");
+
+                    b.Property<DateTime?>("endedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("error")
+                        .HasMaxLength(1000)
+                        .HasColumnType("TEXT");
+
+                    b.Property<int?>("exitCode")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<string>("hostname")
+                        .IsRequired()
+                        .HasMaxLength(255)
+                        .HasColumnType("TEXT");
+
+                    b.Property<long>("recordingSize")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<bool>("recordingTruncated")
+                        .HasColumnType("INTEGER");
+
+                    b.Property<DateTime>("startedAt")
+                        .HasColumnType("TEXT");
+
+                    b.Property<string>("userName")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("TEXT");
+
+                    b.HasKey("id");
+
+                    b.HasIndex("agentId", "startedAt");
+
+                    b.ToTable("terminal_session");
+                });
 #pragma warning restore 612, 618
         }
     }
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
 
 namespace server.Models;
 
@@ -13,5 +14,37 @@ public class Agent
     // Rsync/SSH connection details
     public string? rsyncUser { get; set; }
     public int rsyncPort { get; set; } = 22;
-    public string? rsyncSshKey { get; set; } // SSH private key content (not file path)
+
+    // SSH private key and its passphrase, encrypted with the master key (SecretEncryption). Never sent
+    // to the browser, which only sees the fingerprint
+    [JsonIgnore]
+    public string? rsyncSshKey { get; set; }
+    [JsonIgnore]
+    public string? rsyncSshKeyPassphrase { get; set; }
+    public string? sshKeyFingerprint { get; set; } // SHA256 fingerprint of the public key
+
+    [NotMapped]
+    public bool hasSshKey => !string.IsNullOrWhiteSpace(rsyncSshKey);
+    [NotMapped]
+    public bool sshKeyHasPassphrase => !string.IsNullOrWhiteSpace(rsyncSshKeyPassphrase);
+
+    // Pinned SSH host key, connections refuse any other key once set
+    public string? hostKey { get; set; } // "type base64", as in known_hosts
+    public string? hostKeyFingerprint { get; set; }
+    public DateTime? hostKeyPinnedAt { get; set; }
+    public string? hostKeyPinnedBy { get; set; }
+    public string? changedHostKeyFingerprint { get; set; } // Key the agent presented instead of the pinned one
+
+    // Jump hosts ssh goes through to reach the agent, filled by JumpHosts.LoadAsync before connecting
+    [NotMapped]
+    [JsonIgnore]
+    public List<JumpHop> jumpRoute { get; set; } = new();
+
+    // Result of the latest check by AgentHealthService
+    public string healthStatus { get; set; } = "Unknown"; // Unknown, Online, Degraded, Offline
+    public DateTime? lastHealthCheckAt { get; set; }
+    public DateTime? lastSeenAt { get; set; } // Last successful check
+    public int? lastLatencyMs { get; set; }
+    public string? lastHealthError { get; set; }
+    public int consecutiveHealthFailures { get; set; }
 }
@@ -0,0 +1,20 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace server.Models;
+
+/// <summary>
+/// Usage of one mounted filesystem of an agent at the time of an inventory collection.
+/// </summary>
+[Table("agent_disk_usage")]
+public class AgentDiskUsage
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid inventoryId { get; set; }
+    public Guid agentId { get; set; }
+    public DateTime collectedAt { get; set; } = DateTime.UtcNow;
+    public string filesystem { get; set; } = string.Empty;
+    public string mountPoint { get; set; } = string.Empty;
+    public long sizeBytes { get; set; }
+    public long usedBytes { get; set; }
+    public long availableBytes { get; set; }
+}
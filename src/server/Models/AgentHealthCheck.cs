@@ -0,0 +1,17 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace server.Models;
+
+/// <summary>
+/// One reachability check of an agent, kept as history for the uptime of the agent list.
+/// </summary>
+[Table("agent_health_check")]
+public class AgentHealthCheck
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid agentId { get; set; }
+    public DateTime checkedAt { get; set; } = DateTime.UtcNow;
+    public bool success { get; set; }
+    public int? latencyMs { get; set; } // Duration of the SSH test, null when it failed
+    public string? error { get; set; }
+}
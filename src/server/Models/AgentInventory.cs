@@ -0,0 +1,23 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace server.Models;
+
+/// <summary>
+/// System information collected from an agent over SSH. Every collection is kept, so the disk
+/// usage of the agent can be followed over time.
+/// </summary>
+[Table("agent_inventory")]
+public class AgentInventory
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid agentId { get; set; }
+    public DateTime collectedAt { get; set; } = DateTime.UtcNow;
+    public string? kernel { get; set; } // uname -srm
+    public string? distribution { get; set; } // PRETTY_NAME from /etc/os-release
+    public string? rsyncVersion { get; set; } // null when rsync is not installed
+    public int? rsyncProtocol { get; set; }
+    public int? cpuCount { get; set; }
+    public string? cpuModel { get; set; }
+    public long? memoryTotalBytes { get; set; }
+    public long? memoryAvailableBytes { get; set; }
+}
@@ -0,0 +1,35 @@
+using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
+
+namespace server.Models;
+
+/// <summary>
+/// One hop of the route to an agent behind a bastion. A hop is either another agent, whose address,
+/// key and pinned host key are used, or an inline host. Connections go through the hops in order of
+/// position, the first one is reached directly from the server.
+/// </summary>
+[Table("agent_jump_host")]
+public class AgentJumpHost
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid agentId { get; set; } // Agent reached through this hop
+    public int position { get; set; }
+    public Guid? viaAgentId { get; set; } // Set when the hop is another agent
+
+    // Inline hop
+    public string? hostname { get; set; }
+    public string? user { get; set; }
+    public int port { get; set; } = 22;
+
+    // Key of an inline hop, encrypted like the agent key. Without one the hop authenticates with the agent key
+    [JsonIgnore]
+    public string? sshKey { get; set; }
+    [JsonIgnore]
+    public string? sshKeyPassphrase { get; set; }
+    public string? sshKeyFingerprint { get; set; }
+
+    [NotMapped]
+    public bool hasSshKey => !string.IsNullOrWhiteSpace(sshKey);
+    [NotMapped]
+    public bool sshKeyHasPassphrase => !string.IsNullOrWhiteSpace(sshKeyPassphrase);
+}
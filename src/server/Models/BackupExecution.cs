@@ -16,5 +16,11 @@ public class BackupExecution
     public int currentFileIndex { get; set; }
     public bool isAutomatic { get; set; } = true;
     public bool isSimulation { get; set; } = false;
+    public string executionType { get; set; } = "Backup"; // Backup, Restore
+    public string? snapshotName { get; set; } // Hardlink snapshot directory written by this execution
+    public string? stoppedBy { get; set; } // Username of whoever stopped the execution manually
+    public int? blockedDeletions { get; set; } // Files the deletion guard refused to delete, null when the run was not blocked
+    public string? deletionsApprovedBy { get; set; } // Username of whoever approved the blocked deletions
+    public string? restoreRequest { get; set; } // What a restore preview previewed, a restore has to start exactly that
 }
 
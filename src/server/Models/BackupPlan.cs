@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json.Serialization;
 
 namespace server.Models;
 
@@ -9,16 +10,56 @@ public class BackupPlan
     public string name { get; set; } = string.Empty;
     public string description { get; set; } = string.Empty;
     public string schedule { get; set; } = "0 0 * * *";
+    public string timezone { get; set; } = "UTC"; // IANA timezone the schedule is evaluated in
 
-    public string source { get; set; } = string.Empty;
+    // Paths transferred from the agent, in order. Loaded with Include(bp => bp.sources)
+    public List<BackupPlanSource> sources { get; set; } = new();
     public string destination { get; set; } = string.Empty;
     public bool active { get; set; } = false;
 
+    // Ordered rsync filter rules in rsync syntax ("- node_modules/", "+ *.keep", "dir-merge .rsync-filter").
+    // rsync applies the first rule that matches, so the order is significant.
+    public List<string> filterRules { get; set; } = new();
+
     // Rsync connection details
     public string? rsyncHost { get; set; }
     public string? rsyncUser { get; set; }
     public int rsyncPort { get; set; } = 22;
-    public string? rsyncSshKey { get; set; } // SSH private key content (not file path)
+    [JsonIgnore]
+    public string? rsyncSshKey { get; set; } // SSH private key content, encrypted with the master key
+
+    // Rsync transfer options
+    public bool rsyncCompress { get; set; } = true; // -z
+    public bool rsyncChecksum { get; set; } = false; // --checksum
+    public bool rsyncHardLinks { get; set; } = false; // -H
+    public bool rsyncAcls { get; set; } = false; // -A
+    public bool rsyncXattrs { get; set; } = false; // -X
+    public bool rsyncNumericIds { get; set; } = false; // --numeric-ids
+    public bool rsyncSparse { get; set; } = false; // --sparse
+    public bool rsyncPartial { get; set; } = false; // --partial
+    public int? rsyncBandwidthLimit { get; set; } // --bwlimit in KiB/s, null for unlimited
+    public string rsyncDeleteMode { get; set; } = "delete"; // none, delete, delete-after, delete-delay
+
+    // Deletion guard: a run whose dry-run would delete more than this many files, or this share of the
+    // destination, is blocked until an operator approves it. Null disables the respective limit
+    public int? deleteThresholdFiles { get; set; }
+    public double? deleteThresholdPercent { get; set; }
+
+    // Snapshot mode: "none" mirrors the source into destination, "hardlink" writes every run into a
+    // timestamped directory under destination, hard linking unchanged files to the previous run (--link-dest)
+    public string snapshotMode { get; set; } = "none"; // none, hardlink
+    public int retentionDaily { get; set; } = 7; // Newest snapshot of each of the last N days
+    public int retentionWeekly { get; set; } = 4; // Newest snapshot of each of the last N weeks
+    public int retentionMonthly { get; set; } = 12; // Newest snapshot of each of the last N months
+
+    // Commands run on the agent over ssh before and after rsync (e.g. pg_dump, stopping a container).
+    // Failing pre hooks abort the backup by default, failing post hooks only do so when asked to
+    public string? preHookCommand { get; set; }
+    public int preHookTimeoutSeconds { get; set; } = 300;
+    public bool preHookAbortOnFailure { get; set; } = true;
+    public string? postHookCommand { get; set; }
+    public int postHookTimeoutSeconds { get; set; } = 300;
+    public bool postHookAbortOnFailure { get; set; } = false;
 
     // Legacy agent support (optional, for backward compatibility)
     public Agent? agent { get; set; }
@@ -6,7 +6,8 @@ public class BackupPlanResponse
     public string Name { get; set; } = string.Empty;
     public string Description { get; set; } = string.Empty;
     public string Schedule { get; set; } = string.Empty;
-    public string Source { get; set; } = string.Empty;
+    public string Timezone { get; set; } = "UTC";
+    public List<BackupPlanSource> Sources { get; set; } = new();
     public string Destination { get; set; } = string.Empty;
     public bool Active { get; set; } = false;
     public Guid? AgentId { get; set; }
@@ -0,0 +1,20 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace server.Models;
+
+/// <summary>
+/// One path on the agent that a backup plan transfers. All sources of a plan go through a single
+/// rsync run in order of position, so they share the schedule, the execution log and the notifications.
+/// </summary>
+[Table("backup_plan_source")]
+public class BackupPlanSource
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid backupPlanId { get; set; }
+    public int position { get; set; }
+    public string path { get; set; } = string.Empty; // Trailing "/" transfers the content of a directory
+
+    // Patterns excluded below this source only, relative to it ("cache/", "*.tmp"). A leading "/"
+    // anchors the pattern to the source path, otherwise it matches at any depth
+    public List<string> excludes { get; set; } = new();
+}
@@ -0,0 +1,6 @@
+namespace server.Models;
+
+public record BackupSourceRequest(
+    string Path,
+    List<string>? Excludes = null
+);
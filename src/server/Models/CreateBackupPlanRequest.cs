@@ -4,13 +4,19 @@ public record CreateBackupPlanRequest(
     string Name,
     string Description,
     string Schedule,
-    string Source,
+    string? Timezone,
+    List<BackupSourceRequest>? Sources,
     string Destination,
     Guid? AgentId,
     string? RsyncHost,
     string? RsyncUser,
     int? RsyncPort,
     string? RsyncSshKey,
+    List<string>? FilterRules,
+    RsyncOptionsRequest? RsyncOptions,
+    DeletionGuardRequest? DeletionGuard,
+    SnapshotOptionsRequest? SnapshotOptions,
+    HooksRequest? Hooks,
     bool Active = false
 );
 
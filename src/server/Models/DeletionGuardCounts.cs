@@ -0,0 +1,14 @@
+namespace server.Models;
+
+/// <summary>
+/// What the dry-run of a backup would delete, as evaluated by the deletion guard.
+/// </summary>
+public class DeletionGuardCounts
+{
+    public int FilesToDelete { get; set; }
+
+    // Estimated number of files in the destination, null when rsync printed no statistics
+    public int? DestinationFiles { get; set; }
+
+    public double? PercentToDelete => DestinationFiles > 0 ? FilesToDelete * 100.0 / DestinationFiles.Value : null;
+}
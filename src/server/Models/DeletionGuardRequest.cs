@@ -0,0 +1,6 @@
+namespace server.Models;
+
+public record DeletionGuardRequest(
+    int? MaxFiles = null,
+    double? MaxPercent = null
+);
@@ -0,0 +1,40 @@
+namespace server.Models;
+
+public class ExecutionEvent
+{
+    public Guid ExecutionId { get; set; }
+    public Guid BackupPlanId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Status { get; set; } = "Starting"; // Starting, Analyzing, Copying, Finalizing, Completed, Interrupted
+    public DateTime StartDateTime { get; set; }
+    public DateTime? EndDateTime { get; set; }
+    public string? CurrentFileName { get; set; }
+    public string? CurrentFilePath { get; set; }
+    public int CurrentFileIndex { get; set; }
+    public int? TotalFilesToProcess { get; set; }
+    public bool IsAutomatic { get; set; }
+    public bool IsSimulation { get; set; }
+    public string ExecutionType { get; set; } = "Backup";
+    public string? StoppedBy { get; set; }
+
+    public static ExecutionEvent FromExecution(BackupExecution execution, string status)
+    {
+        return new ExecutionEvent
+        {
+            ExecutionId = execution.id,
+            BackupPlanId = execution.backupPlanId,
+            Name = execution.name,
+            Status = status,
+            StartDateTime = execution.startDateTime,
+            EndDateTime = execution.endDateTime,
+            CurrentFileName = execution.currentFileName,
+            CurrentFilePath = execution.currentFilePath,
+            CurrentFileIndex = execution.currentFileIndex,
+            TotalFilesToProcess = execution.totalFilesToProcess,
+            IsAutomatic = execution.isAutomatic,
+            IsSimulation = execution.isSimulation,
+            ExecutionType = execution.executionType,
+            StoppedBy = execution.stoppedBy
+        };
+    }
+}
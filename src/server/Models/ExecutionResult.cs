@@ -2,6 +2,7 @@ namespace server.Models;
 
 public class ExecutionResult
 {
+    public Guid? ExecutionId { get; set; }
     public List<ExecutionItems> Items { get; set; } = new();
     public int TotalItems { get; set; }
     public int ItemsToCopy { get; set; }
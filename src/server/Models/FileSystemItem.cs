@@ -45,5 +45,24 @@ public class FileSystemItem
     /// MD5 hash of item
     /// </summary>
     public string? Md5 { get; set; } // MD5 hash (only for files)
-}
 
+    /// <summary>
+    /// ZFS snapshot the item was read from, null for live files
+    /// </summary>
+    public string? Snapshot { get; set; }
+
+    /// <summary>
+    /// Whether the live copy of a snapshot item still exists (only set for snapshot items)
+    /// </summary>
+    public bool? LiveExists { get; set; }
+
+    /// <summary>
+    /// Size of the live copy in bytes (only set for snapshot files)
+    /// </summary>
+    public long? LiveSize { get; set; }
+
+    /// <summary>
+    /// Last modified date and time of the live copy (only set for snapshot items)
+    /// </summary>
+    public DateTime? LiveLastModified { get; set; }
+}
@@ -0,0 +1,32 @@
+namespace server.Models;
+
+/// <summary>
+/// A completed hardlink snapshot directory under a plan's destination
+/// </summary>
+public class HardlinkSnapshot
+{
+    /// <summary>
+    /// Directory name, the UTC start time of the run that wrote it
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Full path of the snapshot directory
+    /// </summary>
+    public string Path { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When the run that wrote the snapshot started
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Retention rules keeping the snapshot ("latest", "daily", "weekly", "monthly"), empty when it expired
+    /// </summary>
+    public List<string> KeptBy { get; set; } = new();
+
+    /// <summary>
+    /// Execution that wrote the snapshot, when its log still exists
+    /// </summary>
+    public Guid? ExecutionId { get; set; }
+}
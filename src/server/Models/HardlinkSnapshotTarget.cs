@@ -0,0 +1,13 @@
+namespace server.Models;
+
+/// <summary>
+/// Where a backup in hardlink snapshot mode writes: workingPath while rsync runs, renamed to path
+/// once the run succeeded. linkDestPath is the previous snapshot, null for the first one.
+/// </summary>
+public class HardlinkSnapshotTarget
+{
+    public string name { get; set; } = string.Empty;
+    public string path { get; set; } = string.Empty;
+    public string workingPath { get; set; } = string.Empty;
+    public string? linkDestPath { get; set; }
+}
@@ -0,0 +1,10 @@
+namespace server.Models;
+
+public record HooksRequest(
+    string? PreCommand = null,
+    int PreTimeoutSeconds = 300,
+    bool PreAbortOnFailure = true,
+    string? PostCommand = null,
+    int PostTimeoutSeconds = 300,
+    bool PostAbortOnFailure = false
+);
@@ -0,0 +1,15 @@
+namespace server.Models;
+
+/// <summary>
+/// A hop of the route to an agent as ssh uses it, resolved from the AgentJumpHost rows of the agent
+/// and of the agents it goes through, with the decrypted key of the hop.
+/// </summary>
+public class JumpHop
+{
+    public string hostname { get; set; } = string.Empty;
+    public string? user { get; set; }
+    public int port { get; set; } = 22;
+    public string privateKey { get; set; } = string.Empty;
+    public string? passphrase { get; set; }
+    public string? hostKey { get; set; } // Pinned host key when the hop is an agent, inline hops accept any key
+}
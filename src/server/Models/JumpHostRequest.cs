@@ -0,0 +1,15 @@
+namespace server.Models;
+
+/// <summary>
+/// A hop of the jump host chain in an agent form. Id refers to a saved hop, whose stored key is kept
+/// when SshKey is empty.
+/// </summary>
+public record JumpHostRequest(
+    Guid? Id = null,
+    Guid? ViaAgentId = null,
+    string? Hostname = null,
+    string? User = null,
+    int Port = 22,
+    string? SshKey = null,
+    string? SshKeyPassphrase = null
+);
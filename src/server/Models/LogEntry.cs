@@ -41,7 +41,8 @@ public class LogEntry
         DeleteError,
         CopySkipped,
         DeleteSkipped,
-        System
+        System,
+        Milestone
     }
 }
 
@@ -9,6 +9,7 @@ public class Notification
     public string type { get; set; } = string.Empty; // "BackupCompleted", "SimulationCompleted"
     public string title { get; set; } = string.Empty;
     public string message { get; set; } = string.Empty;
+    public string priority { get; set; } = "Normal"; // "Normal", "High"
     public Guid? backupPlanId { get; set; }
     public Guid? executionId { get; set; }
     public bool isRead { get; set; } = false;
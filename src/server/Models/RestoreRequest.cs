@@ -0,0 +1,8 @@
+namespace server.Models;
+
+public record RestoreRequest(
+    List<string> Paths,
+    Guid? TargetAgentId,
+    string? TargetPath,
+    Guid? PreviewExecutionId
+);
@@ -0,0 +1,14 @@
+namespace server.Models;
+
+/// <summary>
+/// What a restore execution copies back: paths relative to sourceRoot, pushed to targetPath on
+/// the agent with their relative structure preserved. sourceRoot is the plan destination, or its
+/// copy inside a ZFS snapshot for a point-in-time restore.
+/// </summary>
+public class RestoreTarget
+{
+    public Agent agent { get; set; } = null!;
+    public string sourceRoot { get; set; } = string.Empty;
+    public List<string> paths { get; set; } = new();
+    public string targetPath { get; set; } = "/";
+}
@@ -0,0 +1,14 @@
+namespace server.Models;
+
+public record RsyncOptionsRequest(
+    bool Compress = true,
+    bool Checksum = false,
+    bool HardLinks = false,
+    bool Acls = false,
+    bool Xattrs = false,
+    bool NumericIds = false,
+    bool Sparse = false,
+    bool Partial = false,
+    int? BandwidthLimit = null,
+    string DeleteMode = "delete"
+);
@@ -0,0 +1,8 @@
+namespace server.Models;
+
+public record SnapshotOptionsRequest(
+    string Mode = "none",
+    int KeepDaily = 7,
+    int KeepWeekly = 4,
+    int KeepMonthly = 12
+);
@@ -0,0 +1,26 @@
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace server.Models;
+
+/// <summary>
+/// Audit record of an interactive SSH session opened from the web console of an agent. Only who
+/// connected where and when is kept, never the input or output of the session.
+/// </summary>
+[Table("terminal_session")]
+public class TerminalSession
+{
+    public Guid id { get; set; } = Guid.NewGuid();
+    public Guid agentId { get; set; }
+    public string agentName { get; set; } = string.Empty; // As it was named when the session was opened
+    public string hostname { get; set; } = string.Empty;
+    public string userName { get; set; } = string.Empty; // User of the web interface, not the SSH user
+    public string? clientAddress { get; set; }
+    public DateTime startedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? endedAt { get; set; }
+    public int? exitCode { get; set; } // Exit code of ssh, null while the session is open or when it was closed from the browser
+    public string? error { get; set; }
+
+    // asciicast v2 recording of the output, in the recordings directory under the id of the session
+    public long recordingSize { get; set; } // Bytes written so far
+    public bool recordingTruncated { get; set; } // The recording stopped at the size limit, the session went on
+}
@@ -4,12 +4,18 @@ public record UpdateBackupPlanRequest(
     string Name,
     string Description,
     string Schedule,
-    string Source,
+    string? Timezone,
+    List<BackupSourceRequest>? Sources,
     string Destination,
     string? RsyncHost,
     string? RsyncUser,
     int? RsyncPort,
     string? RsyncSshKey,
+    List<string>? FilterRules,
+    RsyncOptionsRequest? RsyncOptions,
+    DeletionGuardRequest? DeletionGuard,
+    SnapshotOptionsRequest? SnapshotOptions,
+    HooksRequest? Hooks,
     bool Active = true
 );
 
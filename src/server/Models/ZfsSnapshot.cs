@@ -0,0 +1,27 @@
+namespace server.Models;
+
+/// <summary>
+/// A ZFS snapshot of the dataset containing a browsed path
+/// </summary>
+public class ZfsSnapshot
+{
+    /// <summary>
+    /// Snapshot name (the part after "@")
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When the snapshot was taken
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// The browsed path as it exists inside this snapshot
+    /// </summary>
+    public string Path { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Whether the browsed path already existed when the snapshot was taken
+    /// </summary>
+    public bool Exists { get; set; }
+}
@@ -33,7 +33,8 @@ builder.Services.AddCors(options =>
         policy.SetIsOriginAllowed(origin => true) // Allow any origin
               .AllowAnyMethod()
               .AllowAnyHeader()
-              .AllowCredentials(); // Required for SignalR with authentication
+              .AllowCredentials() // Required for SignalR with authentication
+              .WithExposedHeaders("Content-Disposition"); // File name of downloads such as log exports
     });
 });
 
@@ -281,6 +282,40 @@ using (var dbContext = new DBContext(new DbContextOptionsBuilder<DBContext>()
     }
 }
 
+// Master key the SSH keys in the database are encrypted with. Without configuration one is generated
+// into the data directory, where it sits next to the database it protects
+var masterKey = builder.Configuration[SecretEncryption.MasterKeySetting];
+if (string.IsNullOrWhiteSpace(masterKey))
+{
+    var masterKeyPath = Path.Combine(dataDirectory, "master.key");
+    if (!File.Exists(masterKeyPath))
+    {
+        File.WriteAllText(masterKeyPath, SecretEncryption.GenerateMasterKey());
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(masterKeyPath, UnixFileMode.UserRead | UnixFileMode.UserWrite);
+        }
+        Console.WriteLine($"Generated master key for stored SSH keys at: {masterKeyPath}");
+    }
+
+    Console.WriteLine($"Warning: {SecretEncryption.MasterKeySetting} is not configured, using the master key in {masterKeyPath}. " +
+                      "Move its content to the configuration (e.g. the Encryption__MasterKey environment variable) to keep it apart from the database.");
+    masterKey = File.ReadAllText(masterKeyPath);
+}
+SecretEncryption.Initialize(masterKey);
+
+// Encrypt SSH keys stored before keys were encrypted at rest
+using (var dbContext = new DBContext(new DbContextOptionsBuilder<DBContext>()
+    .UseSqlite(ResolveDbPath(connectionString))
+    .Options))
+{
+    var encryptedKeys = await SshKeys.EncryptStoredKeysAsync(dbContext);
+    if (encryptedKeys > 0)
+    {
+        Console.WriteLine($"Encrypted {encryptedKeys} stored SSH keys with the master key.");
+    }
+}
+
 builder.Services.AddAuthentication(options =>
 {
     options.DefaultAuthenticateScheme = JwtBearerDefaults.AuthenticationScheme;
@@ -345,6 +380,8 @@ builder.Services.AddScoped<BackupPlanExecutor>();
 builder.Services.AddScoped<INotificationService, NotificationService>();
 builder.Services.AddScoped<ITelegramService, TelegramService>();
 builder.Services.AddSingleton<TerminalService>();
+builder.Services.AddSingleton<IExecutionEventsService, ExecutionEventsService>();
+builder.Services.AddSingleton<RunningExecutionService>();
 
 // Register SignalR with options
 builder.Services.AddSignalR(options =>
@@ -357,10 +394,16 @@ builder.Services.AddSignalR(options =>
 // Register hosted services
 builder.Services.AddHostedService<BackupRunner>();
 builder.Services.AddHostedService<LogRetentionService>();
+builder.Services.AddHostedService<SnapshotPruneService>();
+builder.Services.AddHostedService<AgentHealthService>();
+builder.Services.AddHostedService<AgentInventoryService>();
 builder.Services.AddHostedService<TelegramHostedService>();
 
 var app = builder.Build();
 
+// Temporary ssh key files that cannot be deleted are reported in the server log
+TempFiles.Initialize(app.Services.GetRequiredService<ILoggerFactory>().CreateLogger(typeof(TempFiles).FullName!));
+
 // Configure the HTTP request pipeline.
 // CORS must be before UseHttpsRedirection
 app.UseCors();
@@ -399,6 +442,7 @@ app.UseAuthorization();
 
 // Map SignalR hubs
 app.MapHub<TerminalHub>("/hubs/terminal");
+app.MapHub<ExecutionEventsHub>("/hubs/executions");
 
 // Map API controllers
 app.MapControllers();
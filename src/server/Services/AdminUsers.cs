@@ -0,0 +1,23 @@
+using System.Security.Claims;
+using server.Data;
+
+namespace server.Services;
+
+/// <summary>
+/// Admin check of the console and its session audit. A JWT stays valid after its user is
+/// deactivated or loses the admin role, so the user is looked up on every request.
+/// </summary>
+public static class AdminUsers
+{
+    public static async Task<bool> IsActiveAdminAsync(DBContext context, ClaimsPrincipal? principal)
+    {
+        var userIdClaim = principal?.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            return false;
+        }
+
+        var user = await context.Users.FindAsync(userId);
+        return user is { isAdmin: true, isActive: true };
+    }
+}
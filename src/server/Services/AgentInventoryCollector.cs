@@ -0,0 +1,152 @@
+using System.Text.RegularExpressions;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Collects the inventory of an agent (OS, rsync version, CPU, memory and disk usage) with a single
+/// SSH command. Every piece is optional, a missing tool only leaves its fields empty.
+/// </summary>
+public static class AgentInventoryCollector
+{
+    private static readonly TimeSpan CollectTimeout = TimeSpan.FromSeconds(60);
+
+    // Pseudo filesystems that say nothing about the space left for data
+    private static readonly string[] IgnoredFilesystems = { "tmpfs", "devtmpfs", "udev", "overlay", "squashfs", "shm", "none", "efivarfs" };
+
+    // Sections are separated by marker lines, so one round trip collects everything. df -P keeps
+    // each filesystem on one line, the -x filters are GNU only hence the plain fallback.
+    private const string Command =
+        "echo '@@uname'; uname -srm; " +
+        "echo '@@os'; cat /etc/os-release 2>/dev/null; " +
+        "echo '@@rsync'; rsync --version 2>/dev/null | head -n 1; " +
+        "echo '@@cpus'; nproc 2>/dev/null || getconf _NPROCESSORS_ONLN 2>/dev/null; " +
+        "echo '@@cpumodel'; grep -m 1 'model name' /proc/cpuinfo 2>/dev/null | cut -d: -f2; " +
+        "echo '@@memory'; grep -E '^(MemTotal|MemAvailable):' /proc/meminfo 2>/dev/null; " +
+        "echo '@@df'; df -P -k -x tmpfs -x devtmpfs -x squashfs -x overlay 2>/dev/null || df -P -k 2>/dev/null";
+
+    public static async Task<(AgentInventory Inventory, List<AgentDiskUsage> Disks)> CollectAsync(Agent agent)
+    {
+        var result = await AgentSsh.RunAsync(agent, Command, CollectTimeout);
+        if (!result.Success)
+        {
+            var error = result.Error.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).LastOrDefault();
+            throw new InvalidOperationException($"Could not collect the inventory of {agent.hostname}: {error ?? $"ssh exited with code {result.ExitCode}"}");
+        }
+
+        return Parse(agent.id, result.Output, DateTime.UtcNow);
+    }
+
+    public static (AgentInventory Inventory, List<AgentDiskUsage> Disks) Parse(Guid agentId, string output, DateTime collectedAt)
+    {
+        var sections = SplitSections(output);
+        var inventory = new AgentInventory
+        {
+            id = Guid.NewGuid(),
+            agentId = agentId,
+            collectedAt = collectedAt,
+            kernel = sections.GetValueOrDefault("uname")?.FirstOrDefault(),
+            distribution = ParseOsRelease(sections.GetValueOrDefault("os")),
+            cpuModel = sections.GetValueOrDefault("cpumodel")?.FirstOrDefault()
+        };
+
+        // rsync  version 3.2.7  protocol version 31
+        var rsyncMatch = Regex.Match(sections.GetValueOrDefault("rsync")?.FirstOrDefault() ?? "", @"version\s+v?(\S+)\s+protocol version\s+(\d+)");
+        if (rsyncMatch.Success)
+        {
+            inventory.rsyncVersion = rsyncMatch.Groups[1].Value;
+            inventory.rsyncProtocol = int.Parse(rsyncMatch.Groups[2].Value);
+        }
+
+        if (int.TryParse(sections.GetValueOrDefault("cpus")?.FirstOrDefault(), out var cpuCount))
+        {
+            inventory.cpuCount = cpuCount;
+        }
+
+        // MemTotal:       16314424 kB
+        foreach (var line in sections.GetValueOrDefault("memory") ?? new List<string>())
+        {
+            var match = Regex.Match(line, @"^(MemTotal|MemAvailable):\s+(\d+)\s*kB");
+            if (!match.Success) continue;
+
+            var bytes = long.Parse(match.Groups[2].Value) * 1024;
+            if (match.Groups[1].Value == "MemTotal") inventory.memoryTotalBytes = bytes;
+            else inventory.memoryAvailableBytes = bytes;
+        }
+
+        var disks = ParseDf(sections.GetValueOrDefault("df"))
+            .Select(disk =>
+            {
+                disk.inventoryId = inventory.id;
+                disk.agentId = agentId;
+                disk.collectedAt = collectedAt;
+                return disk;
+            })
+            .ToList();
+
+        return (inventory, disks);
+    }
+
+    private static Dictionary<string, List<string>> SplitSections(string output)
+    {
+        var sections = new Dictionary<string, List<string>>();
+        List<string>? current = null;
+
+        foreach (var rawLine in output.Split('\n'))
+        {
+            var line = rawLine.Trim();
+            if (line.StartsWith("@@"))
+            {
+                current = new List<string>();
+                sections[line[2..]] = current;
+            }
+            else if (current != null && line.Length > 0)
+            {
+                current.Add(line);
+            }
+        }
+
+        return sections;
+    }
+
+    private static string? ParseOsRelease(List<string>? lines)
+    {
+        var values = (lines ?? new List<string>())
+            .Select(line => line.Split('=', 2))
+            .Where(parts => parts.Length == 2)
+            .GroupBy(parts => parts[0])
+            .ToDictionary(group => group.Key, group => group.First()[1].Trim('"'));
+
+        return values.GetValueOrDefault("PRETTY_NAME") ??
+               (values.ContainsKey("NAME") ? $"{values["NAME"]} {values.GetValueOrDefault("VERSION_ID")}".Trim() : null);
+    }
+
+    // Filesystem 1024-blocks Used Available Capacity Mounted on
+    private static IEnumerable<AgentDiskUsage> ParseDf(List<string>? lines)
+    {
+        foreach (var line in (lines ?? new List<string>()).Skip(1))
+        {
+            var parts = line.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+            if (parts.Length < 6 || IgnoredFilesystems.Contains(parts[0]))
+            {
+                continue;
+            }
+
+            if (!long.TryParse(parts[1], out var size) || !long.TryParse(parts[2], out var used) || !long.TryParse(parts[3], out var available) || size == 0)
+            {
+                continue;
+            }
+
+            yield return new AgentDiskUsage
+            {
+                id = Guid.NewGuid(),
+                filesystem = parts[0],
+                // Mount points may contain spaces
+                mountPoint = string.Join(' ', parts.Skip(5)),
+                sizeBytes = size * 1024,
+                usedBytes = used * 1024,
+                availableBytes = available * 1024
+            };
+        }
+    }
+}
@@ -0,0 +1,261 @@
+using System.Diagnostics;
+using System.Text;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Runs short commands on an agent over ssh with its stored credentials, for checks that happen
+/// outside of a backup (connection tests, health checks, key installation). The key is written to a
+/// temporary file that only lives for the duration of the command.
+/// </summary>
+public static class AgentSsh
+{
+    // The command of the connection test behind the "Validate" buttons
+    public const string TestCommand = "echo 'SSH connection test successful'";
+
+    public const int ConnectTimeoutSeconds = 10;
+
+    // Environment variable the askpass script reads the password from
+    private const string AskPassVariable = "REMEMBER_SSH_PASSWORD";
+
+    public static Task<AgentSshResult> RunAsync(Agent agent, string command, TimeSpan timeout)
+    {
+        return RunAsync(agent, SshKeys.GetPrivateKey(agent), SshKeys.GetPassphrase(agent), command, timeout);
+    }
+
+    /// <summary>
+    /// Runs the command with another key than the stored one, e.g. to verify a new key before it replaces the old one.
+    /// </summary>
+    public static async Task<AgentSshResult> RunAsync(Agent agent, string? sshKey, string? passphrase, string command, TimeSpan timeout)
+    {
+        if (string.IsNullOrWhiteSpace(sshKey))
+        {
+            throw new InvalidOperationException("Agent does not have an SSH key configured");
+        }
+
+        var keyPath = await WriteTempKeyFileAsync(sshKey, passphrase);
+        try
+        {
+            await HostKeys.WriteKnownHostsFileAsync(agent, keyPath);
+            await JumpHosts.WriteFilesAsync(agent, keyPath);
+            return await RunProcessAsync(BuildArguments(agent, keyPath, command), new Dictionary<string, string>(), timeout);
+        }
+        finally
+        {
+            TempFiles.Delete(keyPath);
+            HostKeys.DeleteKnownHostsFile(keyPath);
+            JumpHosts.DeleteFiles(agent, keyPath);
+        }
+    }
+
+    /// <summary>
+    /// Runs a command with password authentication, for the one-time installation of a key. The password
+    /// is handed to ssh through SSH_ASKPASS and an environment variable of the ssh process only, it is
+    /// never written to disk.
+    /// </summary>
+    public static async Task<AgentSshResult> RunWithPasswordAsync(Agent agent, string password, string command, TimeSpan timeout)
+    {
+        var askPassPath = await WriteAskPassScriptAsync();
+        try
+        {
+            // The known_hosts file of a pinned agent and the jump host files are written next to the askpass script
+            await HostKeys.WriteKnownHostsFileAsync(agent, askPassPath);
+            await JumpHosts.WriteFilesAsync(agent, askPassPath);
+
+            var port = agent.rsyncPort > 0 ? agent.rsyncPort : 22;
+            var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
+            var arguments = new List<string> { "-p", port.ToString() };
+            arguments.AddRange(HostKeys.BuildSshOptions(agent, askPassPath));
+            arguments.AddRange(JumpHosts.BuildSshOptions(agent, askPassPath));
+            arguments.AddRange(new[]
+            {
+                "-o", $"ConnectTimeout={ConnectTimeoutSeconds}",
+                "-o", "PubkeyAuthentication=no",
+                "-o", "PreferredAuthentications=password,keyboard-interactive",
+                // A wrong password fails right away instead of prompting again
+                "-o", "NumberOfPasswordPrompts=1",
+                $"{user}{agent.hostname.Trim()}",
+                command
+            });
+
+            return await RunProcessAsync(arguments, BuildAskPassEnvironment(askPassPath, password), timeout);
+        }
+        finally
+        {
+            TempFiles.Delete(askPassPath);
+            HostKeys.DeleteKnownHostsFile(askPassPath);
+            JumpHosts.DeleteFiles(agent, askPassPath);
+        }
+    }
+
+    public static async Task<AgentSshResult> RunProcessAsync(List<string> arguments, Dictionary<string, string> environment, TimeSpan timeout)
+    {
+        var processStartInfo = new ProcessStartInfo
+        {
+            FileName = "ssh",
+            RedirectStandardInput = true,
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+        foreach (var argument in arguments)
+        {
+            processStartInfo.ArgumentList.Add(argument);
+        }
+        foreach (var (name, value) in environment)
+        {
+            processStartInfo.Environment[name] = value;
+        }
+
+        var stopwatch = Stopwatch.StartNew();
+        using var process = Process.Start(processStartInfo);
+        if (process == null)
+        {
+            throw new InvalidOperationException("Failed to start SSH process");
+        }
+
+        // Nothing is sent to the remote command, it must not wait for input
+        process.StandardInput.Close();
+
+        var outputTask = process.StandardOutput.ReadToEndAsync();
+        var errorTask = process.StandardError.ReadToEndAsync();
+
+        using var timeoutSource = new CancellationTokenSource(timeout);
+        var timedOut = false;
+        try
+        {
+            await process.WaitForExitAsync(timeoutSource.Token);
+        }
+        catch (OperationCanceledException)
+        {
+            timedOut = true;
+            process.Kill(entireProcessTree: true);
+            await process.WaitForExitAsync();
+        }
+        stopwatch.Stop();
+
+        return new AgentSshResult
+        {
+            ExitCode = timedOut ? -1 : process.ExitCode,
+            Output = await outputTask,
+            Error = timedOut ? $"Timed out after {timeout.TotalSeconds:0} seconds" : (await errorTask).Trim(),
+            Duration = stopwatch.Elapsed,
+            TimedOut = timedOut
+        };
+    }
+
+    /// <summary>
+    /// Environment of an ssh or ssh-keygen process that answers its password or passphrase prompt with
+    /// the secret, through the askpass script.
+    /// </summary>
+    public static Dictionary<string, string> BuildAskPassEnvironment(string askPassPath, string secret)
+    {
+        return new Dictionary<string, string>
+        {
+            ["SSH_ASKPASS"] = askPassPath,
+            // Use the askpass program even without a terminal or display (OpenSSH 8.4+)
+            ["SSH_ASKPASS_REQUIRE"] = "force",
+            ["DISPLAY"] = ":0",
+            [AskPassVariable] = secret
+        };
+    }
+
+    public static async Task<string> WriteAskPassScriptAsync()
+    {
+        var tempDir = Path.Combine(Path.GetTempPath(), "remember_ssh_keys");
+        Directory.CreateDirectory(tempDir);
+
+        var scriptPath = Path.Combine(tempDir, $"askpass_{Guid.NewGuid()}.sh");
+        await File.WriteAllTextAsync(scriptPath, $"#!/bin/sh\nprintf '%s\\n' \"${AskPassVariable}\"\n", new UTF8Encoding(false));
+
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(scriptPath, UnixFileMode.UserRead | UnixFileMode.UserWrite | UnixFileMode.UserExecute);
+        }
+
+        return scriptPath;
+    }
+
+    /// <summary>
+    /// Arguments of the ssh process, passed through ProcessStartInfo.ArgumentList.
+    /// </summary>
+    public static List<string> BuildArguments(Agent agent, string sshKeyPath, string command)
+    {
+        var port = agent.rsyncPort > 0 ? agent.rsyncPort : 22;
+        var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
+
+        var arguments = new List<string> { "-i", sshKeyPath, "-p", port.ToString() };
+        arguments.AddRange(HostKeys.BuildSshOptions(agent, sshKeyPath));
+        arguments.AddRange(JumpHosts.BuildSshOptions(agent, sshKeyPath));
+        arguments.AddRange(new[]
+        {
+            "-o", $"ConnectTimeout={ConnectTimeoutSeconds}",
+            // Never wait for a password prompt, nobody is there to answer it
+            "-o", "BatchMode=yes",
+            $"{user}{agent.hostname.Trim()}",
+            command
+        });
+
+        return arguments;
+    }
+
+    /// <summary>
+    /// Writes the key to a temporary file only the server user can read. A key with a passphrase is
+    /// written without it, ssh runs in batch mode and cannot ask for it.
+    /// </summary>
+    public static async Task<string> WriteTempKeyFileAsync(string sshKeyContent, string? passphrase = null)
+    {
+        var tempDir = Path.Combine(Path.GetTempPath(), "remember_ssh_keys");
+        Directory.CreateDirectory(tempDir);
+
+        var keyPath = Path.Combine(tempDir, $"ssh_key_{Guid.NewGuid()}");
+        await WriteKeyFileAsync(keyPath, sshKeyContent, passphrase);
+
+        return keyPath;
+    }
+
+    /// <summary>
+    /// Writes a key to the given path, readable by the server user only and without its passphrase.
+    /// </summary>
+    public static async Task WriteKeyFileAsync(string keyPath, string sshKeyContent, string? passphrase = null)
+    {
+        // ssh rejects keys with CRLF line endings or without a trailing newline
+        var normalizedKey = sshKeyContent.Trim().Replace("\r\n", "\n").Replace("\r", "\n") + "\n";
+        await File.WriteAllTextAsync(keyPath, normalizedKey, new UTF8Encoding(false));
+
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(keyPath, UnixFileMode.UserRead | UnixFileMode.UserWrite);
+        }
+
+        if (!string.IsNullOrEmpty(passphrase))
+        {
+            try
+            {
+                await SshKeys.RemovePassphraseAsync(keyPath, passphrase);
+            }
+            catch
+            {
+                TempFiles.Delete(keyPath);
+                throw;
+            }
+        }
+    }
+}
+
+public class AgentSshResult
+{
+    public int ExitCode { get; set; }
+    public string Output { get; set; } = string.Empty;
+    public string Error { get; set; } = string.Empty;
+    public TimeSpan Duration { get; set; }
+    public bool TimedOut { get; set; }
+    public bool Success => !TimedOut && ExitCode == 0;
+
+    // ssh prints warnings (e.g. "Permanently added ... to the list of known hosts") before the actual error
+    public string ErrorSummary =>
+        Error.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).LastOrDefault()
+        ?? $"ssh exited with code {ExitCode}";
+}
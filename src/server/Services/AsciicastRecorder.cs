@@ -0,0 +1,122 @@
+using System.Diagnostics;
+using System.Text;
+using System.Text.Encodings.Web;
+using System.Text.Json;
+
+namespace server.Services;
+
+/// <summary>
+/// Records a console session in asciicast v2 format (https://docs.asciinema.org/manual/asciicast/v2/):
+/// a JSON header line, then one JSON array per event with the seconds since the start. Only output and
+/// size changes are recorded, never the input, which would contain the passwords typed at prompts.
+/// Every event is flushed, a recording survives a crash of the server up to its last event.
+/// </summary>
+public sealed class AsciicastRecorder : IAsyncDisposable
+{
+    // A session printing without end (cat of a large file, yes) must not fill the disk
+    public const long MaxSize = 50 * 1024 * 1024;
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        // The files are read by the player, not embedded in HTML
+        Encoder = JavaScriptEncoder.UnsafeRelaxedJsonEscaping
+    };
+
+    private readonly StreamWriter _writer;
+    private readonly Stopwatch _clock = Stopwatch.StartNew();
+    private readonly SemaphoreSlim _lock = new(1, 1);
+    private bool _closed;
+
+    public long Size { get; private set; }
+    public bool Truncated { get; private set; }
+
+    private AsciicastRecorder(StreamWriter writer)
+    {
+        _writer = writer;
+    }
+
+    public static string RecordingsDirectory => Path.Combine(Directory.GetCurrentDirectory(), "data", "recordings");
+
+    public static string GetPath(Guid sessionId) => Path.Combine(RecordingsDirectory, $"{sessionId}.cast");
+
+    public static async Task<AsciicastRecorder> CreateAsync(Guid sessionId, int cols, int rows, string title)
+    {
+        Directory.CreateDirectory(RecordingsDirectory);
+
+        var path = GetPath(sessionId);
+        var stream = new FileStream(path, FileMode.CreateNew, FileAccess.Write, FileShare.Read);
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(path, UnixFileMode.UserRead | UnixFileMode.UserWrite);
+        }
+
+        var recorder = new AsciicastRecorder(new StreamWriter(stream, new UTF8Encoding(false)));
+        await recorder.WriteLineAsync(JsonSerializer.Serialize(new Dictionary<string, object>
+        {
+            ["version"] = 2,
+            ["width"] = cols,
+            ["height"] = rows,
+            ["timestamp"] = DateTimeOffset.UtcNow.ToUnixTimeSeconds(),
+            ["title"] = title,
+            ["env"] = new Dictionary<string, string> { ["TERM"] = "xterm-256color" }
+        }, JsonOptions));
+
+        return recorder;
+    }
+
+    public Task WriteOutputAsync(string text) => WriteEventAsync("o", text);
+
+    public Task WriteResizeAsync(int cols, int rows) => WriteEventAsync("r", $"{cols}x{rows}");
+
+    private async Task WriteEventAsync(string type, string data)
+    {
+        var elapsed = Math.Round(_clock.Elapsed.TotalSeconds, 6);
+        await WriteLineAsync(JsonSerializer.Serialize(new object[] { elapsed, type, data }, JsonOptions));
+    }
+
+    private async Task WriteLineAsync(string line)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            // Output can still arrive while the session is torn down
+            if (Truncated || _closed)
+            {
+                return;
+            }
+
+            var size = Encoding.UTF8.GetByteCount(line) + 1;
+            if (Size + size > MaxSize)
+            {
+                Truncated = true;
+                return;
+            }
+
+            await _writer.WriteAsync(line);
+            await _writer.WriteAsync('\n');
+            await _writer.FlushAsync();
+            Size += size;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    public async ValueTask DisposeAsync()
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            if (!_closed)
+            {
+                _closed = true;
+                await _writer.DisposeAsync();
+            }
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+}
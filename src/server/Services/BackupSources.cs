@@ -0,0 +1,207 @@
+using System.Text;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// The source paths of a backup plan. Every source comes from the plan's agent and all of them are
+/// passed to one rsync run, which keeps their full path below the destination (--relative) as soon
+/// as there is more than one, so /etc and /home cannot collide. Per-source excludes become filter
+/// rules anchored at the path of their source inside the transfer.
+/// </summary>
+public static class BackupSources
+{
+    public const int MaxSources = 20;
+    public const int MaxExcludesPerSource = 100;
+
+    /// <summary>
+    /// Builds the sources of a form in order, without saving them. Returns an error message when a
+    /// source or exclude cannot be passed safely to rsync.
+    /// </summary>
+    public static List<BackupPlanSource> Normalize(IEnumerable<BackupSourceRequest>? requests, out string? error)
+    {
+        error = null;
+        var sources = new List<BackupPlanSource>();
+
+        // A request without sources is rejected below like an empty list, a plan always needs one
+        foreach (var request in requests ?? Enumerable.Empty<BackupSourceRequest>())
+        {
+            var path = request.Path?.Trim();
+            if (string.IsNullOrEmpty(path))
+            {
+                continue;
+            }
+
+            if (!path.StartsWith('/'))
+            {
+                error = $"Source '{path}' must be an absolute path";
+                return sources;
+            }
+
+            if (HasUnsafeCharacters(path))
+            {
+                error = $"Source '{path}' must not contain quotes or line breaks";
+                return sources;
+            }
+
+            if (sources.Any(s => s.path.TrimEnd('/') == path.TrimEnd('/')))
+            {
+                error = $"Source '{path}' is listed more than once";
+                return sources;
+            }
+
+            var excludes = new List<string>();
+            foreach (var exclude in request.Excludes ?? new List<string>())
+            {
+                var pattern = exclude?.Trim();
+                if (string.IsNullOrEmpty(pattern))
+                {
+                    continue;
+                }
+
+                if (HasUnsafeCharacters(pattern) || pattern.EndsWith('\\'))
+                {
+                    error = $"Exclude '{pattern}' of source '{path}' must not contain quotes or line breaks, or end with a backslash";
+                    return sources;
+                }
+
+                excludes.Add(pattern);
+            }
+
+            if (excludes.Count > MaxExcludesPerSource)
+            {
+                error = $"A source can have at most {MaxExcludesPerSource} excludes";
+                return sources;
+            }
+
+            sources.Add(new BackupPlanSource
+            {
+                id = Guid.NewGuid(),
+                path = path,
+                position = sources.Count,
+                excludes = excludes
+            });
+        }
+
+        if (sources.Count == 0)
+        {
+            error = "At least one source is required";
+        }
+        else if (sources.Count > MaxSources)
+        {
+            error = $"A backup plan can have at most {MaxSources} sources";
+        }
+
+        return sources;
+    }
+
+    /// <summary>
+    /// Sources of a plan loaded with its sources, in transfer order.
+    /// </summary>
+    public static List<BackupPlanSource> Ordered(BackupPlan backupPlan)
+    {
+        return backupPlan.sources.OrderBy(s => s.position).ToList();
+    }
+
+    /// <summary>
+    /// The source paths on one line, for log messages and notifications.
+    /// </summary>
+    public static string Describe(BackupPlan backupPlan)
+    {
+        return string.Join(", ", Ordered(backupPlan).Select(s => s.path));
+    }
+
+    /// <summary>
+    /// Whether backups of the plan keep the full source paths below the destination (--relative).
+    /// Only plans with several sources do, a single source is laid out as it always was: "/data/"
+    /// as its content, "/data" as a "data" directory. Every run of a plan, with or without
+    /// --link-dest, uses the same layout, so snapshots can hardlink to each other.
+    /// </summary>
+    public static bool UseRelativePaths(BackupPlan backupPlan)
+    {
+        return backupPlan.sources.Count > 1;
+    }
+
+    /// <summary>
+    /// Directory the destination content maps back to on the agent, which is also what logged paths
+    /// are relative to: "/data/" was backed up as its content, "/data" as a "data" directory inside
+    /// the destination. Plans that keep the full source paths in the destination map back to "/".
+    /// </summary>
+    public static string GetOriginalLocation(BackupPlan backupPlan)
+    {
+        if (UseRelativePaths(backupPlan) || backupPlan.sources.Count == 0)
+        {
+            return "/";
+        }
+
+        var trimmed = backupPlan.sources[0].path.Trim();
+        if (trimmed.EndsWith('/'))
+        {
+            var root = trimmed.TrimEnd('/');
+            return root.Length > 0 ? root : "/";
+        }
+
+        var lastSlash = trimmed.LastIndexOf('/');
+        return lastSlash <= 0 ? "/" : trimmed[..lastSlash];
+    }
+
+    /// <summary>
+    /// Builds the --filter arguments of the per-source excludes. They come before the plan's own
+    /// filter rules, rsync uses the first match.
+    /// </summary>
+    public static string BuildExcludeArguments(IEnumerable<BackupPlanSource> sources, bool relativePaths)
+    {
+        var args = new StringBuilder();
+
+        foreach (var source in sources)
+        {
+            var root = GetTransferPath(source.path, relativePaths);
+            foreach (var exclude in source.excludes)
+            {
+                if (exclude.StartsWith('/'))
+                {
+                    args.Append($"--filter=\"- {root}{exclude}\" ");
+                    continue;
+                }
+
+                args.Append($"--filter=\"- {root}/{exclude}\" ");
+                args.Append($"--filter=\"- {root}/**/{exclude}\" ");
+            }
+        }
+
+        return args.ToString();
+    }
+
+    /// <summary>
+    /// The remote source arguments of rsync, one per source.
+    /// </summary>
+    public static string BuildSourceArguments(IEnumerable<BackupPlanSource> sources, Agent agent)
+    {
+        return string.Join(' ', sources.Select(s => $"\"{agent.rsyncUser}@{agent.hostname}:{s.path}\""));
+    }
+
+    /// <summary>
+    /// Path of the source inside the transfer, without a trailing slash. With --relative it is the
+    /// full path; otherwise "/data/" transfers the content of /data (the transfer root itself) and
+    /// "/data" the directory, so its content is below "/data" of the transfer.
+    /// </summary>
+    private static string GetTransferPath(string path, bool relativePaths)
+    {
+        if (relativePaths)
+        {
+            return path.TrimEnd('/');
+        }
+
+        if (path.EndsWith('/'))
+        {
+            return string.Empty;
+        }
+
+        return "/" + path.TrimEnd('/').Split('/').Last();
+    }
+
+    private static bool HasUnsafeCharacters(string value)
+    {
+        return value.Contains('"') || value.Contains('\n') || value.Contains('\r');
+    }
+}
@@ -0,0 +1,127 @@
+using System.Text.RegularExpressions;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Protects destinations from runs that would delete most of them, e.g. when a disk on the agent
+/// is not mounted and the source looks empty. The dry-run that precedes every backup is checked
+/// against the plan thresholds before rsync is allowed to delete anything.
+/// </summary>
+public static class DeletionGuard
+{
+    // Planned changes of a blocked run stored for review, per kind (deletions, copies)
+    public const int MaxLoggedChanges = 1000;
+
+    // How long a blocked run can be approved
+    public static readonly TimeSpan ApprovalValidity = TimeSpan.FromHours(24);
+
+    public static string? Validate(DeletionGuardRequest guard)
+    {
+        if (guard.MaxFiles.HasValue && guard.MaxFiles.Value < 0)
+        {
+            return "The deletion threshold cannot be a negative number of files";
+        }
+
+        if (guard.MaxPercent.HasValue && (guard.MaxPercent.Value <= 0 || guard.MaxPercent.Value > 100))
+        {
+            return "The deletion threshold percentage must be greater than 0 and at most 100";
+        }
+
+        return null;
+    }
+
+    public static void Apply(BackupPlan backupPlan, DeletionGuardRequest guard)
+    {
+        backupPlan.deleteThresholdFiles = guard.MaxFiles;
+        backupPlan.deleteThresholdPercent = guard.MaxPercent;
+    }
+
+    /// <summary>
+    /// The guard only matters when the plan has a threshold and rsync deletes in the destination;
+    /// restores and hardlink snapshots never delete.
+    /// </summary>
+    public static bool Applies(BackupPlan backupPlan)
+    {
+        return (backupPlan.deleteThresholdFiles.HasValue || backupPlan.deleteThresholdPercent.HasValue) &&
+               backupPlan.rsyncDeleteMode != "none" &&
+               backupPlan.snapshotMode != "hardlink";
+    }
+
+    /// <summary>
+    /// Counts the regular files a dry-run with --itemize-changes --stats would delete. The size of
+    /// the destination is derived from the statistics: source files that already exist there plus
+    /// the files that only exist there.
+    /// </summary>
+    public static DeletionGuardCounts Count(string dryRunOutput)
+    {
+        var counts = new DeletionGuardCounts();
+        int? sourceFiles = null;
+        int? createdFiles = null;
+
+        foreach (var line in dryRunOutput.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+        {
+            var trimmedLine = line.Trim();
+
+            // Directories end with a slash and are removed together with their files
+            if (trimmedLine.StartsWith("*deleting") && !trimmedLine.EndsWith("/"))
+            {
+                counts.FilesToDelete++;
+            }
+            // Number of files: 1,201 (reg: 1,163, dir: 38), an empty source has no "reg" part
+            else if (trimmedLine.StartsWith("Number of files:"))
+            {
+                sourceFiles = ParseRegularCount(trimmedLine) ?? 0;
+            }
+            // Number of created files: 40 (reg: 29, dir: 11)
+            else if (trimmedLine.StartsWith("Number of created files:"))
+            {
+                createdFiles = ParseRegularCount(trimmedLine) ?? 0;
+            }
+        }
+
+        if (sourceFiles.HasValue)
+        {
+            counts.DestinationFiles = Math.Max(0, sourceFiles.Value - (createdFiles ?? 0)) + counts.FilesToDelete;
+        }
+
+        return counts;
+    }
+
+    /// <summary>
+    /// Returns why the run has to be blocked, or null when it may proceed. A run approved by an
+    /// operator may delete up to the number of files that were shown for approval, but no more.
+    /// </summary>
+    public static string? Check(BackupPlan backupPlan, DeletionGuardCounts counts, int? approvedDeletions)
+    {
+        if (approvedDeletions.HasValue && counts.FilesToDelete <= approvedDeletions.Value)
+        {
+            return null;
+        }
+
+        if (backupPlan.deleteThresholdFiles.HasValue && counts.FilesToDelete > backupPlan.deleteThresholdFiles.Value)
+        {
+            return $"{counts.FilesToDelete} files would be deleted, the limit is {backupPlan.deleteThresholdFiles.Value}";
+        }
+
+        var percent = counts.PercentToDelete;
+        if (backupPlan.deleteThresholdPercent.HasValue && percent.HasValue && percent.Value > backupPlan.deleteThresholdPercent.Value)
+        {
+            return $"{counts.FilesToDelete} of {counts.DestinationFiles} files ({percent.Value:0.#}%) would be deleted, the limit is {backupPlan.deleteThresholdPercent.Value:0.#}%";
+        }
+
+        return null;
+    }
+
+    private static int? ParseRegularCount(string line)
+    {
+        var match = Regex.Match(line, @"\(reg:\s+([\d.,]+)");
+        if (!match.Success)
+        {
+            return null;
+        }
+
+        // rsync groups thousands with "," or "." depending on the locale
+        return int.TryParse(match.Groups[1].Value.Replace(",", "").Replace(".", ""), out var count) ? count : null;
+    }
+}
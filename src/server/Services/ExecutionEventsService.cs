@@ -0,0 +1,54 @@
+using Microsoft.AspNetCore.SignalR;
+using server.Hubs;
+using server.Models;
+
+namespace server.Services;
+
+public class ExecutionEventsService : IExecutionEventsService
+{
+    private readonly IHubContext<ExecutionEventsHub> _hubContext;
+    private readonly ILogger<ExecutionEventsService> _logger;
+
+    public ExecutionEventsService(IHubContext<ExecutionEventsHub> hubContext, ILogger<ExecutionEventsService> logger)
+    {
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task PublishExecutionUpdateAsync(ExecutionEvent executionEvent)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("ExecutionUpdated", executionEvent);
+        }
+        catch (Exception ex)
+        {
+            // A failed push must never break a running backup
+            _logger.LogWarning(ex, "Failed to publish execution update for execution {ExecutionId}", executionEvent.ExecutionId);
+        }
+    }
+
+    public async Task PublishNotificationAsync(Notification notification)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("NotificationCreated", notification);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to publish notification {NotificationId}", notification.id);
+        }
+    }
+
+    public async Task PublishAgentHealthUpdatedAsync(IReadOnlyCollection<Guid> agentIds)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("AgentHealthUpdated", agentIds);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to publish agent health update for {Count} agents", agentIds.Count);
+        }
+    }
+}
@@ -0,0 +1,140 @@
+using System.Globalization;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Hardlink snapshot mode for destinations without ZFS: every run is written into a timestamped
+/// directory under the destination with --link-dest against the previous run, so unchanged files
+/// take no extra space. Expired snapshots are removed by SnapshotPruneService.
+/// </summary>
+public static class HardlinkSnapshots
+{
+    public static readonly string[] Modes = { "none", "hardlink" };
+
+    // Sorts chronologically as a plain string
+    private const string NameFormat = "yyyy-MM-dd_HH-mm-ss";
+    public const string InProgressSuffix = ".inprogress";
+
+    public static string? Validate(SnapshotOptionsRequest options)
+    {
+        if (!Modes.Contains(options.Mode))
+        {
+            return $"Snapshot mode must be one of: {string.Join(", ", Modes)}";
+        }
+
+        if (options.KeepDaily < 0 || options.KeepWeekly < 0 || options.KeepMonthly < 0)
+        {
+            return "Retention counts cannot be negative";
+        }
+
+        return null;
+    }
+
+    public static void Apply(BackupPlan backupPlan, SnapshotOptionsRequest options)
+    {
+        backupPlan.snapshotMode = options.Mode;
+        backupPlan.retentionDaily = options.KeepDaily;
+        backupPlan.retentionWeekly = options.KeepWeekly;
+        backupPlan.retentionMonthly = options.KeepMonthly;
+    }
+
+    /// <summary>
+    /// Target of a new run started at startTime, linked against the newest completed snapshot.
+    /// </summary>
+    public static HardlinkSnapshotTarget CreateTarget(string destination, DateTime startTime)
+    {
+        var name = startTime.ToString(NameFormat, CultureInfo.InvariantCulture);
+        var path = Path.Combine(destination, name);
+        return new HardlinkSnapshotTarget
+        {
+            name = name,
+            path = path,
+            workingPath = path + InProgressSuffix,
+            linkDestPath = List(destination).FirstOrDefault()?.Path
+        };
+    }
+
+    /// <summary>
+    /// Completed snapshots under destination, newest first. Other directories are ignored.
+    /// </summary>
+    public static List<HardlinkSnapshot> List(string destination)
+    {
+        if (!Directory.Exists(destination))
+        {
+            return new List<HardlinkSnapshot>();
+        }
+
+        var snapshots = new List<HardlinkSnapshot>();
+        foreach (var directory in new DirectoryInfo(destination).GetDirectories())
+        {
+            if (DateTime.TryParseExact(directory.Name, NameFormat, CultureInfo.InvariantCulture,
+                    DateTimeStyles.AssumeUniversal | DateTimeStyles.AdjustToUniversal, out var createdAt))
+            {
+                snapshots.Add(new HardlinkSnapshot
+                {
+                    Name = directory.Name,
+                    Path = directory.FullName,
+                    CreatedAt = createdAt
+                });
+            }
+        }
+
+        return snapshots.OrderByDescending(s => s.CreatedAt).ToList();
+    }
+
+    /// <summary>
+    /// Leftovers of runs that failed or were stopped before their snapshot was completed.
+    /// </summary>
+    public static List<string> ListInProgress(string destination)
+    {
+        if (!Directory.Exists(destination))
+        {
+            return new List<string>();
+        }
+
+        return new DirectoryInfo(destination).GetDirectories($"*{InProgressSuffix}")
+            .Select(d => d.FullName)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Fills KeptBy of every snapshot: the newest snapshot of each of the last retentionDaily days,
+    /// retentionWeekly weeks and retentionMonthly months is kept, as is the newest snapshot overall.
+    /// Snapshots left with an empty KeptBy are expired.
+    /// </summary>
+    public static void ApplyRetention(BackupPlan backupPlan, List<HardlinkSnapshot> snapshots)
+    {
+        var newestFirst = snapshots.OrderByDescending(s => s.CreatedAt).ToList();
+        foreach (var snapshot in newestFirst)
+        {
+            snapshot.KeptBy.Clear();
+        }
+
+        if (newestFirst.Count == 0)
+        {
+            return;
+        }
+
+        newestFirst[0].KeptBy.Add("latest");
+        Keep(newestFirst, backupPlan.retentionDaily, "daily", s => s.CreatedAt.Date);
+        Keep(newestFirst, backupPlan.retentionWeekly, "weekly", s => StartOfWeek(s.CreatedAt));
+        Keep(newestFirst, backupPlan.retentionMonthly, "monthly", s => new DateTime(s.CreatedAt.Year, s.CreatedAt.Month, 1));
+    }
+
+    private static void Keep(List<HardlinkSnapshot> newestFirst, int count, string rule, Func<HardlinkSnapshot, DateTime> period)
+    {
+        // Groups keep the newest-first order, so First() is the newest snapshot of each period
+        foreach (var group in newestFirst.GroupBy(period).Take(Math.Max(0, count)))
+        {
+            group.First().KeptBy.Add(rule);
+        }
+    }
+
+    private static DateTime StartOfWeek(DateTime dateTime)
+    {
+        // Weeks start on Monday
+        var daysSinceMonday = ((int)dateTime.DayOfWeek + 6) % 7;
+        return dateTime.Date.AddDays(-daysSinceMonday);
+    }
+}
@@ -0,0 +1,247 @@
+using System.Diagnostics;
+using System.Text;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Host key pinning of agents. Once an agent has a pinned host key, every ssh connection to it runs
+/// with StrictHostKeyChecking=yes against a known_hosts file that only holds that key. The file is
+/// written next to the temporary private key of the connection ({keyPath}.known_hosts), so callers
+/// that already pass the key path around need nothing else.
+/// </summary>
+public static class HostKeys
+{
+    // Host name of the known_hosts entry, so the entry matches whatever hostname and port the agent uses
+    private const string HostKeyAlias = "remember-agent";
+
+    private static readonly TimeSpan ScanTimeout = TimeSpan.FromSeconds(20);
+
+    // ssh negotiates the first algorithm both sides support, the pinned key should be the one it picks
+    private static readonly string[] PreferredKeyTypes = { "ssh-ed25519", "ecdsa-sha2-nistp256", "ecdsa-sha2-nistp384", "ecdsa-sha2-nistp521", "ssh-rsa" };
+
+    public static bool IsPinned(Agent agent) => !string.IsNullOrWhiteSpace(agent.hostKey);
+
+    /// <summary>
+    /// Host keys the agent presents right now ("type base64" each), with ssh-keyscan.
+    /// </summary>
+    public static async Task<List<string>> ScanAsync(string hostname, int port)
+    {
+        var processStartInfo = new ProcessStartInfo
+        {
+            FileName = "ssh-keyscan",
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+        foreach (var argument in new[] { "-T", AgentSsh.ConnectTimeoutSeconds.ToString(), "-p", (port > 0 ? port : 22).ToString(), hostname.Trim() })
+        {
+            processStartInfo.ArgumentList.Add(argument);
+        }
+
+        using var process = Process.Start(processStartInfo);
+        if (process == null)
+        {
+            throw new InvalidOperationException("Failed to start ssh-keyscan");
+        }
+
+        var outputTask = process.StandardOutput.ReadToEndAsync();
+        var errorTask = process.StandardError.ReadToEndAsync();
+
+        using var timeoutSource = new CancellationTokenSource(ScanTimeout);
+        try
+        {
+            await process.WaitForExitAsync(timeoutSource.Token);
+        }
+        catch (OperationCanceledException)
+        {
+            process.Kill(entireProcessTree: true);
+            throw new InvalidOperationException($"Timed out reading the host key of {hostname}");
+        }
+
+        // host type base64, comments start with #
+        var keys = (await outputTask)
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .Where(line => !line.StartsWith('#'))
+            .Select(line => line.Split(' ', StringSplitOptions.RemoveEmptyEntries))
+            .Where(parts => parts.Length >= 3)
+            .Select(parts => $"{parts[1]} {parts[2]}")
+            .Distinct()
+            .ToList();
+
+        if (keys.Count == 0)
+        {
+            var error = (await errorTask).Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+                .LastOrDefault(line => !line.StartsWith('#'));
+            throw new InvalidOperationException($"Could not read the host key of {hostname}{(error != null ? $": {error}" : "")}");
+        }
+
+        return keys;
+    }
+
+    /// <summary>
+    /// Host keys a saved or unsaved agent presents right now, through its jump hosts when it has any.
+    /// </summary>
+    public static Task<List<string>> ScanAsync(Agent agent)
+    {
+        return JumpHosts.IsUsed(agent) ? ScanThroughJumpHostsAsync(agent) : ScanAsync(agent.hostname, agent.rsyncPort);
+    }
+
+    /// <summary>
+    /// ssh-keyscan cannot go through jump hosts. ssh itself can: with accept-new it records the key the
+    /// agent offers in an empty known_hosts file, then gives up as every authentication method is off.
+    /// Only one key is read this way, the one of the pinned type when the agent has a pinned key.
+    /// </summary>
+    private static async Task<List<string>> ScanThroughJumpHostsAsync(Agent agent)
+    {
+        var tempDir = Path.Combine(Path.GetTempPath(), "remember_ssh_keys");
+        Directory.CreateDirectory(tempDir);
+        var basePath = Path.Combine(tempDir, $"host_key_scan_{Guid.NewGuid()}");
+        var knownHostsPath = KnownHostsPath(basePath);
+
+        try
+        {
+            await JumpHosts.WriteFilesAsync(agent, basePath);
+
+            var port = agent.rsyncPort > 0 ? agent.rsyncPort : 22;
+            var arguments = new List<string> { "-p", port.ToString() };
+            arguments.AddRange(JumpHosts.BuildSshOptions(agent, basePath));
+            arguments.AddRange(new[]
+            {
+                "-o", "StrictHostKeyChecking=accept-new",
+                "-o", $"UserKnownHostsFile={knownHostsPath}",
+                "-o", "GlobalKnownHostsFile=/dev/null",
+                "-o", $"HostKeyAlias={HostKeyAlias}",
+                "-o", "HashKnownHosts=no",
+                "-o", "BatchMode=yes",
+                "-o", $"ConnectTimeout={AgentSsh.ConnectTimeoutSeconds}",
+                "-o", "PubkeyAuthentication=no",
+                "-o", "PasswordAuthentication=no",
+                "-o", "KbdInteractiveAuthentication=no",
+                "-o", "HostbasedAuthentication=no",
+                "-o", "GSSAPIAuthentication=no"
+            });
+            if (IsPinned(agent))
+            {
+                arguments.AddRange(new[] { "-o", $"HostKeyAlgorithms={GetHostKeyAlgorithms(agent.hostKey!)}" });
+            }
+            arguments.AddRange(new[] { agent.hostname.Trim(), "true" });
+
+            var result = await AgentSsh.RunProcessAsync(arguments, new Dictionary<string, string>(), ScanTimeout);
+
+            var keys = File.Exists(knownHostsPath)
+                ? (await File.ReadAllLinesAsync(knownHostsPath))
+                    .Select(line => line.Split(' ', StringSplitOptions.RemoveEmptyEntries))
+                    .Where(parts => parts.Length >= 3)
+                    .Select(parts => $"{parts[1]} {parts[2]}")
+                    .Distinct()
+                    .ToList()
+                : new List<string>();
+
+            if (keys.Count == 0)
+            {
+                throw new InvalidOperationException($"Could not read the host key of {agent.hostname} through its jump hosts: {result.ErrorSummary}");
+            }
+
+            return keys;
+        }
+        finally
+        {
+            DeleteKnownHostsFile(basePath);
+            JumpHosts.DeleteFiles(agent, basePath);
+        }
+    }
+
+    // RSA keys are offered with SHA-2 signatures, the key type stays ssh-rsa
+    private static string GetHostKeyAlgorithms(string hostKey)
+    {
+        var type = hostKey.Split(' ')[0];
+        return type == "ssh-rsa" ? "rsa-sha2-512,rsa-sha2-256,ssh-rsa" : type;
+    }
+
+    /// <summary>
+    /// The key to pin out of the scanned ones, or the one to compare with the pinned key (same type first).
+    /// </summary>
+    public static string SelectKey(List<string> keys, string? pinnedKey = null)
+    {
+        var pinnedType = pinnedKey?.Split(' ')[0];
+        return keys.FirstOrDefault(key => key.Split(' ')[0] == pinnedType)
+               ?? PreferredKeyTypes.Select(type => keys.FirstOrDefault(key => key.Split(' ')[0] == type)).FirstOrDefault(key => key != null)
+               ?? keys[0];
+    }
+
+    public static string GetFingerprint(string hostKey) => SshKeys.GetFingerprint(hostKey);
+
+    /// <summary>
+    /// Compares the key the agent presents with the pinned one. Returns null when they match or the
+    /// agent has no pinned key, otherwise the presented key.
+    /// </summary>
+    public static async Task<string?> FindChangedKeyAsync(Agent agent)
+    {
+        if (!IsPinned(agent))
+        {
+            return null;
+        }
+
+        var keys = await ScanAsync(agent);
+        return keys.Contains(agent.hostKey!) ? null : SelectKey(keys, agent.hostKey);
+    }
+
+    public static bool IsHostKeyError(string sshError)
+    {
+        return sshError.Contains("Host key verification failed") ||
+               sshError.Contains("REMOTE HOST IDENTIFICATION HAS CHANGED") ||
+               sshError.Contains("No matching host key");
+    }
+
+    /// <summary>
+    /// Writes the known_hosts file of a connection when the agent has a pinned key.
+    /// </summary>
+    public static async Task WriteKnownHostsFileAsync(Agent agent, string sshKeyPath)
+    {
+        if (!IsPinned(agent))
+        {
+            return;
+        }
+
+        var path = KnownHostsPath(sshKeyPath);
+        await File.WriteAllTextAsync(path, $"{HostKeyAlias} {agent.hostKey!.Trim()}\n", new UTF8Encoding(false));
+
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(path, UnixFileMode.UserRead | UnixFileMode.UserWrite);
+        }
+    }
+
+    /// <summary>
+    /// ssh -o options checking the host key. Agents without a pinned key keep the old behaviour of
+    /// accepting any key.
+    /// </summary>
+    public static List<string> BuildSshOptions(Agent agent, string sshKeyPath)
+    {
+        if (!IsPinned(agent))
+        {
+            return new List<string>
+            {
+                "-o", "StrictHostKeyChecking=no",
+                "-o", "UserKnownHostsFile=/dev/null"
+            };
+        }
+
+        return new List<string>
+        {
+            "-o", "StrictHostKeyChecking=yes",
+            "-o", $"UserKnownHostsFile={KnownHostsPath(sshKeyPath)}",
+            "-o", "GlobalKnownHostsFile=/dev/null",
+            "-o", $"HostKeyAlias={HostKeyAlias}"
+        };
+    }
+
+    public static void DeleteKnownHostsFile(string sshKeyPath)
+    {
+        TempFiles.Delete(KnownHostsPath(sshKeyPath));
+    }
+
+    private static string KnownHostsPath(string sshKeyPath) => $"{sshKeyPath}.known_hosts";
+}
@@ -0,0 +1,10 @@
+using server.Models;
+
+namespace server.Services;
+
+public interface IExecutionEventsService
+{
+    Task PublishExecutionUpdateAsync(ExecutionEvent executionEvent);
+    Task PublishNotificationAsync(Notification notification);
+    Task PublishAgentHealthUpdatedAsync(IReadOnlyCollection<Guid> agentIds);
+}
@@ -5,6 +5,11 @@ namespace server.Services;
 public interface INotificationService
 {
     Task SendBackupStartNotificationAsync(BackupPlan backupPlan, bool isAutomatic, bool isSimulation);
-    Task SendBackupCompletedNotificationAsync(BackupPlan backupPlan, ExecutionResult result, bool isAutomatic, bool isSimulation);
-    Task SendBackupFailedNotificationAsync(BackupPlan backupPlan, string error, bool isAutomatic, bool isSimulation);
+    Task SendBackupCompletedNotificationAsync(BackupPlan backupPlan, ExecutionResult result, bool isAutomatic, bool isSimulation, Guid? executionId = null);
+    Task SendBackupFailedNotificationAsync(BackupPlan backupPlan, string error, bool isAutomatic, bool isSimulation, Guid? executionId = null);
+    Task SendDeletionGuardNotificationAsync(BackupPlan backupPlan, string reason, bool isAutomatic, Guid executionId);
+    Task SendAgentOfflineNotificationAsync(Agent agent, string error);
+    Task SendAgentRecoveredNotificationAsync(Agent agent);
+    Task SendHostKeyChangedNotificationAsync(Agent agent, string pinnedFingerprint, string presentedFingerprint);
+    Task CreateNotificationAsync(string type, string title, string message, Guid? backupPlanId = null, Guid? executionId = null, string priority = "Normal");
 }
@@ -0,0 +1,289 @@
+using System.Text;
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using server.Data;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Jump hosts (ProxyJump) of agents behind a bastion. Options given to ssh on the command line do
+/// not reach the ssh processes of the hops, a configuration file given with -F does, so every hop
+/// gets a Host block with its own key and host key checking in a temporary config file. Like the
+/// known_hosts file of HostKeys, the files are written next to the temporary private key of the
+/// connection ({keyPath}.jump_config, {keyPath}.jump0, ...).
+/// </summary>
+public static class JumpHosts
+{
+    public const int MaxHops = 5;
+
+    // Host names of the Host blocks, the real address of a hop is its HostName
+    private const string HopAliasPrefix = "remember-jump-";
+
+    // Written into an ssh config file and a comma separated ProxyJump list, so no spaces, quotes or commas
+    private static readonly Regex ValidValuePattern = new(@"^[^\s""',#-][^\s""',#]*$");
+
+    /// <summary>
+    /// Builds the hops of a form, without saving them. Hops with the id of a saved hop of the agent and
+    /// no new key keep the stored key. Throws ArgumentException when a hop cannot be used.
+    /// </summary>
+    public static async Task<List<AgentJumpHost>> BuildAsync(DBContext context, Guid? agentId, List<JumpHostRequest> requests)
+    {
+        if (requests.Count > MaxHops)
+        {
+            throw new ArgumentException($"An agent can go through at most {MaxHops} jump hosts");
+        }
+
+        var savedHops = agentId.HasValue ? await LoadHopsAsync(context, agentId.Value) : new List<AgentJumpHost>();
+        var hops = new List<AgentJumpHost>();
+
+        foreach (var request in requests)
+        {
+            var number = hops.Count + 1;
+            var hop = new AgentJumpHost
+            {
+                id = Guid.NewGuid(),
+                agentId = agentId ?? Guid.Empty,
+                position = hops.Count
+            };
+
+            if (request.ViaAgentId.HasValue)
+            {
+                if (request.ViaAgentId == agentId)
+                {
+                    throw new ArgumentException("An agent cannot be its own jump host");
+                }
+                if (!await context.Agents.AnyAsync(a => a.id == request.ViaAgentId.Value))
+                {
+                    throw new ArgumentException($"The agent of jump host {number} does not exist");
+                }
+
+                hop.viaAgentId = request.ViaAgentId;
+                hops.Add(hop);
+                continue;
+            }
+
+            var hostname = request.Hostname?.Trim();
+            var user = string.IsNullOrWhiteSpace(request.User) ? null : request.User.Trim();
+            if (string.IsNullOrEmpty(hostname))
+            {
+                throw new ArgumentException($"Jump host {number} needs a hostname or an agent");
+            }
+            if (!ValidValuePattern.IsMatch(hostname) || (user != null && !ValidValuePattern.IsMatch(user)))
+            {
+                throw new ArgumentException($"The hostname or user of jump host {number} contains invalid characters");
+            }
+            if (request.Port < 1 || request.Port > 65535)
+            {
+                throw new ArgumentException($"The port of jump host {number} must be between 1 and 65535");
+            }
+
+            hop.hostname = hostname;
+            hop.user = user;
+            hop.port = request.Port;
+
+            if (!string.IsNullOrWhiteSpace(request.SshKey))
+            {
+                try
+                {
+                    var privateKey = request.SshKey.Trim();
+                    var passphrase = string.IsNullOrEmpty(request.SshKeyPassphrase) ? null : request.SshKeyPassphrase;
+                    var publicKey = await SshKeys.GetPublicKeyAsync(privateKey, passphrase);
+
+                    hop.sshKey = SecretEncryption.Encrypt(privateKey);
+                    hop.sshKeyPassphrase = passphrase != null ? SecretEncryption.Encrypt(passphrase) : null;
+                    hop.sshKeyFingerprint = SshKeys.GetFingerprint(publicKey);
+                }
+                catch (InvalidOperationException ex)
+                {
+                    throw new ArgumentException($"Jump host {number}: {ex.Message}");
+                }
+            }
+            else if (request.Id.HasValue && savedHops.FirstOrDefault(h => h.id == request.Id.Value) is { viaAgentId: null } savedHop)
+            {
+                hop.sshKey = savedHop.sshKey;
+                hop.sshKeyPassphrase = savedHop.sshKeyPassphrase;
+                hop.sshKeyFingerprint = savedHop.sshKeyFingerprint;
+            }
+
+            hops.Add(hop);
+        }
+
+        return hops;
+    }
+
+    public static Task<List<AgentJumpHost>> LoadHopsAsync(DBContext context, Guid agentId)
+    {
+        return context.AgentJumpHosts
+            .Where(h => h.agentId == agentId)
+            .OrderBy(h => h.position)
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Resolves the route to a saved agent into agent.jumpRoute, before any connection to it.
+    /// </summary>
+    public static async Task LoadAsync(DBContext context, Agent agent)
+    {
+        var hops = await LoadHopsAsync(context, agent.id);
+        agent.jumpRoute = await ResolveAsync(context, agent.id, hops, SshKeys.GetPrivateKey(agent), SshKeys.GetPassphrase(agent));
+    }
+
+    /// <summary>
+    /// The hops ssh goes through, in order. A hop that is an agent behind jump hosts itself is reached
+    /// through those first. Inline hops without a key of their own authenticate with agentKey.
+    /// Throws InvalidOperationException when the route cannot be built.
+    /// </summary>
+    public static async Task<List<JumpHop>> ResolveAsync(DBContext context, Guid agentId, List<AgentJumpHost> hops, string? agentKey, string? agentPassphrase)
+    {
+        return await ResolveAsync(context, agentId, hops, agentKey, agentPassphrase, new HashSet<Guid>());
+    }
+
+    private static async Task<List<JumpHop>> ResolveAsync(DBContext context, Guid agentId, List<AgentJumpHost> hops, string? agentKey, string? agentPassphrase, HashSet<Guid> visited)
+    {
+        visited.Add(agentId);
+        var route = new List<JumpHop>();
+
+        foreach (var hop in hops.OrderBy(h => h.position))
+        {
+            if (hop.viaAgentId.HasValue)
+            {
+                var viaAgent = await context.Agents.FindAsync(hop.viaAgentId.Value)
+                               ?? throw new InvalidOperationException("An agent used as jump host no longer exists");
+                if (!visited.Add(viaAgent.id))
+                {
+                    throw new InvalidOperationException($"The jump hosts form a loop, {viaAgent.name} appears twice on the route");
+                }
+
+                var viaKey = SshKeys.GetPrivateKey(viaAgent)
+                             ?? throw new InvalidOperationException($"Jump host {viaAgent.name} does not have an SSH key configured");
+                var viaPassphrase = SshKeys.GetPassphrase(viaAgent);
+
+                route.AddRange(await ResolveAsync(context, viaAgent.id, await LoadHopsAsync(context, viaAgent.id), viaKey, viaPassphrase, visited));
+                route.Add(new JumpHop
+                {
+                    hostname = viaAgent.hostname.Trim(),
+                    user = string.IsNullOrWhiteSpace(viaAgent.rsyncUser) ? null : viaAgent.rsyncUser.Trim(),
+                    port = viaAgent.rsyncPort > 0 ? viaAgent.rsyncPort : 22,
+                    privateKey = viaKey,
+                    passphrase = viaPassphrase,
+                    hostKey = viaAgent.hostKey
+                });
+            }
+            else
+            {
+                var hasOwnKey = hop.hasSshKey;
+                route.Add(new JumpHop
+                {
+                    hostname = hop.hostname ?? string.Empty,
+                    user = hop.user,
+                    port = hop.port > 0 ? hop.port : 22,
+                    privateKey = (hasOwnKey ? SecretEncryption.DecryptOrNull(hop.sshKey) : agentKey)
+                                 ?? throw new InvalidOperationException($"Jump host {hop.hostname} does not have an SSH key, and there is no agent key to use instead"),
+                    passphrase = hasOwnKey ? SecretEncryption.DecryptOrNull(hop.sshKeyPassphrase) : agentPassphrase
+                });
+            }
+        }
+
+        if (route.Count > MaxHops)
+        {
+            throw new InvalidOperationException($"The route goes through more than {MaxHops} jump hosts");
+        }
+
+        return route;
+    }
+
+    public static bool IsUsed(Agent agent) => agent.jumpRoute.Count > 0;
+
+    /// <summary>
+    /// Writes the config file and the hop keys of a connection when the agent is behind jump hosts.
+    /// </summary>
+    public static async Task WriteFilesAsync(Agent agent, string sshKeyPath)
+    {
+        if (!IsUsed(agent))
+        {
+            return;
+        }
+
+        var config = new StringBuilder();
+        for (var i = 0; i < agent.jumpRoute.Count; i++)
+        {
+            var hop = agent.jumpRoute[i];
+            var keyPath = HopKeyPath(sshKeyPath, i);
+            await AgentSsh.WriteKeyFileAsync(keyPath, hop.privateKey, hop.passphrase);
+
+            config.Append($"Host {HopAliasPrefix}{i}\n");
+            config.Append($"    HostName {hop.hostname}\n");
+            config.Append($"    Port {hop.port}\n");
+            if (!string.IsNullOrWhiteSpace(hop.user))
+            {
+                config.Append($"    User {hop.user}\n");
+            }
+            config.Append($"    IdentityFile \"{keyPath}\"\n");
+            config.Append("    IdentitiesOnly yes\n");
+            // A hop never prompts, not even for the password of a key installation meant for the agent
+            config.Append("    BatchMode yes\n");
+            config.Append($"    ConnectTimeout {AgentSsh.ConnectTimeoutSeconds}\n");
+
+            if (string.IsNullOrWhiteSpace(hop.hostKey))
+            {
+                config.Append("    StrictHostKeyChecking no\n");
+                config.Append("    UserKnownHostsFile /dev/null\n");
+            }
+            else
+            {
+                var knownHostsPath = $"{keyPath}.known_hosts";
+                await WritePrivateFileAsync(knownHostsPath, $"{HopAliasPrefix}{i} {hop.hostKey.Trim()}\n");
+
+                config.Append("    StrictHostKeyChecking yes\n");
+                config.Append($"    UserKnownHostsFile \"{knownHostsPath}\"\n");
+                config.Append("    GlobalKnownHostsFile /dev/null\n");
+                config.Append($"    HostKeyAlias {HopAliasPrefix}{i}\n");
+            }
+        }
+
+        await WritePrivateFileAsync(ConfigPath(sshKeyPath), config.ToString());
+    }
+
+    /// <summary>
+    /// ssh options routing the connection through the jump hosts, empty for agents reached directly.
+    /// </summary>
+    public static List<string> BuildSshOptions(Agent agent, string sshKeyPath)
+    {
+        if (!IsUsed(agent))
+        {
+            return new List<string>();
+        }
+
+        var aliases = Enumerable.Range(0, agent.jumpRoute.Count).Select(i => $"{HopAliasPrefix}{i}");
+        return new List<string>
+        {
+            "-F", ConfigPath(sshKeyPath),
+            "-o", $"ProxyJump={string.Join(',', aliases)}"
+        };
+    }
+
+    public static void DeleteFiles(Agent agent, string sshKeyPath)
+    {
+        for (var i = 0; i < agent.jumpRoute.Count; i++)
+        {
+            TempFiles.Delete(HopKeyPath(sshKeyPath, i));
+            TempFiles.Delete($"{HopKeyPath(sshKeyPath, i)}.known_hosts");
+        }
+        TempFiles.Delete(ConfigPath(sshKeyPath));
+    }
+
+    private static async Task WritePrivateFileAsync(string path, string content)
+    {
+        await File.WriteAllTextAsync(path, content, new UTF8Encoding(false));
+
+        if (!OperatingSystem.IsWindows())
+        {
+            File.SetUnixFileMode(path, UnixFileMode.UserRead | UnixFileMode.UserWrite);
+        }
+    }
+
+    private static string ConfigPath(string sshKeyPath) => $"{sshKeyPath}.jump_config";
+
+    private static string HopKeyPath(string sshKeyPath, int index) => $"{sshKeyPath}.jump{index}";
+}
@@ -0,0 +1,159 @@
+using System.Globalization;
+using System.Text.Json;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Keyset (cursor) paging of the log tables. Rows are ordered by the sort column and then by id,
+/// and a page continues after the (value, id) of the last row it got instead of skipping an
+/// offset, so the millionth row of an execution costs as much as the first. Cursors are opaque
+/// to clients and only valid for the sort column they were made with.
+/// </summary>
+public static class LogKeyset
+{
+    public const int MaxPageSize = 1000;
+
+    private record Cursor(string sortBy, string? value, Guid id);
+
+    public static string NormalizeSortBy(string? sortBy)
+    {
+        return sortBy?.ToLower() switch
+        {
+            "filename" => "filename",
+            "size" => "size",
+            "action" => "action",
+            _ => "datetime"
+        };
+    }
+
+    public static bool IsAscending(string? sortOrder) => sortOrder?.ToLower() == "asc";
+
+    /// <summary>
+    /// Orders the logs by the sort column, with the id breaking ties so every row has one position.
+    /// Logs without a size sort as 0.
+    /// </summary>
+    public static IOrderedQueryable<LogEntry> Sort(IQueryable<LogEntry> query, string? sortBy, bool ascending)
+    {
+        return NormalizeSortBy(sortBy) switch
+        {
+            "filename" => ascending
+                ? query.OrderBy(log => log.fileName).ThenBy(log => log.id)
+                : query.OrderByDescending(log => log.fileName).ThenByDescending(log => log.id),
+            "size" => ascending
+                ? query.OrderBy(log => log.size ?? 0).ThenBy(log => log.id)
+                : query.OrderByDescending(log => log.size ?? 0).ThenByDescending(log => log.id),
+            "action" => ascending
+                ? query.OrderBy(log => log.action).ThenBy(log => log.id)
+                : query.OrderByDescending(log => log.action).ThenByDescending(log => log.id),
+            _ => ascending
+                ? query.OrderBy(log => log.datetime).ThenBy(log => log.id)
+                : query.OrderByDescending(log => log.datetime).ThenByDescending(log => log.id)
+        };
+    }
+
+    /// <summary>
+    /// The cursor continuing after a row.
+    /// </summary>
+    public static string Encode(LogEntry log, string? sortBy)
+    {
+        var json = JsonSerializer.SerializeToUtf8Bytes(ToCursor(log, sortBy));
+        return Convert.ToBase64String(json).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    /// <summary>
+    /// Keeps the rows after the cursor in the given order. Returns false when the cursor cannot be
+    /// read or was made for another sort column.
+    /// </summary>
+    public static bool TrySeek(IQueryable<LogEntry> query, string? sortBy, bool ascending, string cursor, out IQueryable<LogEntry> result)
+    {
+        result = query;
+
+        Cursor? decoded;
+        try
+        {
+            var base64 = cursor.Replace('-', '+').Replace('_', '/');
+            base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+            decoded = JsonSerializer.Deserialize<Cursor>(Convert.FromBase64String(base64));
+        }
+        catch (Exception ex) when (ex is FormatException or JsonException)
+        {
+            return false;
+        }
+
+        if (decoded == null || decoded.sortBy != NormalizeSortBy(sortBy))
+        {
+            return false;
+        }
+
+        var seeked = Seek(query, ascending, decoded);
+        if (seeked == null)
+        {
+            return false;
+        }
+
+        result = seeked;
+        return true;
+    }
+
+    /// <summary>
+    /// Keeps the rows after a row in the given order, the rows before it with the order reversed.
+    /// </summary>
+    public static IQueryable<LogEntry> SeekAfter(IQueryable<LogEntry> query, string? sortBy, bool ascending, LogEntry log)
+    {
+        return Seek(query, ascending, ToCursor(log, sortBy))!;
+    }
+
+    private static Cursor ToCursor(LogEntry log, string? sortBy)
+    {
+        var column = NormalizeSortBy(sortBy);
+        var value = column switch
+        {
+            "filename" => log.fileName,
+            "size" => (log.size ?? 0).ToString(CultureInfo.InvariantCulture),
+            "action" => log.action,
+            _ => log.datetime.Ticks.ToString(CultureInfo.InvariantCulture)
+        };
+
+        return new Cursor(column, value, log.id);
+    }
+
+    private static IQueryable<LogEntry>? Seek(IQueryable<LogEntry> query, bool ascending, Cursor cursor)
+    {
+        var id = cursor.id;
+        var text = cursor.value ?? string.Empty;
+
+        switch (cursor.sortBy)
+        {
+            case "filename":
+                return ascending
+                    ? query.Where(log => string.Compare(log.fileName, text) > 0 || (log.fileName == text && log.id.CompareTo(id) > 0))
+                    : query.Where(log => string.Compare(log.fileName, text) < 0 || (log.fileName == text && log.id.CompareTo(id) < 0));
+
+            case "action":
+                return ascending
+                    ? query.Where(log => string.Compare(log.action, text) > 0 || (log.action == text && log.id.CompareTo(id) > 0))
+                    : query.Where(log => string.Compare(log.action, text) < 0 || (log.action == text && log.id.CompareTo(id) < 0));
+
+            case "size":
+                if (!long.TryParse(text, NumberStyles.Integer, CultureInfo.InvariantCulture, out var size))
+                {
+                    return null;
+                }
+                return ascending
+                    ? query.Where(log => (log.size ?? 0) > size || ((log.size ?? 0) == size && log.id.CompareTo(id) > 0))
+                    : query.Where(log => (log.size ?? 0) < size || ((log.size ?? 0) == size && log.id.CompareTo(id) < 0));
+
+            default:
+                if (!long.TryParse(text, NumberStyles.Integer, CultureInfo.InvariantCulture, out var ticks)
+                    || ticks < DateTime.MinValue.Ticks || ticks > DateTime.MaxValue.Ticks)
+                {
+                    return null;
+                }
+                var datetime = new DateTime(ticks);
+                return ascending
+                    ? query.Where(log => log.datetime > datetime || (log.datetime == datetime && log.id.CompareTo(id) > 0))
+                    : query.Where(log => log.datetime < datetime || (log.datetime == datetime && log.id.CompareTo(id) < 0));
+        }
+    }
+}
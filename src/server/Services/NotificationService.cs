@@ -8,15 +8,18 @@ namespace server.Services;
 public class NotificationService : INotificationService
 {
     private readonly ITelegramService _telegramService;
+    private readonly IExecutionEventsService _executionEvents;
     private readonly IServiceScopeFactory _serviceScopeFactory;
     private readonly ILogger<NotificationService> _logger;
 
     public NotificationService(
         ITelegramService telegramService,
+        IExecutionEventsService executionEvents,
         IServiceScopeFactory serviceScopeFactory,
         ILogger<NotificationService> logger)
     {
         _telegramService = telegramService;
+        _executionEvents = executionEvents;
         _serviceScopeFactory = serviceScopeFactory;
         _logger = logger;
     }
@@ -36,7 +39,7 @@ public class NotificationService : INotificationService
             message.AppendLine($"{executionType} Backup Started");
             message.AppendLine();
             message.AppendLine($"📋 Plan: {backupPlan.name}");
-            message.AppendLine($"📁 Source: {backupPlan.source}");
+            message.AppendLine($"📁 {(backupPlan.sources.Count == 1 ? "Source" : "Sources")}: {BackupSources.Describe(backupPlan)}");
             message.AppendLine($"💾 Destination: {backupPlan.destination}");
             message.AppendLine($"🖥️ Host: {backupPlan.rsyncHost}");
             message.AppendLine($"🕐 Time: {DateTime.Now:yyyy-MM-dd HH:mm:ss}");
@@ -54,8 +57,27 @@ public class NotificationService : INotificationService
         }
     }
 
-    public async Task SendBackupCompletedNotificationAsync(BackupPlan backupPlan, ExecutionResult result, bool isAutomatic, bool isSimulation)
+    public async Task SendBackupCompletedNotificationAsync(BackupPlan backupPlan, ExecutionResult result, bool isAutomatic, bool isSimulation, Guid? executionId = null)
     {
+        if (isSimulation)
+        {
+            await CreateNotificationAsync(
+                "SimulationCompleted",
+                $"Simulation completed: {backupPlan.name}",
+                $"{result.ItemsToCopy:N0} items to copy, {result.ItemsToDelete:N0} items to delete",
+                backupPlan.id,
+                executionId);
+        }
+        else
+        {
+            await CreateNotificationAsync(
+                "BackupCompleted",
+                $"Backup completed: {backupPlan.name}",
+                $"{result.TransferredFiles:N0} files transferred ({FormatBytes(result.TotalTransferredSize)}), {result.DeletedFiles:N0} deleted",
+                backupPlan.id,
+                executionId);
+        }
+
         try
         {
             var config = await GetTelegramConfigAsync();
@@ -69,7 +91,7 @@ public class NotificationService : INotificationService
             message.AppendLine($"✅ {executionType} Backup Completed");
             message.AppendLine();
             message.AppendLine($"📋 Plan: {backupPlan.name}");
-            message.AppendLine($"📁 Source: {backupPlan.source}");
+            message.AppendLine($"📁 {(backupPlan.sources.Count == 1 ? "Source" : "Sources")}: {BackupSources.Describe(backupPlan)}");
             message.AppendLine($"💾 Destination: {backupPlan.destination}");
             message.AppendLine();
             message.AppendLine("📊 Statistics:");
@@ -100,8 +122,15 @@ public class NotificationService : INotificationService
         }
     }
 
-    public async Task SendBackupFailedNotificationAsync(BackupPlan backupPlan, string error, bool isAutomatic, bool isSimulation)
+    public async Task SendBackupFailedNotificationAsync(BackupPlan backupPlan, string error, bool isAutomatic, bool isSimulation, Guid? executionId = null)
     {
+        await CreateNotificationAsync(
+            "BackupFailed",
+            $"{(isSimulation ? "Simulation" : "Backup")} failed: {backupPlan.name}",
+            error,
+            backupPlan.id,
+            executionId);
+
         try
         {
             var config = await GetTelegramConfigAsync();
@@ -115,7 +144,7 @@ public class NotificationService : INotificationService
             message.AppendLine($"❌ {executionType} Backup Failed");
             message.AppendLine();
             message.AppendLine($"📋 Plan: {backupPlan.name}");
-            message.AppendLine($"📁 Source: {backupPlan.source}");
+            message.AppendLine($"📁 {(backupPlan.sources.Count == 1 ? "Source" : "Sources")}: {BackupSources.Describe(backupPlan)}");
             message.AppendLine($"💾 Destination: {backupPlan.destination}");
             message.AppendLine($"🖥️ Host: {backupPlan.rsyncHost}");
             message.AppendLine();
@@ -130,6 +159,182 @@ public class NotificationService : INotificationService
         }
     }
 
+    /// <summary>
+    /// High priority: the run was blocked before deleting anything and waits for an operator.
+    /// </summary>
+    public async Task SendDeletionGuardNotificationAsync(BackupPlan backupPlan, string reason, bool isAutomatic, Guid executionId)
+    {
+        await CreateNotificationAsync(
+            "DeletionGuardTriggered",
+            $"Backup blocked by deletion guard: {backupPlan.name}",
+            $"{reason}. Review the planned changes and approve the run if they are expected.",
+            backupPlan.id,
+            executionId,
+            "High");
+
+        try
+        {
+            var config = await GetTelegramConfigAsync();
+            if (config == null || !config.notificationsEnabled || string.IsNullOrEmpty(config.notificationChatId))
+            {
+                return;
+            }
+
+            var executionType = isAutomatic ? "⏰ Automatic" : "▶️ Manual";
+            var message = new StringBuilder();
+            message.AppendLine($"🛑 {executionType} Backup Blocked by Deletion Guard");
+            message.AppendLine();
+            message.AppendLine($"📋 Plan: {backupPlan.name}");
+            message.AppendLine($"📁 {(backupPlan.sources.Count == 1 ? "Source" : "Sources")}: {BackupSources.Describe(backupPlan)}");
+            message.AppendLine($"💾 Destination: {backupPlan.destination}");
+            message.AppendLine();
+            message.AppendLine($"⚠️ {reason}");
+            message.AppendLine("Nothing was copied or deleted. Approve the run in the web interface if the deletions are expected.");
+            message.AppendLine($"🕐 Time: {DateTime.Now:yyyy-MM-dd HH:mm:ss}");
+
+            await _telegramService.SendMessageAsync(long.Parse(config.notificationChatId), message.ToString());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send deletion guard notification");
+        }
+    }
+
+    /// <summary>
+    /// High priority: backups of the agent's plans will fail until it is reachable again.
+    /// </summary>
+    public async Task SendAgentOfflineNotificationAsync(Agent agent, string error)
+    {
+        var lastSeen = agent.lastSeenAt.HasValue ? $"Last seen {agent.lastSeenAt.Value:yyyy-MM-dd HH:mm:ss} UTC." : "Never seen online.";
+        await CreateNotificationAsync(
+            "AgentOffline",
+            $"Agent offline: {agent.name}",
+            $"{agent.hostname} is not reachable over SSH: {error}. {lastSeen}",
+            priority: "High");
+
+        try
+        {
+            var config = await GetTelegramConfigAsync();
+            if (config == null || !config.notificationsEnabled || string.IsNullOrEmpty(config.notificationChatId))
+            {
+                return;
+            }
+
+            var message = new StringBuilder();
+            message.AppendLine("🔴 Agent Offline");
+            message.AppendLine();
+            message.AppendLine($"🖥️ Agent: {agent.name}");
+            message.AppendLine($"🌐 Host: {agent.hostname}:{agent.rsyncPort}");
+            message.AppendLine();
+            message.AppendLine($"⚠️ Error: {error}");
+            message.AppendLine($"👁️ {lastSeen}");
+            message.AppendLine($"🕐 Time: {DateTime.Now:yyyy-MM-dd HH:mm:ss}");
+
+            await _telegramService.SendMessageAsync(long.Parse(config.notificationChatId), message.ToString());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send agent offline notification");
+        }
+    }
+
+    public async Task SendAgentRecoveredNotificationAsync(Agent agent)
+    {
+        await CreateNotificationAsync(
+            "AgentOnline",
+            $"Agent back online: {agent.name}",
+            $"{agent.hostname} is reachable over SSH again.");
+
+        try
+        {
+            var config = await GetTelegramConfigAsync();
+            if (config == null || !config.notificationsEnabled || string.IsNullOrEmpty(config.notificationChatId))
+            {
+                return;
+            }
+
+            var message = new StringBuilder();
+            message.AppendLine("🟢 Agent Back Online");
+            message.AppendLine();
+            message.AppendLine($"🖥️ Agent: {agent.name}");
+            message.AppendLine($"🌐 Host: {agent.hostname}:{agent.rsyncPort}");
+            message.AppendLine($"🕐 Time: {DateTime.Now:yyyy-MM-dd HH:mm:ss}");
+
+            await _telegramService.SendMessageAsync(long.Parse(config.notificationChatId), message.ToString());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send agent recovered notification");
+        }
+    }
+
+    public async Task SendHostKeyChangedNotificationAsync(Agent agent, string pinnedFingerprint, string presentedFingerprint)
+    {
+        await CreateNotificationAsync(
+            "HostKeyChanged",
+            $"Host key changed: {agent.name}",
+            $"{agent.hostname} presented host key {presentedFingerprint} instead of the pinned {pinnedFingerprint}. " +
+            "Connections to the agent are refused until the new key is accepted on the agent page.",
+            priority: "High");
+
+        try
+        {
+            var config = await GetTelegramConfigAsync();
+            if (config == null || !config.notificationsEnabled || string.IsNullOrEmpty(config.notificationChatId))
+            {
+                return;
+            }
+
+            var message = new StringBuilder();
+            message.AppendLine("🚨 Host Key Changed");
+            message.AppendLine();
+            message.AppendLine($"🖥️ Agent: {agent.name}");
+            message.AppendLine($"🌐 Host: {agent.hostname}:{agent.rsyncPort}");
+            message.AppendLine();
+            message.AppendLine($"📌 Pinned: {pinnedFingerprint}");
+            message.AppendLine($"🔑 Presented: {presentedFingerprint}");
+            message.AppendLine();
+            message.AppendLine("⛔ Backups of this agent are refused until the new key is accepted.");
+            message.AppendLine($"🕐 Time: {DateTime.Now:yyyy-MM-dd HH:mm:ss}");
+
+            await _telegramService.SendMessageAsync(long.Parse(config.notificationChatId), message.ToString());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send host key changed notification");
+        }
+    }
+
+    public async Task CreateNotificationAsync(string type, string title, string message, Guid? backupPlanId = null, Guid? executionId = null, string priority = "Normal")
+    {
+        try
+        {
+            using var scope = _serviceScopeFactory.CreateScope();
+            var dbContext = scope.ServiceProvider.GetRequiredService<DBContext>();
+
+            var notification = new Notification
+            {
+                id = Guid.NewGuid(),
+                type = type,
+                title = title,
+                message = message,
+                priority = priority,
+                backupPlanId = backupPlanId,
+                executionId = executionId,
+                isRead = false,
+                createdAt = DateTime.UtcNow
+            };
+            dbContext.Notifications.Add(notification);
+            await dbContext.SaveChangesAsync();
+
+            await _executionEvents.PublishNotificationAsync(notification);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to create notification of type {Type}", type);
+        }
+    }
+
     private async Task<TelegramConfig?> GetTelegramConfigAsync()
     {
         using var scope = _serviceScopeFactory.CreateScope();
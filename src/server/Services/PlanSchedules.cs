@@ -0,0 +1,61 @@
+using NCrontab;
+
+namespace server.Services;
+
+/// <summary>
+/// Cron schedules of backup plans are evaluated in the plan's own IANA timezone, so
+/// "0 2 * * *" means 2 AM where the plan's owner is, across daylight saving changes.
+/// </summary>
+public static class PlanSchedules
+{
+    public const string DefaultTimezone = "UTC";
+
+    /// <summary>
+    /// Returns the trimmed timezone id, or UTC when none is given. Sets error when the id is
+    /// not known to the server.
+    /// </summary>
+    public static string NormalizeTimezone(string? timezone, out string? error)
+    {
+        error = null;
+        if (string.IsNullOrWhiteSpace(timezone))
+        {
+            return DefaultTimezone;
+        }
+
+        var trimmed = timezone.Trim();
+        if (!TimeZoneInfo.TryFindSystemTimeZoneById(trimmed, out _))
+        {
+            error = $"Unknown timezone: {trimmed}";
+        }
+
+        return trimmed;
+    }
+
+    /// <summary>
+    /// Converts a UTC instant to the wall clock time of the given timezone. Unknown ids fall
+    /// back to UTC so a plan saved before its timezone was removed from the system still runs.
+    /// </summary>
+    public static DateTime ToPlanTime(DateTime utcNow, string? timezone)
+    {
+        if (string.IsNullOrWhiteSpace(timezone) || !TimeZoneInfo.TryFindSystemTimeZoneById(timezone, out var timeZoneInfo))
+        {
+            return utcNow;
+        }
+
+        return TimeZoneInfo.ConvertTimeFromUtc(utcNow, timeZoneInfo);
+    }
+
+    /// <summary>
+    /// The occurrence of the schedule within the minute ending at utcNow, as a wall clock time of
+    /// the plan's timezone, or null when none is due. Wall clock times inside a spring-forward gap
+    /// do not exist that day, so an occurrence in the gap is skipped, not moved to after it. Times
+    /// inside a fall-back hour come twice, once in each offset: callers keep the occurrence they
+    /// last ran and must not run the same one again.
+    /// </summary>
+    public static DateTime? GetDueOccurrence(CrontabSchedule schedule, string? timezone, DateTime utcNow)
+    {
+        var planNow = ToPlanTime(utcNow, timezone);
+        var nextOccurrence = schedule.GetNextOccurrence(planNow.AddMinutes(-1));
+        return nextOccurrence <= planNow && (planNow - nextOccurrence).TotalMinutes < 1 ? nextOccurrence : null;
+    }
+}
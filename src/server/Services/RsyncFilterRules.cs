@@ -0,0 +1,82 @@
+using System.Text;
+
+namespace server.Services;
+
+/// <summary>
+/// Validation and command line building for the per-plan rsync filter rules.
+/// Rules are kept in rsync's own syntax, e.g. "- node_modules/", "+ *.keep" or "dir-merge .rsync-filter".
+/// </summary>
+public static class RsyncFilterRules
+{
+    public const int MaxRules = 200;
+
+    /// <summary>
+    /// Trims the rules and drops empty ones. Returns an error message when a rule cannot be
+    /// passed safely to rsync as a quoted --filter argument.
+    /// </summary>
+    public static List<string> Normalize(IEnumerable<string>? rules, out string? error)
+    {
+        error = null;
+        var normalized = new List<string>();
+
+        if (rules == null)
+        {
+            return normalized;
+        }
+
+        foreach (var rule in rules)
+        {
+            var trimmed = rule?.Trim();
+            if (string.IsNullOrEmpty(trimmed))
+            {
+                continue;
+            }
+
+            if (trimmed.Contains('"') || trimmed.Contains('\n') || trimmed.Contains('\r'))
+            {
+                error = $"Filter rule '{trimmed}' must not contain quotes or line breaks";
+                return normalized;
+            }
+
+            if (trimmed.EndsWith('\\'))
+            {
+                error = $"Filter rule '{trimmed}' must not end with a backslash";
+                return normalized;
+            }
+
+            normalized.Add(trimmed);
+        }
+
+        if (normalized.Count > MaxRules)
+        {
+            error = $"A backup plan can have at most {MaxRules} filter rules";
+        }
+
+        return normalized;
+    }
+
+    /// <summary>
+    /// Builds one --filter argument per rule, preserving the order (rsync uses the first match).
+    /// </summary>
+    public static string BuildArguments(IEnumerable<string>? rules)
+    {
+        var args = new StringBuilder();
+
+        if (rules == null)
+        {
+            return string.Empty;
+        }
+
+        foreach (var rule in rules)
+        {
+            if (string.IsNullOrWhiteSpace(rule))
+            {
+                continue;
+            }
+
+            args.Append($"--filter=\"{rule.Trim()}\" ");
+        }
+
+        return args.ToString();
+    }
+}
@@ -0,0 +1,88 @@
+using System.Text;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Validation and command line building for the per-plan rsync transfer options.
+/// </summary>
+public static class RsyncTransferOptions
+{
+    public static readonly string[] DeleteModes = { "none", "delete", "delete-after", "delete-delay" };
+
+    /// <summary>
+    /// Returns an error message when the options cannot be applied, otherwise null.
+    /// </summary>
+    public static string? Validate(RsyncOptionsRequest options)
+    {
+        if (!DeleteModes.Contains(options.DeleteMode))
+        {
+            return $"Delete mode must be one of: {string.Join(", ", DeleteModes)}";
+        }
+
+        if (options.BandwidthLimit.HasValue && options.BandwidthLimit.Value < 0)
+        {
+            return "Bandwidth limit must be a number of KiB/s, or 0 for unlimited";
+        }
+
+        return null;
+    }
+
+    public static void Apply(BackupPlan backupPlan, RsyncOptionsRequest options)
+    {
+        backupPlan.rsyncCompress = options.Compress;
+        backupPlan.rsyncChecksum = options.Checksum;
+        backupPlan.rsyncHardLinks = options.HardLinks;
+        backupPlan.rsyncAcls = options.Acls;
+        backupPlan.rsyncXattrs = options.Xattrs;
+        backupPlan.rsyncNumericIds = options.NumericIds;
+        backupPlan.rsyncSparse = options.Sparse;
+        backupPlan.rsyncPartial = options.Partial;
+        // 0 means unlimited for rsync as well, store it as no limit
+        backupPlan.rsyncBandwidthLimit = options.BandwidthLimit > 0 ? options.BandwidthLimit : null;
+        backupPlan.rsyncDeleteMode = options.DeleteMode;
+    }
+
+    /// <summary>
+    /// Builds the archive flags and transfer options of a plan, e.g. "-avzHAX --delete-after --bwlimit=5000 ".
+    /// Output related flags (--progress, --itemize-changes, --stats) are added by the caller.
+    /// Restores pass allowDelete: false so nothing on the agent is ever removed.
+    /// </summary>
+    public static string BuildArguments(BackupPlan backupPlan, bool allowDelete = true)
+    {
+        var args = new StringBuilder("-av");
+
+        if (backupPlan.rsyncCompress) args.Append('z');
+        if (backupPlan.rsyncHardLinks) args.Append('H');
+        if (backupPlan.rsyncAcls) args.Append('A');
+        if (backupPlan.rsyncXattrs) args.Append('X');
+        args.Append(' ');
+
+        switch (allowDelete ? backupPlan.rsyncDeleteMode : "none")
+        {
+            case "none":
+                break;
+            case "delete-after":
+                args.Append("--delete-after ");
+                break;
+            case "delete-delay":
+                args.Append("--delete-delay ");
+                break;
+            default:
+                args.Append("--delete ");
+                break;
+        }
+
+        if (backupPlan.rsyncChecksum) args.Append("--checksum ");
+        if (backupPlan.rsyncNumericIds) args.Append("--numeric-ids ");
+        if (backupPlan.rsyncSparse) args.Append("--sparse ");
+        if (backupPlan.rsyncPartial) args.Append("--partial ");
+
+        if (backupPlan.rsyncBandwidthLimit is > 0)
+        {
+            args.Append($"--bwlimit={backupPlan.rsyncBandwidthLimit.Value} ");
+        }
+
+        return args.ToString();
+    }
+}
@@ -0,0 +1,123 @@
+using System.Collections.Concurrent;
+using System.Diagnostics;
+
+namespace server.Services;
+
+/// <summary>
+/// Tracks the rsync processes of executions in progress so they can be stopped from the API.
+/// BackupPlanExecutor is scoped, so this registry lives as a singleton next to it.
+/// </summary>
+public class RunningExecutionService
+{
+    private readonly ConcurrentDictionary<Guid, RunningExecution> _executions = new();
+    private readonly ILogger<RunningExecutionService> _logger;
+
+    public RunningExecutionService(ILogger<RunningExecutionService> logger)
+    {
+        _logger = logger;
+    }
+
+    public void Register(Guid executionId, Guid backupPlanId, bool isSimulation)
+    {
+        _executions[executionId] = new RunningExecution
+        {
+            ExecutionId = executionId,
+            BackupPlanId = backupPlanId,
+            StartDateTime = DateTime.UtcNow,
+            IsSimulation = isSimulation
+        };
+    }
+
+    public void Unregister(Guid executionId)
+    {
+        _executions.TryRemove(executionId, out _);
+    }
+
+    /// <summary>
+    /// Attaches the rsync process of the current phase (dry-run or transfer).
+    /// If a stop was requested before the process started, it is killed right away.
+    /// </summary>
+    public void AttachProcess(Guid executionId, Process process)
+    {
+        if (!_executions.TryGetValue(executionId, out var execution))
+        {
+            return;
+        }
+
+        lock (execution)
+        {
+            execution.Process = process;
+            if (execution.StoppedBy != null)
+            {
+                KillProcess(execution);
+            }
+        }
+    }
+
+    public bool RequestStop(Guid executionId, string stoppedBy)
+    {
+        if (!_executions.TryGetValue(executionId, out var execution))
+        {
+            return false;
+        }
+
+        lock (execution)
+        {
+            if (execution.StoppedBy != null)
+            {
+                return true;
+            }
+
+            execution.StoppedBy = stoppedBy;
+            _logger.LogInformation("Execution {ExecutionId} stop requested by {StoppedBy}", executionId, stoppedBy);
+            KillProcess(execution);
+        }
+
+        return true;
+    }
+
+    public string? GetStoppedBy(Guid executionId)
+    {
+        return _executions.TryGetValue(executionId, out var execution) ? execution.StoppedBy : null;
+    }
+
+    public List<RunningExecution> GetRunningExecutions(Guid? backupPlanId = null)
+    {
+        return _executions.Values
+            .Where(e => !backupPlanId.HasValue || e.BackupPlanId == backupPlanId.Value)
+            .OrderBy(e => e.StartDateTime)
+            .ToList();
+    }
+
+    private void KillProcess(RunningExecution execution)
+    {
+        try
+        {
+            if (execution.Process != null && !execution.Process.HasExited)
+            {
+                // Kill the whole tree so the ssh transport spawned by rsync goes away too
+                execution.Process.Kill(entireProcessTree: true);
+            }
+        }
+        catch (InvalidOperationException)
+        {
+            // Process already exited or was never started
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to kill rsync process for execution {ExecutionId}", execution.ExecutionId);
+        }
+    }
+}
+
+public class RunningExecution
+{
+    public Guid ExecutionId { get; set; }
+    public Guid BackupPlanId { get; set; }
+    public DateTime StartDateTime { get; set; }
+    public bool IsSimulation { get; set; }
+    public string? StoppedBy { get; set; }
+
+    [System.Text.Json.Serialization.JsonIgnore]
+    public Process? Process { get; set; }
+}
@@ -0,0 +1,104 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace server.Services;
+
+/// <summary>
+/// Encrypts secrets stored in the database (SSH private keys and their passphrases) with AES-GCM
+/// under the master key from configuration. Encrypted values look like "enc:v1:" followed by
+/// base64(nonce | tag | ciphertext); values without that prefix were stored before encryption and
+/// are returned as they are until they are encrypted on the next start.
+/// </summary>
+public static class SecretEncryption
+{
+    // Configuration key of the master key, base64 of 32 random bytes (e.g. openssl rand -base64 32)
+    public const string MasterKeySetting = "Encryption:MasterKey";
+
+    // Associated data of the values in the database, values encrypted for another purpose do not decrypt as one
+    public const string StoragePurpose = "storage";
+
+    public const string EncryptedPrefix = "enc:v1:";
+    private const int KeySize = 32;
+    private const int NonceSize = 12;
+    private const int TagSize = 16;
+
+    private static byte[]? _masterKey;
+
+    public static void Initialize(string masterKey)
+    {
+        byte[] key;
+        try
+        {
+            key = Convert.FromBase64String(masterKey.Trim());
+        }
+        catch (FormatException)
+        {
+            throw new InvalidOperationException($"{MasterKeySetting} is not valid base64");
+        }
+
+        if (key.Length != KeySize)
+        {
+            throw new InvalidOperationException($"{MasterKeySetting} must be {KeySize} bytes, e.g. the output of: openssl rand -base64 {KeySize}");
+        }
+
+        _masterKey = key;
+    }
+
+    public static string GenerateMasterKey() => Convert.ToBase64String(RandomNumberGenerator.GetBytes(KeySize));
+
+    public static bool IsEncrypted(string? value) => value != null && value.StartsWith(EncryptedPrefix, StringComparison.Ordinal);
+
+    public static string Encrypt(string plaintext, string purpose = StoragePurpose)
+    {
+        var nonce = RandomNumberGenerator.GetBytes(NonceSize);
+        var plainBytes = Encoding.UTF8.GetBytes(plaintext);
+        var cipherBytes = new byte[plainBytes.Length];
+        var tag = new byte[TagSize];
+
+        using (var aes = new AesGcm(GetMasterKey(), TagSize))
+        {
+            aes.Encrypt(nonce, plainBytes, cipherBytes, tag, Encoding.UTF8.GetBytes(purpose));
+        }
+
+        return EncryptedPrefix + Convert.ToBase64String(nonce.Concat(tag).Concat(cipherBytes).ToArray());
+    }
+
+    public static string Decrypt(string value, string purpose = StoragePurpose)
+    {
+        if (!IsEncrypted(value))
+        {
+            return value;
+        }
+
+        try
+        {
+            var data = Convert.FromBase64String(value.Substring(EncryptedPrefix.Length));
+            if (data.Length < NonceSize + TagSize)
+            {
+                throw new InvalidOperationException("Encrypted value is truncated");
+            }
+
+            var cipherBytes = data.AsSpan(NonceSize + TagSize);
+            var plainBytes = new byte[cipherBytes.Length];
+
+            using var aes = new AesGcm(GetMasterKey(), TagSize);
+            aes.Decrypt(data.AsSpan(0, NonceSize), cipherBytes, data.AsSpan(NonceSize, TagSize), plainBytes, Encoding.UTF8.GetBytes(purpose));
+
+            return Encoding.UTF8.GetString(plainBytes);
+        }
+        catch (Exception ex) when (ex is CryptographicException or FormatException)
+        {
+            throw new InvalidOperationException("A stored secret could not be decrypted. Was the master key changed?", ex);
+        }
+    }
+
+    public static string? DecryptOrNull(string? value)
+    {
+        return string.IsNullOrWhiteSpace(value) ? null : Decrypt(value);
+    }
+
+    private static byte[] GetMasterKey()
+    {
+        return _masterKey ?? throw new InvalidOperationException("The master key for stored secrets is not initialized");
+    }
+}
@@ -0,0 +1,61 @@
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Pre- and post-execution hooks: shell commands run on the agent over ssh, with the same user,
+/// port and key as rsync, to bring the source into a consistent state (pg_dump, stopping a
+/// container, taking an LVM snapshot) and to clean up afterwards.
+/// </summary>
+public static class SshHooks
+{
+    public const int MaxTimeoutSeconds = 24 * 60 * 60;
+
+    // Output beyond this many lines is not logged, so a hook writing a dump to stdout cannot flood the log
+    public const int MaxLoggedOutputLines = 500;
+
+    /// <summary>
+    /// Returns an error message when the hooks cannot be applied, otherwise null.
+    /// </summary>
+    public static string? Validate(HooksRequest hooks)
+    {
+        if (hooks.PreTimeoutSeconds < 1 || hooks.PreTimeoutSeconds > MaxTimeoutSeconds ||
+            hooks.PostTimeoutSeconds < 1 || hooks.PostTimeoutSeconds > MaxTimeoutSeconds)
+        {
+            return $"Hook timeouts must be between 1 and {MaxTimeoutSeconds} seconds";
+        }
+
+        return null;
+    }
+
+    public static void Apply(BackupPlan backupPlan, HooksRequest hooks)
+    {
+        // An empty command disables the hook
+        backupPlan.preHookCommand = string.IsNullOrWhiteSpace(hooks.PreCommand) ? null : hooks.PreCommand.Trim();
+        backupPlan.preHookTimeoutSeconds = hooks.PreTimeoutSeconds;
+        backupPlan.preHookAbortOnFailure = hooks.PreAbortOnFailure;
+        backupPlan.postHookCommand = string.IsNullOrWhiteSpace(hooks.PostCommand) ? null : hooks.PostCommand.Trim();
+        backupPlan.postHookTimeoutSeconds = hooks.PostTimeoutSeconds;
+        backupPlan.postHookAbortOnFailure = hooks.PostAbortOnFailure;
+    }
+
+    /// <summary>
+    /// Arguments of the ssh process running command on the agent. They are passed through
+    /// ProcessStartInfo.ArgumentList, the command itself is interpreted by the agent's login shell.
+    /// </summary>
+    public static List<string> BuildSshArguments(Agent agent, string sshKeyPath, string command)
+    {
+        var arguments = new List<string> { "-i", sshKeyPath, "-p", agent.rsyncPort.ToString() };
+        arguments.AddRange(HostKeys.BuildSshOptions(agent, sshKeyPath));
+        arguments.AddRange(JumpHosts.BuildSshOptions(agent, sshKeyPath));
+        arguments.AddRange(new[]
+        {
+            // Never wait for a password prompt, a hook must fail instead of hanging until its timeout
+            "-o", "BatchMode=yes",
+            $"{agent.rsyncUser}@{agent.hostname}",
+            command
+        });
+
+        return arguments;
+    }
+}
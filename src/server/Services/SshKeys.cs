@@ -0,0 +1,324 @@
+using System.Diagnostics;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.RegularExpressions;
+using Microsoft.EntityFrameworkCore;
+using server.Data;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Generates ed25519 key pairs with ssh-keygen and builds the shell commands that add or remove a
+/// public key in ~/.ssh/authorized_keys on an agent. Private keys and their passphrases are stored
+/// encrypted with the master key and only decrypted to write the temporary key file of a connection.
+/// </summary>
+public static class SshKeys
+{
+    // AppSettings key of the key pair agents can share instead of having their own
+    public const string SharedKeySetting = "SharedSshPrivateKey";
+
+    // Purpose of the encrypted generated keys the browser holds until the agent is created
+    private const string GeneratedKeyPurpose = "generated-ssh-key";
+
+    private static readonly TimeSpan KeygenTimeout = TimeSpan.FromSeconds(30);
+
+    private static readonly Regex PublicKeyPattern = new(@"^(?<type>ssh-ed25519|ssh-rsa|ecdsa-sha2-nistp\d+|sk-\S+)\s+(?<blob>[A-Za-z0-9+/]+={0,2})(\s+(?<comment>.*))?$");
+
+    public static async Task<SshKeyPair> GenerateAsync(string comment)
+    {
+        var tempDir = Path.Combine(Path.GetTempPath(), "remember_ssh_keys");
+        Directory.CreateDirectory(tempDir);
+        var keyPath = Path.Combine(tempDir, $"generated_{Guid.NewGuid()}");
+
+        try
+        {
+            var (exitCode, _, error) = await RunKeygenAsync("-q", "-t", "ed25519", "-N", "", "-C", comment, "-f", keyPath);
+            if (exitCode != 0)
+            {
+                throw new InvalidOperationException($"ssh-keygen failed: {error.Trim()}");
+            }
+
+            return new SshKeyPair
+            {
+                PrivateKey = await File.ReadAllTextAsync(keyPath),
+                PublicKey = (await File.ReadAllTextAsync($"{keyPath}.pub")).Trim()
+            };
+        }
+        finally
+        {
+            TempFiles.Delete(keyPath);
+            TempFiles.Delete($"{keyPath}.pub");
+        }
+    }
+
+    /// <summary>
+    /// Derives the public key from a private key, for keys that were pasted instead of generated.
+    /// </summary>
+    public static async Task<string> GetPublicKeyAsync(string privateKey, string? passphrase = null)
+    {
+        var keyPath = await AgentSsh.WriteTempKeyFileAsync(privateKey, passphrase);
+        try
+        {
+            // An empty passphrase makes ssh-keygen fail on protected keys instead of prompting
+            var (exitCode, output, error) = await RunKeygenAsync("-y", "-P", "", "-f", keyPath);
+            if (exitCode != 0)
+            {
+                throw new InvalidOperationException(error.Contains("incorrect passphrase")
+                    ? "The private key is protected with a passphrase, enter it together with the key"
+                    : $"Could not read the private key: {error.Trim()}");
+            }
+
+            return output.Trim();
+        }
+        finally
+        {
+            TempFiles.Delete(keyPath);
+        }
+    }
+
+    /// <summary>
+    /// Removes the passphrase from a temporary copy of a key, so ssh and rsync can use it without
+    /// prompting. The passphrase reaches ssh-keygen through SSH_ASKPASS, never on the command line.
+    /// </summary>
+    public static async Task RemovePassphraseAsync(string keyPath, string passphrase)
+    {
+        var askPassPath = await AgentSsh.WriteAskPassScriptAsync();
+        try
+        {
+            var (exitCode, _, error) = await RunKeygenProcessAsync(
+                new[] { "-p", "-N", "", "-f", keyPath },
+                AgentSsh.BuildAskPassEnvironment(askPassPath, passphrase));
+            if (exitCode != 0)
+            {
+                throw new InvalidOperationException(error.Contains("incorrect passphrase")
+                    ? "The passphrase of the private key is wrong"
+                    : $"Could not unlock the private key: {error.Trim()}");
+            }
+        }
+        finally
+        {
+            TempFiles.Delete(askPassPath);
+        }
+    }
+
+    /// <summary>
+    /// Stores a private key on the agent, encrypted with the master key. Deriving the public key first
+    /// rejects keys that cannot be read and wrong passphrases before anything is saved.
+    /// </summary>
+    public static async Task<string> StoreAsync(Agent agent, string privateKey, string? passphrase)
+    {
+        var normalizedKey = privateKey.Trim();
+        var normalizedPassphrase = string.IsNullOrEmpty(passphrase) ? null : passphrase;
+        var publicKey = await GetPublicKeyAsync(normalizedKey, normalizedPassphrase);
+
+        agent.rsyncSshKey = SecretEncryption.Encrypt(normalizedKey);
+        agent.rsyncSshKeyPassphrase = normalizedPassphrase != null ? SecretEncryption.Encrypt(normalizedPassphrase) : null;
+        agent.sshKeyFingerprint = GetFingerprint(publicKey);
+
+        return publicKey;
+    }
+
+    public static string? GetPrivateKey(Agent agent) => SecretEncryption.DecryptOrNull(agent.rsyncSshKey);
+
+    public static string? GetPassphrase(Agent agent) => SecretEncryption.DecryptOrNull(agent.rsyncSshKeyPassphrase);
+
+    /// <summary>
+    /// A generated private key as the browser gets it: encrypted for this purpose only, so the form can
+    /// hand it back on creation without ever seeing the key.
+    /// </summary>
+    public static string ProtectGeneratedKey(string privateKey) => SecretEncryption.Encrypt(privateKey, GeneratedKeyPurpose);
+
+    public static string ReadGeneratedKey(string keyToken)
+    {
+        if (!SecretEncryption.IsEncrypted(keyToken))
+        {
+            throw new ArgumentException("Invalid key token");
+        }
+
+        return SecretEncryption.Decrypt(keyToken, GeneratedKeyPurpose);
+    }
+
+    /// <summary>
+    /// Encrypts keys that were stored in plain text before keys were encrypted at rest, and records the
+    /// fingerprint of agent keys. Returns the number of encrypted keys.
+    /// </summary>
+    public static async Task<int> EncryptStoredKeysAsync(DBContext context)
+    {
+        var count = 0;
+
+        var agents = await context.Agents
+            .Where(a => a.rsyncSshKey != null && a.rsyncSshKey != "" && !a.rsyncSshKey.StartsWith(SecretEncryption.EncryptedPrefix))
+            .ToListAsync();
+        foreach (var agent in agents)
+        {
+            var privateKey = agent.rsyncSshKey!.Trim();
+            try
+            {
+                agent.sshKeyFingerprint = GetFingerprint(await GetPublicKeyAsync(privateKey));
+            }
+            catch (Exception)
+            {
+                // Keys that never worked still get encrypted, the fingerprint stays unknown
+                agent.sshKeyFingerprint = null;
+            }
+
+            agent.rsyncSshKey = SecretEncryption.Encrypt(privateKey);
+            count++;
+        }
+
+        var plans = await context.BackupPlans
+            .Where(p => p.rsyncSshKey != null && p.rsyncSshKey != "" && !p.rsyncSshKey.StartsWith(SecretEncryption.EncryptedPrefix))
+            .ToListAsync();
+        foreach (var plan in plans)
+        {
+            plan.rsyncSshKey = SecretEncryption.Encrypt(plan.rsyncSshKey!.Trim());
+            count++;
+        }
+
+        var sharedKey = await context.AppSettings.FirstOrDefaultAsync(s => s.key == SharedKeySetting);
+        if (sharedKey != null && !SecretEncryption.IsEncrypted(sharedKey.value))
+        {
+            sharedKey.value = SecretEncryption.Encrypt(sharedKey.value);
+            sharedKey.updated_at = DateTime.UtcNow;
+            count++;
+        }
+
+        await context.SaveChangesAsync();
+        return count;
+    }
+
+    /// <summary>
+    /// SHA256 fingerprint in the format of ssh-keygen -l, e.g. SHA256:47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU.
+    /// </summary>
+    public static string GetFingerprint(string publicKey)
+    {
+        var blob = Convert.FromBase64String(ParseBlob(publicKey));
+        return $"SHA256:{Convert.ToBase64String(SHA256.HashData(blob)).TrimEnd('=')}";
+    }
+
+    /// <summary>
+    /// Appends the key to authorized_keys unless it is already there, like ssh-copy-id.
+    /// </summary>
+    public static string BuildInstallCommand(string publicKey)
+    {
+        var line = ShellQuote(NormalizePublicKey(publicKey));
+        var blob = ShellQuote(ParseBlob(publicKey));
+
+        return "umask 077; mkdir -p ~/.ssh && touch ~/.ssh/authorized_keys && " +
+               // A last line without newline would be joined with the new key
+               "{ [ ! -s ~/.ssh/authorized_keys ] || [ -z \"$(tail -c 1 ~/.ssh/authorized_keys)\" ] || echo >> ~/.ssh/authorized_keys; } && " +
+               $"{{ grep -qF {blob} ~/.ssh/authorized_keys || printf '%s\\n' {line} >> ~/.ssh/authorized_keys; }}";
+    }
+
+    /// <summary>
+    /// Removes every line with the key from authorized_keys. The file is rewritten in place so its
+    /// permissions stay, and left alone when grep fails for another reason than "no lines left".
+    /// </summary>
+    public static string BuildRemoveCommand(string publicKey)
+    {
+        var blob = ShellQuote(ParseBlob(publicKey));
+
+        return "[ -f ~/.ssh/authorized_keys ] || exit 0; " +
+               $"grep -vF {blob} ~/.ssh/authorized_keys > ~/.ssh/authorized_keys.remember; " +
+               "[ $? -le 1 ] && cat ~/.ssh/authorized_keys.remember > ~/.ssh/authorized_keys; " +
+               "status=$?; rm -f ~/.ssh/authorized_keys.remember; exit $status";
+    }
+
+    public static string BuildComment(string hostname)
+    {
+        var host = Regex.Replace(hostname.Trim(), @"[^A-Za-z0-9._-]", "_");
+        return $"remember@{host}-{DateTime.UtcNow:yyyyMMdd}";
+    }
+
+    /// <summary>
+    /// The key as one "type base64 comment" line, throws ArgumentException when it is not a public key.
+    /// </summary>
+    public static string NormalizePublicKey(string publicKey)
+    {
+        var match = PublicKeyPattern.Match(publicKey.Trim());
+        if (!match.Success)
+        {
+            throw new ArgumentException("Not a valid SSH public key");
+        }
+
+        var comment = match.Groups["comment"].Value.Trim();
+        return string.IsNullOrEmpty(comment)
+            ? $"{match.Groups["type"].Value} {match.Groups["blob"].Value}"
+            : $"{match.Groups["type"].Value} {match.Groups["blob"].Value} {comment}";
+    }
+
+    private static string ParseBlob(string publicKey)
+    {
+        var match = PublicKeyPattern.Match(publicKey.Trim());
+        if (!match.Success)
+        {
+            throw new ArgumentException("Not a valid SSH public key");
+        }
+
+        return match.Groups["blob"].Value;
+    }
+
+    /// <summary>
+    /// Quotes a value as a single word of a POSIX shell command.
+    /// </summary>
+    public static string ShellQuote(string value)
+    {
+        return $"'{value.Replace("'", "'\\''")}'";
+    }
+
+    private static Task<(int ExitCode, string Output, string Error)> RunKeygenAsync(params string[] arguments)
+    {
+        return RunKeygenProcessAsync(arguments, new Dictionary<string, string>());
+    }
+
+    private static async Task<(int ExitCode, string Output, string Error)> RunKeygenProcessAsync(string[] arguments, Dictionary<string, string> environment)
+    {
+        var processStartInfo = new ProcessStartInfo
+        {
+            FileName = "ssh-keygen",
+            RedirectStandardInput = true,
+            RedirectStandardOutput = true,
+            RedirectStandardError = true,
+            UseShellExecute = false,
+            CreateNoWindow = true
+        };
+        foreach (var argument in arguments)
+        {
+            processStartInfo.ArgumentList.Add(argument);
+        }
+        foreach (var (name, value) in environment)
+        {
+            processStartInfo.Environment[name] = value;
+        }
+
+        using var process = Process.Start(processStartInfo);
+        if (process == null)
+        {
+            throw new InvalidOperationException("Failed to start ssh-keygen");
+        }
+
+        process.StandardInput.Close();
+        var outputTask = process.StandardOutput.ReadToEndAsync();
+        var errorTask = process.StandardError.ReadToEndAsync();
+
+        using var timeoutSource = new CancellationTokenSource(KeygenTimeout);
+        try
+        {
+            await process.WaitForExitAsync(timeoutSource.Token);
+        }
+        catch (OperationCanceledException)
+        {
+            process.Kill(entireProcessTree: true);
+            throw new InvalidOperationException("ssh-keygen did not finish in time");
+        }
+
+        return (process.ExitCode, await outputTask, await errorTask);
+    }
+}
+
+public class SshKeyPair
+{
+    public string PrivateKey { get; set; } = string.Empty;
+    public string PublicKey { get; set; } = string.Empty;
+}
@@ -0,0 +1,30 @@
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace server.Services;
+
+/// <summary>
+/// Deletes the temporary files of ssh connections: decrypted private keys, askpass scripts,
+/// known_hosts and jump host files. Nothing removes them from the temporary directory while the
+/// server runs, so a delete that fails is logged instead of being swallowed.
+/// </summary>
+public static class TempFiles
+{
+    private static ILogger _logger = NullLogger.Instance;
+
+    public static void Initialize(ILogger logger)
+    {
+        _logger = logger;
+    }
+
+    public static void Delete(string path)
+    {
+        try
+        {
+            File.Delete(path);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to delete temporary file {Path}, remove it manually", path);
+        }
+    }
+}
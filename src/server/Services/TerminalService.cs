@@ -1,255 +1,442 @@
+using System.Collections.Concurrent;
 using System.Diagnostics;
 using System.Text;
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.SignalR;
-using System.Collections;
+using server.Data;
+using server.Models;
 
 namespace server.Services;
 
+/// <summary>
+/// Interactive SSH sessions of the web console, one per SignalR connection. ssh runs with -tt so the
+/// agent allocates a PTY although the server has no terminal of its own. ssh only forwards size changes
+/// of a local terminal, so the remote PTY is resized with stty through a second ssh that reuses the
+/// connection of the session (ControlMaster).
+/// </summary>
 public class TerminalService
 {
-    private readonly Dictionary<string, Process> _processes = new();
-    private readonly Dictionary<string, IClientProxy> _clientProxies = new();
+    // Opening a session costs an ssh process and a connection to the agent
+    private const int MaxSessions = 20;
+
+    private const int MaxCols = 500;
+    private const int MaxRows = 200;
+
+    // The remote command prints the path of its PTY in this private OSC sequence before starting the
+    // shell, resizing needs it. The sequence is removed from the output
+    private const string TtyMarkerStart = "\u001b]7770;";
+    private const char TtyMarkerEnd = '\u0007';
+    private const int MaxMarkerSearchLength = 4096;
+    private static readonly Regex TtyPathPattern = new(@"^/dev/pts/\d+$");
+
+    private static readonly TimeSpan ResizeTimeout = TimeSpan.FromSeconds(10);
+
+    private readonly ConcurrentDictionary<string, ConsoleSession> _sessions = new();
+    private readonly IServiceScopeFactory _serviceScopeFactory;
     private readonly ILogger<TerminalService> _logger;
 
-    public TerminalService(ILogger<TerminalService> logger)
+    public TerminalService(IServiceScopeFactory serviceScopeFactory, ILogger<TerminalService> logger)
     {
+        _serviceScopeFactory = serviceScopeFactory;
         _logger = logger;
     }
 
-    public async Task StartTerminalAsync(string connectionId, IClientProxy? clientProxy)
+    private class ConsoleSession
     {
-        if (clientProxy == null)
+        public required Guid AuditId { get; init; }
+        public required Agent Agent { get; init; }
+        public required Process Process { get; init; }
+        public required IClientProxy Client { get; init; }
+        public required string KeyPath { get; init; }
+        public required AsciicastRecorder Recorder { get; init; }
+        public string? TtyPath { get; set; }
+        public bool MarkerSearchDone { get; set; }
+        public StringBuilder PendingOutput { get; } = new();
+        public int Cols { get; set; }
+        public int Rows { get; set; }
+        public SemaphoreSlim ResizeLock { get; } = new(1, 1);
+        public bool ClosedByClient { get; set; }
+        public string? LastError { get; set; } // Last line ssh itself printed, the reason when it fails
+    }
+
+    /// <summary>
+    /// Opens a shell on the agent for the connection. The jump route of the agent must be loaded.
+    /// </summary>
+    public async Task StartSessionAsync(string connectionId, IClientProxy clientProxy, Agent agent, string userName, string? clientAddress, int cols, int rows)
+    {
+        if (_sessions.ContainsKey(connectionId))
         {
-            _logger.LogError("Client proxy is null for connection {ConnectionId}", connectionId);
-            throw new ArgumentNullException(nameof(clientProxy));
+            throw new InvalidOperationException("A console session is already open on this connection");
         }
-
-        if (_processes.ContainsKey(connectionId))
+        if (_sessions.Count >= MaxSessions)
         {
-            _logger.LogWarning("Terminal already exists for connection {ConnectionId}", connectionId);
-            return;
+            throw new InvalidOperationException($"At most {MaxSessions} console sessions can be open at the same time");
         }
 
+        var privateKey = SshKeys.GetPrivateKey(agent)
+                         ?? throw new InvalidOperationException("Agent does not have an SSH key configured");
+        cols = Math.Clamp(cols, 1, MaxCols);
+        rows = Math.Clamp(rows, 1, MaxRows);
+
+        var audit = new TerminalSession
+        {
+            agentId = agent.id,
+            agentName = agent.name,
+            hostname = agent.hostname,
+            userName = userName,
+            clientAddress = clientAddress
+        };
+
+        var keyPath = await AgentSsh.WriteTempKeyFileAsync(privateKey, SshKeys.GetPassphrase(agent));
+        Process? process = null;
+        AsciicastRecorder? recorder = null;
         try
         {
+            // No session without its recording
+            recorder = await AsciicastRecorder.CreateAsync(audit.id, cols, rows, $"{userName} on {agent.name} ({agent.hostname})");
+
+            await HostKeys.WriteKnownHostsFileAsync(agent, keyPath);
+            await JumpHosts.WriteFilesAsync(agent, keyPath);
+
             var processStartInfo = new ProcessStartInfo
             {
-                FileName = "/bin/bash",
-                Arguments = "-i -l", // Interactive login shell to load profile
-                UseShellExecute = false,
+                FileName = "ssh",
                 RedirectStandardInput = true,
                 RedirectStandardOutput = true,
                 RedirectStandardError = true,
+                UseShellExecute = false,
                 CreateNoWindow = true,
-                StandardInputEncoding = Encoding.UTF8,
-                StandardOutputEncoding = Encoding.UTF8,
-                StandardErrorEncoding = Encoding.UTF8
+                StandardInputEncoding = new UTF8Encoding(false)
             };
-
-            // Inherit environment variables from the current process
-            // This ensures PATH and other important variables are available
-            foreach (var envVar in Environment.GetEnvironmentVariables().Keys)
+            foreach (var argument in BuildArguments(agent, keyPath, cols, rows))
             {
-                var key = envVar.ToString();
-                if (key != null && !processStartInfo.Environment.ContainsKey(key))
-                {
-                    var value = Environment.GetEnvironmentVariable(key);
-                    if (value != null)
-                    {
-                        processStartInfo.Environment[key] = value;
-                    }
-                }
+                processStartInfo.ArgumentList.Add(argument);
             }
-
-            // Set environment variables for proper terminal behavior
+            // ssh passes TERM on to the remote PTY
             processStartInfo.Environment["TERM"] = "xterm-256color";
-            processStartInfo.Environment["COLUMNS"] = "80";
-            processStartInfo.Environment["LINES"] = "24";
-            
-            // Ensure PATH is set (fallback if not inherited)
-            if (!processStartInfo.Environment.ContainsKey("PATH") || string.IsNullOrEmpty(processStartInfo.Environment["PATH"]))
-            {
-                processStartInfo.Environment["PATH"] = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
-            }
-            
-            // Clear any existing environment variables that might interfere
-            processStartInfo.Environment.Remove("PS1");
-
-            var process = new Process
-            {
-                StartInfo = processStartInfo,
-                EnableRaisingEvents = true
-            };
 
-            var outputBuilder = new StringBuilder();
-            var errorBuilder = new StringBuilder();
+            process = Process.Start(processStartInfo) ?? throw new InvalidOperationException("Failed to start SSH process");
 
-            process.OutputDataReceived += (sender, e) =>
+            using (var scope = _serviceScopeFactory.CreateScope())
             {
-                // OutputDataReceived can send null for empty lines
-                if (e.Data != null)
-                {
-                    outputBuilder.Append(e.Data);
-                    outputBuilder.Append("\n");
-                    // Send with \r\n for proper terminal line breaks
-                    // Fire and forget - don't await in event handler
-                    _ = SendOutputAsync(connectionId, e.Data + "\r\n");
-                }
-                else
-                {
-                    // Empty line - send just the line break
-                    _ = SendOutputAsync(connectionId, "\r\n");
-                }
-            };
+                var logContext = scope.ServiceProvider.GetRequiredService<LogDbContext>();
+                logContext.TerminalSessions.Add(audit);
+                await logContext.SaveChangesAsync();
+            }
 
-            process.ErrorDataReceived += (sender, e) =>
+            var session = new ConsoleSession
             {
-                // ErrorDataReceived can send null for empty lines
-                if (e.Data != null)
-                {
-                    errorBuilder.Append(e.Data);
-                    // Send with \r\n for proper terminal line breaks
-                    // Fire and forget - don't await in event handler
-                    _ = SendOutputAsync(connectionId, e.Data + "\r\n");
-                }
-                else
-                {
-                    // Empty line - send just the line break
-                    _ = SendOutputAsync(connectionId, "\r\n");
-                }
+                AuditId = audit.id,
+                Agent = agent,
+                Process = process,
+                Client = clientProxy,
+                KeyPath = keyPath,
+                Recorder = recorder,
+                Cols = cols,
+                Rows = rows
             };
-
-            process.Exited += (sender, e) =>
+            if (!_sessions.TryAdd(connectionId, session))
             {
-                _logger.LogInformation("Terminal process exited for connection {ConnectionId}", connectionId);
-                Cleanup(connectionId);
-            };
-
-            process.Start();
-            process.BeginOutputReadLine();
-            process.BeginErrorReadLine();
-
-            _processes[connectionId] = process;
-            _clientProxies[connectionId] = clientProxy;
+                throw new InvalidOperationException("A console session is already open on this connection");
+            }
 
-            _logger.LogInformation("Terminal started for connection {ConnectionId}", connectionId);
+            _logger.LogInformation("Console session {SessionId} to agent {AgentId} opened by {UserName}", audit.id, agent.id, userName);
 
-            // Configure bash to echo input properly
-            // Send stty command to enable echo (redirect output to avoid "Display all possibilities" prompt)
-            await Task.Delay(100);
-            await process.StandardInput.WriteLineAsync("stty echo 2>/dev/null");
-            await process.StandardInput.FlushAsync();
-            
-            // Send initial prompt
-            await Task.Delay(50);
-            await SendOutputAsync(connectionId, "$ ");
+            var outputTask = PumpAsync(session, process.StandardOutput.BaseStream, isTerminal: true);
+            var errorTask = PumpAsync(session, process.StandardError.BaseStream, isTerminal: false);
+            _ = WaitForExitAsync(connectionId, session, outputTask, errorTask);
         }
-        catch (Exception ex)
+        catch
         {
-            _logger.LogError(ex, "Failed to start terminal for connection {ConnectionId}", connectionId);
+            if (process != null)
+            {
+                KillProcess(process);
+                process.Dispose();
+            }
+            DeleteFiles(agent, keyPath);
+            if (recorder != null)
+            {
+                await recorder.DisposeAsync();
+                TempFiles.Delete(AsciicastRecorder.GetPath(audit.id));
+            }
             throw;
         }
     }
 
     public async Task SendInputAsync(string connectionId, string input)
     {
-        if (!_processes.TryGetValue(connectionId, out var process))
+        if (!_sessions.TryGetValue(connectionId, out var session) || session.Process.HasExited)
         {
-            _logger.LogWarning("No terminal found for connection {ConnectionId}", connectionId);
             return;
         }
 
+        await session.Process.StandardInput.WriteAsync(input);
+        await session.Process.StandardInput.FlushAsync();
+    }
+
+    public async Task ResizeAsync(string connectionId, int cols, int rows)
+    {
+        if (!_sessions.TryGetValue(connectionId, out var session) || session.TtyPath == null)
+        {
+            return;
+        }
+
+        cols = Math.Clamp(cols, 1, MaxCols);
+        rows = Math.Clamp(rows, 1, MaxRows);
+
+        await session.ResizeLock.WaitAsync();
         try
         {
-            if (process.HasExited)
+            if (session.Cols == cols && session.Rows == rows)
             {
-                _logger.LogWarning("Terminal process has exited for connection {ConnectionId}", connectionId);
-                Cleanup(connectionId);
                 return;
             }
 
-            // Write input directly to stdin
-            // For password prompts (like sudo), characters won't be echoed back
-            // but they will still be sent to the process
-            // Note: Some programs like sudo read from /dev/tty directly, which won't work
-            // with redirected stdin. For those cases, you may need to use a PTY library.
-            await process.StandardInput.WriteAsync(input);
-            await process.StandardInput.FlushAsync();
+            // Setting the size of the PTY sends SIGWINCH to the programs running in it. GNU stty takes -F, BSD stty -f
+            var size = $"rows {rows} cols {cols}";
+            var command = $"stty -F {session.TtyPath} {size} 2>/dev/null || stty -f {session.TtyPath} {size}";
+            var result = await AgentSsh.RunProcessAsync(BuildControlArguments(session, command), new Dictionary<string, string>(), ResizeTimeout);
+            if (result.Success)
+            {
+                session.Cols = cols;
+                session.Rows = rows;
+                await session.Recorder.WriteResizeAsync(cols, rows);
+            }
+            else
+            {
+                _logger.LogWarning("Failed to resize console session {SessionId}: {Error}", session.AuditId, result.ErrorSummary);
+            }
         }
-        catch (Exception ex)
+        finally
         {
-            _logger.LogError(ex, "Error sending input to terminal for connection {ConnectionId}", connectionId);
-            throw;
+            session.ResizeLock.Release();
         }
     }
 
-    public async Task ResizeTerminalAsync(string connectionId, int cols, int rows)
+    /// <summary>
+    /// Ends the session of the connection, when its tab is closed or the browser disconnects.
+    /// </summary>
+    public Task CloseSessionAsync(string connectionId)
     {
-        if (!_processes.TryGetValue(connectionId, out var process))
+        if (_sessions.TryGetValue(connectionId, out var session))
         {
-            return;
+            session.ClosedByClient = true;
+            KillProcess(session.Process);
         }
 
+        return Task.CompletedTask;
+    }
+
+    private async Task PumpAsync(ConsoleSession session, Stream stream, bool isTerminal)
+    {
+        // A stateful decoder, multi-byte characters can be split between two reads
+        var decoder = Encoding.UTF8.GetDecoder();
+        var buffer = new byte[8192];
+        var chars = new char[Encoding.UTF8.GetMaxCharCount(buffer.Length)];
+
         try
         {
-            // On Linux, we can use stty to resize the terminal
-            if (!process.HasExited)
+            int read;
+            while ((read = await stream.ReadAsync(buffer)) > 0)
             {
-                await process.StandardInput.WriteLineAsync($"stty cols {cols} rows {rows}");
-                await process.StandardInput.FlushAsync();
+                var text = new string(chars, 0, decoder.GetChars(buffer, 0, read, chars, 0));
+                if (isTerminal)
+                {
+                    text = ExtractTtyPath(session, text);
+                }
+                else
+                {
+                    // Messages of ssh itself, outside of the PTY and without carriage returns
+                    var lastLine = text.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).LastOrDefault();
+                    if (lastLine != null)
+                    {
+                        session.LastError = lastLine;
+                    }
+                    text = text.Replace("\r\n", "\n").Replace("\n", "\r\n");
+                }
+
+                if (text.Length > 0)
+                {
+                    await session.Recorder.WriteOutputAsync(text);
+                    await session.Client.SendAsync("TerminalOutput", text);
+                }
             }
         }
         catch (Exception ex)
         {
-            _logger.LogWarning(ex, "Failed to resize terminal for connection {ConnectionId}", connectionId);
+            _logger.LogDebug(ex, "Output of console session {SessionId} ended", session.AuditId);
         }
     }
 
-    public async Task DisconnectAsync(string connectionId)
+    /// <summary>
+    /// Removes the PTY marker from the first output. Output before it is held back until the marker is
+    /// complete, it is printed before the shell starts.
+    /// </summary>
+    private static string ExtractTtyPath(ConsoleSession session, string text)
     {
-        Cleanup(connectionId);
-        await Task.CompletedTask;
-    }
+        if (session.MarkerSearchDone)
+        {
+            return text;
+        }
 
-    private async Task SendOutputAsync(string connectionId, string output)
-    {
-        if (_clientProxies.TryGetValue(connectionId, out var clientProxy))
+        session.PendingOutput.Append(text);
+        var pending = session.PendingOutput.ToString();
+
+        var start = pending.IndexOf(TtyMarkerStart, StringComparison.Ordinal);
+        var end = start >= 0 ? pending.IndexOf(TtyMarkerEnd, start) : -1;
+        if (end < 0)
         {
-            try
+            if (pending.Length <= MaxMarkerSearchLength)
             {
-                await clientProxy.SendAsync("TerminalOutput", output);
-            }
-            catch (Exception ex)
-            {
-                _logger.LogWarning(ex, "Error sending output to client {ConnectionId}, cleaning up", connectionId);
-                // If we can't send, the connection is likely dead, clean up
-                Cleanup(connectionId);
+                return string.Empty;
             }
+
+            // No marker, the session works without resizing
+            session.MarkerSearchDone = true;
+            session.PendingOutput.Clear();
+            return pending;
+        }
+
+        var path = pending.Substring(start + TtyMarkerStart.Length, end - start - TtyMarkerStart.Length).Trim();
+        if (TtyPathPattern.IsMatch(path))
+        {
+            session.TtyPath = path;
         }
+        session.MarkerSearchDone = true;
+        session.PendingOutput.Clear();
+
+        return pending.Remove(start, end - start + 1);
     }
 
-    private void Cleanup(string connectionId)
+    private async Task WaitForExitAsync(string connectionId, ConsoleSession session, Task outputTask, Task errorTask)
     {
-        if (_processes.TryGetValue(connectionId, out var process))
+        int? exitCode = null;
+        try
         {
-            try
+            await session.Process.WaitForExitAsync();
+            await Task.WhenAll(outputTask, errorTask);
+            exitCode = session.Process.ExitCode;
+
+            if (!session.ClosedByClient)
             {
-                if (!process.HasExited)
-                {
-                    process.Kill();
-                }
-                process.Dispose();
+                await session.Client.SendAsync("TerminalClosed", exitCode);
             }
-            catch (Exception ex)
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Failed to report the end of console session {SessionId}", session.AuditId);
+        }
+        finally
+        {
+            _sessions.TryRemove(new KeyValuePair<string, ConsoleSession>(connectionId, session));
+            session.Process.Dispose();
+            DeleteFiles(session.Agent, session.KeyPath);
+            await session.Recorder.DisposeAsync();
+        }
+
+        try
+        {
+            using var scope = _serviceScopeFactory.CreateScope();
+            var logContext = scope.ServiceProvider.GetRequiredService<LogDbContext>();
+            var audit = await logContext.TerminalSessions.FindAsync(session.AuditId);
+            if (audit != null)
             {
-                _logger.LogWarning(ex, "Error cleaning up terminal for connection {ConnectionId}", connectionId);
+                audit.endedAt = DateTime.UtcNow;
+                audit.exitCode = session.ClosedByClient ? null : exitCode;
+                // 255 is ssh failing itself, other codes come from the remote shell
+                audit.error = exitCode == 255 && !session.ClosedByClient ? Truncate(session.LastError, 1000) : null;
+                audit.recordingSize = session.Recorder.Size;
+                audit.recordingTruncated = session.Recorder.Truncated;
+                await logContext.SaveChangesAsync();
             }
-            finally
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to record the end of console session {SessionId}", session.AuditId);
+        }
+
+        _logger.LogInformation("Console session {SessionId} closed with exit code {ExitCode}", session.AuditId, exitCode);
+    }
+
+    private static List<string> BuildArguments(Agent agent, string keyPath, int cols, int rows)
+    {
+        var port = agent.rsyncPort > 0 ? agent.rsyncPort : 22;
+        var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
+
+        // -tt forces a PTY although stdin is a pipe, -e none makes ~ an ordinary character
+        var arguments = new List<string> { "-tt", "-e", "none", "-i", keyPath, "-p", port.ToString() };
+        arguments.AddRange(HostKeys.BuildSshOptions(agent, keyPath));
+        arguments.AddRange(JumpHosts.BuildSshOptions(agent, keyPath));
+        arguments.AddRange(new[]
+        {
+            "-o", $"ConnectTimeout={AgentSsh.ConnectTimeoutSeconds}",
+            "-o", "BatchMode=yes",
+            // A dead connection closes the tab instead of leaving it hanging
+            "-o", "ServerAliveInterval=30",
+            "-o", "ControlMaster=yes",
+            "-o", $"ControlPath={ControlPath(keyPath)}",
+            $"{user}{agent.hostname.Trim()}",
+            BuildRemoteCommand(cols, rows)
+        });
+
+        return arguments;
+    }
+
+    /// <summary>
+    /// Arguments of a command sent through the connection of a session, no new login happens.
+    /// </summary>
+    private static List<string> BuildControlArguments(ConsoleSession session, string command)
+    {
+        var agent = session.Agent;
+        var port = agent.rsyncPort > 0 ? agent.rsyncPort : 22;
+        var user = string.IsNullOrWhiteSpace(agent.rsyncUser) ? "" : $"{agent.rsyncUser}@";
+
+        return new List<string>
+        {
+            "-p", port.ToString(),
+            "-o", "ControlMaster=no",
+            "-o", $"ControlPath={ControlPath(session.KeyPath)}",
+            "-o", "BatchMode=yes",
+            $"{user}{agent.hostname.Trim()}",
+            command
+        };
+    }
+
+    /// <summary>
+    /// Sets the initial size, reports the PTY and replaces itself with the login shell of the user. Run
+    /// through sh, the login shell of the user may not be a POSIX shell.
+    /// </summary>
+    private static string BuildRemoteCommand(int cols, int rows)
+    {
+        return $"sh -c 'stty rows {rows} cols {cols} 2>/dev/null; printf \"\\033]7770;%s\\007\" \"$(tty)\"; exec \"${{SHELL:-/bin/sh}}\" -l'";
+    }
+
+    private void KillProcess(Process process)
+    {
+        try
+        {
+            if (!process.HasExited)
             {
-                _processes.Remove(connectionId);
-                _clientProxies.Remove(connectionId);
+                process.Kill(entireProcessTree: true);
             }
         }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Failed to stop a console ssh process");
+        }
+    }
+
+    private static void DeleteFiles(Agent agent, string keyPath)
+    {
+        TempFiles.Delete(keyPath);
+        HostKeys.DeleteKnownHostsFile(keyPath);
+        JumpHosts.DeleteFiles(agent, keyPath);
     }
-}
 
+    private static string ControlPath(string keyPath) => $"{keyPath}.ctl";
+
+    private static string? Truncate(string? value, int maxLength)
+    {
+        return value != null && value.Length > maxLength ? value[..maxLength] : value;
+    }
+}
@@ -0,0 +1,170 @@
+using System.Diagnostics;
+using server.Models;
+
+namespace server.Services;
+
+/// <summary>
+/// Detection of ZFS snapshots through the hidden ".zfs/snapshot" directory of a dataset.
+/// Every snapshot is mounted read-only at "&lt;dataset root&gt;/.zfs/snapshot/&lt;name&gt;", so a path
+/// inside a snapshot maps to its live copy by dropping that part.
+/// </summary>
+public static class ZfsSnapshots
+{
+    private const string SnapshotDirectory = "/.zfs/snapshot/";
+
+    // A hung zfs (e.g. a suspended pool) must not block the snapshot list
+    private static readonly TimeSpan ZfsListTimeout = TimeSpan.FromSeconds(5);
+
+    /// <summary>
+    /// Splits "/tank/backups/.zfs/snapshot/daily-1/host/etc" into snapshot "daily-1",
+    /// dataset root "/tank/backups" and live path "/tank/backups/host/etc".
+    /// </summary>
+    public static bool TryParseSnapshotPath(string path, out string snapshotName, out string datasetRoot, out string livePath)
+    {
+        snapshotName = string.Empty;
+        datasetRoot = string.Empty;
+        livePath = string.Empty;
+
+        var index = (path.TrimEnd('/') + "/").IndexOf(SnapshotDirectory, StringComparison.Ordinal);
+        if (index < 0)
+        {
+            return false;
+        }
+
+        var rest = path.Substring(Math.Min(path.Length, index + SnapshotDirectory.Length)).Trim('/');
+        if (rest.Length == 0)
+        {
+            return false;
+        }
+
+        var slash = rest.IndexOf('/');
+        snapshotName = slash < 0 ? rest : rest[..slash];
+        datasetRoot = index == 0 ? "/" : path[..index];
+        var relativePath = slash < 0 ? string.Empty : rest[(slash + 1)..];
+        livePath = CombinePath(datasetRoot, relativePath);
+        return true;
+    }
+
+    /// <summary>
+    /// Walks up from a live path to the mountpoint of its dataset, or null when the path is not on ZFS.
+    /// </summary>
+    public static string? FindDatasetRoot(string livePath)
+    {
+        var directory = new DirectoryInfo(livePath);
+        while (directory != null)
+        {
+            if (Directory.Exists(Path.Combine(directory.FullName, ".zfs", "snapshot")))
+            {
+                return directory.FullName;
+            }
+            directory = directory.Parent;
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Path of livePath as it exists inside the given snapshot of its dataset.
+    /// </summary>
+    public static string GetSnapshotPath(string datasetRoot, string snapshotName, string livePath)
+    {
+        var relativePath = Path.GetRelativePath(datasetRoot, livePath);
+        var snapshotRoot = CombinePath(datasetRoot, $".zfs/snapshot/{snapshotName}");
+        return relativePath == "." ? snapshotRoot : CombinePath(snapshotRoot, relativePath);
+    }
+
+    /// <summary>
+    /// Snapshots of the dataset containing livePath, newest first, with the location of livePath in each.
+    /// </summary>
+    public static List<ZfsSnapshot> ListSnapshots(string datasetRoot, string livePath, ILogger logger)
+    {
+        var snapshotDirectory = new DirectoryInfo(Path.Combine(datasetRoot, ".zfs", "snapshot"));
+        var creationTimes = GetCreationTimes(datasetRoot, logger);
+        var snapshots = new List<ZfsSnapshot>();
+
+        foreach (var directory in snapshotDirectory.GetDirectories())
+        {
+            var path = GetSnapshotPath(datasetRoot, directory.Name, livePath);
+            snapshots.Add(new ZfsSnapshot
+            {
+                Name = directory.Name,
+                // The mounted snapshot directory carries the dataset root's mtime, only used without the zfs command
+                CreatedAt = creationTimes.TryGetValue(directory.Name, out var createdAt) ? createdAt : directory.LastWriteTimeUtc,
+                Path = path,
+                Exists = Directory.Exists(path) || File.Exists(path)
+            });
+        }
+
+        return snapshots.OrderByDescending(s => s.CreatedAt).ToList();
+    }
+
+    /// <summary>
+    /// Snapshot creation times from "zfs list". Returns an empty map when the command is not available,
+    /// for example when the dataset is mounted over NFS from a TrueNAS box.
+    /// </summary>
+    private static Dictionary<string, DateTime> GetCreationTimes(string datasetRoot, ILogger logger)
+    {
+        var creationTimes = new Dictionary<string, DateTime>();
+        try
+        {
+            var processStartInfo = new ProcessStartInfo
+            {
+                FileName = "zfs",
+                Arguments = $"list -H -p -t snapshot -o name,creation -d 1 \"{datasetRoot}\"",
+                RedirectStandardOutput = true,
+                RedirectStandardError = true,
+                UseShellExecute = false,
+                CreateNoWindow = true
+            };
+
+            using var process = Process.Start(processStartInfo);
+            if (process == null)
+            {
+                return creationTimes;
+            }
+
+            // Read in the background, a synchronous read would wait for zfs however long it hangs
+            var outputTask = process.StandardOutput.ReadToEndAsync();
+            var errorTask = process.StandardError.ReadToEndAsync();
+
+            if (!process.WaitForExit(ZfsListTimeout))
+            {
+                process.Kill(entireProcessTree: true);
+                logger.LogWarning("zfs list timed out for {DatasetRoot}, using snapshot directory times", datasetRoot);
+                return creationTimes;
+            }
+
+            var output = outputTask.GetAwaiter().GetResult();
+            if (process.ExitCode != 0)
+            {
+                logger.LogDebug("zfs list failed for {DatasetRoot}: {Error}", datasetRoot, errorTask.GetAwaiter().GetResult().Trim());
+                return creationTimes;
+            }
+
+            // Lines look like "tank/backups@daily-1<TAB>1733900000"
+            foreach (var line in output.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+            {
+                var columns = line.Split('\t');
+                var at = columns[0].IndexOf('@');
+                if (columns.Length < 2 || at < 0 || !long.TryParse(columns[1], out var seconds))
+                {
+                    continue;
+                }
+                creationTimes[columns[0][(at + 1)..]] = DateTimeOffset.FromUnixTimeSeconds(seconds).UtcDateTime;
+            }
+        }
+        catch (Exception ex)
+        {
+            logger.LogDebug(ex, "zfs command not available, using snapshot directory times for {DatasetRoot}", datasetRoot);
+        }
+        return creationTimes;
+    }
+
+    private static string CombinePath(string root, string relativePath)
+    {
+        if (relativePath.Length == 0)
+        {
+            return root;
+        }
+        return root.TrimEnd('/') + "/" + relativePath.TrimStart('/');
+    }
+}